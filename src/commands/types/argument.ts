@@ -0,0 +1,465 @@
+/**
+ * DESIGN
+ * ------
+ * Declarative command arguments.
+ *
+ * Instead of hand-parsing `args: string[]` in every command, a command
+ * declares the arguments it expects. The framework parses and validates
+ * the raw tokens, and the handler receives a typed object:
+ *
+ *   ┌──────────────────────┐     ┌──────────────────┐     ┌──────────────────────┐
+ *   │  /give Steve 64      │ ──► │  [Arg.player(),  │ ──► │ { target: Player,    │
+ *   │  (raw tokens)        │     │   Arg.integer()] │     │   amount: 64 }       │
+ *   └──────────────────────┘     └──────────────────┘     └──────────────────────┘
+ *                                         │
+ *                                         ▼ (on failure)
+ *                                "§cPlayer not found: Steve"
+ *                                "§cUsage: /give <target> <amount>"
+ *
+ * ARGUMENT SHAPES:
+ *
+ *   ┌────────────────┬─────────┬─────────────────────────────────────┐
+ *   │ Factory        │ Tokens  │ Value                               │
+ *   ├────────────────┼─────────┼─────────────────────────────────────┤
+ *   │ Arg.string     │ 1       │ string                              │
+ *   │ Arg.greedy     │ rest    │ string (remaining tokens, joined)   │
+ *   │ Arg.integer    │ 1       │ number (whole, optional range)      │
+ *   │ Arg.double     │ 1       │ number (optional range)             │
+ *   │ Arg.boolean    │ 1       │ boolean (true/false, yes/no, on/off)│
+ *   │ Arg.enumValue  │ 1       │ enum constant (GameMode, Material…) │
+ *   │ Arg.player     │ 1       │ BukkitPlayer (online, exact name)   │
+ *   │ Arg.world      │ 1       │ BukkitWorld                         │
+ *   │ Arg.location   │ 3       │ BukkitLocation (x y z, ~ relative)  │
+ *   └────────────────┴─────────┴─────────────────────────────────────┘
+ *
+ * Arguments with a known value set (players, worlds, enums, booleans)
+ * also provide tab completions, so a command gets completions for free
+ * just by declaring its schema.
+ *
+ * TYPED HANDLERS:
+ * The argument name is part of the argument's type, so the parsed
+ * object can be derived from the schema with ArgsOf<>:
+ *
+ *   const giveArgs = [Arg.player("target"), optional(Arg.integer("amount"))] as const;
+ *   type GiveArgs = ArgsOf<typeof giveArgs>;
+ *   // { target: BukkitPlayer; amount: number | undefined }
+ */
+
+import { BukkitCommandSender } from "../../entities/types/commandSender";
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { BukkitLocation, createLocation } from "../../world/types/location";
+import { BukkitWorld } from "../../world/types/world";
+import { enumConstant, enumKeys, EnumRegistryValue } from "../../java/utils/enumHelper";
+
+// ============================================
+// RESULT
+// ============================================
+
+/**
+ * Outcome of parsing one argument.
+ *
+ * WHY A RESULT OBJECT INSTEAD OF THROWING: Bad input is the normal case
+ * for commands, not an exceptional one. Returning the error keeps parse()
+ * implementations free of try/catch, and leaves real exceptions (bugs)
+ * distinguishable from "the player typed 'abc' where a number goes".
+ */
+export type ArgumentResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+// ============================================
+// INTERFACE
+// ============================================
+
+/**
+ * A single declared command argument.
+ *
+ * @template T - Parsed value type
+ * @template N - Argument name (becomes the key in the parsed object)
+ */
+export interface CommandArgument<T = unknown, N extends string = string> {
+  /** Key of this argument in the parsed object, and label in usage text */
+  readonly name: N;
+
+  /** If true, a missing value parses to undefined instead of failing */
+  readonly optional: boolean;
+
+  /** If true, consumes every remaining token. Must be the last argument. */
+  readonly greedy: boolean;
+
+  /** Number of tokens consumed (ignored when greedy) */
+  readonly arity: number;
+
+  /**
+   * Convert raw tokens to the argument value.
+   *
+   * @param tokens Exactly `arity` tokens, or all remaining tokens if greedy
+   * @param sender Who ran the command (for relative values like ~ or "me")
+   */
+  parse(tokens: string[], sender: BukkitCommandSender): ArgumentResult<T>;
+
+  /**
+   * Suggest values for tab completion.
+   *
+   * Return every candidate - the framework filters by what the player
+   * has typed so far. Omit for free-form arguments (names, messages).
+   */
+  complete?(sender: BukkitCommandSender): string[];
+}
+
+/**
+ * Parsed value type of an argument.
+ */
+export type ArgumentValue<A> = A extends CommandArgument<infer T, string> ? T : never;
+
+/**
+ * Parsed object type of an argument schema.
+ *
+ * @example
+ * const schema = [Arg.string("name"), optional(Arg.world("world"))] as const;
+ * type Parsed = ArgsOf<typeof schema>;
+ * // { name: string; world: BukkitWorld | undefined }
+ */
+export type ArgsOf<A extends readonly CommandArgument<any, string>[]> = {
+  [K in A[number] as K["name"]]: ArgumentValue<K>;
+};
+
+// ============================================
+// OPTIONS
+// ============================================
+
+/**
+ * Range options for numeric arguments. Both bounds are inclusive.
+ */
+export interface NumberArgumentOptions {
+  min?: number;
+  max?: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function ok<T>(value: T): ArgumentResult<T> {
+  return { ok: true, value };
+}
+
+function fail<T>(error: string): ArgumentResult<T> {
+  return { ok: false, error };
+}
+
+function checkRange(name: string, value: number, options: NumberArgumentOptions): ArgumentResult<number> {
+  if (options.min !== undefined && value < options.min) {
+    return fail(`${name} must be at least ${options.min}, got ${value}`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    return fail(`${name} must be at most ${options.max}, got ${value}`);
+  }
+  return ok(value);
+}
+
+function single<T, N extends string>(
+  name: N,
+  parse: (token: string, sender: BukkitCommandSender) => ArgumentResult<T>,
+  complete?: (sender: BukkitCommandSender) => string[]
+): CommandArgument<T, N> {
+  return {
+    name,
+    optional: false,
+    greedy: false,
+    arity: 1,
+    parse: (tokens, sender) => parse(tokens[0], sender),
+    complete,
+  };
+}
+
+/**
+ * Names of all online players, for completion.
+ */
+export function onlinePlayerNames(): string[] {
+  const names: string[] = [];
+  const iter = org.bukkit.Bukkit.getOnlinePlayers().iterator();
+  while (iter.hasNext()) {
+    names.push(iter.next().getName());
+  }
+  return names;
+}
+
+/**
+ * Names of all loaded worlds, for completion.
+ */
+export function worldNames(): string[] {
+  const names: string[] = [];
+  const iter = org.bukkit.Bukkit.getWorlds().iterator();
+  while (iter.hasNext()) {
+    names.push(iter.next().getName());
+  }
+  return names;
+}
+
+const TRUE_WORDS = new Set(["true", "yes", "on", "y"]);
+const FALSE_WORDS = new Set(["false", "no", "off", "n"]);
+
+/**
+ * Parse one coordinate, supporting "~" and "~offset" relative to a base.
+ */
+function parseCoordinate(token: string, base: number | null): number | null {
+  if (token.startsWith("~")) {
+    if (base === null) return null;
+    const offset = token.length === 1 ? 0 : Number(token.slice(1));
+    return Number.isFinite(offset) ? base + offset : null;
+  }
+  const value = Number(token);
+  return token.length > 0 && Number.isFinite(value) ? value : null;
+}
+
+// ============================================
+// ARGUMENT FACTORIES
+// ============================================
+
+export const Arg = {
+  /**
+   * A single word.
+   *
+   * @example Arg.string("name")  // /warp set <name>
+   */
+  string<N extends string>(name: N): CommandArgument<string, N> {
+    return single(name, token => ok(token));
+  },
+
+  /**
+   * All remaining tokens joined with spaces. Must be the last argument.
+   *
+   * @example Arg.greedy("message")  // /broadcast <message...>
+   */
+  greedy<N extends string>(name: N): CommandArgument<string, N> {
+    return {
+      name,
+      optional: false,
+      greedy: true,
+      arity: 1,
+      parse: tokens => ok(tokens.join(" ")),
+    };
+  },
+
+  /**
+   * A whole number, optionally range-checked.
+   *
+   * @example Arg.integer("amount", { min: 1, max: 64 })
+   */
+  integer<N extends string>(name: N, options: NumberArgumentOptions = {}): CommandArgument<number, N> {
+    return single(name, token => {
+      if (!/^[-+]?\d+$/.test(token)) {
+        return fail(`${name} must be a whole number, got "${token}"`);
+      }
+      return checkRange(name, parseInt(token, 10), options);
+    });
+  },
+
+  /**
+   * A decimal number, optionally range-checked.
+   *
+   * @example Arg.double("speed", { min: 0, max: 10 })
+   */
+  double<N extends string>(name: N, options: NumberArgumentOptions = {}): CommandArgument<number, N> {
+    return single(name, token => {
+      const value = Number(token);
+      if (token.length === 0 || !Number.isFinite(value)) {
+        return fail(`${name} must be a number, got "${token}"`);
+      }
+      return checkRange(name, value, options);
+    });
+  },
+
+  /**
+   * true/false. Also accepts yes/no, on/off, y/n (case-insensitive).
+   *
+   * @example Arg.boolean("enabled")
+   */
+  boolean<N extends string>(name: N): CommandArgument<boolean, N> {
+    return single(name, token => {
+      const word = token.toLowerCase();
+      if (TRUE_WORDS.has(word)) return ok(true);
+      if (FALSE_WORDS.has(word)) return ok(false);
+      return fail(`${name} must be true or false, got "${token}"`);
+    }, () => ["true", "false"]);
+  },
+
+  /**
+   * A constant of an enum registry, matched case-insensitively by name.
+   *
+   * Works with plain registries (Material, Enchantment) and with
+   * createEnum() registries (GameMode, EntityType).
+   *
+   * @example
+   * Arg.enumValue("mode", GameMode)      // /gamemode <mode>
+   * Arg.enumValue("material", Material)  // /give <material>
+   */
+  enumValue<N extends string, R extends object>(name: N, registry: R): CommandArgument<EnumRegistryValue<R>, N> {
+    return single(name, token => {
+      const value = enumConstant(registry, token.toUpperCase());
+      return value !== undefined ? ok(value) : fail(`Unknown ${name}: ${token}`);
+    }, () => enumKeys(registry).map(key => key.toLowerCase()));
+  },
+
+  /**
+   * An online player, by exact name (case-insensitive).
+   *
+   * @example Arg.player("target")  // /heal <target>
+   */
+  player<N extends string>(name: N): CommandArgument<BukkitPlayer, N> {
+    return single(name, token => {
+      const player: BukkitPlayer | null = org.bukkit.Bukkit.getPlayerExact(token);
+      return player !== null ? ok(player) : fail(`Player not found: ${token}`);
+    }, onlinePlayerNames);
+  },
+
+  /**
+   * A loaded world, by name.
+   *
+   * @example Arg.world("world")  // /tpworld <world>
+   */
+  world<N extends string>(name: N): CommandArgument<BukkitWorld, N> {
+    return single(name, token => {
+      const world: BukkitWorld | null = org.bukkit.Bukkit.getWorld(token);
+      return world !== null ? ok(world) : fail(`World not found: ${token}`);
+    }, worldNames);
+  },
+
+  /**
+   * A position as three tokens: x y z.
+   *
+   * Each coordinate may be relative to the sender's position using "~"
+   * ("~" = same, "~5" = five more, "~-2" = two less), like vanilla
+   * commands. The world is the sender's world, or the main world when
+   * the sender has no location (console).
+   *
+   * @example Arg.location("pos")  // /setspawn <x y z>
+   */
+  location<N extends string>(name: N): CommandArgument<BukkitLocation, N> {
+    return {
+      name,
+      optional: false,
+      greedy: false,
+      arity: 3,
+      parse: (tokens, sender) => {
+        const origin: BukkitLocation | null =
+          typeof (sender as any).getLocation === "function" ? (sender as any).getLocation() : null;
+
+        const x = parseCoordinate(tokens[0], origin !== null ? origin.getX() : null);
+        const y = parseCoordinate(tokens[1], origin !== null ? origin.getY() : null);
+        const z = parseCoordinate(tokens[2], origin !== null ? origin.getZ() : null);
+
+        if (x === null || y === null || z === null) {
+          return fail(`${name} must be three coordinates, got "${tokens.join(" ")}"`);
+        }
+
+        const world: BukkitWorld | null =
+          origin !== null ? origin.getWorld() : org.bukkit.Bukkit.getWorlds().get(0);
+        return ok(createLocation(world, x, y, z));
+      },
+      complete: () => ["~"],
+    };
+  },
+};
+
+/**
+ * Make an argument optional. A missing value parses to undefined.
+ *
+ * Optional arguments should come after all required ones - the parser
+ * fills arguments left to right, it doesn't backtrack.
+ *
+ * @example
+ * optional(Arg.player("target"))  // /heal [target]
+ */
+export function optional<T, N extends string>(arg: CommandArgument<T, N>): CommandArgument<T | undefined, N> {
+  return { ...arg, optional: true };
+}
+
+// ============================================
+// SCHEMA PARSING
+// ============================================
+
+/**
+ * Usage text for an argument schema.
+ *
+ * @example
+ * formatArguments([Arg.player("target"), optional(Arg.integer("amount"))])
+ * // "<target> [amount]"
+ */
+export function formatArguments(schema: readonly CommandArgument<any, string>[]): string {
+  return schema
+    .map(arg => {
+      const label = arg.greedy ? `${arg.name}...` : arg.name;
+      return arg.optional ? `[${label}]` : `<${label}>`;
+    })
+    .join(" ");
+}
+
+/**
+ * Find which argument a token position belongs to.
+ *
+ * @param position Index of the token among the node's own tokens
+ * @returns The argument, or null if the position is past the schema
+ *
+ * @example
+ * // schema: <pos: x y z> <world>
+ * argumentAt(schema, 2);  // pos (its third token)
+ * argumentAt(schema, 3);  // world
+ */
+export function argumentAt(
+  schema: readonly CommandArgument<any, string>[],
+  position: number
+): CommandArgument<any, string> | null {
+  let index = 0;
+  for (const arg of schema) {
+    if (arg.greedy || position < index + arg.arity) return arg;
+    index += arg.arity;
+  }
+  return null;
+}
+
+/**
+ * Parse raw tokens against an argument schema.
+ *
+ * Arguments are filled left to right. A greedy argument takes everything
+ * left; an optional argument with no tokens left becomes undefined.
+ * Leftover tokens are an error, so typos like `/heal Steve extra` don't
+ * silently succeed.
+ *
+ * @returns The parsed object, or the first error encountered
+ */
+export function parseArguments(
+  schema: readonly CommandArgument<any, string>[],
+  tokens: string[],
+  sender: BukkitCommandSender
+): ArgumentResult<Record<string, unknown>> {
+  const values: Record<string, unknown> = {};
+  let index = 0;
+
+  for (const arg of schema) {
+    const remaining = tokens.length - index;
+    const needed = arg.greedy ? 1 : arg.arity;
+
+    if (remaining < needed) {
+      if (arg.optional) {
+        values[arg.name] = undefined;
+        continue;
+      }
+      return fail(`Missing argument: ${arg.name}`);
+    }
+
+    const taken = arg.greedy ? tokens.slice(index) : tokens.slice(index, index + arg.arity);
+    const result = arg.parse(taken, sender);
+    if (!result.ok) return result;
+
+    values[arg.name] = result.value;
+    index += taken.length;
+  }
+
+  if (index < tokens.length) {
+    return fail(`Too many arguments: ${tokens.slice(index).join(" ")}`);
+  }
+
+  return ok(values);
+}
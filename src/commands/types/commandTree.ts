@@ -0,0 +1,395 @@
+/**
+ * DESIGN
+ * ------
+ * A command and its sub-commands, as a tree.
+ *
+ * Bukkit only knows root commands (/warp). Sub-commands are just the
+ * first tokens of `args`, so the framework routes them itself:
+ *
+ *   /warp set home
+ *
+ *   ┌──────────────┐
+ *   │ warp (root)  │  ← registered with Bukkit
+ *   ├──────────────┤
+ *   │ ├── set      │  ← "set" matched, rest = ["home"]
+ *   │ │   <name>   │  ← parsed against the schema of "set"
+ *   │ ├── delete   │
+ *   │ └── list     │
+ *   └──────────────┘
+ *
+ * ROUTING RULES:
+ * - Walk down while the next token names a child (name or alias, any case).
+ * - The deepest node reached handles the remaining tokens.
+ * - A node without a handler answers with the usage of its children.
+ *
+ * GUARDS:
+ * Before a handler runs, every node on the path is checked:
+ * - permission: the sender needs the permission of each node walked
+ *   through, so "/warp delete" can require more than "/warp".
+ * - senders: the deepest node restricting senders decides who may run it
+ *   (e.g. only players), checked against the real Java type.
+ *
+ * RAW vs TYPED HANDLERS:
+ * A node with `args === null` is a plain @Command without a schema: its
+ * handler receives `string[]` and its return value goes back to Bukkit,
+ * exactly as before the schema support existed.
+ */
+
+import { BukkitCommandSender, getSenderKind, SenderKind } from "../../entities/types/commandSender";
+import { argumentAt, CommandArgument, formatArguments, parseArguments } from "./argument";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * Handler bound to a command node.
+ *
+ * @param sender Who ran the command
+ * @param args Parsed object for typed nodes, raw tokens for raw nodes
+ * @param raw The tokens this node received (after sub-command names)
+ * @returns false to let Bukkit print the usage message
+ */
+export type CommandHandler = (sender: BukkitCommandSender, args: any, raw: string[]) => boolean | void;
+
+/**
+ * Custom tab completer bound to a command node.
+ *
+ * @param sender Who is typing
+ * @param args The node's tokens so far; the last one is being typed (may be "")
+ * @returns Candidates for the last token, or null to fall back to the
+ *          completions derived from the argument schema
+ */
+export type TabCompleter = (sender: BukkitCommandSender, args: string[]) => string[] | null | void;
+
+export interface CommandNode {
+  /** Command or sub-command name, lowercase */
+  name: string;
+
+  /** Alternative names, lowercase */
+  aliases: string[];
+
+  /** Shown in generated help */
+  description: string;
+
+  /** Permission required to use this node and everything below it ("" = none) */
+  permission: string;
+
+  /** Sent when the permission check fails, or null for the default message */
+  permissionMessage: string | null;
+
+  /** Sender kinds allowed to run this node, or null to inherit from the parent */
+  senders: SenderKind[] | null;
+
+  /** Argument schema, or null for a raw `string[]` handler */
+  args: readonly CommandArgument<any, string>[] | null;
+
+  /** Handler, or null if this node only groups sub-commands */
+  handler: CommandHandler | null;
+
+  /** Custom completer from @TabComplete, or null for schema-derived completions */
+  completer: TabCompleter | null;
+
+  /** Sub-commands, in declaration order */
+  children: CommandNode[];
+}
+
+/**
+ * Result of walking the tree along the input tokens.
+ */
+export interface ResolvedCommand {
+  /** Deepest node reached */
+  node: CommandNode;
+
+  /** Sub-command names walked through, as declared (not as typed) */
+  path: string[];
+
+  /** Nodes walked through, from the root to `node` included */
+  nodes: CommandNode[];
+
+  /** Tokens left for the node's arguments */
+  rest: string[];
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Create an empty node.
+ *
+ * @example
+ * const warp = createCommandNode("warp");
+ */
+export function createCommandNode(name: string): CommandNode {
+  return {
+    name: name.toLowerCase(),
+    aliases: [],
+    description: "",
+    permission: "",
+    permissionMessage: null,
+    senders: null,
+    args: null,
+    handler: null,
+    completer: null,
+    children: [],
+  };
+}
+
+// ============================================
+// TREE UTILITIES
+// ============================================
+
+/**
+ * Find a direct child by name or alias (case-insensitive).
+ */
+export function findChild(node: CommandNode, token: string): CommandNode | null {
+  const name = token.toLowerCase();
+  for (const child of node.children) {
+    if (child.name === name || child.aliases.includes(name)) {
+      return child;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the node at a path, creating missing nodes along the way.
+ *
+ * @example
+ * const set = ensurePath(warp, ["set"]);
+ * set.handler = ...;
+ */
+export function ensurePath(root: CommandNode, path: string[]): CommandNode {
+  let node = root;
+  for (const segment of path) {
+    let child = node.children.find(c => c.name === segment.toLowerCase()) ?? null;
+    if (child === null) {
+      child = createCommandNode(segment);
+      node.children.push(child);
+    }
+    node = child;
+  }
+  return node;
+}
+
+/**
+ * Walk the tree along the input tokens.
+ *
+ * @example
+ * resolveCommand(warp, ["set", "home"]);
+ * // { node: <set>, path: ["set"], rest: ["home"] }
+ */
+export function resolveCommand(root: CommandNode, tokens: string[]): ResolvedCommand {
+  let node = root;
+  const path: string[] = [];
+  const nodes: CommandNode[] = [root];
+  let index = 0;
+
+  while (index < tokens.length) {
+    const child = findChild(node, tokens[index]);
+    if (child === null) break;
+    node = child;
+    path.push(child.name);
+    nodes.push(child);
+    index++;
+  }
+
+  return { node, path, nodes, rest: tokens.slice(index) };
+}
+
+/**
+ * Usage line for a node.
+ *
+ * @param label The root label (as typed, or the command name)
+ * @param path Sub-command names leading to the node
+ *
+ * @example
+ * formatUsage("warp", ["set"], setNode);  // "/warp set <name>"
+ */
+export function formatUsage(label: string, path: string[], node: CommandNode): string {
+  const parts = [`/${label}`, ...path];
+  if (node.args !== null && node.args.length > 0) {
+    parts.push(formatArguments(node.args));
+  } else if (node.handler === null && node.children.length > 0) {
+    parts.push(`<${node.children.map(c => c.name).join("|")}>`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Send the usage of every sub-command below a node.
+ */
+export function sendSubCommandHelp(
+  sender: BukkitCommandSender,
+  label: string,
+  path: string[],
+  node: CommandNode
+): void {
+  for (const child of node.children) {
+    if (!hasNodePermission(sender, child)) continue;
+    const usage = formatUsage(label, [...path, child.name], child);
+    sender.sendMessage(child.description ? `§e${usage} §7- ${child.description}` : `§e${usage}`);
+  }
+}
+
+// ============================================
+// GUARDS
+// ============================================
+
+/** Default message when a permission check fails */
+export const DEFAULT_PERMISSION_MESSAGE = "§cYou don't have permission to use this command.";
+
+const SENDER_LABELS: Record<SenderKind, string> = {
+  player: "players",
+  console: "the console",
+  block: "command blocks",
+};
+
+/**
+ * Check the permission of a single node.
+ */
+export function hasNodePermission(sender: BukkitCommandSender, node: CommandNode): boolean {
+  return node.permission === "" || sender.hasPermission(node.permission);
+}
+
+/**
+ * Check permissions and sender restrictions along a resolved path.
+ *
+ * @returns The message to send if the sender is rejected, or null if allowed
+ */
+export function checkGuards(sender: BukkitCommandSender, nodes: CommandNode[]): string | null {
+  for (const node of nodes) {
+    if (!hasNodePermission(sender, node)) {
+      return node.permissionMessage ?? DEFAULT_PERMISSION_MESSAGE;
+    }
+  }
+
+  /* The deepest node with a restriction wins */
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const senders = nodes[i].senders;
+    if (senders === null) continue;
+
+    const kind = getSenderKind(sender);
+    if (kind !== null && senders.includes(kind)) return null;
+    return `§cThis command can only be used by ${senders.map(s => SENDER_LABELS[s]).join(" or ")}.`;
+  }
+
+  return null;
+}
+
+// ============================================
+// DISPATCH
+// ============================================
+
+/**
+ * Route a command invocation to the right handler.
+ *
+ * Rejected senders get the guard message, parse errors are reported
+ * together with the usage line - handlers only ever see allowed senders
+ * and valid input.
+ *
+ * @param root The root node registered with Bukkit
+ * @param sender Who ran the command
+ * @param label Label used to run the command (name or alias)
+ * @param tokens Raw arguments from Bukkit
+ * @returns Value to hand back to Bukkit (false = print usageMessage)
+ */
+export function dispatchCommand(
+  root: CommandNode,
+  sender: BukkitCommandSender,
+  label: string,
+  tokens: string[]
+): boolean {
+  const { node, path, nodes, rest } = resolveCommand(root, tokens);
+
+  const rejection = checkGuards(sender, nodes);
+  if (rejection !== null) {
+    sender.sendMessage(rejection);
+    return true;
+  }
+
+  if (node.handler === null) {
+    if (rest.length > 0) {
+      sender.sendMessage(`§cUnknown sub-command: ${rest[0]}`);
+    }
+    sendSubCommandHelp(sender, label, path, node);
+    return true;
+  }
+
+  if (node.args === null) {
+    return node.handler(sender, rest, rest) !== false;
+  }
+
+  const parsed = parseArguments(node.args, rest, sender);
+  if (!parsed.ok) {
+    sender.sendMessage(`§c${parsed.error}`);
+    sender.sendMessage(`§cUsage: ${formatUsage(label, path, node)}`);
+    return true;
+  }
+
+  return node.handler(sender, parsed.value, rest) !== false;
+}
+
+// ============================================
+// TAB COMPLETION
+// ============================================
+
+/**
+ * Keep candidates starting with the typed prefix (case-insensitive).
+ */
+function filterByPrefix(candidates: string[], prefix: string): string[] {
+  const lower = prefix.toLowerCase();
+  return candidates.filter(candidate => candidate.toLowerCase().startsWith(lower));
+}
+
+/**
+ * Tab completions for a command invocation.
+ *
+ * Sources, in order:
+ *   1. Sub-command names and aliases, while the player is still choosing one
+ *   2. The node's @TabComplete handler, if it returns a list
+ *   3. The complete() of the argument being typed, from the schema
+ *
+ * @param root The root node registered with Bukkit
+ * @param sender Who is typing
+ * @param tokens Raw arguments from Bukkit; the last one is being typed
+ * @returns Matching candidates for the last token
+ *
+ * @example
+ * completeCommand(warp, sender, ["se"]);  // ["set"]
+ * completeCommand(tp, sender, ["St"]);    // ["Steve", "Stella"] (online players)
+ */
+export function completeCommand(
+  root: CommandNode,
+  sender: BukkitCommandSender,
+  tokens: string[]
+): string[] {
+  const typed = tokens.length > 0 ? tokens[tokens.length - 1] : "";
+  const { node, nodes, rest } = resolveCommand(root, tokens.slice(0, -1));
+  const own = [...rest, typed];
+  const candidates: string[] = [];
+
+  /* Don't leak arguments of commands the sender can't run */
+  if (checkGuards(sender, nodes) !== null) return [];
+
+  if (rest.length === 0) {
+    for (const child of node.children) {
+      if (hasNodePermission(sender, child)) {
+        candidates.push(child.name, ...child.aliases);
+      }
+    }
+  }
+
+  const custom = node.completer !== null ? node.completer(sender, own) : null;
+  if (custom) {
+    candidates.push(...custom);
+  } else if (node.args !== null) {
+    const arg = argumentAt(node.args, rest.length);
+    if (arg !== null && arg.complete !== undefined) {
+      candidates.push(...arg.complete(sender));
+    }
+  }
+
+  return filterByPrefix(candidates, typed);
+}
@@ -0,0 +1,608 @@
+/**
+ * DESIGN
+ * ------
+ * Typed plugin configuration declared as a schema.
+ *
+ * Reading settings through raw `config.getInt("game.max-players")` calls
+ * means typos in paths, no defaults on first run and no feedback when an
+ * admin writes "sixteen" instead of 16. Instead, the plugin declares what
+ * it expects once:
+ *
+ *   const settings = defineConfig({
+ *     game: {
+ *       "max-players": Config.integer({ default: 16, min: 2, max: 100 }),
+ *       "start-item": Config.enumValue(Material, { default: "COMPASS" }),
+ *       spawn: Config.location({ default: { world: "world", x: 0, y: 64, z: 0 } }),
+ *     },
+ *     banned: Config.list(Config.string(), { default: [] }),
+ *   });
+ *
+ *   settings.load();
+ *   settings.values.game["max-players"];  // number
+ *   settings.values.game["start-item"];   // BukkitMaterial
+ *
+ * LOAD FLOW:
+ *
+ *   config.yml ──→ missing keys? ──→ write defaults ──→ validate each field
+ *                                       (first run)         │
+ *                                                  ┌────────┴────────┐
+ *                                                valid            invalid
+ *                                                  │                 │
+ *                                             use value      report "path: message",
+ *                                                            use the default
+ *
+ * NO VALID DEFAULT:
+ * Most defaults are checked when the field is declared: an integer
+ * default above its max is a bug, and throws right away. Two kinds can
+ * only be checked at load time: a location (its world may not be
+ * loaded) and a notEmpty string without a default. Such a field is
+ * reported like any invalid setting and left unset instead of failing
+ * the whole load - and its type says so:
+ *
+ *   Config.location({ ... })          → BukkitLocation | undefined
+ *   Config.string({ notEmpty: true }) → string | undefined
+ *   Config.list(Config.location(...)) → readonly BukkitLocation[] | undefined
+ *
+ * RELOAD:
+ * reload() re-reads the file and validates again. A field that became
+ * invalid KEEPS ITS CURRENT VALUE instead of falling back to the default:
+ * a typo while the server is running shouldn't reset a working setting.
+ *
+ * WHY FIELDS PARSE PLAIN VALUES: The raw file is converted to plain JS
+ * (arrays, objects, primitives) first. Fields never see Java lists or
+ * ConfigurationSections, and defaults go through the very same parse()
+ * as file values - a default can't silently have the wrong shape.
+ */
+
+import { enumConstant, enumKeys, EnumRegistryValue } from "../../java/utils/enumHelper";
+import { BukkitWorld } from "../../world/types/world";
+import { BukkitLocation } from "../../world/types/location";
+import {
+  BukkitFileConfiguration,
+  loadYamlFile,
+  saveYamlFile,
+  setPlainValue,
+  toPlainValue,
+} from "./fileConfiguration";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Outcome of parsing one value.
+ *
+ * @property at Path suffix of the failing element (e.g. "[2]" in a list)
+ */
+export type ConfigParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string; at?: string };
+
+/**
+ * One setting in the schema.
+ *
+ * @typeParam T Type exposed to the plugin (e.g. BukkitMaterial)
+ * @typeParam P Plain type stored in the file (e.g. "DIAMOND")
+ */
+export interface ConfigField<T, P = unknown> {
+  /** Brand, to tell fields from nested sections */
+  readonly [CONFIG_FIELD]: true;
+
+  /** Written to the file when the key is missing */
+  readonly defaultValue: P;
+
+  /**
+   * True if the default can only be checked at load time. If it is
+   * invalid then, the value is left unset (T includes undefined).
+   */
+  readonly deferredDefault: boolean;
+
+  /** Validate and convert a plain value read from the file */
+  parse(value: unknown): ConfigParseResult<T>;
+}
+
+/**
+ * A section of the schema: fields and nested sections by key.
+ */
+export interface ConfigSchema {
+  readonly [key: string]: ConfigField<any> | ConfigSchema;
+}
+
+/**
+ * Typed values of a schema.
+ */
+export type ConfigValues<S extends ConfigSchema> = {
+  readonly [K in keyof S]: S[K] extends ConfigField<infer T, any>
+    ? T
+    : S[K] extends ConfigSchema
+      ? ConfigValues<S[K]>
+      : never;
+};
+
+/**
+ * A validation problem, with the full path of the setting.
+ */
+export interface ConfigIssue {
+  /** Dotted path, e.g. "game.max-players" or "banned[2]" */
+  path: string;
+
+  /** What's wrong, e.g. "must be at most 100 (got 500)" */
+  message: string;
+}
+
+/**
+ * Location as written in the file.
+ */
+export interface ConfigLocation {
+  world: string;
+  x: number;
+  y: number;
+  z: number;
+  yaw?: number;
+  pitch?: number;
+}
+
+/**
+ * Keys of an enum registry (Material, EntityType, ...) that name constants.
+ */
+export type EnumRegistryKey<R> = {
+  [K in keyof R]: R[K] extends { name(): string } ? K : never;
+}[keyof R] & string;
+
+export interface NumberFieldOptions {
+  default: number;
+  min?: number;
+  max?: number;
+}
+
+export interface DefineConfigOptions {
+  /** File in the plugin's data folder. Default "config.yml" */
+  file?: string;
+}
+
+/**
+ * A loaded configuration file.
+ */
+export interface PluginConfig<S extends ConfigSchema> {
+  /** File in the plugin's data folder */
+  readonly file: string;
+
+  /** Current values. Throws if load() was never called. */
+  readonly values: ConfigValues<S>;
+
+  /** Problems found by the last load() or reload() */
+  readonly issues: readonly ConfigIssue[];
+
+  /**
+   * Read the file, writing missing defaults, and validate it.
+   * Invalid settings fall back to their defaults, or stay unset if the
+   * default is invalid too.
+   */
+  load(): ConfigIssue[];
+
+  /**
+   * Read the file again and re-validate.
+   * Invalid settings keep their current value.
+   */
+  reload(): ConfigIssue[];
+
+  /**
+   * Run a callback after every successful load()/reload().
+   * @returns Function removing the callback
+   */
+  onReload(listener: (values: ConfigValues<S>) => void): () => void;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CONFIG_FIELD = Symbol("configField");
+
+// ============================================
+// HELPERS
+// ============================================
+
+function ok<T>(value: T): ConfigParseResult<T> {
+  return { ok: true, value };
+}
+
+function fail<T>(error: string, at?: string): ConfigParseResult<T> {
+  return { ok: false, error, at };
+}
+
+/**
+ * Show a plain value in an error message.
+ */
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return "nothing";
+  if (typeof value === "string") return `"${value}"`;
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "object") return "a section";
+  return String(value);
+}
+
+/**
+ * Create a field. Unless the default is deferred, it is parsed now.
+ *
+ * @throws Error if a non-deferred default is invalid (a bug in the schema)
+ */
+function field<T, P>(
+  defaultValue: P,
+  parse: (value: unknown) => ConfigParseResult<T>,
+  deferredDefault = false
+): ConfigField<T, P> {
+  if (!deferredDefault) {
+    const parsed = parse(defaultValue);
+    if (!parsed.ok) {
+      throw new Error(`Invalid config default ${describe(defaultValue)}${parsed.at ?? ""}: ${parsed.error}`);
+    }
+  }
+  return { [CONFIG_FIELD]: true, defaultValue, deferredDefault, parse };
+}
+
+function isConfigField(value: ConfigField<any> | ConfigSchema): value is ConfigField<any> {
+  return typeof value === "object" && value !== null && CONFIG_FIELD in value;
+}
+
+/**
+ * Config.string(). Without a default, notEmpty can only fail at load
+ * time, so the value type includes undefined.
+ */
+function stringField(options: { default: string; notEmpty?: boolean }): ConfigField<string, string>;
+function stringField(options?: { default?: undefined; notEmpty?: false }): ConfigField<string, string>;
+function stringField(options: { default?: undefined; notEmpty: boolean }): ConfigField<string | undefined, string>;
+function stringField(
+  options: { default?: string; notEmpty?: boolean } = {}
+): ConfigField<string | undefined, string> {
+  return field(options.default ?? "", value => {
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      return fail(`must be text (got ${describe(value)})`);
+    }
+    const text = String(value);
+    if (options.notEmpty && text.trim() === "") {
+      return fail("must not be empty");
+    }
+    return ok(text);
+  }, options.default === undefined && options.notEmpty === true);
+}
+
+function checkRange(value: number, options: NumberFieldOptions): ConfigParseResult<number> {
+  if (options.min !== undefined && value < options.min) {
+    return fail(`must be at least ${options.min} (got ${value})`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    return fail(`must be at most ${options.max} (got ${value})`);
+  }
+  return ok(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// ============================================
+// FIELD FACTORIES
+// ============================================
+
+/**
+ * Field factories for defineConfig() schemas.
+ */
+export const Config = {
+  /**
+   * A whole number.
+   *
+   * @example Config.integer({ default: 16, min: 2, max: 100 })
+   */
+  integer(options: NumberFieldOptions): ConfigField<number, number> {
+    return field(options.default, value => {
+      if (!isNumber(value) || !Number.isInteger(value)) {
+        return fail(`must be a whole number (got ${describe(value)})`);
+      }
+      return checkRange(value, options);
+    });
+  },
+
+  /**
+   * Any number.
+   *
+   * @example Config.number({ default: 0.5, min: 0, max: 1 })
+   */
+  number(options: NumberFieldOptions): ConfigField<number, number> {
+    return field(options.default, value => {
+      if (!isNumber(value)) {
+        return fail(`must be a number (got ${describe(value)})`);
+      }
+      return checkRange(value, options);
+    });
+  },
+
+  /**
+   * Text. Numbers and booleans are accepted and converted, since YAML
+   * turns unquoted `version: 1.0` into a number.
+   *
+   * notEmpty without a default makes the admin fill it in: until then
+   * the value is undefined and the load reports it.
+   *
+   * @example Config.string({ default: "§6Welcome!" })
+   */
+  string: stringField,
+
+  /**
+   * true or false.
+   *
+   * @example Config.boolean({ default: true })
+   */
+  boolean(options: { default?: boolean } = {}): ConfigField<boolean, boolean> {
+    return field(options.default ?? false, value =>
+      typeof value === "boolean" ? ok(value) : fail(`must be true or false (got ${describe(value)})`)
+    );
+  },
+
+  /**
+   * A constant of an enum registry, by name (case-insensitive).
+   * Works with plain registries (Material) and createEnum() ones (EntityType).
+   *
+   * @example Config.enumValue(EntityType, { default: "ZOMBIE" })
+   */
+  enumValue<R extends object>(
+    registry: R,
+    options: { default: EnumRegistryKey<R> }
+  ): ConfigField<EnumRegistryValue<R>, string> {
+    return field(options.default, value => {
+      const key = typeof value === "string" ? value.toUpperCase().replace(/[\s-]/g, "_") : "";
+      const constant = enumConstant(registry, key);
+      if (constant === undefined) {
+        const known = enumKeys(registry);
+        const hint = known.length > 0 && known.length <= 10 ? ` (one of: ${known.join(", ")})` : "";
+        return fail(`unknown value ${describe(value)}${hint}`);
+      }
+      return ok(constant);
+    });
+  },
+
+  /**
+   * A list of values of one field type.
+   * Errors point at the failing element: "banned[2]: must be text".
+   *
+   * @example Config.list(Config.enumValue(Material, { default: "STONE" }), { default: ["DIRT"] })
+   */
+  list<T, P>(
+    item: ConfigField<T, P>,
+    options: { default?: P[] } = {}
+  ): ConfigField<readonly Exclude<T, undefined>[] | Extract<T, undefined>, P[]> {
+    return field(options.default ?? [], value => {
+      if (!Array.isArray(value)) {
+        return fail(`must be a list (got ${describe(value)})`);
+      }
+      const result: Exclude<T, undefined>[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const parsed = item.parse(value[i]);
+        if (!parsed.ok) return fail(parsed.error, `[${i}]${parsed.at ?? ""}`);
+        result.push(parsed.value as Exclude<T, undefined>);
+      }
+      return ok(result);
+    }, item.deferredDefault);
+  },
+
+  /**
+   * A location, stored as a section with world, x, y, z and optional
+   * yaw/pitch. The world must be loaded when the config is loaded;
+   * if the default's world isn't, the value is left undefined.
+   *
+   * @example Config.location({ default: { world: "world", x: 0.5, y: 64, z: 0.5 } })
+   */
+  location(options: { default: ConfigLocation }): ConfigField<BukkitLocation | undefined, ConfigLocation> {
+    return field(options.default, value => {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return fail(`must be a section with world, x, y, z (got ${describe(value)})`);
+      }
+      const raw = value as Record<string, unknown>;
+
+      for (const axis of ["x", "y", "z"]) {
+        if (!isNumber(raw[axis])) return fail(`must be a number (got ${describe(raw[axis])})`, `.${axis}`);
+      }
+      for (const angle of ["yaw", "pitch"]) {
+        if (raw[angle] !== undefined && raw[angle] !== null && !isNumber(raw[angle])) {
+          return fail(`must be a number (got ${describe(raw[angle])})`, `.${angle}`);
+        }
+      }
+      if (typeof raw.world !== "string") {
+        return fail(`must be a world name (got ${describe(raw.world)})`, ".world");
+      }
+
+      const world: BukkitWorld | null = org.bukkit.Bukkit.getWorld(raw.world);
+      if (world === null) {
+        return fail(`world "${raw.world}" is not loaded`, ".world");
+      }
+
+      return ok(new org.bukkit.Location(
+        world,
+        raw.x,
+        raw.y,
+        raw.z,
+        (raw.yaw as number | undefined) ?? 0,
+        (raw.pitch as number | undefined) ?? 0
+      ));
+    }, true);
+  },
+};
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Walk a schema, calling back for every field with its full path.
+ */
+function forEachField(
+  schema: ConfigSchema,
+  prefix: string,
+  callback: (path: string, field: ConfigField<any>) => void
+): void {
+  for (const [key, entry] of Object.entries(schema)) {
+    const path = prefix === "" ? key : `${prefix}.${key}`;
+    if (isConfigField(entry)) {
+      callback(path, entry);
+    } else {
+      forEachField(entry, path, callback);
+    }
+  }
+}
+
+/**
+ * Store a value in a nested object by dotted path.
+ */
+function assignPath(target: Record<string, any>, path: string, value: unknown): void {
+  const segments = path.split(".");
+  let node = target;
+  for (const segment of segments.slice(0, -1)) {
+    node[segment] ??= {};
+    node = node[segment];
+  }
+  node[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Read a value from a nested object by dotted path.
+ */
+function readPath(source: Record<string, any>, path: string): unknown {
+  let node: any = source;
+  for (const segment of path.split(".")) {
+    if (node === null || typeof node !== "object") return undefined;
+    node = node[segment];
+  }
+  return node;
+}
+
+/**
+ * Freeze a nested values object, so plugin code can't change settings
+ * by accident (and diverge from the file).
+ */
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    for (const child of Object.values(value as object)) deepFreeze(child);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Declare the plugin's configuration.
+ *
+ * Nothing is read until load() - call it from onEnable(), once worlds
+ * exist (location fields need them).
+ *
+ * @example
+ * const settings = defineConfig({
+ *   "join-message": Config.string({ default: "§eWelcome, {player}!" }),
+ *   "max-homes": Config.integer({ default: 3, min: 0 }),
+ * });
+ *
+ * class Homes extends PaperPlugin {
+ *   protected onEnable(): void {
+ *     settings.load();
+ *   }
+ *
+ *   @Command({ name: "homesreload", permission: "homes.admin" })
+ *   reload(sender: BukkitCommandSender) {
+ *     const issues = settings.reload();
+ *     sender.sendMessage(issues.length === 0 ? "§aReloaded." : `§c${issues.length} problem(s), see console.`);
+ *   }
+ * }
+ */
+export function defineConfig<S extends ConfigSchema>(
+  schema: S,
+  options: DefineConfigOptions = {}
+): PluginConfig<S> {
+  const file = options.file ?? "config.yml";
+  const listeners: Array<(values: ConfigValues<S>) => void> = [];
+  let current: ConfigValues<S> | null = null;
+  let issues: ConfigIssue[] = [];
+
+  function read(keepCurrent: boolean): ConfigIssue[] {
+    const config: BukkitFileConfiguration = loadYamlFile(file);
+    const found: ConfigIssue[] = [];
+    const values: Record<string, any> = {};
+    let wroteDefaults = false;
+
+    forEachField(schema, "", (path, entry) => {
+      if (!config.isSet(path)) {
+        setPlainValue(config, path, entry.defaultValue);
+        wroteDefaults = true;
+      }
+
+      const parsed = entry.parse(toPlainValue(config.get(path)));
+      if (parsed.ok) {
+        assignPath(values, path, parsed.value);
+        return;
+      }
+
+      const issue: ConfigIssue = { path: path + (parsed.at ?? ""), message: parsed.error };
+      found.push(issue);
+
+      if (keepCurrent && current !== null) {
+        assignPath(values, path, readPath(current, path));
+        return;
+      }
+
+      const fallback = entry.parse(entry.defaultValue);
+      if (fallback.ok) {
+        assignPath(values, path, fallback.value);
+      } else {
+        /* No usable default either (e.g. its world isn't loaded): leave it unset */
+        issue.message += fallback.error === parsed.error
+          ? " (so is the default; left unset)"
+          : ` (default invalid too: ${fallback.error}; left unset)`;
+      }
+    });
+
+    if (wroteDefaults) {
+      saveYamlFile(config, file);
+    }
+
+    const logger = PaperTS.getJavaPlugin().getLogger();
+    for (const issue of found) {
+      logger.warning(`${file}: ${issue.path}: ${issue.message}`);
+    }
+
+    current = deepFreeze(values) as ConfigValues<S>;
+    issues = found;
+
+    for (const listener of listeners) {
+      listener(current);
+    }
+    return found;
+  }
+
+  return {
+    file,
+
+    get values(): ConfigValues<S> {
+      if (current === null) {
+        throw new Error(`${file} was used before load()`);
+      }
+      return current;
+    },
+
+    get issues(): readonly ConfigIssue[] {
+      return issues;
+    },
+
+    load: () => read(false),
+
+    reload: () => read(true),
+
+    onReload(listener: (values: ConfigValues<S>) => void): () => void {
+      listeners.push(listener);
+      return () => {
+        const index = listeners.indexOf(listener);
+        if (index >= 0) listeners.splice(index, 1);
+      };
+    },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * DESIGN
+ * ------
+ * Bukkit's YAML configuration API.
+ *
+ * A configuration is a tree of sections addressed by dotted paths:
+ *
+ *   config.yml                      path               value
+ *   ─────────────────────────       ────────────────   ─────────────
+ *   game:                           game               (section)
+ *     max-players: 16               game.max-players   16
+ *     spawn:                        game.spawn         (section)
+ *       world: world                game.spawn.world   "world"
+ *   banned:                         banned             ["Notch"]
+ *     - Notch
+ *
+ * VALUES CROSSING THE BRIDGE:
+ * - Numbers, strings and booleans arrive as JS primitives
+ * - Lists arrive as java.util.List (use toArray() or getStringList())
+ * - Nested maps arrive as ConfigurationSection
+ *
+ * LOADING AND SAVING:
+ * YamlConfiguration.loadConfiguration(file) never throws: a missing or
+ * broken file yields an empty configuration (and a console warning).
+ * save(file) writes the whole tree back, creating the file if needed.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/configuration/ConfigurationSection.html
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/configuration/file/YamlConfiguration.html
+ */
+
+import { JavaList } from "../../java/types/list";
+import { JavaSet } from "../../java/types/set";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * A section of a configuration (or the whole configuration).
+ */
+export interface BukkitConfigurationSection {
+  /**
+   * Gets the keys of this section.
+   * @param deep If true, include keys of nested sections as dotted paths
+   */
+  getKeys(deep: boolean): JavaSet<string>;
+
+  /** True if this section contains the path (including defaults). */
+  contains(path: string): boolean;
+
+  /** True if the path is set in this section (defaults ignored). */
+  isSet(path: string): boolean;
+
+  /** Path of this section from the root ("" for the root). */
+  getCurrentPath(): string;
+
+  /** Name of this section (last path element). */
+  getName(): string;
+
+  /** Gets the raw value at a path, or null. */
+  get(path: string): any;
+
+  /** Gets the raw value at a path, or the fallback. */
+  get(path: string, def: any): any;
+
+  /**
+   * Sets a value. null removes the path.
+   * Arrays must be Java lists; nested sections are created as needed.
+   */
+  set(path: string, value: any): void;
+
+  /** Creates an empty section at the path. */
+  createSection(path: string): BukkitConfigurationSection;
+
+  getString(path: string): string | null;
+  getString(path: string, def: string | null): string | null;
+  isString(path: string): boolean;
+
+  getInt(path: string): number;
+  getInt(path: string, def: number): number;
+  isInt(path: string): boolean;
+
+  getDouble(path: string): number;
+  getDouble(path: string, def: number): number;
+  isDouble(path: string): boolean;
+
+  getBoolean(path: string): boolean;
+  getBoolean(path: string, def: boolean): boolean;
+  isBoolean(path: string): boolean;
+
+  getList(path: string): JavaList<any> | null;
+  isList(path: string): boolean;
+  getStringList(path: string): JavaList<string>;
+
+  /** Gets a nested section, or null if the path isn't a section. */
+  getConfigurationSection(path: string): BukkitConfigurationSection | null;
+  isConfigurationSection(path: string): boolean;
+
+  /** Sets a default value, used when the path is not set. */
+  addDefault(path: string, value: any): void;
+}
+
+/**
+ * Options of a file configuration.
+ */
+export interface BukkitFileConfigurationOptions {
+  /** Copy defaults into the configuration when saving. */
+  copyDefaults(value: boolean): BukkitFileConfigurationOptions;
+
+  /** Text written above the first key. */
+  setHeader(lines: JavaList<string> | null): BukkitFileConfigurationOptions;
+}
+
+/**
+ * A configuration backed by a file.
+ */
+export interface BukkitFileConfiguration extends BukkitConfigurationSection {
+  /** Saves to a file (java.io.File), creating it if needed. */
+  save(file: any /* JavaFile */): void;
+
+  /** Serializes to a YAML string. */
+  saveToString(): string;
+
+  /** Replaces the contents with a YAML string. */
+  loadFromString(contents: string): void;
+
+  options(): BukkitFileConfigurationOptions;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Load a YAML file from the plugin's data folder.
+ *
+ * @param fileName Path relative to plugins/<name>/
+ * @returns The configuration (empty if the file doesn't exist)
+ *
+ * @example
+ * const arenas = loadYamlFile("arenas.yml");
+ */
+export function loadYamlFile(fileName: string): BukkitFileConfiguration {
+  return org.bukkit.configuration.file.YamlConfiguration.loadConfiguration(dataFile(fileName));
+}
+
+/**
+ * Save a configuration to the plugin's data folder, creating folders.
+ *
+ * @param fileName Path relative to plugins/<name>/
+ */
+export function saveYamlFile(config: BukkitFileConfiguration, fileName: string): void {
+  const file = dataFile(fileName);
+  file.getParentFile().mkdirs();
+  config.save(file);
+}
+
+/**
+ * Check if a file exists in the plugin's data folder.
+ */
+export function dataFileExists(fileName: string): boolean {
+  return dataFile(fileName).exists();
+}
+
+/**
+ * java.io.File for a path in the plugin's data folder.
+ */
+function dataFile(fileName: string): any /* JavaFile */ {
+  return new java.io.File(PaperTS.getJavaPlugin().getDataFolder(), fileName);
+}
+
+/**
+ * Convert a raw configuration value to plain JS.
+ *
+ * Java lists become arrays and sections become objects, recursively,
+ * so values can be validated without caring about Java types.
+ *
+ * @example
+ * toPlainValue(config.get("game"));
+ * // { "max-players": 16, spawn: { world: "world" } }
+ */
+export function toPlainValue(value: any): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(toPlainValue);
+
+  if (typeof value.getKeys === "function" && typeof value.getCurrentPath === "function") {
+    const result: Record<string, unknown> = {};
+    for (const key of value.getKeys(false).toArray() as string[]) {
+      result[key] = toPlainValue(value.get(key));
+    }
+    return result;
+  }
+
+  if (typeof value.toArray === "function") {
+    return Array.from(value.toArray(), toPlainValue);
+  }
+
+  return value;
+}
+
+/**
+ * Convert a plain JS value to something set() accepts.
+ * Arrays become Java lists (recursively); objects are set key by key.
+ */
+export function setPlainValue(section: BukkitConfigurationSection, path: string, value: unknown): void {
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    section.set(path, null);
+    section.createSection(path);
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      setPlainValue(section, `${path}.${key}`, child);
+    }
+    return;
+  }
+  section.set(path, toJavaValue(value));
+}
+
+function toJavaValue(value: unknown): any {
+  return Array.isArray(value) ? Java.toList(value.map(toJavaValue)) : value;
+}
@@ -1,20 +1,33 @@
+import { BukkitEventPriority, EventPriority, EventPriorityKey } from "./events/enum/eventPriority";
+import { HandlerList } from "./events/types/handlerList";
+import { removeIf } from "./java/types/map";
+import { CommandArgument } from "./commands/types/argument";
+import { BukkitCommandSender, SenderKind, SenderKindTypes } from "./entities/types/commandSender";
+import {
+  CommandNode,
+  completeCommand,
+  createCommandNode,
+  dispatchCommand,
+  ensurePath,
+  formatUsage,
+} from "./commands/types/commandTree";
+
 /**
- * Storage for pending event registrations.
- * Events are stored here until registerPlugin() is called.
+ * One @EventHandler registration, recorded at decoration time.
  * 
  * WHY OBJECT DESTRUCTURING INSTEAD OF ARRAY: Consider the alternatives.
  * 
  * OPTION 1 - Simple array (bad):
  * 
- *   const pendingEvents: any[][] = [];
- *   pendingEvents.push([eventClass, methodName]);
+ *   const events: any[][] = [];
+ *   events.push([eventClass, methodName]);
  *   
  *   // Later, when reading:
- *   const eventClass = pendingEvents[0][0];  // What is index 0? 
- *   const methodName = pendingEvents[0][1];  // What is index 1?
+ *   const eventClass = events[0][0];  // What is index 0? 
+ *   const methodName = events[0][1];  // What is index 1?
  *   
  *   // Or even worse:
- *   for (const event of pendingEvents) {
+ *   for (const event of events) {
  *     PaperTS.registerEvent(event[0], plugin[event[1]].bind(plugin));
  *     //                    ^^^^^^^^        ^^^^^^^^
  *     //                    Magic numbers - meaning unclear
@@ -22,20 +35,20 @@
  * 
  * OPTION 2 - Tuple with types (better but still unclear):
  * 
- *   const pendingEvents: [any, string][] = [];
- *   pendingEvents.push([eventClass, methodName]);
+ *   const events: [any, string][] = [];
+ *   events.push([eventClass, methodName]);
  *   
  *   // Reading is still index-based:
- *   const [eventClass, methodName] = pendingEvents[0];
+ *   const [eventClass, methodName] = events[0];
  *   // At least we can destructure, but the storage itself is opaque
  * 
  * OPTION 3 - Object with named properties (what we use):
  * 
- *   const pendingEvents: { eventClass: any; methodName: string }[] = [];
- *   pendingEvents.push({ eventClass, methodName });
+ *   const events: EventHandlerMetadata[] = [];
+ *   events.push({ eventClass, methodName, priority, ignoreCancelled });
  *   
  *   // Reading is self-documenting:
- *   for (const event of pendingEvents) {
+ *   for (const event of events) {
  *     PaperTS.registerEvent(event.eventClass, plugin[event.methodName].bind(plugin));
  *     //                    ^^^^^^^^^^^^^^^         ^^^^^^^^^^^^^^^^
  *     //                    Clear meaning           Clear meaning
@@ -46,19 +59,19 @@
  * is immediately clear. The few extra characters cost nothing compared
  * to the cognitive load saved when reading or debugging.
  * 
- * Additionally, objects are extensible. If tomorrow we need to add a
- * priority field for event ordering:
- * 
- *   { eventClass: any; methodName: string; priority: number }
- * 
- * All existing code continues to work. With arrays, we'd need to update
- * every index access: event[2] for priority, and hope we don't miss one.
+ * Additionally, objects are extensible. When priority and ignoreCancelled
+ * were added, all existing code kept working. With arrays, we'd have needed
+ * to update every index access and hope we didn't miss one.
  */
-const pendingEvents: { eventClass: any; methodName: string }[] = [];
+interface EventHandlerMetadata {
+  eventClass: any;
+  methodName: string;
+  priority: EventPriorityKey;
+  ignoreCancelled: boolean;
+}
 
 /**
- * Storage for pending command registrations.
- * Commands are stored here until registerPlugin() is called.
+ * One @Command registration, recorded at decoration time.
  * 
  * WHY SO MANY FIELDS: PaperTS.registerCommand requires 6 arguments:
  *   - name:         The command name (e.g., "hello" for /hello)
@@ -71,14 +84,132 @@ const pendingEvents: { eventClass: any; methodName: string }[] = [];
  * We store all these at decoration time, then pass them to PaperTS
  * when registerPlugin() is called with the actual instance.
  */
-const pendingCommands: {
+interface CommandMetadata {
   name: string;
   description: string;
-  usageMessage: string;
+  usageMessage: string | null;  /* null = generated from the arguments */
   permission: string;
+  permissionMessage: string | null;
+  senders: SenderKind[] | null;
   aliases: string[];
+  args: readonly CommandArgument<any, string>[] | null;
   methodName: string;
-}[] = [];
+}
+
+/**
+ * One @SubCommand registration, recorded at decoration time.
+ * 
+ * `command` is the root command name, `path` the sub-command names
+ * below it: "/warp set" is { command: "warp", path: ["set"] }.
+ */
+interface SubCommandMetadata {
+  command: string;
+  path: string[];
+  description: string;
+  permission: string;
+  permissionMessage: string | null;
+  senders: SenderKind[] | null;
+  aliases: string[];
+  args: readonly CommandArgument<any, string>[] | null;
+  methodName: string;
+}
+
+/**
+ * One @TabComplete registration, recorded at decoration time.
+ * Same command/path split as SubCommandMetadata; path is [] for the root.
+ */
+interface TabCompleteMetadata {
+  command: string;
+  path: string[];
+  methodName: string;
+}
+
+/**
+ * Everything a single class declares through decorators.
+ */
+interface ClassMetadata {
+  events: EventHandlerMetadata[];
+  commands: CommandMetadata[];
+  subcommands: SubCommandMetadata[];
+  completers: TabCompleteMetadata[];
+}
+
+/**
+ * Decorator metadata, stored per class prototype.
+ * 
+ * WHY PER PROTOTYPE INSTEAD OF MODULE-LEVEL ARRAYS: Decorators run when
+ * the class is *defined*, registerPlugin() runs when an instance is
+ * *registered*. With one global pending list, everything decorated in
+ * between ends up in the same bucket:
+ * 
+ *   class Protection { @EventHandler(BlockBreakEvent) onBreak() {} }
+ *   class Logger     { @EventHandler(PlayerJoinEvent) onJoin() {} }
+ *   
+ *   registerPlugin(new Protection());
+ *   // Global list: binds "onJoin" to Protection -> crash, method missing
+ * 
+ * Keying by prototype ties each handler to the class that declared it,
+ * so registerPlugin(instance) can only ever see its own handlers.
+ * 
+ * WHY A WEAKMAP: Classes defined in a bundle that gets reloaded become
+ * garbage together with their prototype. A WeakMap lets their metadata
+ * go with them, instead of pinning every old class in memory.
+ */
+const classMetadata = new WeakMap<object, ClassMetadata>();
+
+/**
+ * Get (or create) the metadata declared directly on this prototype.
+ */
+function ownMetadata(prototype: object): ClassMetadata {
+  let metadata = classMetadata.get(prototype);
+  if (metadata === undefined) {
+    metadata = { events: [], commands: [], subcommands: [], completers: [] };
+    classMetadata.set(prototype, metadata);
+  }
+  return metadata;
+}
+
+/**
+ * Collect the metadata for an instance, including inherited handlers.
+ * 
+ * WHY WALK THE PROTOTYPE CHAIN: A base class like `abstract class
+ * Minigame { @EventHandler(PlayerQuitEvent) onQuit() {} }` should work
+ * for every subclass. The chain is walked from the base class down, so
+ * base handlers register first.
+ * 
+ * WHY THE MOST DERIVED DECLARATION WINS: If a subclass overrides a
+ * decorated method and decorates it again, registering both would call
+ * the override twice (plugin[methodName] resolves to the override either
+ * way). So a method name declared lower in the chain hides the base one.
+ */
+function collectMetadata(plugin: object): ClassMetadata {
+  const chain: ClassMetadata[] = [];
+  let prototype = Object.getPrototypeOf(plugin);
+
+  while (prototype !== null && prototype !== Object.prototype) {
+    const metadata = classMetadata.get(prototype);
+    if (metadata !== undefined) chain.unshift(metadata);
+    prototype = Object.getPrototypeOf(prototype);
+  }
+
+  const result: ClassMetadata = { events: [], commands: [], subcommands: [], completers: [] };
+  const overridden = new Set<string>();
+  const visible = (entry: { methodName: string }) => !overridden.has(entry.methodName);
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const layer = chain[i];
+
+    result.events.unshift(...layer.events.filter(visible));
+    result.commands.unshift(...layer.commands.filter(visible));
+    result.subcommands.unshift(...layer.subcommands.filter(visible));
+    result.completers.unshift(...layer.completers.filter(visible));
+
+    const declared = [...layer.events, ...layer.commands, ...layer.subcommands, ...layer.completers];
+    for (const entry of declared) overridden.add(entry.methodName);
+  }
+
+  return result;
+}
 
 /**
  * Options for the @Command decorator.
@@ -97,12 +228,86 @@ const pendingCommands: {
  *   @Command({ name: "spawn" })  // All defaults applied
  *   @Command({ name: "tp", permission: "admin.tp" })  // Only override what you need
  */
-interface CommandOptions {
+interface CommandOptions<S extends SenderKind = SenderKind> {
   name: string;
   description?: string;
   usageMessage?: string;
   permission?: string;
+  /** Sent instead of the default message when the permission check fails */
+  permissionMessage?: string;
+  /** Restrict who may run the command. The handler's sender type is narrowed to match. */
+  senders?: S | S[];
   aliases?: string[];
+  /** Argument schema. When set, the handler receives a parsed object instead of string[]. */
+  args?: readonly CommandArgument<any, string>[];
+}
+
+/**
+ * Options for the @SubCommand decorator.
+ * 
+ * Same shape as CommandOptions minus usageMessage, which only Bukkit's
+ * root command has. A sub-command's permission is checked in addition
+ * to the root's, and its senders restriction overrides the root's.
+ */
+interface SubCommandOptions<S extends SenderKind = SenderKind> {
+  description?: string;
+  permission?: string;
+  /** Sent instead of the default message when the permission check fails */
+  permissionMessage?: string;
+  /** Restrict who may run the sub-command. The handler's sender type is narrowed to match. */
+  senders?: S | S[];
+  aliases?: string[];
+  /** Argument schema. When set, the handler receives a parsed object instead of string[]. */
+  args?: readonly CommandArgument<any, string>[];
+}
+
+/**
+ * Sender type a command handler receives, given its `senders` option.
+ * 
+ *   senders omitted          -> BukkitCommandSender
+ *   senders: "player"        -> BukkitPlayer
+ *   senders: ["player", ...] -> union of the listed kinds
+ * 
+ * WHY [S] extends [never]: Wrapping in a tuple stops TypeScript from
+ * distributing over the union, so "no senders option" (S = never) can be
+ * told apart from an actual list of kinds.
+ */
+type SenderFor<S extends SenderKind> = [S] extends [never] ? BukkitCommandSender : SenderKindTypes[S];
+
+/**
+ * Method descriptor whose first parameter must accept the sender type.
+ * A handler declared as `(sender: BukkitPlayer, ...)` without
+ * `senders: "player"` is a compile error instead of a runtime surprise.
+ */
+type CommandMethodDescriptor<S extends SenderKind> =
+  TypedPropertyDescriptor<(sender: SenderFor<S>, ...args: any[]) => any>;
+
+/**
+ * Normalize the `senders` option to a list.
+ */
+function toSenderList<S extends SenderKind>(senders: S | S[] | undefined): SenderKind[] | null {
+  if (senders === undefined) return null;
+  return Array.isArray(senders) ? senders : [senders];
+}
+
+/**
+ * Options for the @EventHandler decorator.
+ * Mirrors the attributes of Bukkit's Java `@EventHandler` annotation.
+ * 
+ * WHY STRING KEYS FOR PRIORITY: `{ priority: "HIGHEST" }` reads exactly
+ * like the Java annotation and doesn't force every listener file to import
+ * the EventPriority enum. Passing the enum constant itself also works,
+ * for code that already has one at hand.
+ * 
+ * WHY ignoreCancelled DEFAULTS TO FALSE: Same default as Bukkit. A listener
+ * that silently stops firing because another plugin cancelled the event is
+ * much harder to debug than one that fires and checks isCancelled() itself.
+ */
+export interface EventHandlerOptions {
+  /** When this handler runs relative to other listeners. Default: "NORMAL" */
+  priority?: EventPriorityKey | BukkitEventPriority;
+  /** Skip this handler if the event was already cancelled. Default: false */
+  ignoreCancelled?: boolean;
 }
 
 /**
@@ -122,31 +327,39 @@ interface CommandOptions {
  * "decorator factory". The outer function receives our custom argument
  * (eventClass), and the inner function receives what TypeScript passes.
  * 
- * WHY TARGET IS UNUSED: TypeScript always passes three arguments to
+ * WHAT TARGET IS FOR: TypeScript always passes three arguments to
  * method decorators:
  * 
  *   1. target      - The class prototype (MyClass.prototype)
  *   2. methodName  - The method name as string ("onJoin")  
  *   3. descriptor  - The property descriptor (contains the actual function)
  * 
- * We only need methodName to store which method to register later.
- * We don't need target because we receive the actual instance when
- * registerPlugin() is called. The underscore prefix (_target) tells
- * TypeScript: "I know this parameter exists, I'm ignoring it intentionally."
+ * methodName tells us which method to register later. target tells us
+ * which class declared it, so the handler is stored with that class and
+ * not with whichever instance happens to be registered next.
  * 
  * WHY WE STORE AND NOT REGISTER IMMEDIATELY: At decoration time, no class
  * instance exists yet - we're decorating the prototype. We must wait until
  * someone calls `new MyPlugin()` and then `registerPlugin(plugin)` to have
  * an actual instance with bound methods.
+ * 
+ * @example
+ *   @EventHandler(PlayerInteractEvent, { priority: "HIGHEST", ignoreCancelled: true })
+ *   onInteract(event: EventPlayerInteractEvent) { ... }
  */
-export function EventHandler(eventClass: any) {
+export function EventHandler(eventClass: any, options: EventHandlerOptions = {}) {
   return function (
-    _target: any,           /* Class prototype - unused, see above */
+    target: any,            /* Class prototype - see above */
     methodName: string,
     descriptor: PropertyDescriptor
   ) {
     /* Store for later registration */
-    pendingEvents.push({ eventClass, methodName });
+    ownMetadata(target).events.push({
+      eventClass,
+      methodName,
+      priority: resolvePriorityKey(options.priority),
+      ignoreCancelled: options.ignoreCancelled ?? false,
+    });
     
     /* Return descriptor unchanged - we're not modifying the method */
     return descriptor;
@@ -172,6 +385,23 @@ export function EventHandler(eventClass: any) {
  *   @Command({ name: "spawn" })
  *   spawnCommand(sender: CommandSender, args: string[]) { ... }
  * 
+ * Typed arguments (parsed and validated before the handler runs):
+ *   const giveArgs = [Arg.player("target"), Arg.enumValue("item", Material),
+ *                     optional(Arg.integer("amount", { min: 1, max: 64 }))] as const;
+ *   
+ *   @Command({ name: "give", args: giveArgs })
+ *   give(sender: CommandSender, args: ArgsOf<typeof giveArgs>) {
+ *     args.target.getInventory().addItem(createItemStackWithAmount(args.item, args.amount ?? 1));
+ *   }
+ * 
+ * Without `args`, the handler receives the raw string[] and its return
+ * value goes to Bukkit unchanged - existing commands keep working.
+ * 
+ * Restricting senders (the handler receives the narrowed type):
+ *   @Command({ name: "fly", senders: "player", permission: "myplugin.fly",
+ *              permissionMessage: "§cFlying is for VIPs!" })
+ *   fly(player: BukkitPlayer, args: string[]) { player.setAllowFlight(true); }
+ * 
  * WHY NULLISH COALESCING (??): We use `??` instead of `||` because:
  * 
  *   options.description || ""     // Fails if description is "" (empty string)
@@ -180,18 +410,21 @@ export function EventHandler(eventClass: any) {
  * This matters because an empty string is a valid (if unusual) description,
  * and we shouldn't silently replace it with our default.
  */
-export function Command(options: CommandOptions) {
+export function Command<S extends SenderKind = never>(options: CommandOptions<S>) {
   return function (
-    _target: any,
+    target: any,
     methodName: string,
-    descriptor: PropertyDescriptor
+    descriptor: CommandMethodDescriptor<S>
   ) {
-    pendingCommands.push({
+    ownMetadata(target).commands.push({
       name: options.name,
       description: options.description ?? "",
-      usageMessage: options.usageMessage ?? `/${options.name}`,
+      usageMessage: options.usageMessage ?? null,
       permission: options.permission ?? "",
+      permissionMessage: options.permissionMessage ?? null,
+      senders: toSenderList(options.senders),
       aliases: options.aliases ?? [],
+      args: options.args ?? null,
       methodName,
     });
 
@@ -199,22 +432,146 @@ export function Command(options: CommandOptions) {
   };
 }
 
+/**
+ * @SubCommand decorator
+ * 
+ * Declares a handler for a sub-command of a root command. The first word
+ * of the path is the root command, the rest are sub-command names, so
+ * nesting is just more words:
+ * 
+ *   @SubCommand("warp set", { args: [Arg.string("name")] })
+ *   setWarp(sender: CommandSender, args: { name: string }) { ... }
+ *   
+ *   @SubCommand("warp delete", { args: [Arg.string("name")], aliases: ["del"] })
+ *   deleteWarp(sender: CommandSender, args: { name: string }) { ... }
+ *   
+ *   @SubCommand("region flag set", { args: [Arg.string("flag"), Arg.boolean("value")] })
+ *   setFlag(sender: CommandSender, args: { flag: string; value: boolean }) { ... }
+ * 
+ * Per-sub-command guards:
+ *   @SubCommand("warp delete", { permission: "warps.admin", senders: "player" })
+ *   deleteWarp(player: BukkitPlayer, args: string[]) { ... }
+ * 
+ * WHY THE ROOT NEEDS NO @Command: Sub-commands are enough to register
+ * the root. Typing just "/warp" then lists the sub-commands. Add a
+ * @Command({ name: "warp", ... }) method only to set description, aliases
+ * or permission, or to handle "/warp" with no sub-command.
+ * 
+ * WHY A SPACE-SEPARATED PATH: It reads exactly like what the player types,
+ * and keeps the tree structure out of the decorator signature.
+ */
+export function SubCommand<S extends SenderKind = never>(path: string, options: SubCommandOptions<S> = {}) {
+  return function (
+    target: any,
+    methodName: string,
+    descriptor: CommandMethodDescriptor<S>
+  ) {
+    const [command, ...subPath] = path.trim().split(/\s+/);
+    if (subPath.length === 0) {
+      throw new Error(`@SubCommand("${path}") needs a sub-command name after the command`);
+    }
+
+    ownMetadata(target).subcommands.push({
+      command,
+      path: subPath,
+      description: options.description ?? "",
+      permission: options.permission ?? "",
+      permissionMessage: options.permissionMessage ?? null,
+      senders: toSenderList(options.senders),
+      aliases: options.aliases ?? [],
+      args: options.args ?? null,
+      methodName,
+    });
+
+    return descriptor;
+  };
+}
+
+/**
+ * @TabComplete decorator
+ * 
+ * Provides tab completions for a command or sub-command, using the same
+ * path syntax as @SubCommand:
+ * 
+ *   @TabComplete("warp delete")
+ *   completeWarpNames(sender: CommandSender, args: string[]) {
+ *     return this.warps.map(w => w.name);
+ *   }
+ * 
+ * `args` holds the tokens after the sub-command names; the last one is
+ * the token being typed. Return every candidate - results are filtered
+ * by the typed prefix for you. Returning null falls back to the
+ * completions derived from the argument schema.
+ * 
+ * WHY MOST COMMANDS DON'T NEED THIS: Arguments declared with Arg.player,
+ * Arg.world, Arg.enumValue or Arg.boolean already complete online player
+ * names, world names, enum keys (Material, EntityType, ...) and true/false.
+ * Sub-command names complete automatically too. @TabComplete is for
+ * values only the plugin knows, like warp names.
+ */
+export function TabComplete(path: string) {
+  return function (
+    target: any,
+    methodName: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const [command, ...subPath] = path.trim().split(/\s+/);
+
+    ownMetadata(target).completers.push({
+      command,
+      path: subPath,
+      methodName,
+    });
+
+    return descriptor;
+  };
+}
+
+/**
+ * Handle returned by registerPlugin().
+ * 
+ * Holds the Java-side objects PaperTS created for each handler, so they
+ * can be torn down again without touching other plugins' registrations.
+ */
+export interface PluginRegistration {
+  /** The instance whose decorated methods were registered */
+  readonly plugin: any;
+
+  /** True once dispose() has run */
+  readonly disposed: boolean;
+
+  /**
+   * Unregister every event listener and command added by registerPlugin().
+   * Safe to call more than once; later calls do nothing.
+   */
+  dispose(): void;
+}
+
+/**
+ * Active registrations by plugin instance, used by unregisterPlugin().
+ * 
+ * WHY A MAP AND NOT A WEAKMAP: A registered plugin is, by definition,
+ * still referenced by the server through its listeners. Holding it here
+ * until dispose() changes nothing about its lifetime, and a Map can be
+ * iterated if we ever need "unregister everything".
+ */
+const activeRegistrations = new Map<any, PluginRegistration>();
+
 /**
  * Registers all decorated events and commands with PaperTS.
  * Must be called after creating the plugin instance.
  * 
- * WHY CLEAR ARRAYS AFTER REGISTRATION: The pending arrays are module-level
- * singletons. If we don't clear them:
- * 
- *   1. Hot reload would re-register old handlers (duplicates)
- *   2. Memory would grow with each reload
- *   3. Multiple plugin instances would share registrations incorrectly
+ * WHY METADATA IS READ, NOT CONSUMED: Metadata belongs to the class, not
+ * to a registration. Registering two instances of the same class gives
+ * each its own listeners, and registering again after dispose() works.
  * 
- * Setting `.length = 0` is the fastest way to clear an array in-place
- * while keeping the same reference (not that it matters here, but it's
- * a good habit and more explicit than `pendingEvents = []`).
+ * WHY RETURN A HANDLE: Handlers already registered live on in Bukkit's
+ * HandlerLists and CommandMap. When a dev loop reloads the bundle, the
+ * old handlers must be removed explicitly - the handle remembers exactly
+ * what to remove.
  * 
  * @param plugin - The plugin instance with decorated methods
+ * @returns A registration handle whose dispose() undoes this call
  * 
  * @example
  *   class MyPlugin {
@@ -226,27 +583,214 @@ export function Command(options: CommandOptions) {
  *   }
  *   
  *   const plugin = new MyPlugin();
- *   registerPlugin(plugin);  // Now events and commands are active
+ *   const registration = registerPlugin(plugin);  // Now events and commands are active
+ *   
+ *   // Before reloading the bundle:
+ *   registration.dispose();
  */
-export function registerPlugin(plugin: any): void {
-  /* Register all pending events */
-  for (const event of pendingEvents) {
+export function registerPlugin(plugin: any): PluginRegistration {
+  /* If this instance is already registered, replace it instead of duplicating */
+  unregisterPlugin(plugin);
+
+  const metadata = collectMetadata(plugin);
+  const listeners: any[] = [];
+  const commands: any[] = [];
+
+  /* Register all declared events */
+  for (const event of metadata.events) {
     const method = plugin[event.methodName].bind(plugin);
-    PaperTS.registerEvent(event.eventClass, method);
+    const listener = event.ignoreCancelled ? skipCancelled(method) : method;
+    listeners.push(PaperTS.registerEvent(event.eventClass, listener, EventPriority[event.priority]));
   }
-  pendingEvents.length = 0;
 
-  /* Register all pending commands */
-  for (const cmd of pendingCommands) {
-    const method = plugin[cmd.methodName].bind(plugin);
-    PaperTS.registerCommand(
+  /*
+   * Register all declared commands, one tree per root.
+   * 
+   * A root permission is normally left to Bukkit, which also hides the
+   * command from players without it. Bukkit can't send a custom denial
+   * message though, so with permissionMessage set the dispatcher checks
+   * the root permission itself (the tree always carries it).
+   */
+  for (const { command: cmd, root } of buildCommandTrees(plugin, metadata)) {
+    commands.push(PaperTS.registerCommand(
       cmd.name,
       cmd.description,
-      cmd.usageMessage,
-      cmd.permission,
+      cmd.usageMessage ?? formatUsage(cmd.name, [], root),
+      cmd.permissionMessage === null ? cmd.permission : "",
       cmd.aliases,
-      method
-    );
+      /* Usage and errors repeat what the sender typed, alias included */
+      (sender, args, label) => dispatchCommand(root, sender, label ?? root.name, args),
+      (sender, args) => completeCommand(root, sender, args)
+    ));
   }
-  pendingCommands.length = 0;
+
+  let disposed = false;
+  const registration: PluginRegistration = {
+    plugin,
+
+    get disposed() {
+      return disposed;
+    },
+
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+
+      for (const listener of listeners) {
+        HandlerList.unregisterAll(listener);
+      }
+      for (const command of commands) {
+        unregisterCommand(command);
+      }
+      if (commands.length > 0) {
+        syncCommandsToPlayers();
+      }
+
+      if (activeRegistrations.get(plugin) === registration) {
+        activeRegistrations.delete(plugin);
+      }
+    },
+  };
+
+  activeRegistrations.set(plugin, registration);
+  return registration;
+}
+
+/**
+ * Unregisters everything registerPlugin() added for this instance.
+ * Equivalent to calling dispose() on the handle it returned.
+ * 
+ * @param plugin - The plugin instance previously passed to registerPlugin()
+ * @returns true if the instance was registered
+ * 
+ * @example
+ *   unregisterPlugin(plugin);
+ */
+export function unregisterPlugin(plugin: any): boolean {
+  const registration = activeRegistrations.get(plugin);
+  if (registration === undefined) return false;
+
+  registration.dispose();
+  return true;
+}
+
+/**
+ * Builds one command tree per root command from the collected metadata.
+ * 
+ * WHY ROOTS WITHOUT @Command GET DEFAULTS: A root may be declared only
+ * through its sub-commands (see @SubCommand). It still needs a Bukkit
+ * registration, so it gets the same defaults @Command would apply.
+ */
+function buildCommandTrees(
+  plugin: any,
+  metadata: ClassMetadata
+): { command: CommandMetadata; root: CommandNode }[] {
+  const trees = new Map<string, { command: CommandMetadata; root: CommandNode }>();
+
+  const treeFor = (name: string) => {
+    const key = name.toLowerCase();
+    let tree = trees.get(key);
+    if (tree === undefined) {
+      tree = {
+        command: {
+          name,
+          description: "",
+          usageMessage: null,
+          permission: "",
+          permissionMessage: null,
+          senders: null,
+          aliases: [],
+          args: null,
+          methodName: "",
+        },
+        root: createCommandNode(name),
+      };
+      trees.set(key, tree);
+    }
+    return tree;
+  };
+
+  for (const cmd of metadata.commands) {
+    const tree = treeFor(cmd.name);
+    tree.command = cmd;
+    tree.root.aliases = cmd.aliases.map(alias => alias.toLowerCase());
+    tree.root.description = cmd.description;
+    tree.root.permission = cmd.permission;
+    tree.root.permissionMessage = cmd.permissionMessage;
+    tree.root.senders = cmd.senders;
+    tree.root.args = cmd.args;
+    tree.root.handler = plugin[cmd.methodName].bind(plugin);
+  }
+
+  for (const sub of metadata.subcommands) {
+    const node = ensurePath(treeFor(sub.command).root, sub.path);
+    node.aliases = sub.aliases.map(alias => alias.toLowerCase());
+    node.description = sub.description;
+    node.permission = sub.permission;
+    node.permissionMessage = sub.permissionMessage;
+    node.senders = sub.senders;
+    node.args = sub.args;
+    node.handler = plugin[sub.methodName].bind(plugin);
+  }
+
+  for (const completer of metadata.completers) {
+    const node = ensurePath(treeFor(completer.command).root, completer.path);
+    node.completer = plugin[completer.methodName].bind(plugin);
+  }
+
+  return [...trees.values()];
+}
+
+/**
+ * Removes a command from the server's CommandMap.
+ * 
+ * WHY TWO STEPS: Command.unregister() only flips the command's own
+ * "registered" flag. The CommandMap still routes "/name", "/alias" and
+ * "/plugin:name" to it through knownCommands, so those entries must be
+ * removed by hand - otherwise the old handler keeps answering after reload.
+ */
+function unregisterCommand(command: any /* BukkitCommand */): void {
+  if (command === null || command === undefined) return;
+
+  const commandMap = org.bukkit.Bukkit.getCommandMap();
+  command.unregister(commandMap);
+  removeIf(commandMap.getKnownCommands(), (_label: string, registered: any) => registered === command);
+}
+
+/**
+ * Resends the command tree so clients drop removed commands from
+ * their completion list.
+ */
+function syncCommandsToPlayers(): void {
+  const players = org.bukkit.Bukkit.getOnlinePlayers().toArray();
+  for (const player of players) {
+    player.updateCommands();
+  }
+}
+
+/**
+ * Normalizes the priority option to its enum key.
+ * 
+ * WHY STORE THE KEY, NOT THE JAVA CONSTANT: Decorators run while the
+ * bundle is being evaluated. Keeping a plain string in the metadata
+ * means nothing Java-side is touched until registerPlugin() actually
+ * registers the handler.
+ */
+function resolvePriorityKey(priority: EventPriorityKey | BukkitEventPriority | undefined): EventPriorityKey {
+  if (priority === undefined) return "NORMAL";
+  return typeof priority === "string" ? priority : priority.name();
+}
+
+/**
+ * Wraps a listener so it is skipped for already-cancelled events.
+ * 
+ * WHY CHECK FOR isCancelled: Not every event implements Cancellable
+ * (PlayerJoinEvent doesn't). Those events can never be cancelled, so
+ * the handler must always run - same semantics as Bukkit.
+ */
+function skipCancelled(listener: (event: any) => void): (event: any) => void {
+  return (event: any) => {
+    if (typeof event.isCancelled === "function" && event.isCancelled()) return;
+    listener(event);
+  };
 }
\ No newline at end of file
@@ -6,6 +6,7 @@
 
 import { BukkitEntityDamageEvent } from "../../events/types/entity/entityDamageEvent";
 import { BukkitPlayerTeleportEvent } from "../../events/types/playerTeleportEvent";
+import { JavaCompletableFuture } from "../../java/types/completableFuture";
 import { JavaUUID } from "../../java/types/uuid";
 import { BukkitSound } from "../../sounds/types/soundType";
 import { BukkitBlockFace } from "../../world/enums/blockFace";
@@ -95,6 +96,10 @@ export interface BukkitEntity {
   teleport(destination: BukkitEntity): boolean;
   teleport(destination: BukkitEntity, cause: BukkitPlayerTeleportEvent.TeleportCause): boolean;
 
+  /** Loads the destination chunk off the main thread, then teleports. Completes with success. */
+  teleportAsync(location: BukkitLocation): JavaCompletableFuture<boolean>;
+  teleportAsync(location: BukkitLocation, cause: BukkitPlayerTeleportEvent.TeleportCause): JavaCompletableFuture<boolean>;
+
   // ---- State Checks ----
 
   /** True if spawned in a world. */
@@ -181,6 +181,16 @@ export interface BukkitHumanEntity extends BukkitLivingEntity, BukkitInventoryHo
    */
   openEnchanting(location: BukkitLocation | null, force: boolean): BukkitInventoryView | null;
 
+  /**
+   * Open an anvil GUI.
+   * 
+   * @deprecated Since 1.21.4. Use MenuType.ANVIL builder.
+   * 
+   * @param location Where to attach (null = player's location)
+   * @param force If false, requires actual anvil at location
+   */
+  openAnvil(location: BukkitLocation | null, force: boolean): BukkitInventoryView | null;
+
   /**
    * Open villager trading GUI.
    * 
@@ -8,6 +8,7 @@ import { BukkitColor } from "../../items/enums/colorType";
 import { BukkitMaterial } from "../../items/enums/materialType";
 import { BukkitItemStack } from "../../items/types/itemstack";
 import { BukkitNamespacedKey } from "../../items/types/namespacedKey";
+import { JavaCollection } from "../../java/types/collections";
 import { JavaUUID } from "../../java/types/uuid";
 import { BukkitSound } from "../../sounds/types/soundType";
 import { BukkitBlock } from "../../world/types/block";
@@ -250,7 +251,7 @@ export interface BukkitLivingEntity extends BukkitEntity, BukkitDamageable, Bukk
   /**
    * Get all active potion effects.
    */
-  getActivePotionEffects(): any[] /* BukkitPotionEffect[] */;
+  getActivePotionEffects(): JavaCollection<any> /* Collection<BukkitPotionEffect> */;
 
   // ---- Equipment ----
 
@@ -6,6 +6,7 @@ import { BukkitItemStack } from "../../items/types/itemstack";
 import { BukkitNamespacedKey } from "../../items/types/namespacedKey";
 import { BukkitPotionEffect } from "../../items/types/potionEffect";
 import { JavaCollection } from "../../java/types/collections";
+import { JavaCompletableFuture } from "../../java/types/completableFuture";
 import { JavaMap } from "../../java/types/map";
 import { JavaUUID } from "../../java/types/uuid";
 import { BukkitEffect } from "../../particles/type/effect";
@@ -27,6 +28,7 @@ import { BukkitCommandSender, BukkitCommandSenderSpigot } from "./commandSender"
 import { BukkitEquipmentSlot } from "./entityEquipments";
 import { BukkitInstrument } from "./instrument";
 import { BukkitNote } from "./note";
+import type { BungeeBaseComponent } from "../../text/types/textComponent";
 
 
 /**
@@ -71,6 +73,7 @@ export interface BukkitPlayer extends BukkitHumanEntity, BukkitCommandSender {
   // ============================================
 
   getAddress(): any /*JavaInetSocketAddress*/ | null;
+  isOnline(): boolean;
   isTransferred(): boolean;
   getPing(): number;
   getLocale(): string;
@@ -78,7 +81,7 @@ export interface BukkitPlayer extends BukkitHumanEntity, BukkitCommandSender {
   kickPlayer(message: string | null): void;
   transfer(host: string, port: number): void;
   storeCookie(key: BukkitNamespacedKey, value: number[]): void;
-  retrieveCookie(key: BukkitNamespacedKey): /*JavaCompletableFuture<number[]>*/ any;
+  retrieveCookie(key: BukkitNamespacedKey): JavaCompletableFuture<number[] | null>;
 
   // ============================================
   // CHAT & COMMUNICATION
@@ -276,6 +279,12 @@ export interface BukkitPlayer extends BukkitHumanEntity, BukkitCommandSender {
   sendSignChange(loc: BukkitLocation, lines: string[] | null, dyeColor: BukkitDyeColor, hasGlowingText: boolean): void;
   openSign(sign: any /*BukkitSign*/): void;
   openSign(sign: any /*BukkitSign*/, side: any /*BukkitSide*/): void;
+  /**
+   * Open the sign editor for a sign that only exists client-side
+   * (placed with sendBlockChange). The result arrives as a SignChangeEvent.
+   * Paper 1.20.1+.
+   */
+  openVirtualSign(block: any /*Position*/, side: any /*BukkitSide*/): void;
 
   // ============================================
   // EQUIPMENT & POTION CHANGES (Fake)
@@ -483,20 +492,20 @@ export interface BukkitPlayerSpigot extends BukkitCommandSenderSpigot {
   /**
    * Sends a BaseComponent message to this player.
    */
-  sendMessage(component: any /* BaseComponent */): void;
+  sendMessage(component: BungeeBaseComponent): void;
 
   /**
    * Sends multiple BaseComponent messages.
    */
-  sendMessage(...components: any[] /* BaseComponent[] */): void;
+  sendMessage(...components: BungeeBaseComponent[]): void;
 
   /**
    * Sends a BaseComponent message with sender UUID.
    */
-  sendMessage(sender: JavaUUID | null, component: any /* BaseComponent */): void;
+  sendMessage(sender: JavaUUID | null, component: BungeeBaseComponent): void;
 
   /**
    * Sends multiple BaseComponent messages with sender UUID.
    */
-  sendMessage(sender: JavaUUID | null, ...components: any[] /* BaseComponent[] */): void;
+  sendMessage(sender: JavaUUID | null, ...components: BungeeBaseComponent[]): void;
 }
\ No newline at end of file
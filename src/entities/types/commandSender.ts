@@ -1,6 +1,10 @@
 // command/types/commandSender.ts
 
 import { JavaUUID } from "../../java/types/uuid";
+import { JavaClass } from "../../java/types/class";
+import type { BukkitBlock } from "../../world/types/block";
+import type { BukkitPlayer } from "./bukkitPlayer";
+import type { BungeeBaseComponent } from "../../text/types/textComponent";
 
 /**
  * CommandSender - Represents anything that can send commands and receive messages.
@@ -113,6 +117,36 @@ export interface BukkitCommandSender {
    */
   getName(): string;
 
+  // ==========================================
+  // PERMISSIONS (from Permissible)
+  // ==========================================
+
+  /**
+   * Checks if this sender has a permission.
+   * 
+   * Returns the permission's default value if it isn't explicitly set
+   * (usually: ops have it, everyone else doesn't).
+   * 
+   * @param name Permission node (e.g., "myplugin.warp.set")
+   * @returns true if the permission is granted
+   */
+  hasPermission(name: string): boolean;
+
+  /**
+   * Checks if a permission is explicitly set on this sender.
+   * 
+   * @param name Permission node
+   * @returns true if set (to either true or false)
+   */
+  isPermissionSet(name: string): boolean;
+
+  /**
+   * Checks if this sender is a server operator.
+   * 
+   * @returns true if op
+   */
+  isOp(): boolean;
+
   // ==========================================
   // SERVER ACCESS
   // ==========================================
@@ -159,14 +193,14 @@ export interface BukkitCommandSenderSpigot {
    * 
    * @param component The component to send
    */
-  sendMessage(component: any /* BaseComponent */): void;
+  sendMessage(component: BungeeBaseComponent): void;
 
   /**
    * Sends multiple BaseComponent messages.
    * 
    * @param components The components to send
    */
-  sendMessage(...components: any[] /* BaseComponent[] */): void;
+  sendMessage(...components: BungeeBaseComponent[]): void;
 
   /**
    * Sends a BaseComponent message with a sender UUID.
@@ -174,7 +208,7 @@ export interface BukkitCommandSenderSpigot {
    * @param sender The UUID of the message sender
    * @param component The component to send
    */
-  sendMessage(sender: JavaUUID | null, component: any /* BaseComponent */): void;
+  sendMessage(sender: JavaUUID | null, component: BungeeBaseComponent): void;
 
   /**
    * Sends multiple BaseComponent messages with a sender UUID.
@@ -182,5 +216,134 @@ export interface BukkitCommandSenderSpigot {
    * @param sender The UUID of the message sender
    * @param components The components to send
    */
-  sendMessage(sender: JavaUUID | null, ...components: any[] /* BaseComponent[] */): void;
-}
\ No newline at end of file
+  sendMessage(sender: JavaUUID | null, ...components: BungeeBaseComponent[]): void;
+}
+
+// ==========================================
+// SENDER SUBTYPES
+// ==========================================
+
+/**
+ * The server console.
+ * 
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/command/ConsoleCommandSender.html
+ */
+export interface BukkitConsoleCommandSender extends BukkitCommandSender {
+  // No additional methods (Conversable methods not mapped).
+}
+
+/**
+ * A command block (or command block minecart) running a command.
+ * 
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/command/BlockCommandSender.html
+ */
+export interface BukkitBlockCommandSender extends BukkitCommandSender {
+  /**
+   * Returns the block this command sender belongs to.
+   * 
+   * @returns Block for the command sender
+   */
+  getBlock(): BukkitBlock;
+}
+
+// ==========================================
+// SENDER KINDS
+// ==========================================
+
+/**
+ * Sender categories that commands can be restricted to.
+ */
+export type SenderKind = "player" | "console" | "block";
+
+/**
+ * Sender type for each kind, used to narrow command handlers.
+ */
+export interface SenderKindTypes {
+  player: BukkitPlayer;
+  console: BukkitConsoleCommandSender;
+  block: BukkitBlockCommandSender;
+}
+
+/**
+ * Java interface backing each sender kind.
+ */
+const SENDER_CLASS_NAMES: Record<SenderKind, string> = {
+  player: "org.bukkit.entity.Player",
+  console: "org.bukkit.command.ConsoleCommandSender",
+  block: "org.bukkit.command.BlockCommandSender",
+};
+
+/**
+ * Resolved Java classes, looked up on first use.
+ */
+const senderClasses = new Map<SenderKind, JavaClass<any>>();
+
+/**
+ * Check a sender against the Java interface of a kind.
+ * 
+ * WHY Class.isInstance AND NOT DUCK TYPING: Checking for a method like
+ * `"getHealth" in sender` breaks as soon as another sender type has a
+ * method with the same name - every Entity is a CommandSender, and
+ * many have getHealth(). The Java type is the only reliable answer.
+ */
+function isSenderKind(sender: BukkitCommandSender, kind: SenderKind): boolean {
+  let clazz = senderClasses.get(kind);
+  if (clazz === undefined) {
+    clazz = Java.callStatic<JavaClass<any>>("java.lang.Class", "forName", SENDER_CLASS_NAMES[kind]);
+    senderClasses.set(kind, clazz);
+  }
+  return clazz.isInstance(sender);
+}
+
+// ==========================================
+// TYPE GUARDS
+// ==========================================
+
+/**
+ * Check if sender is a player.
+ * 
+ * @example
+ * if (isPlayerSender(sender)) {
+ *   sender.teleport(spawn);  // sender is BukkitPlayer here
+ * }
+ */
+export function isPlayerSender(sender: BukkitCommandSender): sender is BukkitPlayer {
+  return isSenderKind(sender, "player");
+}
+
+/**
+ * Check if sender is the server console.
+ */
+export function isConsoleSender(sender: BukkitCommandSender): sender is BukkitConsoleCommandSender {
+  return isSenderKind(sender, "console");
+}
+
+/**
+ * Check if sender is a command block.
+ */
+export function isBlockSender(sender: BukkitCommandSender): sender is BukkitBlockCommandSender {
+  return isSenderKind(sender, "block");
+}
+
+/**
+ * Get the kind of a sender.
+ * 
+ * @returns The kind, or null for other senders (RCON, entities, proxied)
+ */
+export function getSenderKind(sender: BukkitCommandSender): SenderKind | null {
+  for (const kind of Object.keys(SENDER_CLASS_NAMES) as SenderKind[]) {
+    if (isSenderKind(sender, kind)) return kind;
+  }
+  return null;
+}
+
+/**
+ * Get the sender as a player, or null.
+ * 
+ * @example
+ * const player = asPlayer(sender);
+ * if (player === null) return;
+ */
+export function asPlayer(sender: BukkitCommandSender): BukkitPlayer | null {
+  return isPlayerSender(sender) ? sender : null;
+}
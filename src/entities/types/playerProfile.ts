@@ -0,0 +1,150 @@
+/**
+ * A player profile: unique id, name and skin textures.
+ *
+ * Profiles are what player heads and the tab list show. A profile does
+ * not need a real player behind it: heads with custom textures use a
+ * profile that only has textures.
+ *
+ * COMPLETE PROFILES:
+ * A profile made with only a name (or only an id) has no textures yet.
+ * update() looks the rest up from Mojang, off the main thread.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/profile/PlayerProfile.html
+ */
+
+import { JavaCompletableFuture } from "../../java/types/completableFuture";
+import { JavaURL } from "../../java/types/url";
+import { JavaUUID } from "../../java/types/uuid";
+
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Arm model of a skin.
+ */
+export type SkinModelKey = "CLASSIC" | "SLIM";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * Textures (skin and cape) of a profile.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/profile/PlayerTextures.html
+ */
+export interface BukkitPlayerTextures {
+  /**
+   * Checks if the profile has no textures.
+   * @returns True if neither skin nor cape is set
+   */
+  isEmpty(): boolean;
+
+  /**
+   * Clears the textures.
+   */
+  clear(): void;
+
+  /**
+   * Gets the URL of the skin (on textures.minecraft.net).
+   * @returns The skin URL, or null if not set
+   */
+  getSkin(): JavaURL | null;
+
+  /**
+   * Sets the skin. Only textures.minecraft.net URLs are shown by clients.
+   * @param skinUrl - The skin URL, or null to remove it
+   */
+  setSkin(skinUrl: JavaURL | null): void;
+
+  /**
+   * Gets the arm model of the skin.
+   * @returns The skin model (an org.bukkit.profile.PlayerTextures.SkinModel)
+   */
+  getSkinModel(): { name(): SkinModelKey };
+
+  /**
+   * Gets the URL of the cape.
+   * @returns The cape URL, or null if not set
+   */
+  getCape(): JavaURL | null;
+
+  /**
+   * Sets the cape.
+   * @param capeUrl - The cape URL, or null to remove it
+   */
+  setCape(capeUrl: JavaURL | null): void;
+
+  /**
+   * Checks if the textures are signed by Mojang.
+   * @returns True if signed (textures set by plugins are not)
+   */
+  isSigned(): boolean;
+}
+
+/**
+ * A player profile.
+ */
+export interface BukkitPlayerProfile {
+  /**
+   * Gets the player's unique id.
+   * @returns The unique id, or null if not set
+   */
+  getUniqueId(): JavaUUID | null;
+
+  /**
+   * Gets the player name.
+   * @returns The name, or null if not set
+   */
+  getName(): string | null;
+
+  /**
+   * Gets a copy of the profile's textures.
+   * Changes only apply after setTextures().
+   * @returns The textures
+   */
+  getTextures(): BukkitPlayerTextures;
+
+  /**
+   * Copies the given textures into the profile.
+   * @param textures - The textures, or null to clear them
+   */
+  setTextures(textures: BukkitPlayerTextures | null): void;
+
+  /**
+   * Checks if the profile has both a unique id and a name.
+   * @returns True if complete
+   */
+  isComplete(): boolean;
+
+  /**
+   * Looks up the missing data (and textures) from Mojang, asynchronously.
+   * @returns A future completed with an updated copy of the profile
+   */
+  update(): JavaCompletableFuture<BukkitPlayerProfile>;
+
+  /**
+   * Creates a copy of this profile.
+   * @returns The copy
+   */
+  clone(): BukkitPlayerProfile;
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Create a profile. At least one of id and name must be given.
+ *
+ * @example
+ * const profile = createPlayerProfile(null, "Notch");
+ */
+export function createPlayerProfile(uniqueId: JavaUUID | null, name: string | null): BukkitPlayerProfile {
+  if (uniqueId === null && name === null) {
+    throw new Error("A player profile needs a unique id or a name");
+  }
+  return org.bukkit.Bukkit.createPlayerProfile(uniqueId, name);
+}
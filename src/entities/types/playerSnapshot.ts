@@ -0,0 +1,570 @@
+/**
+ * DESIGN
+ * ------
+ * A copy of everything an arena, a duel or a death can change about a
+ * player, to put it back later:
+ *
+ *   const entry = snapshotPlayer(player);      // on join
+ *   ...fight, die, respawn, change kit...
+ *   entry.restore();                           // on leave: as they came in
+ *
+ *   ┌─────────────────────────────────────────────┐
+ *   │  PlayerSnapshot                             │
+ *   │  storage (36) · armor (4) · off hand · held │
+ *   │  max health · health · food · saturation    │
+ *   │  exhaustion                                 │
+ *   │  level · exp · total exp · air · fire       │
+ *   │  fall distance                              │
+ *   │  potion effects                             │
+ *   │  game mode · allow flight · flying          │
+ *   │  location                                   │
+ *   └─────────────────────────────────────────────┘
+ *
+ * COPIES BOTH WAYS:
+ * Items, effects and the location are copied when taken and again when
+ * restored, so one snapshot can be restored any number of times (an
+ * arena checkpoint) and later changes to the player don't leak into it.
+ *
+ * SERIALIZATION:
+ * serializeSnapshot() gives plain JSON (items in the serializeItem()
+ * form), for rollbacks that must survive a restart or a crash:
+ *
+ *   data.set(`rollback.${uuid}`, JSON.stringify(serializeSnapshot(entry)));
+ *   deserializeSnapshot(data.get(`rollback.${uuid}`)).restore();
+ *
+ * DIFF:
+ * diffSnapshots(before, after) lists what changed, slot by slot and stat
+ * by stat: "what did the player lose in that death", or a check that an
+ * arena really gave everything back.
+ *
+ * MAX HEALTH is the base value of the MAX_HEALTH attribute, without the
+ * modifiers armor or effects add on top. It is restored before health,
+ * which can't exceed it.
+ *
+ * NOT INCLUDED: ender chest, item on cursor, attributes other than max
+ * health, advancements, statistics. A dead player can't be restored:
+ * restore on PlayerRespawnEvent (one tick later), not on death.
+ */
+
+import { GameMode, GameModeKey, BukkitGameMode } from "../enums/gamemodeType";
+import { PlayerSlot } from "../../inventories/type/playerInventory";
+import { BukkitPotionEffect, PotionEffect } from "../../items/types/potionEffect";
+import { BukkitPotionEffectType } from "../../items/enums/potionEffectType";
+import { BukkitItemStack, isItemEmpty } from "../../items/types/itemstack";
+import { deserializeItem, deserializeItems, SerializedItem, serializeItem, serializeItems } from "../../items/types/itemSerialization";
+import { fromString } from "../../items/types/namespacedKey";
+import { collectionToArray } from "../../java/types/collections";
+import { fromUUIDString } from "../../java/types/uuid";
+import { BukkitLocation, createLocationWithRotation } from "../../world/types/location";
+import { Attribute } from "./attribute";
+import { BukkitPlayer } from "./bukkitPlayer";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Saved player state. Everything is a copy.
+ */
+export interface PlayerSnapshot {
+  /** UUID of the player (as string) */
+  readonly playerId: string;
+
+  /** Name of the player when taken */
+  readonly playerName: string;
+
+  /** When it was taken (epoch milliseconds) */
+  readonly takenAt: number;
+
+  /** Main inventory and hotbar (36 slots, null = empty) */
+  readonly storage: (BukkitItemStack | null)[];
+
+  /** Boots, leggings, chestplate, helmet */
+  readonly armor: (BukkitItemStack | null)[];
+
+  readonly offHand: BukkitItemStack | null;
+
+  /** Selected hotbar slot (0-8) */
+  readonly heldSlot: number;
+
+  /** Base value of the MAX_HEALTH attribute */
+  readonly maxHealth: number;
+
+  readonly health: number;
+  readonly foodLevel: number;
+  readonly saturation: number;
+  readonly exhaustion: number;
+  readonly level: number;
+
+  /** Progress to the next level (0-1) */
+  readonly exp: number;
+
+  /** Experience collected since the last death (the death drop and score) */
+  readonly totalExperience: number;
+
+  readonly remainingAir: number;
+  readonly fireTicks: number;
+  readonly fallDistance: number;
+  readonly effects: BukkitPotionEffect[];
+  readonly gameMode: BukkitGameMode;
+  readonly allowFlight: boolean;
+  readonly flying: boolean;
+  readonly location: BukkitLocation;
+
+  /**
+   * Put the player back in this state.
+   *
+   * @throws Error if the player is offline (and no other player is given),
+   *   or the teleport back failed (e.g. cancelled by another plugin)
+   */
+  restore(options?: RestoreOptions): void;
+}
+
+export interface RestoreOptions {
+  /** Player to restore (default: the snapshot's player, who must be online) */
+  player?: BukkitPlayer;
+
+  /**
+   * Teleport back to the saved location (default true).
+   * The player is dismounted and passengers are ejected first.
+   */
+  teleport?: boolean;
+}
+
+/**
+ * Single-value parts of a snapshot, compared by diffSnapshots().
+ */
+export type SnapshotStat =
+  | "heldSlot"
+  | "maxHealth"
+  | "health"
+  | "foodLevel"
+  | "saturation"
+  | "exhaustion"
+  | "level"
+  | "exp"
+  | "totalExperience"
+  | "remainingAir"
+  | "fireTicks"
+  | "fallDistance"
+  | "gameMode"
+  | "allowFlight"
+  | "flying";
+
+/**
+ * A slot whose item differs. Slots use PlayerSlot numbers
+ * (0-35 storage, 36-39 armor, 40 off hand).
+ */
+export interface SlotChange {
+  slot: number;
+  before: BukkitItemStack | null;
+  after: BukkitItemStack | null;
+}
+
+export interface StatChange {
+  stat: SnapshotStat;
+  before: number | boolean | string;
+  after: number | boolean | string;
+}
+
+/**
+ * An effect added (before null), removed (after null) or changed.
+ */
+export interface EffectChange {
+  /** Effect type key, e.g. "minecraft:speed" */
+  type: string;
+  before: BukkitPotionEffect | null;
+  after: BukkitPotionEffect | null;
+}
+
+/**
+ * What changed between two snapshots.
+ */
+export interface SnapshotDiff {
+  /** True if anything below changed */
+  changed: boolean;
+
+  slots: SlotChange[];
+  stats: StatChange[];
+  effects: EffectChange[];
+
+  /** True if the location (world, position or rotation) differs */
+  moved: boolean;
+}
+
+/**
+ * JSON form of a snapshot.
+ */
+export interface SerializedPlayerSnapshot {
+  playerId: string;
+  playerName: string;
+  takenAt: number;
+  storage: (SerializedItem | null)[];
+  armor: (SerializedItem | null)[];
+  offHand: SerializedItem | null;
+  heldSlot: number;
+  maxHealth: number;
+  health: number;
+  foodLevel: number;
+  saturation: number;
+  exhaustion: number;
+  level: number;
+  exp: number;
+  totalExperience: number;
+  remainingAir: number;
+  fireTicks: number;
+  fallDistance: number;
+  effects: SerializedEffect[];
+  gameMode: GameModeKey;
+  allowFlight: boolean;
+  flying: boolean;
+  location: SerializedSnapshotLocation;
+}
+
+export interface SerializedEffect {
+  /** Effect type key, e.g. "minecraft:speed" */
+  type: string;
+  duration: number;
+  amplifier: number;
+  ambient: boolean;
+  particles: boolean;
+  icon: boolean;
+}
+
+export interface SerializedSnapshotLocation {
+  world: string;
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+  pitch: number;
+}
+
+/** Snapshot contents without the restore() method */
+type SnapshotState = Omit<PlayerSnapshot, "restore">;
+
+/** Order of the stats in a diff */
+const SNAPSHOT_STATS: SnapshotStat[] = [
+  "heldSlot",
+  "maxHealth",
+  "health",
+  "foodLevel",
+  "saturation",
+  "exhaustion",
+  "level",
+  "exp",
+  "totalExperience",
+  "remainingAir",
+  "fireTicks",
+  "fallDistance",
+  "gameMode",
+  "allowFlight",
+  "flying",
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+function copyItem(item: BukkitItemStack | null): BukkitItemStack | null {
+  return item === null || isItemEmpty(item) ? null : item.clone();
+}
+
+function copyEffect(effect: BukkitPotionEffect): BukkitPotionEffect {
+  return PotionEffect.create(
+    effect.getType(),
+    effect.getDuration(),
+    effect.getAmplifier(),
+    effect.isAmbient(),
+    effect.hasParticles(),
+    effect.hasIcon()
+  );
+}
+
+function effectKey(effect: BukkitPotionEffect): string {
+  return effect.getType().getKey().toString();
+}
+
+function sameItem(a: BukkitItemStack | null, b: BukkitItemStack | null): boolean {
+  return a === null || b === null ? a === b : a.isSimilar(b) && a.getAmount() === b.getAmount();
+}
+
+function statValue(snapshot: SnapshotState, stat: SnapshotStat): number | boolean | string {
+  return stat === "gameMode" ? snapshot.gameMode.name() : snapshot[stat];
+}
+
+/**
+ * Item slots with their PlayerSlot numbers.
+ */
+function slotItems(snapshot: SnapshotState): Map<number, BukkitItemStack | null> {
+  const slots = new Map<number, BukkitItemStack | null>();
+  snapshot.storage.forEach((item, slot) => slots.set(slot, item));
+  snapshot.armor.forEach((item, i) => slots.set(PlayerSlot.ARMOR_START + i, item));
+  slots.set(PlayerSlot.OFF_HAND, snapshot.offHand);
+  return slots;
+}
+
+function effectType(key: string): BukkitPotionEffectType {
+  const namespacedKey = fromString(key);
+  const type = namespacedKey === null ? null : org.bukkit.Registry.EFFECT.get(namespacedKey);
+  if (type === null) {
+    throw new Error(`Unknown potion effect type "${key}"`);
+  }
+  return type;
+}
+
+function createSnapshot(state: SnapshotState): PlayerSnapshot {
+  const snapshot: PlayerSnapshot = {
+    ...state,
+    restore: options => restoreSnapshot(snapshot, options),
+  };
+  return snapshot;
+}
+
+function restoreSnapshot(snapshot: SnapshotState, options: RestoreOptions = {}): void {
+  const player = options.player ?? org.bukkit.Bukkit.getPlayer(fromUUIDString(snapshot.playerId));
+  if (player === null) {
+    throw new Error(`Can't restore ${snapshot.playerName}: player is offline`);
+  }
+
+  /* Teleport first: if it fails, nothing has changed yet */
+  if (options.teleport ?? true) {
+    /* Riding or carried entities can't be teleported */
+    player.leaveVehicle();
+    player.eject();
+    if (!player.teleport(snapshot.location.clone())) {
+      throw new Error(`Can't restore ${snapshot.playerName}: teleport was cancelled`);
+    }
+  }
+
+  /* Game mode before flight: changing it resets flight */
+  player.setGameMode(snapshot.gameMode);
+  player.setAllowFlight(snapshot.allowFlight);
+  player.setFlying(snapshot.allowFlight && snapshot.flying);
+
+  const inventory = player.getInventory();
+  inventory.setStorageContents(snapshot.storage.map(copyItem));
+  inventory.setArmorContents(snapshot.armor.map(copyItem));
+  inventory.setItemInOffHand(copyItem(snapshot.offHand));
+  inventory.setHeldItemSlot(snapshot.heldSlot);
+
+  /* Max health first: health is clamped to it */
+  player.getAttribute(Attribute.MAX_HEALTH)?.setBaseValue(snapshot.maxHealth);
+  player.setHealth(Math.min(snapshot.health, player.getMaxHealth()));
+  player.setFoodLevel(snapshot.foodLevel);
+  player.setSaturation(snapshot.saturation);
+  player.setExhaustion(snapshot.exhaustion);
+  player.setLevel(snapshot.level);
+  player.setExp(snapshot.exp);
+  player.setTotalExperience(snapshot.totalExperience);
+  player.setRemainingAir(snapshot.remainingAir);
+  player.setFireTicks(snapshot.fireTicks);
+  player.setFallDistance(snapshot.fallDistance);
+
+  for (const effect of collectionToArray<BukkitPotionEffect>(player.getActivePotionEffects())) {
+    player.removePotionEffect(effect.getType());
+  }
+  for (const effect of snapshot.effects) {
+    player.addPotionEffect(copyEffect(effect));
+  }
+
+  player.updateInventory();
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Save a player's current state.
+ *
+ * @example
+ * const entries = new Map<string, PlayerSnapshot>();
+ * arena.onJoin(player => entries.set(player.getName(), snapshotPlayer(player)));
+ * arena.onLeave(player => entries.get(player.getName())?.restore());
+ */
+export function snapshotPlayer(player: BukkitPlayer): PlayerSnapshot {
+  const inventory = player.getInventory();
+
+  return createSnapshot({
+    playerId: player.getUniqueId().toString(),
+    playerName: player.getName(),
+    takenAt: Date.now(),
+    storage: Array.from(inventory.getStorageContents(), copyItem),
+    armor: Array.from(inventory.getArmorContents(), copyItem),
+    offHand: copyItem(inventory.getItemInOffHand()),
+    heldSlot: inventory.getHeldItemSlot(),
+    maxHealth: player.getAttribute(Attribute.MAX_HEALTH)?.getBaseValue() ?? player.getMaxHealth(),
+    health: player.getHealth(),
+    foodLevel: player.getFoodLevel(),
+    saturation: player.getSaturation(),
+    exhaustion: player.getExhaustion(),
+    level: player.getLevel(),
+    exp: player.getExp(),
+    totalExperience: player.getTotalExperience(),
+    remainingAir: player.getRemainingAir(),
+    fireTicks: player.getFireTicks(),
+    fallDistance: player.getFallDistance(),
+    effects: collectionToArray<BukkitPotionEffect>(player.getActivePotionEffects()).map(copyEffect),
+    gameMode: player.getGameMode(),
+    allowFlight: player.getAllowFlight(),
+    flying: player.isFlying(),
+    location: player.getLocation().clone(),
+  });
+}
+
+/**
+ * Compare two snapshots (usually of the same player).
+ *
+ * NOTE: Effect durations count down, so a running effect shows as
+ * changed between any two snapshots taken at different ticks.
+ *
+ * @example
+ * const lost = diffSnapshots(beforeDeath, snapshotPlayer(player)).slots
+ *   .filter(change => change.before !== null && change.after === null);
+ */
+export function diffSnapshots(before: PlayerSnapshot, after: PlayerSnapshot): SnapshotDiff {
+  const slots: SlotChange[] = [];
+  const afterSlots = slotItems(after);
+  for (const [slot, item] of slotItems(before)) {
+    const other = afterSlots.get(slot) ?? null;
+    if (!sameItem(item, other)) {
+      slots.push({ slot, before: item, after: other });
+    }
+  }
+
+  const stats: StatChange[] = [];
+  for (const stat of SNAPSHOT_STATS) {
+    const was = statValue(before, stat);
+    const is = statValue(after, stat);
+    if (was !== is) {
+      stats.push({ stat, before: was, after: is });
+    }
+  }
+
+  const effects: EffectChange[] = [];
+  const afterEffects = new Map(after.effects.map(effect => [effectKey(effect), effect]));
+  for (const effect of before.effects) {
+    const other = afterEffects.get(effectKey(effect)) ?? null;
+    if (other === null || !effect.equals(other)) {
+      effects.push({ type: effectKey(effect), before: effect, after: other });
+    }
+    afterEffects.delete(effectKey(effect));
+  }
+  for (const [type, effect] of afterEffects) {
+    effects.push({ type, before: null, after: effect });
+  }
+
+  const moved = !before.location.equals(after.location);
+
+  return {
+    changed: slots.length > 0 || stats.length > 0 || effects.length > 0 || moved,
+    slots,
+    stats,
+    effects,
+    moved,
+  };
+}
+
+// ============================================
+// SERIALIZATION
+// ============================================
+
+/**
+ * JSON form of a snapshot.
+ */
+export function serializeSnapshot(snapshot: PlayerSnapshot): SerializedPlayerSnapshot {
+  const location = snapshot.location;
+  const world = location.getWorld();
+  if (world === null) {
+    throw new Error(`Snapshot of ${snapshot.playerName} has no world`);
+  }
+
+  return {
+    playerId: snapshot.playerId,
+    playerName: snapshot.playerName,
+    takenAt: snapshot.takenAt,
+    storage: serializeItems(snapshot.storage),
+    armor: serializeItems(snapshot.armor),
+    offHand: serializeItem(snapshot.offHand),
+    heldSlot: snapshot.heldSlot,
+    maxHealth: snapshot.maxHealth,
+    health: snapshot.health,
+    foodLevel: snapshot.foodLevel,
+    saturation: snapshot.saturation,
+    exhaustion: snapshot.exhaustion,
+    level: snapshot.level,
+    exp: snapshot.exp,
+    totalExperience: snapshot.totalExperience,
+    remainingAir: snapshot.remainingAir,
+    fireTicks: snapshot.fireTicks,
+    fallDistance: snapshot.fallDistance,
+    effects: snapshot.effects.map(effect => ({
+      type: effectKey(effect),
+      duration: effect.getDuration(),
+      amplifier: effect.getAmplifier(),
+      ambient: effect.isAmbient(),
+      particles: effect.hasParticles(),
+      icon: effect.hasIcon(),
+    })),
+    gameMode: snapshot.gameMode.name(),
+    allowFlight: snapshot.allowFlight,
+    flying: snapshot.flying,
+    location: {
+      world: world.getName(),
+      x: location.getX(),
+      y: location.getY(),
+      z: location.getZ(),
+      yaw: location.getYaw(),
+      pitch: location.getPitch(),
+    },
+  };
+}
+
+/**
+ * Read a snapshot from serializeSnapshot() (as an object or JSON text).
+ *
+ * @throws Error if the world is not loaded or an effect type is unknown
+ */
+export function deserializeSnapshot(data: SerializedPlayerSnapshot | string): PlayerSnapshot {
+  const value: SerializedPlayerSnapshot = typeof data === "string" ? JSON.parse(data) : data;
+
+  const world = org.bukkit.Bukkit.getWorld(value.location.world);
+  if (world === null) {
+    throw new Error(`Can't read snapshot of ${value.playerName}: world "${value.location.world}" is not loaded`);
+  }
+  const { x, y, z, yaw, pitch } = value.location;
+
+  return createSnapshot({
+    playerId: value.playerId,
+    playerName: value.playerName,
+    takenAt: value.takenAt,
+    storage: deserializeItems(value.storage),
+    armor: deserializeItems(value.armor),
+    offHand: deserializeItem(value.offHand),
+    heldSlot: value.heldSlot,
+    maxHealth: value.maxHealth,
+    health: value.health,
+    foodLevel: value.foodLevel,
+    saturation: value.saturation,
+    exhaustion: value.exhaustion,
+    level: value.level,
+    exp: value.exp,
+    totalExperience: value.totalExperience,
+    remainingAir: value.remainingAir,
+    fireTicks: value.fireTicks,
+    fallDistance: value.fallDistance,
+    effects: value.effects.map(effect => PotionEffect.create(
+      effectType(effect.type),
+      effect.duration,
+      effect.amplifier,
+      effect.ambient,
+      effect.particles,
+      effect.icon
+    )),
+    gameMode: GameMode.valueOf(value.gameMode),
+    allowFlight: value.allowFlight,
+    flying: value.flying,
+    location: createLocationWithRotation(world, x, y, z, yaw, pitch),
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Represents an event's priority in execution.
+ *
+ * Listeners with lower priority are called first, listeners with higher
+ * priority are called last. MONITOR is special: it runs after everything
+ * else and must only observe the outcome, never modify the event.
+ *
+ * EXECUTION ORDER:
+ * ┌─────────────────────────────────────────────────────────────────┐
+ * │  LOWEST  → LOW → NORMAL → HIGH → HIGHEST → MONITOR              │
+ * │  (first)                                  (last, read-only)     │
+ * └─────────────────────────────────────────────────────────────────┘
+ *
+ * WHY "LOWEST RUNS FIRST": The listener that runs last has the final
+ * say on the event outcome (e.g. cancellation). HIGHEST therefore means
+ * "most important decision", not "called first".
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/event/EventPriority.html
+ */
+
+import { JavaEnum, JavaEnumClass } from "../../java/types/enum";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type EventPriorityKey = "LOWEST" | "LOW" | "NORMAL" | "HIGH" | "HIGHEST" | "MONITOR";
+
+// ============================================
+// INTERFACE
+// ============================================
+
+export interface BukkitEventPriority extends JavaEnum<EventPriorityKey> {
+  /**
+   * Gets the numeric slot of this priority.
+   * @returns 0 for LOWEST up to 5 for MONITOR
+   */
+  getSlot(): number;
+}
+
+// ============================================
+// EVENT PRIORITY CLASS INTERFACE
+// ============================================
+
+interface EventPriorityClass extends
+  Omit<Record<EventPriorityKey, BukkitEventPriority>, keyof JavaEnumClass<BukkitEventPriority>>,
+  JavaEnumClass<BukkitEventPriority> {
+}
+
+// ============================================
+// EVENT PRIORITIES
+// ============================================
+
+export const EventPriority: EventPriorityClass = {
+  /** Event call is of very low importance and should be run first. */
+  LOWEST: org.bukkit.event.EventPriority.LOWEST,
+
+  /** Event call is of low importance. */
+  LOW: org.bukkit.event.EventPriority.LOW,
+
+  /** Event call is neither important nor unimportant. Default for @EventHandler. */
+  NORMAL: org.bukkit.event.EventPriority.NORMAL,
+
+  /** Event call is of high importance. */
+  HIGH: org.bukkit.event.EventPriority.HIGH,
+
+  /** Event call is critical and must have the final say in what happens. */
+  HIGHEST: org.bukkit.event.EventPriority.HIGHEST,
+
+  /**
+   * Event is listened to purely for monitoring the outcome.
+   * No modifications to the event should be made under this priority.
+   */
+  MONITOR: org.bukkit.event.EventPriority.MONITOR,
+
+  values(): BukkitEventPriority[] {
+    return org.bukkit.event.EventPriority.values();
+  },
+
+  valueOf(name: string): BukkitEventPriority {
+    return org.bukkit.event.EventPriority.valueOf(name);
+  },
+};
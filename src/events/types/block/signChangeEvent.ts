@@ -0,0 +1,70 @@
+// events/block/SignChangeEvent.ts
+
+import { BukkitPlayer } from "../../../entities/types/bukkitPlayer";
+import { BukkitBlockEvent } from "../blockEvent";
+import { BukkitCancellable } from "../cancellable";
+
+/**
+ * SignChangeEvent
+ * 
+ * Called when a player finishes editing a sign (presses "Done").
+ * 
+ * HIERARCHY:
+ * Event
+ * └── BlockEvent
+ *     └── SignChangeEvent (this)
+ * 
+ * VIRTUAL SIGNS:
+ * Also called for signs opened with Player.openVirtualSign(). getBlock()
+ * is then the real block at that position, which usually isn't a sign.
+ * 
+ * CANCELLATION:
+ * If cancelled, the sign keeps its old text.
+ * 
+ * LINES:
+ * Always 4 lines (0-3). Lines are legacy strings; empty lines are "".
+ * 
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/event/block/SignChangeEvent.html
+ */
+export interface EventSignChangeEvent extends BukkitBlockEvent, BukkitCancellable {
+  /**
+   * Gets the player changing the sign.
+   * 
+   * @returns The player
+   */
+  getPlayer(): BukkitPlayer;
+
+  /**
+   * Gets all 4 lines of text.
+   * 
+   * @returns The lines
+   */
+  getLines(): string[];
+
+  /**
+   * Gets one line of text.
+   * 
+   * @param index Line number, 0-3
+   * @returns The line's text
+   */
+  getLine(index: number): string | null;
+
+  /**
+   * Sets one line of text.
+   * 
+   * @param index Line number, 0-3
+   * @param line New text, or null to clear it
+   */
+  setLine(index: number, line: string | null): void;
+
+  /* Inherited from EventBlockEvent:
+   * - getBlock(): BukkitBlock
+   */
+
+  /* Inherited from Cancellable:
+   * - isCancelled(): boolean
+   * - setCancelled(cancel: boolean): void
+   */
+}
+
+export const SignChangeEvent = org.bukkit.event.block.SignChangeEvent;
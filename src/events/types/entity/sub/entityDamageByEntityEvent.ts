@@ -0,0 +1,40 @@
+// events/entity/EntityDamageByEntityEvent.ts
+
+import { BukkitEntity } from "../../../../entities/types/bukkitEntity";
+import { BukkitEntityDamageEvent } from "../entityDamageEvent";
+
+/**
+ * EntityDamageByEntityEvent
+ *
+ * Called when an entity is damaged by another entity: a melee hit, an
+ * arrow, a explosion caused by an entity...
+ *
+ * HIERARCHY:
+ * Event
+ * └── EntityEvent
+ *     └── EntityDamageEvent
+ *         └── EntityDamageByEntityEvent (this)
+ *
+ * DAMAGER:
+ * getDamager() is the entity that dealt the damage directly. For a shot
+ * arrow that is the arrow; the shooter is Projectile.getShooter().
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/event/entity/EntityDamageByEntityEvent.html
+ */
+export interface EventEntityDamageByEntityEvent extends BukkitEntityDamageEvent {
+  /**
+   * Gets the entity that damaged the defender.
+   *
+   * @returns The damager
+   */
+  getDamager(): BukkitEntity;
+
+  /**
+   * Whether the attack was a critical hit (falling player).
+   *
+   * @returns True for a critical hit
+   */
+  isCritical(): boolean;
+}
+
+export const EntityDamageByEntityEvent = org.bukkit.event.entity.EntityDamageByEntityEvent;
@@ -0,0 +1,67 @@
+// events/inventory/InventoryCloseEvent.ts
+
+import { BukkitHumanEntity } from "../../../entities/types/bukkitHumanEntity";
+import { JavaEnum } from "../../../java/types/enum";
+import { EventInventoryEvent } from "./inventoryEvent";
+
+/**
+ * Why an inventory was closed (Paper).
+ */
+export type InventoryCloseReasonKey =
+  | "UNKNOWN"
+  | "TELEPORT"
+  | "CANT_USE"
+  | "UNLOADED"
+  | "OPEN_NEW"
+  | "PLAYER"
+  | "DISCONNECT"
+  | "DEATH"
+  | "PLUGIN";
+
+export interface BukkitInventoryCloseReason extends JavaEnum<InventoryCloseReasonKey> {}
+
+/**
+ * InventoryCloseEvent
+ * 
+ * Called when a player closes an inventory, or it is closed for them
+ * (another inventory opened, plugin, disconnect, death).
+ * 
+ * HIERARCHY:
+ * Event
+ * └── InventoryEvent
+ *     └── InventoryCloseEvent (this)
+ * 
+ * NOT CANCELLABLE:
+ * The inventory is already closing. To keep a menu open, open it
+ * again on the next tick.
+ * 
+ * COMMON USE CASES:
+ * - Clean up per-player GUI state
+ * - Return items left in a custom inventory
+ * - Save edits made in an inventory editor
+ * 
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/event/inventory/InventoryCloseEvent.html
+ */
+export interface EventInventoryCloseEvent extends EventInventoryEvent {
+  /**
+   * Returns the player involved in this event.
+   * 
+   * @returns The player closing the inventory
+   */
+  getPlayer(): BukkitHumanEntity;
+
+  /**
+   * Returns why the inventory was closed (Paper).
+   * 
+   * @returns The close reason
+   */
+  getReason(): BukkitInventoryCloseReason;
+
+  /* Inherited from EventInventoryEvent:
+   * - getInventory(): BukkitInventory
+   * - getView(): BukkitInventoryView
+   * - getViewers(): JavaList<BukkitHumanEntity>
+   */
+}
+
+export const InventoryCloseEvent = org.bukkit.event.inventory.InventoryCloseEvent;
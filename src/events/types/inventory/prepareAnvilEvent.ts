@@ -0,0 +1,54 @@
+// events/inventory/PrepareAnvilEvent.ts
+
+import { BukkitItemStack } from "../../../items/types/itemstack";
+import { BukkitAnvilInventory } from "../../../inventories/type/anvilInventory";
+import { EventInventoryEvent } from "./inventoryEvent";
+
+/**
+ * PrepareAnvilEvent
+ * 
+ * Called when the result of an anvil is computed: an input item was
+ * placed or removed, or the rename text changed.
+ * 
+ * HIERARCHY:
+ * Event
+ * └── InventoryEvent
+ *     └── PrepareInventoryResultEvent
+ *         └── PrepareAnvilEvent (this)
+ * 
+ * COMMON USE CASES:
+ * - Custom anvil recipes (set a different result)
+ * - Free renames (repair cost 0)
+ * - Text input GUIs (read the rename text)
+ * 
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/event/inventory/PrepareAnvilEvent.html
+ */
+export interface EventPrepareAnvilEvent extends EventInventoryEvent {
+  /**
+   * Returns the anvil inventory.
+   * 
+   * @returns The anvil's top inventory
+   */
+  getInventory(): BukkitAnvilInventory;
+
+  /**
+   * Returns the item shown in the result slot.
+   * 
+   * @returns The result, or null if there is none
+   */
+  getResult(): BukkitItemStack | null;
+
+  /**
+   * Sets the item shown in the result slot.
+   * 
+   * @param result The result, or null for none
+   */
+  setResult(result: BukkitItemStack | null): void;
+
+  /* Inherited from EventInventoryEvent:
+   * - getView(): BukkitInventoryView
+   * - getViewers(): JavaList<BukkitHumanEntity>
+   */
+}
+
+export const PrepareAnvilEvent = org.bukkit.event.inventory.PrepareAnvilEvent;
@@ -2,6 +2,7 @@
 
 import { BukkitPlayer } from "../../../entities/types/bukkitPlayer";
 import { JavaSet } from "../../../java/types/set";
+import { BukkitCancellable } from "../cancellable";
 import { BukkitPlayerEvent } from "./playerEvent";
 
 
@@ -39,7 +40,7 @@ import { BukkitPlayerEvent } from "./playerEvent";
  * 
  * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/event/player/AsyncPlayerChatEvent.html
  */
-export interface EventAsyncPlayerChatEvent extends BukkitPlayerEvent {
+export interface EventAsyncPlayerChatEvent extends BukkitPlayerEvent, BukkitCancellable {
   /**
    * Gets the message the player is attempting to send.
    * 
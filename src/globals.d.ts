@@ -1,7 +1,40 @@
 declare const org: any;
 declare const java: any;
 declare const PaperTS: {
-  registerEvent<T>(eventClass: any, listener: (event: T) => void): void;
+  /**
+   * Register a listener for a Bukkit event class.
+   * @param priority Bukkit EventPriority constant (defaults to NORMAL)
+   * @returns The Java listener object, for HandlerList.unregisterAll()
+   */
+  registerEvent<T>(eventClass: any, listener: (event: T) => void, priority?: any /* BukkitEventPriority */): any /* BukkitListener */;
+
+  /**
+   * Register a command in the server's CommandMap.
+   * @param executor Receives the label as typed (an alias, or "plugin:name") as third argument
+   * @param tabCompleter Returns completions for the last element of args
+   * @returns The Java command object, for unregistering it later
+   */
+  registerCommand(
+    name: string,
+    description: string,
+    usageMessage: string,
+    permission: string,
+    aliases: string[],
+    executor: (sender: any, args: string[], label?: string) => boolean | void,
+    tabCompleter?: (sender: any, args: string[]) => string[]
+  ): any /* BukkitCommand */;
+
+  /**
+   * The Java plugin instance running this bundle.
+   * Needed by Bukkit APIs that take an owning plugin (scheduler, keys).
+   */
+  getJavaPlugin(): any /* BukkitPlugin */;
+
+  /**
+   * Run a callback when the Java plugin is disabled (server stop, reload).
+   * Callbacks run in registration order.
+   */
+  onDisable(callback: () => void): void;
 }
 
 /**
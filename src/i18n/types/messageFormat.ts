@@ -0,0 +1,251 @@
+/**
+ * DESIGN
+ * ------
+ * Message templates with parameters, plurals and number formatting.
+ *
+ * A small subset of ICU MessageFormat, enough for chat messages:
+ *
+ *   "§a{target} was healed"                          §aSteve was healed
+ *       { target: player }
+ *   "{count, plural, one {# kill} other {# kills}}"  3 kills
+ *       { count: 3 }
+ *   "{count, plural, =0 {No kills} other {# kills}}" No kills
+ *       { count: 0 }
+ *   "Balance: {money, number, 2}"                    Balance: 1,234.50
+ *       { money: 1234.5 }
+ *   "{mode, select, creative {Creative} other {?}}"  Creative
+ *       { mode: "creative" }
+ *
+ * PARAMETER VALUES:
+ * - Players, entities and worlds show their name (getName())
+ * - Enum constants show their constant name (name())
+ * - Anything else goes through String()
+ * A parameter missing from params is left as written ("{target}"), so
+ * a typo shows up in-game instead of silently disappearing.
+ *
+ * PLURALS:
+ * Branches are tried in order "=N" (exact), then the plural category of
+ * the locale ("one"/"other"; French and Portuguese treat 0 as "one"),
+ * then "other". Inside a branch, # is the formatted number.
+ *
+ * @see https://unicode-org.github.io/icu/userguide/format_parse/messages/
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Values substituted into a template, by parameter name.
+ */
+export interface MessageParams {
+  [name: string]: unknown;
+}
+
+/**
+ * Plural category of a number (the ones used by the supported locales).
+ */
+export type PluralCategory = "one" | "other";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Grouping and decimal separators by language.
+ */
+const NUMBER_SEPARATORS: { [language: string]: [grouping: string, decimal: string] } = {
+  en: [",", "."],
+  it: [".", ","],
+  de: [".", ","],
+  es: [".", ","],
+  pt: [".", ","],
+  nl: [".", ","],
+  fr: [" ", ","],
+  pl: [" ", ","],
+  ru: [" ", ","],
+};
+
+/** Languages where 0 is singular ("0 kill" in French) */
+const ZERO_IS_ONE = ["fr", "pt"];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * "de_at" → "de"
+ */
+export function languageOf(locale: string): string {
+  return locale.toLowerCase().split(/[_-]/)[0];
+}
+
+/**
+ * Index of the "}" closing the "{" at start, or -1.
+ */
+function findClosing(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse "one {# kill} other {# kills}" into [selector, text] pairs.
+ */
+function parseBranches(text: string): Array<[string, string]> {
+  const branches: Array<[string, string]> = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const open = text.indexOf("{", i);
+    if (open < 0) break;
+    const close = findClosing(text, open);
+    if (close < 0) break;
+
+    const selector = text.substring(i, open).trim();
+    branches.push([selector, text.substring(open + 1, close)]);
+    i = close + 1;
+  }
+
+  return branches;
+}
+
+function displayValue(value: unknown, locale: string): string {
+  if (typeof value === "number") return formatNumber(value, locale);
+  if (value !== null && typeof value === "object") {
+    const obj = value as any;
+    if (typeof obj.getName === "function") return String(obj.getName());
+    if (typeof obj.name === "function") return String(obj.name());
+  }
+  return String(value);
+}
+
+function formatPlural(value: unknown, rest: string, params: MessageParams, locale: string): string {
+  const count = Number(value);
+  const branches = parseBranches(rest);
+  const category = pluralCategory(count, locale);
+
+  const branch =
+    branches.find(([selector]) => selector === `=${count}`) ??
+    branches.find(([selector]) => selector === category) ??
+    branches.find(([selector]) => selector === "other");
+
+  if (branch === undefined) return String(value);
+  return formatMessage(branch[1].replace(/#/g, formatNumber(count, locale)), params, locale);
+}
+
+function formatSelect(value: unknown, rest: string, params: MessageParams, locale: string): string {
+  const branches = parseBranches(rest);
+  const key = displayValue(value, locale).toLowerCase();
+
+  const branch =
+    branches.find(([selector]) => selector.toLowerCase() === key) ??
+    branches.find(([selector]) => selector === "other");
+
+  return branch === undefined ? String(value) : formatMessage(branch[1], params, locale);
+}
+
+/**
+ * Format one "{...}" placeholder (without the braces).
+ */
+function formatPlaceholder(body: string, params: MessageParams, locale: string): string | null {
+  const [rawName, rawType, ...restParts] = body.split(",");
+  const name = rawName.trim();
+  if (!(name in params)) return null;
+
+  const value = params[name];
+  const type = rawType?.trim();
+  const rest = restParts.join(",");
+
+  switch (type) {
+    case undefined:
+      return displayValue(value, locale);
+    case "number": {
+      const decimals = rest.trim() === "" ? undefined : Number(rest.trim());
+      return formatNumber(Number(value), locale, decimals);
+    }
+    case "plural":
+      return formatPlural(value, rest, params, locale);
+    case "select":
+      return formatSelect(value, rest, params, locale);
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Plural category of a number in a locale.
+ *
+ * @example
+ * pluralCategory(1, "en_us");  // "one"
+ * pluralCategory(0, "fr_fr");  // "one"
+ * pluralCategory(0, "it_it");  // "other"
+ */
+export function pluralCategory(count: number, locale: string): PluralCategory {
+  const abs = Math.abs(count);
+  if (ZERO_IS_ONE.includes(languageOf(locale))) {
+    return abs < 2 ? "one" : "other";
+  }
+  return abs === 1 ? "one" : "other";
+}
+
+/**
+ * Format a number with the locale's separators.
+ *
+ * @param decimals Fixed number of decimals. Default: none for whole
+ *                 numbers, up to 2 otherwise
+ *
+ * @example
+ * formatNumber(1234.5, "en_us", 2);  // "1,234.50"
+ * formatNumber(1234.5, "de_de");     // "1.234,5"
+ */
+export function formatNumber(value: number, locale: string, decimals?: number): string {
+  if (!Number.isFinite(value)) return String(value);
+
+  const [grouping, decimal] = NUMBER_SEPARATORS[languageOf(locale)] ?? NUMBER_SEPARATORS.en;
+  const fixed = decimals !== undefined
+    ? Math.abs(value).toFixed(decimals)
+    : Number.isInteger(value)
+      ? String(Math.abs(value))
+      : Math.abs(value).toFixed(2).replace(/0+$/, "");
+
+  const [whole, fraction] = fixed.split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, grouping);
+  const sign = value < 0 ? "-" : "";
+
+  return fraction ? `${sign}${grouped}${decimal}${fraction}` : `${sign}${grouped}`;
+}
+
+/**
+ * Substitute parameters into a template.
+ *
+ * @example
+ * formatMessage("§a{count, plural, one {# player} other {# players}} online", { count: 2 }, "en_us");
+ * // "§a2 players online"
+ */
+export function formatMessage(template: string, params: MessageParams, locale: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf("{", i);
+    if (open < 0) break;
+
+    const close = findClosing(template, open);
+    if (close < 0) break;
+
+    result += template.substring(i, open);
+    const formatted = formatPlaceholder(template.substring(open + 1, close), params, locale);
+    result += formatted ?? template.substring(open, close + 1);
+    i = close + 1;
+  }
+
+  return result + template.substring(i);
+}
@@ -0,0 +1,367 @@
+/**
+ * DESIGN
+ * ------
+ * Messages in the language of each player's client.
+ *
+ * Messages live in one YAML file per locale in the plugin's data folder,
+ * so server owners can edit and add languages without touching code:
+ *
+ *   plugins/MyPlugin/lang/
+ *   ├── en_us.yml        heal:
+ *   ├── it_it.yml          success: "§a{target} was healed"
+ *   └── de_de.yml          self: "§aYou were healed"
+ *
+ *   t(player, "heal.success", { target })   // in the player's language
+ *
+ * FALLBACK CHAIN:
+ * A key missing in the player's locale is looked up further down:
+ *
+ *   de_at ──→ configured fallbacks ──→ de ──→ other de_* ──→ default locale
+ *             (e.g. de_at → de_de)     (language   (any German
+ *                                       only file)  file loaded)
+ *
+ * A key missing everywhere is returned as-is ("heal.success") and logged
+ * once, so the gap is visible in-game and in the console.
+ *
+ * BUNDLED MESSAGES:
+ * The plugin ships its messages in code (options.bundled). On load,
+ * keys missing from the files are written into them: the files always
+ * show every message there is to translate, and edits are kept.
+ *
+ * THE CONSOLE (and command blocks) use options.consoleLocale, by default
+ * the default locale.
+ *
+ * @see messageFormat.ts for the template syntax
+ */
+
+import { BukkitCommandSender } from "../../entities/types/commandSender";
+import {
+  BukkitFileConfiguration,
+  loadYamlFile,
+  saveYamlFile,
+  setPlainValue,
+  toPlainValue,
+} from "../../config/types/fileConfiguration";
+import { formatMessage, languageOf, MessageParams } from "./messageFormat";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Nested messages, as written in a locale file.
+ * A list of lines is joined with newlines.
+ */
+export interface MessageTree {
+  readonly [key: string]: string | readonly string[] | MessageTree;
+}
+
+/**
+ * Dotted keys of a message tree.
+ *
+ * @example
+ * MessageKey<{ heal: { success: string; self: string } }>
+ * // "heal.success" | "heal.self"
+ */
+export type MessageKey<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string | readonly string[]
+    ? `${Prefix}${K}`
+    : MessageKey<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+/**
+ * Who a message is for: a sender (its locale is used) or a locale.
+ */
+export type MessageReceiver = BukkitCommandSender | string;
+
+export interface TranslatorOptions<B extends MessageTree> {
+  /** Locale used when nothing else matches. Default "en_us" */
+  defaultLocale?: string;
+
+  /** Locale of the console and other non-player senders. Default: defaultLocale */
+  consoleLocale?: string;
+
+  /** Folder in the plugin's data folder. Default "lang" */
+  folder?: string;
+
+  /**
+   * Messages shipped with the plugin, by locale. Their keys also type
+   * the keys accepted by t().
+   */
+  bundled?: { readonly [locale: string]: B };
+
+  /** Extra fallbacks by locale, tried before the language-wide ones */
+  fallbacks?: { readonly [locale: string]: readonly string[] };
+}
+
+/**
+ * Loaded message bundles.
+ *
+ * @typeParam K Accepted keys (from the bundled messages)
+ */
+export interface Translator<K extends string = string> {
+  /** Locale used when nothing else matches */
+  readonly defaultLocale: string;
+
+  /**
+   * The message for a receiver, with parameters substituted.
+   *
+   * @example
+   * messages.t(player, "shop.bought", { count: 3, item: Material.DIAMOND });
+   */
+  t(receiver: MessageReceiver, key: K, params?: MessageParams): string;
+
+  /** Send the message to a sender, in its locale */
+  send(sender: BukkitCommandSender, key: K, params?: MessageParams): void;
+
+  /** Send the message to every online player, each in their locale */
+  broadcast(key: K, params?: MessageParams): void;
+
+  /** True if a key has a message in the locale or its fallbacks */
+  has(receiver: MessageReceiver, key: string): boolean;
+
+  /** Locales with a loaded file or bundled messages */
+  locales(): string[];
+
+  /** Read the locale files again (writes missing bundled keys first) */
+  reload(): void;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * "en-US" / "EN_us" → "en_us"
+ */
+function normalizeLocale(locale: string): string {
+  return locale.toLowerCase().replace(/-/g, "_");
+}
+
+/**
+ * Flatten a message tree into dotted keys.
+ */
+function flatten(tree: MessageTree, prefix: string, into: Map<string, string>): Map<string, string> {
+  for (const [key, value] of Object.entries(tree)) {
+    const path = prefix === "" ? key : `${prefix}.${key}`;
+    if (typeof value === "string") into.set(path, value);
+    else if (Array.isArray(value)) into.set(path, value.join("\n"));
+    else flatten(value as MessageTree, path, into);
+  }
+  return into;
+}
+
+/**
+ * Messages of a locale file, flattened.
+ */
+function readMessages(config: BukkitFileConfiguration): Map<string, string> {
+  const messages = new Map<string, string>();
+  for (const key of config.getKeys(true).toArray() as string[]) {
+    const value = toPlainValue(config.get(key));
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      messages.set(key, String(value));
+    } else if (Array.isArray(value)) {
+      messages.set(key, value.map(String).join("\n"));
+    }
+  }
+  return messages;
+}
+
+/**
+ * Locale of a receiver.
+ */
+function localeOf(receiver: MessageReceiver, consoleLocale: string): string {
+  if (typeof receiver === "string") return normalizeLocale(receiver);
+  const getLocale = (receiver as any).getLocale;
+  return typeof getLocale === "function" ? normalizeLocale(getLocale.call(receiver)) : consoleLocale;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Create a translator and load its files.
+ *
+ * @example
+ * const messages = createTranslator({
+ *   defaultLocale: "en_us",
+ *   bundled: {
+ *     en_us: { heal: { success: "§a{target} was healed" } },
+ *     it_it: { heal: { success: "§a{target} è stato curato" } },
+ *   },
+ * });
+ *
+ * messages.send(sender, "heal.success", { target });
+ */
+export function createTranslator<B extends MessageTree>(
+  options: TranslatorOptions<B> = {}
+): Translator<MessageKey<B>> {
+  const defaultLocale = normalizeLocale(options.defaultLocale ?? "en_us");
+  const consoleLocale = normalizeLocale(options.consoleLocale ?? defaultLocale);
+  const folder = options.folder ?? "lang";
+  const bundled = options.bundled ?? {};
+  const fallbacks = options.fallbacks ?? {};
+
+  /** Messages by locale, then by key */
+  const bundles = new Map<string, Map<string, string>>();
+
+  /** Lookup order by locale, built on first use */
+  const chains = new Map<string, string[]>();
+
+  /** Keys already reported as missing */
+  const reported = new Set<string>();
+
+  function chainOf(locale: string): string[] {
+    let chain = chains.get(locale);
+    if (chain !== undefined) return chain;
+
+    const language = languageOf(locale);
+    const candidates = [
+      locale,
+      ...(fallbacks[locale] ?? []).map(normalizeLocale),
+      language,
+      ...[...bundles.keys()].filter(other => languageOf(other) === language).sort(),
+      defaultLocale,
+    ];
+    chain = [...new Set(candidates)].filter(candidate => bundles.has(candidate));
+    chains.set(locale, chain);
+    return chain;
+  }
+
+  function lookup(locale: string, key: string): string | undefined {
+    for (const candidate of chainOf(locale)) {
+      const message = bundles.get(candidate)!.get(key);
+      if (message !== undefined) return message;
+    }
+    return undefined;
+  }
+
+  function loadLocale(locale: string, fileName: string): void {
+    const config = loadYamlFile(fileName);
+    const shipped = Object.entries(bundled).find(([name]) => normalizeLocale(name) === locale)?.[1];
+
+    if (shipped !== undefined) {
+      let changed = false;
+      for (const [key, message] of flatten(shipped, "", new Map())) {
+        if (!config.isSet(key)) {
+          setPlainValue(config, key, message.includes("\n") ? message.split("\n") : message);
+          changed = true;
+        }
+      }
+      if (changed) saveYamlFile(config, fileName);
+    }
+
+    bundles.set(locale, readMessages(config));
+  }
+
+  const translator: Translator<MessageKey<B>> = {
+    defaultLocale,
+
+    t(receiver: MessageReceiver, key: string, params: MessageParams = {}): string {
+      const locale = localeOf(receiver, consoleLocale);
+      const message = lookup(locale, key);
+
+      if (message === undefined) {
+        if (!reported.has(key)) {
+          reported.add(key);
+          PaperTS.getJavaPlugin().getLogger().warning(`Missing message "${key}" (locale ${locale})`);
+        }
+        return key;
+      }
+      return formatMessage(message, params, locale);
+    },
+
+    send(sender: BukkitCommandSender, key: MessageKey<B>, params?: MessageParams): void {
+      sender.sendMessage(translator.t(sender, key, params));
+    },
+
+    broadcast(key: MessageKey<B>, params?: MessageParams): void {
+      const players = org.bukkit.Bukkit.getOnlinePlayers().iterator();
+      while (players.hasNext()) {
+        translator.send(players.next(), key, params);
+      }
+    },
+
+    has: (receiver, key) => lookup(localeOf(receiver, consoleLocale), key) !== undefined,
+
+    locales: () => [...bundles.keys()].sort(),
+
+    reload(): void {
+      bundles.clear();
+      chains.clear();
+      reported.clear();
+
+      /* File names by locale: bundled ones, then whatever is in the folder */
+      const files = new Map<string, string>();
+      for (const locale of Object.keys(bundled)) {
+        files.set(normalizeLocale(locale), `${folder}/${normalizeLocale(locale)}.yml`);
+      }
+      const names: string[] | null = new java.io.File(PaperTS.getJavaPlugin().getDataFolder(), folder).list();
+      for (const name of Array.from(names ?? [], file => String(file))) {
+        if (name.endsWith(".yml")) {
+          files.set(normalizeLocale(name.substring(0, name.length - ".yml".length)), `${folder}/${name}`);
+        }
+      }
+
+      for (const [locale, fileName] of files) {
+        loadLocale(locale, fileName);
+      }
+    },
+  };
+
+  translator.reload();
+  return translator;
+}
+
+// ============================================
+// SHARED TRANSLATOR
+// ============================================
+
+/** Translator used by t() and tell() */
+let shared: Translator | null = null;
+
+/**
+ * Create the plugin's translator and make it the one t() uses.
+ *
+ * @example
+ * // onEnable():
+ * loadMessages({ bundled: { en_us: EN, it_it: IT, de_de: DE } });
+ *
+ * // anywhere:
+ * player.sendMessage(t(player, "heal.success", { target }));
+ */
+export function loadMessages<B extends MessageTree>(options: TranslatorOptions<B> = {}): Translator<MessageKey<B>> {
+  const translator = createTranslator(options);
+  shared = translator as Translator;
+  return translator;
+}
+
+function sharedTranslator(): Translator {
+  if (shared === null) {
+    throw new Error("No messages loaded (call loadMessages() first)");
+  }
+  return shared;
+}
+
+/**
+ * A message in the receiver's language, from the messages loaded with
+ * loadMessages().
+ *
+ * @example
+ * t(player, "shop.items", { count: 3 });   // "3 items" / "3 oggetti"
+ * t("de_de", "shop.items", { count: 1 });  // "1 Gegenstand"
+ */
+export function t(receiver: MessageReceiver, key: string, params?: MessageParams): string {
+  return sharedTranslator().t(receiver, key, params);
+}
+
+/**
+ * Send a message in the sender's language.
+ *
+ * @example
+ * tell(sender, "heal.self");
+ */
+export function tell(sender: BukkitCommandSender, key: string, params?: MessageParams): void {
+  sharedTranslator().send(sender, key, params);
+}
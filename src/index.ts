@@ -1,23 +1,55 @@
 import { GameModeKey } from "./entities/enums/gamemodeType";
 import { BukkitPlayer } from "./entities/types/bukkitPlayer";
-import { Command, EventHandler, registerPlugin } from "./decorators";
-import { EventPlayerInteractEvent, PlayerInteractEvent, PlayerInteractEventHelper } from "./events/types/player/playerInteractEvent";
+import { Command, EventHandler } from "./decorators";
 import { EventPlayerJoinEvent, PlayerJoinEvent } from "./events/types/player/playerJoinEvent";
 import { Enchantment } from "./items/enums/enchantmentType";
 import { Material } from "./items/enums/materialType";
 import { BukkitItemStack, createItemStack } from "./items/types/itemstack";
+import { CustomItem, defineItem } from "./items/types/customItem";
 import { EntityType, GameMode, TreeType } from "./java/enums";
 import { Particle } from "./particles/type/particle";
 import { BukkitLocation } from "./world/types/location";
 import { Vector } from "./world/types/vector";
 import { BukkitWorld } from "./world/types/world";
-import { BukkitCommandSender } from "./entities/types/commandSender";
+import { asPlayer, BukkitCommandSender } from "./entities/types/commandSender";
 import { EventEntityDeathEvent } from "./events/types/entity/entityDeathEvent";
 import { EntityDeathEvent } from "./events/types/player/playerDeathEvent";
 import { BukkitEntity } from "./entities/types/bukkitEntity";
 import { javaListOf } from "./java/types/converter";
+import { Arg, ArgsOf, optional } from "./commands/types/argument";
+import { PaperPlugin, startPlugin } from "./plugin";
+import { loadMessages, tell } from "./i18n/types/translator";
 
-class MyPlugin {
+const healArgs = [optional(Arg.player("target"))] as const;
+
+class MyPlugin extends PaperPlugin {
+  private launchWand!: CustomItem;
+
+  protected onEnable(): void {
+    this.launchWand = defineItem("launch_wand", {
+      base: Material.BLAZE_ROD,
+      name: "§6Launch Wand",
+      lore: ["§7Right click to launch yourself"],
+      cooldown: 1,
+      onRightClick: ({ player }) => {
+        const direction = player.getLocation().getDirection();
+        player.setVelocity(Vector.create(
+          direction.getX() * 2,
+          direction.getY() * 2 + 0.5,
+          direction.getZ() * 2
+        ));
+        player.getWorld().spawnParticle(Particle.EXPLOSION, player.getLocation().add(0, 2, 0), 15);
+      },
+    });
+    loadMessages({
+      bundled: {
+        en_us: { heal: { self: "§aYou were healed!", target: "§aHealed {target}.", console: "§cSpecify a player from the console!" } },
+        it_it: { heal: { self: "§aSei stato curato!", target: "§aHai curato {target}.", console: "§cDevi specificare un giocatore dalla console!" } },
+        de_de: { heal: { self: "§aDu wurdest geheilt!", target: "§a{target} wurde geheilt.", console: "§cGib in der Konsole einen Spieler an!" } },
+      },
+    });
+    this.logger.info("MyPlugin enabled!");
+  }
 
   @EventHandler(PlayerJoinEvent)
   onJoin(event: EventPlayerJoinEvent) {
@@ -37,25 +69,14 @@ class MyPlugin {
     itemStack.addUnsafeEnchantment(Enchantment.SHARPNESS, 5);
     player.sendMessage("You received a Sword!")
     player.getInventory().addItem(itemStack);
+    if (!player.getInventory().getContents().some(stack => this.launchWand.is(stack))) {
+      player.getInventory().addItem(this.launchWand.create());
+      player.sendMessage("You received a Launch Wand!");
+    }
     event.getPlayer().sendMessage("You are in " + Java.enumValue("org.bukkit.GameMode", "CREATIVE"));
     event.getPlayer().setGameMode(GameMode.CREATIVE);
   }
 
-  @EventHandler(PlayerInteractEvent)
-  onInteract(event: EventPlayerInteractEvent) {
-    if (PlayerInteractEventHelper.isRightClick(event)) {
-
-      const player: BukkitPlayer = event.getPlayer();
-      const direction = player.getLocation().getDirection();
-      player.setVelocity(Vector.create(
-        direction.getX() * 2,
-        direction.getY() * 2 + 0.5,
-        direction.getZ() * 2
-      ));
-      player.getWorld().spawnParticle(Particle.EXPLOSION, player.getLocation().add(0, 2, 0), 15)
-
-    }
-  }
 
 
 @EventHandler(EntityDeathEvent)
@@ -65,25 +86,16 @@ onDeathEntity(event: EventEntityDeathEvent) {
   if (killer && event.getEntityType().name() === "SPIDER") {
     killer.sendMessage("Ucciso SPIDER!");
     
-    // Accedi all'evento Java direttamente
-    const javaEvent = event as any;
-    
-    // Debug: vedi i metodi disponibili
-    org.bukkit.Bukkit.broadcastMessage(`Event class: ${javaEvent.getClass?.()?.getName?.() ?? "unknown"}`);
-    
-    // Prova a chiamare il metodo Java originale
+    // Drops tipizzati: JavaList<BukkitItemStack>
     try {
-      const javaDrops = javaEvent.getDrops();
-      org.bukkit.Bukkit.broadcastMessage(`Java drops class: ${javaDrops.getClass?.()?.getName?.()}`);
-      org.bukkit.Bukkit.broadcastMessage(`Java drops size: ${javaDrops.size?.()}`);
+      const drops = event.getDrops();
+      org.bukkit.Bukkit.broadcastMessage(`Drops size: ${drops.size()}`);
       
-      // Prova clear sul Java List
-      javaDrops.clear();
-      org.bukkit.Bukkit.broadcastMessage(`Dopo clear: ${javaDrops.size?.()}`);
+      drops.clear();
+      org.bukkit.Bukkit.broadcastMessage(`Dopo clear: ${drops.size()}`);
       
-      // Prova add
-      javaDrops.add(createItemStack(Material.DIAMOND));
-      org.bukkit.Bukkit.broadcastMessage(`Dopo add: ${javaDrops.size?.()}`);
+      drops.add(createItemStack(Material.DIAMOND));
+      org.bukkit.Bukkit.broadcastMessage(`Dopo add: ${drops.size()}`);
       
     } catch (e) {
       org.bukkit.Bukkit.broadcastMessage(`ERRORE: ${e}`);
@@ -93,34 +105,27 @@ onDeathEntity(event: EventEntityDeathEvent) {
 
   @Command({
     name: "heal",
-    description: "Cura un giocatore",
-    usageMessage: "/heal [giocatore]",
+    description: "Heal a player",
     permission: "myplugin.admin.heal",
-    aliases: ["cura"]
+    aliases: ["cura"],
+    args: healArgs
   })
-  healCommand(sender: BukkitCommandSender, args: string[]) {
-    /* Se il sender è un giocatore e non ha specificato un target, cura se stesso */
-    const player: BukkitPlayer | null = isPlayer(sender);
-    if (args.length === 0) {
-      if (player) {
-        player.setMaxHealth(100);
-        player.setHealth(100);
-        sender.sendMessage("§aSei stato curato!");
-      } else {
-        sender.sendMessage("§cDevi specificare un giocatore dalla console!");
-      }
-      return false;
-  }
-  return false;
+  healCommand(sender: BukkitCommandSender, args: ArgsOf<typeof healArgs>) {
+    /* A player without a target heals themselves */
+    const target: BukkitPlayer | null = args.target ?? asPlayer(sender);
+    if (target === null) {
+      tell(sender, "heal.console");
+      return;
+    }
+    target.setMaxHealth(100);
+    target.setHealth(100);
+    tell(target, "heal.self");
+    if (target !== sender) tell(sender, "heal.target", { target });
   }
 }
 
-function isPlayer(cmdSender: BukkitCommandSender) : BukkitPlayer | null{
-  return "getHealth" in cmdSender ? (cmdSender as BukkitPlayer) : null;
-}
 function isPlayerKiller(killer: BukkitEntity) : BukkitPlayer | null{
   return "getHealth" in killer ? (killer as BukkitPlayer) : null;
 }
 
-const plugin = new MyPlugin();
-registerPlugin(plugin);
\ No newline at end of file
+startPlugin(new MyPlugin());
\ No newline at end of file
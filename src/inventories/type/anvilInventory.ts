@@ -0,0 +1,42 @@
+/**
+ * DESIGN
+ * ------
+ * AnvilInventory is the top inventory of an anvil screen.
+ * 
+ * SLOTS:
+ *   ┌─────────┬─────────┐     ┌─────────┐
+ *   │ 0: left │ 1: right│ ──→ │2: result│
+ *   └─────────┴─────────┘     └─────────┘
+ *   [ rename text field ]
+ * 
+ * The result slot is computed by the server (PrepareAnvilEvent) each
+ * time an input or the rename text changes.
+ * 
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/AnvilInventory.html
+ */
+
+import { BukkitInventory } from "./inventory";
+
+export interface BukkitAnvilInventory extends BukkitInventory {
+  /**
+   * Text currently typed in the rename field.
+   * 
+   * @deprecated Since 1.21. Use AnvilView.getRenameText().
+   * @returns The rename text, or null if the field is untouched
+   */
+  getRenameText(): string | null;
+
+  /**
+   * Experience levels the current result costs.
+   * 
+   * @deprecated Since 1.21. Use AnvilView.getRepairCost().
+   */
+  getRepairCost(): number;
+
+  /**
+   * Set the experience level cost of the current result.
+   * 
+   * @deprecated Since 1.21. Use AnvilView.setRepairCost().
+   */
+  setRepairCost(levels: number): void;
+}
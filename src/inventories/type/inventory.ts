@@ -596,6 +596,15 @@ export interface BukkitInventory extends JavaIterable<BukkitItemStack> {
    */
   getLocation(): BukkitLocation | null;
 
+  /**
+   * True if other is the same inventory.
+   *
+   * WHY NOT ===:
+   * The bridge may wrap the same Java inventory in different JS
+   * objects (e.g. event.getInventory() vs the one you created).
+   */
+  equals(other: unknown): boolean;
+
   // ==========================================
   // ITERATION
   // ==========================================
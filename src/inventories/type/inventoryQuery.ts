@@ -0,0 +1,144 @@
+/**
+ * DESIGN
+ * ------
+ * Inventory operations driven by item predicates (see ItemMatch):
+ *
+ *   const ore = ItemMatch.material(Material.IRON_ORE, Material.DEEPSLATE_IRON_ORE).and(ItemMatch.vanilla());
+ *
+ *   count(inventory, ore);          // 37
+ *   has(inventory, ore, 32);        // true
+ *   take(inventory, ore, 32);       // true, 32 removed
+ *   find(inventory, ore);           // [{ slot: 4, item }, { slot: 9, item }]
+ *
+ * ALL OR NOTHING:
+ * take() counts first and only removes when enough items match.
+ * A shop can't end up taking half the payment:
+ *
+ *   if (!take(player.getInventory(), price, 10)) {
+ *     player.sendMessage("§cYou need 10 emeralds");
+ *     return;
+ *   }
+ *   giveReward(player);
+ *
+ * SLOTS:
+ * Like Bukkit's contains()/removeItem(), these only look at the storage
+ * slots: a player's armor and off hand are never counted or taken.
+ * Slots are taken in slot order (hotbar first for players).
+ */
+
+import { ItemPredicate } from "../../items/types/itemPredicate";
+import { BukkitItemStack } from "../../items/types/itemstack";
+import { BukkitInventory } from "./inventory";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A matching stack and where it is.
+ */
+export interface ItemSlot {
+  /** Slot index in the inventory */
+  slot: number;
+
+  /** The stack in the slot (live: changing it changes the inventory) */
+  item: BukkitItemStack;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Stacks matching a predicate, in slot order.
+ */
+export function find(inventory: BukkitInventory, predicate: ItemPredicate): ItemSlot[] {
+  const found: ItemSlot[] = [];
+  const contents = inventory.getStorageContents();
+
+  for (let slot = 0; slot < contents.length; slot++) {
+    const item = contents[slot];
+    if (item !== null && predicate.test(item)) {
+      found.push({ slot, item });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * First stack matching a predicate.
+ *
+ * @returns The stack and its slot, or null if none matches
+ */
+export function findFirst(inventory: BukkitInventory, predicate: ItemPredicate): ItemSlot | null {
+  return find(inventory, predicate)[0] ?? null;
+}
+
+/**
+ * Total amount of matching items (not stacks).
+ */
+export function count(inventory: BukkitInventory, predicate: ItemPredicate): number {
+  return find(inventory, predicate).reduce((total, { item }) => total + item.getAmount(), 0);
+}
+
+/**
+ * Check if at least an amount of matching items is there.
+ */
+export function has(inventory: BukkitInventory, predicate: ItemPredicate, amount: number = 1): boolean {
+  return count(inventory, predicate) >= amount;
+}
+
+// ============================================
+// REMOVAL
+// ============================================
+
+/**
+ * Remove an amount of matching items, only if there are enough.
+ *
+ * @returns True if the items were removed, false if there weren't
+ *          enough (the inventory is unchanged)
+ * @throws Error if the amount is not a positive integer
+ */
+export function take(inventory: BukkitInventory, predicate: ItemPredicate, amount: number): boolean {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Amount to take must be a positive integer (got ${amount})`);
+  }
+
+  const matches = find(inventory, predicate);
+  const available = matches.reduce((total, { item }) => total + item.getAmount(), 0);
+  if (available < amount) {
+    return false;
+  }
+
+  let left = amount;
+  for (const { slot, item } of matches) {
+    if (left === 0) break;
+
+    const taken = Math.min(left, item.getAmount());
+    if (taken === item.getAmount()) {
+      inventory.setItem(slot, null);
+    } else {
+      const rest = item.clone();
+      rest.setAmount(item.getAmount() - taken);
+      inventory.setItem(slot, rest);
+    }
+    left -= taken;
+  }
+
+  return true;
+}
+
+/**
+ * Remove every matching item.
+ *
+ * @returns The amount removed
+ */
+export function takeAll(inventory: BukkitInventory, predicate: ItemPredicate): number {
+  let removed = 0;
+  for (const { slot, item } of find(inventory, predicate)) {
+    removed += item.getAmount();
+    inventory.setItem(slot, null);
+  }
+  return removed;
+}
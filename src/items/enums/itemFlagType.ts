@@ -0,0 +1,91 @@
+/**
+ * DESIGN
+ * ------
+ * ItemFlag hides parts of an item's tooltip.
+ *
+ *   ┌──────────────────────────────┐
+ *   │  Diamond Sword               │
+ *   │  Sharpness V    ← HIDE_ENCHANTS
+ *   │  Unbreakable    ← HIDE_UNBREAKABLE
+ *   │  When in Main Hand:          │
+ *   │   7 Attack Damage ← HIDE_ATTRIBUTES
+ *   └──────────────────────────────┘
+ *
+ * Flags only change what the client shows: a hidden enchantment still
+ * works, and the item still glows.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/ItemFlag.html
+ */
+
+import { JavaEnum, JavaEnumClass, enumValues } from "../../java/types/enum";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * All valid ItemFlag constant names.
+ */
+export type ItemFlagName =
+  | "HIDE_ENCHANTS"
+  | "HIDE_ATTRIBUTES"
+  | "HIDE_UNBREAKABLE"
+  | "HIDE_DESTROYS"
+  | "HIDE_PLACED_ON"
+  | "HIDE_ADDITIONAL_TOOLTIP"
+  | "HIDE_DYE"
+  | "HIDE_ARMOR_TRIM"
+  | "HIDE_STORED_ENCHANTS";
+
+/**
+ * ItemFlag enum instance.
+ */
+export interface BukkitItemFlag extends JavaEnum<ItemFlagName> {}
+
+/**
+ * ItemFlag enum class (static side).
+ */
+export interface BukkitItemFlagClass extends JavaEnumClass<BukkitItemFlag> {
+  /** Hide enchantments */
+  readonly HIDE_ENCHANTS: BukkitItemFlag;
+
+  /** Hide attribute modifiers (attack damage, armor...) */
+  readonly HIDE_ATTRIBUTES: BukkitItemFlag;
+
+  /** Hide the unbreakable state */
+  readonly HIDE_UNBREAKABLE: BukkitItemFlag;
+
+  /** Hide what the item can break (adventure mode) */
+  readonly HIDE_DESTROYS: BukkitItemFlag;
+
+  /** Hide where the item can be placed (adventure mode) */
+  readonly HIDE_PLACED_ON: BukkitItemFlag;
+
+  /** Hide potion effects, book and banner details, map info... */
+  readonly HIDE_ADDITIONAL_TOOLTIP: BukkitItemFlag;
+
+  /** Hide the dye color of leather armor */
+  readonly HIDE_DYE: BukkitItemFlag;
+
+  /** Hide armor trims */
+  readonly HIDE_ARMOR_TRIM: BukkitItemFlag;
+
+  /** Hide enchantments stored in enchanted books */
+  readonly HIDE_STORED_ENCHANTS: BukkitItemFlag;
+}
+
+/**
+ * Access to ItemFlag enum.
+ */
+export const ItemFlag: BukkitItemFlagClass = org.bukkit.inventory.ItemFlag;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get all ItemFlag values (for hiding the whole tooltip).
+ */
+export function getItemFlags(): BukkitItemFlag[] {
+  return enumValues(ItemFlag);
+}
@@ -0,0 +1,85 @@
+/**
+ * DESIGN
+ * ------
+ * PotionType is the base potion of a potion item: what a brewing stand
+ * makes. Custom effects are added on top of it (see PotionMeta).
+ *
+ *   SWIFTNESS         Speed I, 3:00
+ *   LONG_SWIFTNESS    Speed I, 8:00    (brewed with redstone)
+ *   STRONG_SWIFTNESS  Speed II, 1:30   (brewed with glowstone)
+ *
+ * WATER, MUNDANE, THICK and AWKWARD have no effects.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/potion/PotionType.html
+ */
+
+import { JavaEnum, JavaEnumClass } from "../../java/types/enum";
+import { JavaList } from "../../java/types/list";
+import { BukkitPotionEffect } from "../types/potionEffect";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * All valid PotionType constant names.
+ */
+export type PotionTypeKey =
+  | "WATER" | "MUNDANE" | "THICK" | "AWKWARD"
+  | "NIGHT_VISION" | "LONG_NIGHT_VISION"
+  | "INVISIBILITY" | "LONG_INVISIBILITY"
+  | "LEAPING" | "LONG_LEAPING" | "STRONG_LEAPING"
+  | "FIRE_RESISTANCE" | "LONG_FIRE_RESISTANCE"
+  | "SWIFTNESS" | "LONG_SWIFTNESS" | "STRONG_SWIFTNESS"
+  | "SLOWNESS" | "LONG_SLOWNESS" | "STRONG_SLOWNESS"
+  | "WATER_BREATHING" | "LONG_WATER_BREATHING"
+  | "HEALING" | "STRONG_HEALING"
+  | "HARMING" | "STRONG_HARMING"
+  | "POISON" | "LONG_POISON" | "STRONG_POISON"
+  | "REGENERATION" | "LONG_REGENERATION" | "STRONG_REGENERATION"
+  | "STRENGTH" | "LONG_STRENGTH" | "STRONG_STRENGTH"
+  | "WEAKNESS" | "LONG_WEAKNESS"
+  | "LUCK"
+  | "TURTLE_MASTER" | "LONG_TURTLE_MASTER" | "STRONG_TURTLE_MASTER"
+  | "SLOW_FALLING" | "LONG_SLOW_FALLING"
+  | "WIND_CHARGED" | "WEAVING" | "OOZING" | "INFESTED";
+
+/**
+ * PotionType enum instance.
+ */
+export interface BukkitPotionType extends JavaEnum<PotionTypeKey> {
+  /**
+   * Gets the effects of this base potion.
+   * @returns The effects (empty for WATER, AWKWARD...)
+   */
+  getPotionEffects(): JavaList<BukkitPotionEffect>;
+
+  /**
+   * Checks if this potion can be upgraded with glowstone.
+   * @returns True if there is a STRONG_ variant
+   */
+  isUpgradeable(): boolean;
+
+  /**
+   * Checks if this potion can be extended with redstone.
+   * @returns True if there is a LONG_ variant
+   */
+  isExtendable(): boolean;
+
+  /**
+   * Gets the maximum level of this potion.
+   * @returns The max level
+   */
+  getMaxLevel(): number;
+}
+
+/**
+ * PotionType enum class (static side).
+ */
+export interface BukkitPotionTypeClass
+  extends JavaEnumClass<BukkitPotionType>, Readonly<Record<PotionTypeKey, BukkitPotionType>> {}
+
+/**
+ * Access to PotionType enum.
+ */
+export const PotionType: BukkitPotionTypeClass = org.bukkit.potion.PotionType;
@@ -0,0 +1,192 @@
+/**
+ * DESIGN
+ * ------
+ * ArmorMeta is the ItemMeta for wearable armor (helmets, chestplates,
+ * leggings, boots, turtle shells). It adds armor trims.
+ *
+ * TRIM ANATOMY:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  DIAMOND_CHESTPLATE                     │
+ *   │                                         │
+ *   │  Trim                                   │
+ *   │  ├─ Pattern: SILENCE   ← the shape      │
+ *   │  └─ Material: GOLD     ← the color      │
+ *   └─────────────────────────────────────────┘
+ *
+ * In a smithing table the pattern comes from the template, the
+ * material from the ingot or gem. Trims are cosmetic only.
+ *
+ * Leather armor has both ArmorMeta and LeatherArmorMeta (colored AND
+ * trimmed).
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/ArmorMeta.html
+ */
+
+import { editMetaAs } from "./itemMeta";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+import { BukkitNamespacedKey } from "./namespacedKey";
+
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * All trim colors.
+ */
+export type TrimMaterialKey =
+  | "AMETHYST" | "COPPER" | "DIAMOND" | "EMERALD" | "GOLD" | "IRON"
+  | "LAPIS" | "NETHERITE" | "QUARTZ" | "REDSTONE" | "RESIN";
+
+/**
+ * All trim shapes.
+ */
+export type TrimPatternKey =
+  | "BOLT" | "COAST" | "DUNE" | "EYE" | "FLOW" | "HOST" | "RAISER" | "RIB"
+  | "SENTRY" | "SHAPER" | "SILENCE" | "SNOUT" | "SPIRE" | "TIDE" | "VEX"
+  | "WARD" | "WAYFINDER" | "WILD";
+
+/**
+ * A trim color (org.bukkit.inventory.meta.trim.TrimMaterial).
+ */
+export interface BukkitTrimMaterial {
+  getKey(): BukkitNamespacedKey;
+}
+
+/**
+ * A trim shape (org.bukkit.inventory.meta.trim.TrimPattern).
+ */
+export interface BukkitTrimPattern {
+  getKey(): BukkitNamespacedKey;
+}
+
+/**
+ * A trim: color and shape.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/trim/ArmorTrim.html
+ */
+export interface BukkitArmorTrim {
+  /**
+   * Get the trim color.
+   */
+  getMaterial(): BukkitTrimMaterial;
+
+  /**
+   * Get the trim shape.
+   */
+  getPattern(): BukkitTrimPattern;
+}
+
+// ============================================
+// ARMOR META INTERFACE
+// ============================================
+
+export interface BukkitArmorMeta extends BukkitItemMeta {
+
+  /**
+   * Check if the armor has a trim.
+   */
+  hasTrim(): boolean;
+
+  /**
+   * Get the trim.
+   *
+   * @returns The trim, or null if none
+   */
+  getTrim(): BukkitArmorTrim | null;
+
+  /**
+   * Set the trim.
+   *
+   * @param trim Trim, or null to remove it
+   */
+  setTrim(trim: BukkitArmorTrim | null): void;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitArmorMeta;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get a trim color by name.
+ */
+export function getTrimMaterial(key: TrimMaterialKey): BukkitTrimMaterial {
+  return org.bukkit.inventory.meta.trim.TrimMaterial[key];
+}
+
+/**
+ * Get a trim shape by name.
+ */
+export function getTrimPattern(key: TrimPatternKey): BukkitTrimPattern {
+  return org.bukkit.inventory.meta.trim.TrimPattern[key];
+}
+
+/**
+ * Create a trim.
+ *
+ * @example
+ * const trim = createTrim("GOLD", "SILENCE");
+ */
+export function createTrim(
+  material: TrimMaterialKey | BukkitTrimMaterial,
+  pattern: TrimPatternKey | BukkitTrimPattern
+): BukkitArmorTrim {
+  return new org.bukkit.inventory.meta.trim.ArmorTrim(
+    typeof material === "string" ? getTrimMaterial(material) : material,
+    typeof pattern === "string" ? getTrimPattern(pattern) : pattern
+  );
+}
+
+/**
+ * Set the trim from names.
+ *
+ * @example
+ * setArmorTrim(meta, "DIAMOND", "WARD");
+ */
+export function setArmorTrim(meta: BukkitArmorMeta, material: TrimMaterialKey, pattern: TrimPatternKey): void {
+  meta.setTrim(createTrim(material, pattern));
+}
+
+/**
+ * Check if a trim uses a color and shape.
+ */
+export function hasTrimOf(meta: BukkitArmorMeta, material: TrimMaterialKey, pattern: TrimPatternKey): boolean {
+  const trim = meta.getTrim();
+  return trim !== null
+    && trim.getMaterial().getKey().getKey() === material.toLowerCase()
+    && trim.getPattern().getKey().getKey() === pattern.toLowerCase();
+}
+
+/**
+ * Trim a copy of an armor piece.
+ *
+ * @throws Error if the item isn't armor
+ */
+export function withTrim(item: BukkitItemStack, material: TrimMaterialKey, pattern: TrimPatternKey): BukkitItemStack {
+  const copy = item.clone();
+  if (!editMetaAs(copy, "armor", meta => setArmorTrim(meta, material, pattern))) {
+    throw new Error(`${item.getType().name()} can't have an armor trim`);
+  }
+  return copy;
+}
+
+/**
+ * Describe trim in human-readable format.
+ *
+ * @example
+ * describeTrim(meta);
+ * // "gold silence trim"
+ */
+export function describeTrim(meta: BukkitArmorMeta): string {
+  const trim = meta.getTrim();
+  if (trim === null) {
+    return "No trim";
+  }
+  return `${trim.getMaterial().getKey().getKey()} ${trim.getPattern().getKey().getKey()} trim`;
+}
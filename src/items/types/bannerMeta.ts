@@ -0,0 +1,243 @@
+/**
+ * DESIGN
+ * ------
+ * BannerMeta is the ItemMeta for the banner items (WHITE_BANNER,
+ * RED_BANNER...). The base color is the material; the meta holds the
+ * patterns drawn on top of it.
+ *
+ * BANNER ANATOMY:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  BLACK_BANNER         ← base color      │
+ *   │                                         │
+ *   │  Patterns[] (bottom to top)             │
+ *   │  ├─ 0: RED    STRIPE_BOTTOM             │
+ *   │  ├─ 1: WHITE  CROSS                     │
+ *   │  └─ 2: YELLOW BORDER   ← drawn last     │
+ *   └─────────────────────────────────────────┘
+ *
+ * A pattern is a dye color plus a shape (PatternType). Later patterns
+ * cover earlier ones.
+ *
+ * LIMITS:
+ * A loom adds at most 6 patterns. Plugins can add more; clients show
+ * up to 16. Shields with a banner applied use the same patterns.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/BannerMeta.html
+ */
+
+import { JavaList } from "../../java/types/list";
+import { BukkitDyeColor } from "../enums/dyeColorType";
+import { BukkitItemMeta } from "./itemstack";
+import { BukkitNamespacedKey } from "./namespacedKey";
+
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * All banner pattern shapes.
+ */
+export type PatternTypeKey =
+  | "BASE" | "SQUARE_BOTTOM_LEFT" | "SQUARE_BOTTOM_RIGHT" | "SQUARE_TOP_LEFT" | "SQUARE_TOP_RIGHT"
+  | "STRIPE_BOTTOM" | "STRIPE_TOP" | "STRIPE_LEFT" | "STRIPE_RIGHT" | "STRIPE_CENTER" | "STRIPE_MIDDLE"
+  | "STRIPE_DOWNRIGHT" | "STRIPE_DOWNLEFT" | "SMALL_STRIPES" | "CROSS" | "STRAIGHT_CROSS"
+  | "TRIANGLE_BOTTOM" | "TRIANGLE_TOP" | "TRIANGLES_BOTTOM" | "TRIANGLES_TOP"
+  | "DIAGONAL_LEFT" | "DIAGONAL_UP_RIGHT" | "DIAGONAL_UP_LEFT" | "DIAGONAL_RIGHT"
+  | "CIRCLE" | "RHOMBUS" | "HALF_VERTICAL" | "HALF_HORIZONTAL" | "HALF_VERTICAL_RIGHT" | "HALF_HORIZONTAL_BOTTOM"
+  | "BORDER" | "CURLY_BORDER" | "GRADIENT" | "GRADIENT_UP" | "BRICKS"
+  | "GLOBE" | "CREEPER" | "SKULL" | "FLOWER" | "MOJANG" | "PIGLIN" | "FLOW" | "GUSTER";
+
+/**
+ * A banner pattern shape (org.bukkit.block.banner.PatternType).
+ */
+export interface BukkitPatternType {
+  /**
+   * Get the key of the shape ("minecraft:cross").
+   */
+  getKey(): BukkitNamespacedKey;
+}
+
+/**
+ * One layer of a banner: a color and a shape.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/block/banner/Pattern.html
+ */
+export interface BukkitPattern {
+  /**
+   * Get the color of the layer.
+   */
+  getColor(): BukkitDyeColor;
+
+  /**
+   * Get the shape of the layer.
+   */
+  getPattern(): BukkitPatternType;
+}
+
+// ============================================
+// BANNER META INTERFACE
+// ============================================
+
+export interface BukkitBannerMeta extends BukkitItemMeta {
+
+  /**
+   * Get the patterns, bottom to top.
+   *
+   * @returns Copy of the pattern list
+   */
+  getPatterns(): JavaList<BukkitPattern>;
+
+  /**
+   * Replace the patterns.
+   *
+   * @param patterns Patterns, bottom to top (a Java List)
+   */
+  setPatterns(patterns: JavaList<BukkitPattern>): void;
+
+  /**
+   * Add a pattern on top.
+   */
+  addPattern(pattern: BukkitPattern): void;
+
+  /**
+   * Get the pattern at an index.
+   *
+   * @throws IndexOutOfBoundsException if out of range
+   */
+  getPattern(index: number): BukkitPattern;
+
+  /**
+   * Remove the pattern at an index.
+   *
+   * @returns The removed pattern
+   * @throws IndexOutOfBoundsException if out of range
+   */
+  removePattern(index: number): BukkitPattern;
+
+  /**
+   * Replace the pattern at an index.
+   *
+   * @throws IndexOutOfBoundsException if out of range
+   */
+  setPattern(index: number, pattern: BukkitPattern): void;
+
+  /**
+   * Get the number of patterns.
+   */
+  numberOfPatterns(): number;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitBannerMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Maximum patterns a loom can add.
+ */
+export const MAX_LOOM_PATTERNS = 6;
+
+/**
+ * Maximum patterns clients render.
+ */
+export const MAX_RENDERED_PATTERNS = 16;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get a pattern shape by name.
+ */
+export function getPatternType(key: PatternTypeKey): BukkitPatternType {
+  return org.bukkit.block.banner.PatternType[key];
+}
+
+/**
+ * Create a pattern layer.
+ *
+ * @example
+ * const cross = createPattern(DyeColor.WHITE, "CROSS");
+ */
+export function createPattern(color: BukkitDyeColor, type: PatternTypeKey | BukkitPatternType): BukkitPattern {
+  const shape = typeof type === "string" ? getPatternType(type) : type;
+  return new org.bukkit.block.banner.Pattern(color, shape);
+}
+
+/**
+ * Get all patterns as array, bottom to top.
+ */
+export function getPatternsArray(meta: BukkitBannerMeta): BukkitPattern[] {
+  const patterns = meta.getPatterns();
+  const result: BukkitPattern[] = [];
+
+  for (let i = 0; i < patterns.size(); i++) {
+    result.push(patterns.get(i));
+  }
+
+  return result;
+}
+
+/**
+ * Add layers on top.
+ *
+ * @example
+ * addPatterns(meta,
+ *   [DyeColor.RED, "STRIPE_BOTTOM"],
+ *   [DyeColor.YELLOW, "BORDER"],
+ * );
+ */
+export function addPatterns(
+  meta: BukkitBannerMeta,
+  ...layers: Array<[BukkitDyeColor, PatternTypeKey | BukkitPatternType]>
+): void {
+  for (const [color, type] of layers) {
+    meta.addPattern(createPattern(color, type));
+  }
+}
+
+/**
+ * Remove all patterns.
+ */
+export function clearPatterns(meta: BukkitBannerMeta): void {
+  while (meta.numberOfPatterns() > 0) {
+    meta.removePattern(meta.numberOfPatterns() - 1);
+  }
+}
+
+/**
+ * Remove the top pattern.
+ */
+export function removeTopPattern(meta: BukkitBannerMeta): void {
+  if (meta.numberOfPatterns() > 0) {
+    meta.removePattern(meta.numberOfPatterns() - 1);
+  }
+}
+
+/**
+ * Check if the banner could have been made in a loom.
+ */
+export function isLoomBanner(meta: BukkitBannerMeta): boolean {
+  return meta.numberOfPatterns() <= MAX_LOOM_PATTERNS;
+}
+
+/**
+ * Describe banner patterns in human-readable format.
+ *
+ * @example
+ * describePatterns(meta);
+ * // "RED stripe_bottom, WHITE cross"
+ */
+export function describePatterns(meta: BukkitBannerMeta): string {
+  const patterns = getPatternsArray(meta);
+  if (patterns.length === 0) {
+    return "No patterns";
+  }
+  return patterns.map(pattern => `${pattern.getColor().name()} ${pattern.getPattern().getKey().getKey()}`).join(", ");
+}
@@ -0,0 +1,317 @@
+/**
+ * DESIGN
+ * ------
+ * BookMeta is the ItemMeta for WRITTEN_BOOK and WRITABLE_BOOK items.
+ *
+ * BOOK ANATOMY:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  WRITTEN_BOOK                           │
+ *   │                                         │
+ *   │  Title: "Server Rules"  (max 32 chars)  │
+ *   │  Author: "Admin"                        │
+ *   │  Generation: ORIGINAL                   │
+ *   │                                         │
+ *   │  Pages[] (1-based, max 100)             │
+ *   │  ├─ Page 1: "§lWelcome!§r\n\n..."       │
+ *   │  └─ Page 2: "1. Be nice..."             │
+ *   └─────────────────────────────────────────┘
+ *
+ * WRITABLE vs WRITTEN:
+ * A book and quill (WRITABLE_BOOK) only has pages; the player can still
+ * edit them. Signing it makes a WRITTEN_BOOK with title and author.
+ *
+ * PAGE NUMBERS:
+ * getPage()/setPage() count from 1, like the book screen. The helpers
+ * taking arrays count from 0, like arrays.
+ *
+ * TEXT:
+ * Pages take legacy strings ("§aGreen") or rich text, converted to
+ * § codes. About 14 lines of 19 characters fit on a page.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/BookMeta.html
+ */
+
+import { JavaEnum } from "../../java/types/enum";
+import { JavaList } from "../../java/types/list";
+import { TextLike, toLegacy } from "../../text/types/textComponent";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * How many times a written book was copied.
+ */
+export type BookGenerationKey = "ORIGINAL" | "COPY_OF_ORIGINAL" | "COPY_OF_COPY" | "TATTERED";
+
+/**
+ * BookMeta.Generation enum instance.
+ */
+export interface BukkitBookGeneration extends JavaEnum<BookGenerationKey> {}
+
+// ============================================
+// BOOK META INTERFACE
+// ============================================
+
+export interface BukkitBookMeta extends BukkitItemMeta {
+
+  // ==========================================
+  // TITLE & AUTHOR
+  // ==========================================
+
+  /**
+   * Check if the book has a title.
+   */
+  hasTitle(): boolean;
+
+  /**
+   * Get the title.
+   *
+   * @returns The title, or null if none
+   */
+  getTitle(): string | null;
+
+  /**
+   * Set the title.
+   *
+   * @param title Title (max 32 characters), or null to remove it
+   * @returns True if the title was set (false if too long)
+   */
+  setTitle(title: string | null): boolean;
+
+  /**
+   * Check if the book has an author.
+   */
+  hasAuthor(): boolean;
+
+  /**
+   * Get the author.
+   *
+   * @returns The author, or null if none
+   */
+  getAuthor(): string | null;
+
+  /**
+   * Set the author.
+   *
+   * @param author Author, or null to remove it
+   */
+  setAuthor(author: string | null): void;
+
+  // ==========================================
+  // GENERATION
+  // ==========================================
+
+  /**
+   * Check if a generation is set.
+   */
+  hasGeneration(): boolean;
+
+  /**
+   * Get the generation (ORIGINAL if not set).
+   */
+  getGeneration(): BukkitBookGeneration | null;
+
+  /**
+   * Set the generation.
+   *
+   * @param generation Generation, or null to remove it
+   */
+  setGeneration(generation: BukkitBookGeneration | null): void;
+
+  // ==========================================
+  // PAGES
+  // ==========================================
+
+  /**
+   * Check if the book has pages.
+   */
+  hasPages(): boolean;
+
+  /**
+   * Get a page.
+   *
+   * @param page Page number, starting at 1
+   * @throws IllegalArgumentException if the page doesn't exist
+   */
+  getPage(page: number): string;
+
+  /**
+   * Replace a page.
+   *
+   * @param page Page number, starting at 1
+   * @param data New page text
+   * @throws IllegalArgumentException if the page doesn't exist
+   */
+  setPage(page: number, data: string): void;
+
+  /**
+   * Get all pages.
+   *
+   * @returns Immutable list of pages
+   */
+  getPages(): JavaList<string>;
+
+  /**
+   * Replace all pages.
+   */
+  setPages(...pages: string[]): void;
+
+  /**
+   * Add pages at the end (ignored past the page limit).
+   */
+  addPage(...pages: string[]): void;
+
+  /**
+   * Get the number of pages.
+   */
+  getPageCount(): number;
+
+  // ==========================================
+  // CLONE
+  // ==========================================
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitBookMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Maximum number of pages.
+ */
+export const MAX_PAGES = 100;
+
+/**
+ * Maximum characters of a page.
+ */
+export const MAX_PAGE_LENGTH = 1024;
+
+/**
+ * Maximum characters of a title.
+ */
+export const MAX_TITLE_LENGTH = 32;
+
+/**
+ * Access to BookMeta.Generation constants.
+ */
+export function getBookGeneration(key: BookGenerationKey): BukkitBookGeneration {
+  return org.bukkit.inventory.meta.BookMeta.Generation[key];
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function legacyText(value: TextLike): string {
+  return typeof value === "string" ? value : toLegacy(value);
+}
+
+/**
+ * Get all pages as array (index 0 = page 1).
+ */
+export function getPagesArray(meta: BukkitBookMeta): string[] {
+  const pages = meta.getPages();
+  const result: string[] = [];
+
+  for (let i = 0; i < pages.size(); i++) {
+    result.push(pages.get(i));
+  }
+
+  return result;
+}
+
+/**
+ * Replace all pages.
+ *
+ * @throws Error if there are more than MAX_PAGES pages
+ */
+export function setPagesFrom(meta: BukkitBookMeta, pages: TextLike[]): void {
+  if (pages.length > MAX_PAGES) {
+    throw new Error(`A book has at most ${MAX_PAGES} pages (got ${pages.length})`);
+  }
+  meta.setPages(...pages.map(legacyText));
+}
+
+/**
+ * Add pages at the end.
+ *
+ * @returns Number of pages added (fewer past the page limit)
+ */
+export function appendPages(meta: BukkitBookMeta, ...pages: TextLike[]): number {
+  const room = Math.max(0, MAX_PAGES - meta.getPageCount());
+  const added = pages.slice(0, room).map(legacyText);
+  if (added.length > 0) {
+    meta.addPage(...added);
+  }
+  return added.length;
+}
+
+/**
+ * Check if a written book is a copy.
+ */
+export function isCopy(meta: BukkitBookMeta): boolean {
+  const generation = meta.getGeneration();
+  return generation !== null && generation.name() !== "ORIGINAL";
+}
+
+/**
+ * Check if the book can still be copied in a crafting grid
+ * (originals and copies of originals).
+ */
+export function isCopyable(meta: BukkitBookMeta): boolean {
+  const generation = meta.getGeneration();
+  return generation === null || generation.name() === "ORIGINAL" || generation.name() === "COPY_OF_ORIGINAL";
+}
+
+/**
+ * Count the characters of all pages (without § codes).
+ */
+export function countCharacters(meta: BukkitBookMeta): number {
+  return getPagesArray(meta).reduce((total, page) => total + page.replace(/§./g, "").length, 0);
+}
+
+/**
+ * Create a written book.
+ *
+ * @example
+ * player.openBook(createWrittenBook("Rules", "Server", [
+ *   text("Welcome!").bold(),
+ *   "1. Be nice\n2. No griefing",
+ * ]));
+ */
+export function createWrittenBook(title: string, author: string, pages: TextLike[]): BukkitItemStack {
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new Error(`A book title has at most ${MAX_TITLE_LENGTH} characters: "${title}"`);
+  }
+
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.WRITTEN_BOOK, 1);
+  const meta = stack.getItemMeta() as BukkitBookMeta;
+  meta.setTitle(title);
+  meta.setAuthor(author);
+  meta.setGeneration(getBookGeneration("ORIGINAL"));
+  setPagesFrom(meta, pages);
+  stack.setItemMeta(meta);
+  return stack;
+}
+
+/**
+ * Describe book in human-readable format.
+ *
+ * @example
+ * describeBook(meta);
+ * // "\"Server Rules\" by Admin (2 pages)"
+ */
+export function describeBook(meta: BukkitBookMeta): string {
+  const title = meta.hasTitle() ? `"${meta.getTitle()}"` : "Untitled book";
+  const author = meta.hasAuthor() ? ` by ${meta.getAuthor()}` : "";
+  const count = meta.getPageCount();
+  return `${title}${author} (${count} page${count !== 1 ? "s" : ""})`;
+}
@@ -0,0 +1,171 @@
+/**
+ * DESIGN
+ * ------
+ * BundleMeta is the ItemMeta for BUNDLE items (and the dyed bundles).
+ *
+ * CAPACITY:
+ * A bundle holds one full stack's worth of "weight" (64). Each item
+ * weighs 64 / its max stack size:
+ *
+ *   ┌──────────────────┬────────────┬──────────────┐
+ *   │ Item             │ Max stack  │ Weight each  │
+ *   ├──────────────────┼────────────┼──────────────┤
+ *   │ Dirt             │ 64         │ 1            │
+ *   │ Ender pearl      │ 16         │ 4            │
+ *   │ Sword            │ 1          │ 64           │
+ *   │ Bundle (nested)  │ 1          │ 4 + contents │
+ *   └──────────────────┴────────────┴──────────────┘
+ *
+ * The capacity is only enforced when players insert items; plugins can
+ * put anything in. addBundleItems() respects it, setBundleItems() does
+ * not.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/BundleMeta.html
+ */
+
+import { JavaList } from "../../java/types/list";
+import { isMetaKind } from "./itemMeta";
+import { BukkitItemMeta, BukkitItemStack, isItemEmpty } from "./itemstack";
+
+
+// ============================================
+// BUNDLE META INTERFACE
+// ============================================
+
+export interface BukkitBundleMeta extends BukkitItemMeta {
+
+  /**
+   * Check if the bundle has items.
+   */
+  hasItems(): boolean;
+
+  /**
+   * Get the items.
+   *
+   * @returns Immutable list of the stacks, most recently added first
+   */
+  getItems(): JavaList<BukkitItemStack>;
+
+  /**
+   * Replace the items.
+   *
+   * @param items Stacks (a Java List), or null to empty the bundle
+   */
+  setItems(items: JavaList<BukkitItemStack> | null): void;
+
+  /**
+   * Add a stack.
+   */
+  addItem(item: BukkitItemStack): void;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitBundleMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Total weight a bundle holds.
+ */
+export const BUNDLE_CAPACITY = 64;
+
+/**
+ * Extra weight of a bundle inside a bundle.
+ */
+export const NESTED_BUNDLE_WEIGHT = 4;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get the items as array.
+ */
+export function getBundleItems(meta: BukkitBundleMeta): BukkitItemStack[] {
+  const items = meta.getItems();
+  const result: BukkitItemStack[] = [];
+
+  for (let i = 0; i < items.size(); i++) {
+    result.push(items.get(i));
+  }
+
+  return result;
+}
+
+/**
+ * Replace the items (capacity is not checked).
+ */
+export function setBundleItems(meta: BukkitBundleMeta, items: BukkitItemStack[]): void {
+  meta.setItems(null);
+  for (const item of items) {
+    if (!isItemEmpty(item)) {
+      meta.addItem(item);
+    }
+  }
+}
+
+/**
+ * Get the weight of one item.
+ */
+export function getItemWeight(item: BukkitItemStack): number {
+  const weight = BUNDLE_CAPACITY / item.getMaxStackSize();
+  const meta = item.getItemMeta();
+
+  if (isMetaKind(meta, "bundle")) {
+    return NESTED_BUNDLE_WEIGHT + getBundleWeight(meta);
+  }
+  return weight;
+}
+
+/**
+ * Get the total weight of the contents.
+ */
+export function getBundleWeight(meta: BukkitBundleMeta): number {
+  return getBundleItems(meta).reduce((total, item) => total + getItemWeight(item) * item.getAmount(), 0);
+}
+
+/**
+ * Get how full the bundle is (0 = empty, 1 = full).
+ */
+export function getBundleFullness(meta: BukkitBundleMeta): number {
+  return getBundleWeight(meta) / BUNDLE_CAPACITY;
+}
+
+/**
+ * Add items while they fit, the way a player inserting them would.
+ *
+ * @returns What didn't fit (partial stacks included), for the caller to drop or return
+ *
+ * @example
+ * const leftover = addBundleItems(meta, ...drops);
+ * for (const item of leftover) player.getWorld().dropItem(player.getLocation(), item);
+ */
+export function addBundleItems(meta: BukkitBundleMeta, ...items: BukkitItemStack[]): BukkitItemStack[] {
+  const leftover: BukkitItemStack[] = [];
+  let room = BUNDLE_CAPACITY - getBundleWeight(meta);
+
+  for (const item of items) {
+    if (isItemEmpty(item)) continue;
+
+    const weight = getItemWeight(item);
+    const fits = Math.min(item.getAmount(), Math.floor(room / weight));
+
+    if (fits > 0) {
+      const added = item.clone();
+      added.setAmount(fits);
+      meta.addItem(added);
+      room -= fits * weight;
+    }
+    if (fits < item.getAmount()) {
+      const rest = item.clone();
+      rest.setAmount(item.getAmount() - fits);
+      leftover.push(rest);
+    }
+  }
+
+  return leftover;
+}
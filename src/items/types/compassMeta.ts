@@ -0,0 +1,124 @@
+/**
+ * DESIGN
+ * ------
+ * CompassMeta is the ItemMeta for COMPASS items.
+ *
+ * WHERE A COMPASS POINTS:
+ *
+ *   no lodestone ──────────→ world spawn (or player.setCompassTarget())
+ *   lodestone set ─────────→ that location
+ *     ├─ tracked = true  ──→ only while a lodestone block is there;
+ *     │                      breaking it makes the needle spin
+ *     └─ tracked = false ──→ always (no block needed)
+ *
+ * Plugins usually want tracked = false: the compass points at any
+ * location, with or without a lodestone.
+ *
+ * A compass pointing at another dimension spins randomly.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/CompassMeta.html
+ */
+
+import { BukkitLocation } from "../../world/types/location";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// COMPASS META INTERFACE
+// ============================================
+
+export interface BukkitCompassMeta extends BukkitItemMeta {
+
+  /**
+   * Check if a lodestone location is set.
+   */
+  hasLodestone(): boolean;
+
+  /**
+   * Get the lodestone location.
+   *
+   * @returns Copy of the location, or null if none
+   */
+  getLodestone(): BukkitLocation | null;
+
+  /**
+   * Set the lodestone location.
+   *
+   * @param lodestone Location, or null to point at spawn again
+   */
+  setLodestone(lodestone: BukkitLocation | null): void;
+
+  /**
+   * Check if the compass needs a lodestone block at the location.
+   */
+  isLodestoneTracked(): boolean;
+
+  /**
+   * Set if the compass needs a lodestone block at the location.
+   */
+  setLodestoneTracked(tracked: boolean): void;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitCompassMeta;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Point the compass at a location.
+ *
+ * @param tracked Require a lodestone block there (default false)
+ *
+ * @example
+ * pointCompassAt(meta, base.getLocation());
+ */
+export function pointCompassAt(meta: BukkitCompassMeta, location: BukkitLocation, tracked: boolean = false): void {
+  meta.setLodestone(location);
+  meta.setLodestoneTracked(tracked);
+}
+
+/**
+ * Make the compass point at the world spawn again.
+ */
+export function resetCompass(meta: BukkitCompassMeta): void {
+  meta.setLodestone(null);
+  meta.setLodestoneTracked(false);
+}
+
+/**
+ * Check if the compass points at a location in a world.
+ */
+export function pointsInto(meta: BukkitCompassMeta, worldName: string): boolean {
+  const lodestone = meta.getLodestone();
+  return lodestone !== null && lodestone.getWorld()?.getName() === worldName;
+}
+
+/**
+ * Get the horizontal distance from a location to the compass target.
+ *
+ * @returns Distance in blocks, or null if there is no target in that world
+ */
+export function distanceToTarget(meta: BukkitCompassMeta, from: BukkitLocation): number | null {
+  const lodestone = meta.getLodestone();
+  if (lodestone === null || lodestone.getWorld() !== from.getWorld()) {
+    return null;
+  }
+  return Math.hypot(lodestone.getX() - from.getX(), lodestone.getZ() - from.getZ());
+}
+
+/**
+ * Create a compass pointing at a location.
+ *
+ * @param tracked Require a lodestone block there (default false)
+ */
+export function createLodestoneCompass(location: BukkitLocation, tracked: boolean = false): BukkitItemStack {
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.COMPASS, 1);
+  const meta = stack.getItemMeta() as BukkitCompassMeta;
+  pointCompassAt(meta, location, tracked);
+  stack.setItemMeta(meta);
+  return stack;
+}
@@ -0,0 +1,158 @@
+/**
+ * DESIGN
+ * ------
+ * CrossbowMeta is the ItemMeta for CROSSBOW items.
+ *
+ * CHARGED PROJECTILES:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  CROSSBOW                               │
+ *   │                                         │
+ *   │  Charged projectiles[]                  │
+ *   │  ├─ ARROW / TIPPED_ARROW / SPECTRAL_... │
+ *   │  └─ FIREWORK_ROCKET                     │
+ *   │                                         │
+ *   │  empty  → needs loading                 │
+ *   │  loaded → the next use shoots all       │
+ *   └─────────────────────────────────────────┘
+ *
+ * A loaded crossbow holds one projectile, or three with Multishot. Each
+ * entry must be an arrow or a firework rocket, amount 1.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/CrossbowMeta.html
+ */
+
+import { JavaList } from "../../java/types/list";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// CROSSBOW META INTERFACE
+// ============================================
+
+export interface BukkitCrossbowMeta extends BukkitItemMeta {
+
+  /**
+   * Check if the crossbow is loaded.
+   */
+  hasChargedProjectiles(): boolean;
+
+  /**
+   * Get the loaded projectiles.
+   *
+   * @returns Immutable list of projectiles
+   */
+  getChargedProjectiles(): JavaList<BukkitItemStack>;
+
+  /**
+   * Replace the loaded projectiles.
+   *
+   * @param projectiles Projectiles (a Java List), or null to unload
+   * @throws IllegalArgumentException if an item isn't an arrow or firework rocket
+   */
+  setChargedProjectiles(projectiles: JavaList<BukkitItemStack> | null): void;
+
+  /**
+   * Load a projectile.
+   *
+   * @throws IllegalArgumentException if the item isn't an arrow or firework rocket
+   */
+  addChargedProjectile(item: BukkitItemStack): void;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitCrossbowMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Materials a crossbow can be loaded with.
+ */
+export const CROSSBOW_PROJECTILES = ["ARROW", "TIPPED_ARROW", "SPECTRAL_ARROW", "FIREWORK_ROCKET"] as const;
+
+/**
+ * Projectiles loaded with Multishot.
+ */
+export const MULTISHOT_PROJECTILES = 3;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Check if an item can be loaded into a crossbow.
+ */
+export function isCrossbowProjectile(item: BukkitItemStack): boolean {
+  return (CROSSBOW_PROJECTILES as readonly string[]).includes(item.getType().name());
+}
+
+/**
+ * Get the loaded projectiles as array.
+ */
+export function getChargedProjectilesArray(meta: BukkitCrossbowMeta): BukkitItemStack[] {
+  const projectiles = meta.getChargedProjectiles();
+  const result: BukkitItemStack[] = [];
+
+  for (let i = 0; i < projectiles.size(); i++) {
+    result.push(projectiles.get(i));
+  }
+
+  return result;
+}
+
+/**
+ * Load the crossbow, replacing what was loaded. Each item is loaded
+ * once (amount 1).
+ *
+ * @throws Error if an item isn't an arrow or firework rocket
+ *
+ * @example
+ * chargeCrossbow(meta, rocket, rocket, rocket); // multishot fireworks
+ */
+export function chargeCrossbow(meta: BukkitCrossbowMeta, ...projectiles: BukkitItemStack[]): void {
+  for (const projectile of projectiles) {
+    if (!isCrossbowProjectile(projectile)) {
+      throw new Error(`A crossbow can't be loaded with ${projectile.getType().name()}`);
+    }
+  }
+
+  meta.setChargedProjectiles(null);
+  for (const projectile of projectiles) {
+    const single = projectile.clone();
+    single.setAmount(1);
+    meta.addChargedProjectile(single);
+  }
+}
+
+/**
+ * Unload the crossbow.
+ *
+ * @returns The projectiles that were loaded
+ */
+export function unloadCrossbow(meta: BukkitCrossbowMeta): BukkitItemStack[] {
+  const projectiles = getChargedProjectilesArray(meta);
+  meta.setChargedProjectiles(null);
+  return projectiles;
+}
+
+/**
+ * Check if the crossbow is loaded with a firework rocket.
+ */
+export function isLoadedWithFirework(meta: BukkitCrossbowMeta): boolean {
+  return getChargedProjectilesArray(meta).some(item => item.getType().name() === "FIREWORK_ROCKET");
+}
+
+/**
+ * Create a loaded crossbow.
+ */
+export function createLoadedCrossbow(...projectiles: BukkitItemStack[]): BukkitItemStack {
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.CROSSBOW, 1);
+  const meta = stack.getItemMeta() as BukkitCrossbowMeta;
+  chargeCrossbow(meta, ...projectiles);
+  stack.setItemMeta(meta);
+  return stack;
+}
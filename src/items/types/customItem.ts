@@ -0,0 +1,333 @@
+/**
+ * DESIGN
+ * ------
+ * Custom items defined once, recognised wherever they end up:
+ *
+ *   const MagicWand = defineItem("magic_wand", {
+ *     base: Material.BLAZE_ROD,
+ *     name: "§6Magic Wand",
+ *     lore: ["§7Right click to cast"],
+ *     cooldown: 3,
+ *     onRightClick: ({ player }) => castFireball(player),
+ *     onHitEntity: ({ target }) => target.setFireTicks(60),
+ *   });
+ *
+ *   player.getInventory().addItem(MagicWand.create());
+ *
+ * HOW ITEMS ARE RECOGNISED:
+ * create() tags the stack's PDC with the item id. Names, lore and
+ * materials can be copied by anyone with an anvil; the tag can't. It
+ * survives restarts, chests and serialization:
+ *
+ *   item PDC
+ *   └── myplugin:custom_item   STRING   "magic_wand"
+ *
+ * DISPATCH:
+ *
+ *   PlayerInteractEvent ──→ item in the used hand ──→ tag ──→ onRightClick / onLeftClick
+ *   EntityDamageByEntityEvent (player melee) ──→ main hand ──→ tag ──→ onHitEntity
+ *
+ * The listeners are registered with the first defineItem() and shared
+ * by all custom items. Projectile hits don't count as onHitEntity, and
+ * neither do hits another plugin cancelled.
+ *
+ * LIFECYCLE:
+ * When the plugin is disabled the listeners are unregistered and every
+ * definition and cooldown is forgotten. Define items in onEnable(), not
+ * when the module loads, so a re-enabled plugin defines them again.
+ *
+ * WHY USES ARE DENIED: When a click handler runs, the item's vanilla use
+ * is denied (no block placed, no food eaten), so any base material
+ * behaves like a tool. A handler can allow it again with
+ * event.setUseItemInHand("ALLOW").
+ *
+ * COOLDOWN:
+ * Seconds between triggers, per player and item id (not per stack).
+ * While it runs, handlers are skipped and onCooldown() is called.
+ */
+
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { BukkitEntity } from "../../entities/types/bukkitEntity";
+import {
+  EntityDamageByEntityEvent,
+  EventEntityDamageByEntityEvent,
+} from "../../events/types/entity/sub/entityDamageByEntityEvent";
+import {
+  EventPlayerInteractEvent,
+  PlayerInteractEvent,
+  PlayerInteractEventHelper,
+} from "../../events/types/player/playerInteractEvent";
+import { TextLike } from "../../text/types/textComponent";
+import { HandlerList } from "../../events/types/handlerList";
+import { secondsToTicks, TICKS_PER_SECOND } from "../../scheduler/types/scheduler";
+import { BukkitBlock } from "../../world/types/block";
+import { PersistentDataType } from "../../world/types/persistentData";
+import { BukkitMaterial } from "../enums/materialType";
+import { item, ItemBuilder } from "./itemBuilder";
+import { BukkitItemStack, isItemEmpty } from "./itemstack";
+import { BukkitNamespacedKey, createPluginKey } from "./namespacedKey";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A right or left click with a custom item.
+ */
+export interface ItemUse {
+  player: BukkitPlayer;
+
+  /** The clicked stack */
+  item: BukkitItemStack;
+
+  /** Hand holding the item */
+  hand: "HAND" | "OFF_HAND";
+
+  /** Clicked block, or null when clicking air */
+  block: BukkitBlock | null;
+
+  event: EventPlayerInteractEvent;
+}
+
+/**
+ * A melee hit with a custom item.
+ */
+export interface ItemHit {
+  player: BukkitPlayer;
+
+  /** The stack in the main hand */
+  item: BukkitItemStack;
+
+  /** The damaged entity */
+  target: BukkitEntity;
+
+  event: EventEntityDamageByEntityEvent;
+}
+
+export interface CustomItemOptions {
+  /** Material of the stacks */
+  base: BukkitMaterial;
+
+  name?: TextLike;
+
+  lore?: TextLike[];
+
+  /** Custom model data (resource pack) */
+  model?: number;
+
+  unbreakable?: boolean;
+
+  /** Any other change to the created stacks */
+  build?(builder: ItemBuilder): void;
+
+  onRightClick?(use: ItemUse): void;
+
+  onLeftClick?(use: ItemUse): void;
+
+  onHitEntity?(hit: ItemHit): void;
+
+  /** Seconds between triggers (per player) */
+  cooldown?: number;
+
+  /** Called instead of a handler while the cooldown runs */
+  onCooldown?(player: BukkitPlayer, secondsLeft: number): void;
+}
+
+/**
+ * A defined custom item.
+ */
+export interface CustomItem {
+  /** Id stored in the stacks' PDC */
+  readonly id: string;
+
+  readonly options: CustomItemOptions;
+
+  /** Create tagged stacks */
+  create(amount?: number): BukkitItemStack;
+
+  /** True if a stack is this custom item */
+  is(stack: BukkitItemStack | null): boolean;
+
+  /** Seconds left of a player's cooldown (0 if none) */
+  cooldownLeft(player: BukkitPlayer): number;
+
+  /** End a player's cooldown early */
+  resetCooldown(player: BukkitPlayer): void;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/** Custom items by id */
+const registry = new Map<string, CustomItem>();
+
+/** Tick when each cooldown ends, by "<player uuid>:<item id>" */
+const cooldowns = new Map<string, number>();
+
+let tagKey: BukkitNamespacedKey | null = null;
+
+/** The shared listeners, while registered */
+let listeners: any[] | null = null;
+
+/**
+ * PDC key holding the id (created on first use: the plugin must exist).
+ */
+function idKey(): BukkitNamespacedKey {
+  tagKey ??= createPluginKey(PaperTS.getJavaPlugin(), "custom_item");
+  return tagKey;
+}
+
+function cooldownKey(player: BukkitPlayer, id: string): string {
+  return `${player.getUniqueId().toString()}:${id}`;
+}
+
+/**
+ * Run a handler unless the item is on cooldown for the player.
+ */
+function trigger(custom: CustomItem, player: BukkitPlayer, handler: () => void): void {
+  const { cooldown, onCooldown } = custom.options;
+  const left = custom.cooldownLeft(player);
+  if (left > 0) {
+    onCooldown?.(player, left);
+    return;
+  }
+
+  if (cooldown !== undefined && cooldown > 0) {
+    cooldowns.set(cooldownKey(player, custom.id), org.bukkit.Bukkit.getCurrentTick() + secondsToTicks(cooldown));
+  }
+  handler();
+}
+
+// ============================================
+// LISTENERS
+// ============================================
+
+function onInteract(event: EventPlayerInteractEvent): void {
+  const custom = getCustomItem(event.getItem());
+  if (custom === null || PlayerInteractEventHelper.isPhysical(event)) return;
+
+  const right = PlayerInteractEventHelper.isRightClick(event);
+  const handler = right ? custom.options.onRightClick : custom.options.onLeftClick;
+  if (handler === undefined) return;
+
+  const use: ItemUse = {
+    player: event.getPlayer(),
+    item: event.getItem()!,
+    hand: PlayerInteractEventHelper.isOffHand(event) ? "OFF_HAND" : "HAND",
+    block: event.getClickedBlock(),
+    event,
+  };
+
+  event.setUseItemInHand("DENY");
+  trigger(custom, use.player, () => handler(use));
+}
+
+function onDamage(event: EventEntityDamageByEntityEvent): void {
+  if (event.isCancelled()) return;
+  const damager = event.getDamager();
+  if (damager.getType().name() !== "PLAYER") return;
+
+  const player = damager as BukkitPlayer;
+  const stack = player.getInventory().getItemInMainHand();
+  const custom = getCustomItem(stack);
+  const handler = custom?.options.onHitEntity;
+  if (custom === null || handler === undefined) return;
+
+  trigger(custom, player, () => handler({ player, item: stack, target: event.getEntity(), event }));
+}
+
+function listen(): void {
+  if (listeners !== null) return;
+  listeners = [
+    PaperTS.registerEvent<EventPlayerInteractEvent>(PlayerInteractEvent, onInteract),
+    PaperTS.registerEvent<EventEntityDamageByEntityEvent>(EntityDamageByEntityEvent, onDamage),
+  ];
+
+  PaperTS.onDisable(() => {
+    for (const listener of listeners ?? []) HandlerList.unregisterAll(listener);
+    listeners = null;
+    registry.clear();
+    cooldowns.clear();
+    tagKey = null;
+  });
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Define a custom item.
+ *
+ * @param id Unique id: lowercase letters, digits and _ (stored in the stacks)
+ * @throws Error if the id is invalid or already defined
+ */
+export function defineItem(id: string, options: CustomItemOptions): CustomItem {
+  if (!/^[a-z0-9_]+$/.test(id)) {
+    throw new Error(`Invalid custom item id "${id}" (use lowercase letters, digits and _)`);
+  }
+  if (registry.has(id)) {
+    throw new Error(`Custom item "${id}" is already defined`);
+  }
+
+  const custom: CustomItem = {
+    id,
+    options,
+
+    create(amount = 1) {
+      const builder = item(options.base, amount);
+      if (options.name !== undefined) builder.name(options.name);
+      if (options.lore !== undefined) builder.lore(...options.lore);
+      if (options.model !== undefined) builder.model(options.model);
+      if (options.unbreakable) builder.unbreakable();
+      options.build?.(builder);
+      return builder.pdc(idKey(), id).build();
+    },
+
+    is: stack => customItemId(stack) === id,
+
+    cooldownLeft(player) {
+      const ends = cooldowns.get(cooldownKey(player, id));
+      if (ends === undefined) return 0;
+      const ticks = ends - org.bukkit.Bukkit.getCurrentTick();
+      if (ticks > 0) return ticks / TICKS_PER_SECOND;
+      cooldowns.delete(cooldownKey(player, id));
+      return 0;
+    },
+
+    resetCooldown(player) {
+      cooldowns.delete(cooldownKey(player, id));
+    },
+  };
+
+  registry.set(id, custom);
+  listen();
+  return custom;
+}
+
+/**
+ * Custom item id of a stack, or null for a normal item.
+ */
+export function customItemId(stack: BukkitItemStack | null): string | null {
+  if (stack === null || isItemEmpty(stack)) return null;
+  const container = stack.getItemMeta()?.getPersistentDataContainer();
+  if (container === undefined || !container.has(idKey(), PersistentDataType.STRING)) return null;
+  return container.get(idKey(), PersistentDataType.STRING);
+}
+
+/**
+ * The custom item a stack (or id) belongs to, or null.
+ * Stacks of items no longer defined also give null.
+ */
+export function getCustomItem(stackOrId: BukkitItemStack | string | null): CustomItem | null {
+  const id = typeof stackOrId === "string" ? stackOrId : customItemId(stackOrId);
+  return id === null ? null : registry.get(id) ?? null;
+}
+
+/**
+ * All defined custom items, in definition order.
+ */
+export function getCustomItems(): CustomItem[] {
+  return [...registry.values()];
+}
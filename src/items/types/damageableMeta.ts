@@ -0,0 +1,98 @@
+/**
+ * DESIGN
+ * ------
+ * Damageable is the ItemMeta part holding tool and armor wear.
+ *
+ *   durability left = max damage - damage
+ *
+ *   ┌──────────────────────────────┐
+ *   │  DIAMOND_PICKAXE             │
+ *   │  max damage: 1561 (material) │
+ *   │  damage:      200            │
+ *   │  left:       1361            │
+ *   └──────────────────────────────┘
+ *
+ * The max damage comes from the material unless the item overrides it
+ * (setMaxDamage). Items with max damage 0 can't be damaged.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/Damageable.html
+ */
+
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// DAMAGEABLE META INTERFACE
+// ============================================
+
+export interface BukkitDamageableMeta extends BukkitItemMeta {
+
+  /**
+   * Check if the item has damage.
+   */
+  hasDamage(): boolean;
+
+  /**
+   * Get the damage (0 = new).
+   */
+  getDamage(): number;
+
+  /**
+   * Set the damage.
+   */
+  setDamage(damage: number): void;
+
+  /**
+   * Check if the item overrides its material's max damage.
+   */
+  hasMaxDamage(): boolean;
+
+  /**
+   * Get the overridden max damage.
+   *
+   * NOTE: Check hasMaxDamage() first.
+   */
+  getMaxDamage(): number;
+
+  /**
+   * Override the max damage.
+   *
+   * @param maxDamage Max damage, or null for the material's
+   */
+  setMaxDamage(maxDamage: number | null): void;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitDamageableMeta;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get the max damage of an item (its override, or the material's).
+ *
+ * @returns Max damage, 0 if the item can't be damaged
+ */
+export function getMaxDamage(stack: BukkitItemStack, meta: BukkitDamageableMeta): number {
+  return meta.hasMaxDamage() ? meta.getMaxDamage() : stack.getType().getMaxDurability();
+}
+
+/**
+ * Get the durability left.
+ *
+ * @returns Durability left, or null if the item can't be damaged
+ */
+export function getDurabilityLeft(stack: BukkitItemStack, meta: BukkitDamageableMeta): number | null {
+  const max = getMaxDamage(stack, meta);
+  return max > 0 ? max - meta.getDamage() : null;
+}
+
+/**
+ * Repair the item fully.
+ */
+export function repair(meta: BukkitDamageableMeta): void {
+  meta.setDamage(0);
+}
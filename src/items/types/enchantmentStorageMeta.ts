@@ -0,0 +1,174 @@
+/**
+ * DESIGN
+ * ------
+ * EnchantmentStorageMeta is the ItemMeta for ENCHANTED_BOOK items.
+ *
+ * STORED vs APPLIED:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  ENCHANTED_BOOK                         │
+ *   │                                         │
+ *   │  Stored enchantments    ← this meta     │
+ *   │  ├─ Sharpness V                         │
+ *   │  └─ Mending I                           │
+ *   │     (applied to an item in an anvil)    │
+ *   │                                         │
+ *   │  Enchantments (addEnchant)              │
+ *   │  └─ usually none: they would act on     │
+ *   │     the book itself                     │
+ *   └─────────────────────────────────────────┘
+ *
+ * Use the "stored" methods for books. addEnchant() puts the enchantment
+ * on the book, where it does nothing but glow.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/EnchantmentStorageMeta.html
+ */
+
+import { collectionToArray } from "../../java/types/collections";
+import { JavaMap } from "../../java/types/map";
+import { BukkitEnchantment } from "../enums/enchantmentType";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// ENCHANTMENT STORAGE META INTERFACE
+// ============================================
+
+export interface BukkitEnchantmentStorageMeta extends BukkitItemMeta {
+
+  /**
+   * Check if any enchantments are stored.
+   */
+  hasStoredEnchants(): boolean;
+
+  /**
+   * Check if an enchantment is stored.
+   */
+  hasStoredEnchant(enchantment: BukkitEnchantment): boolean;
+
+  /**
+   * Get the level of a stored enchantment.
+   *
+   * @returns The level, or 0 if not stored
+   */
+  getStoredEnchantLevel(enchantment: BukkitEnchantment): number;
+
+  /**
+   * Get the stored enchantments.
+   *
+   * @returns Immutable map of enchantment to level
+   */
+  getStoredEnchants(): JavaMap<BukkitEnchantment, number>;
+
+  /**
+   * Store an enchantment.
+   *
+   * @param ignoreLevelRestriction Allow levels above the maximum
+   * @returns True if the meta changed
+   */
+  addStoredEnchant(enchantment: BukkitEnchantment, level: number, ignoreLevelRestriction: boolean): boolean;
+
+  /**
+   * Remove a stored enchantment.
+   *
+   * @returns True if the meta changed
+   */
+  removeStoredEnchant(enchantment: BukkitEnchantment): boolean;
+
+  /**
+   * Check if a stored enchantment conflicts with the given one.
+   */
+  hasConflictingStoredEnchant(enchantment: BukkitEnchantment): boolean;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitEnchantmentStorageMeta;
+}
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * An enchantment and its level.
+ */
+export type StoredEnchant = [enchantment: BukkitEnchantment, level: number];
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get stored enchantments as array of [enchantment, level].
+ */
+export function getStoredEnchantsArray(meta: BukkitEnchantmentStorageMeta): StoredEnchant[] {
+  const enchants = meta.getStoredEnchants();
+  return collectionToArray(enchants.keySet()).map(enchantment => [enchantment, enchants.get(enchantment) ?? 0]);
+}
+
+/**
+ * Store enchantments, ignoring level limits.
+ *
+ * @example
+ * storeEnchants(meta, [Enchantment.SHARPNESS, 5], [Enchantment.MENDING, 1]);
+ */
+export function storeEnchants(meta: BukkitEnchantmentStorageMeta, ...enchants: StoredEnchant[]): void {
+  for (const [enchantment, level] of enchants) {
+    meta.addStoredEnchant(enchantment, level, true);
+  }
+}
+
+/**
+ * Remove all stored enchantments.
+ */
+export function clearStoredEnchants(meta: BukkitEnchantmentStorageMeta): void {
+  for (const [enchantment] of getStoredEnchantsArray(meta)) {
+    meta.removeStoredEnchant(enchantment);
+  }
+}
+
+/**
+ * Get the highest stored level.
+ *
+ * @returns The level, or 0 for an empty book
+ */
+export function getHighestStoredLevel(meta: BukkitEnchantmentStorageMeta): number {
+  return getStoredEnchantsArray(meta).reduce((highest, [, level]) => Math.max(highest, level), 0);
+}
+
+/**
+ * Check if every stored level is within vanilla limits.
+ */
+export function isVanillaBook(meta: BukkitEnchantmentStorageMeta): boolean {
+  return getStoredEnchantsArray(meta).every(([enchantment, level]) => level <= enchantment.getMaxLevel());
+}
+
+/**
+ * Create an enchanted book.
+ *
+ * @example
+ * const book = createEnchantedBook([Enchantment.EFFICIENCY, 5]);
+ */
+export function createEnchantedBook(...enchants: StoredEnchant[]): BukkitItemStack {
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.ENCHANTED_BOOK, 1);
+  const meta = stack.getItemMeta() as BukkitEnchantmentStorageMeta;
+  storeEnchants(meta, ...enchants);
+  stack.setItemMeta(meta);
+  return stack;
+}
+
+/**
+ * Describe stored enchantments in human-readable format.
+ *
+ * @example
+ * describeStoredEnchants(meta);
+ * // "sharpness 5, mending 1"
+ */
+export function describeStoredEnchants(meta: BukkitEnchantmentStorageMeta): string {
+  const enchants = getStoredEnchantsArray(meta);
+  if (enchants.length === 0) {
+    return "No stored enchantments";
+  }
+  return enchants.map(([enchantment, level]) => `${enchantment.getKey().getKey()} ${level}`).join(", ");
+}
@@ -0,0 +1,238 @@
+/**
+ * DESIGN
+ * ------
+ * Fluent construction of items, with the ItemMeta round-trip done once:
+ *
+ *   const blade = item(Material.DIAMOND_SWORD)
+ *     .name("§bFrostbite")
+ *     .lore("§7Forged in ice", "§7Slows on hit")
+ *     .enchant(Enchantment.SHARPNESS, 5)
+ *     .flags(ItemFlag.HIDE_ENCHANTS)
+ *     .unbreakable()
+ *     .model(1001)
+ *     .pdc("weapon_id", "frostbite")
+ *     .build();
+ *
+ * WHY RECORD EDITS INSTEAD OF HOLDING A META:
+ * getItemMeta() returns a copy, and changes only stick after
+ * setItemMeta(). Editing the stack directly (addUnsafeEnchantment) and
+ * then setting an older meta copy silently undoes the first edit. The
+ * builder records every edit and build() replays them on ONE fresh meta:
+ *
+ *   base.clone() ──→ getItemMeta() ──→ edit, edit, edit ──→ setItemMeta()
+ *
+ * So a builder is reusable: every build() returns a new, independent
+ * stack, and ItemBuilder.from(existing) never touches the original.
+ *
+ * TEXT:
+ * name() and lore() take legacy strings ("§aGreen") or rich text
+ * (text("Green").color("green")); rich text is converted to § codes.
+ *
+ * PDC VALUES:
+ * pdc(key, value) picks the type from the value: strings as STRING,
+ * booleans as BOOLEAN, whole numbers as INTEGER, other numbers as
+ * DOUBLE. Pass a codec to choose (pdc(key, Data.long(), Date.now())).
+ * String keys are in the plugin's namespace.
+ */
+
+import { BukkitEnchantment } from "../enums/enchantmentType";
+import { BukkitItemFlag } from "../enums/itemFlagType";
+import { BukkitMaterial } from "../enums/materialType";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+import { BukkitNamespacedKey, toPluginKey } from "./namespacedKey";
+import { toList } from "../../java/types/converter";
+import { TextLike, toLegacy } from "../../text/types/textComponent";
+import { Data, DataCodec } from "../../world/types/persistentSchema";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A value pdc() can store without a codec.
+ */
+export type SimpleDataValue = string | number | boolean;
+
+/**
+ * Chainable item description. Every method returns the same builder.
+ */
+export interface ItemBuilder {
+  /** Set the stack size */
+  amount(amount: number): ItemBuilder;
+
+  /** Set the display name (null removes it) */
+  name(name: TextLike | null): ItemBuilder;
+
+  /** Replace the lore */
+  lore(...lines: TextLike[]): ItemBuilder;
+
+  /** Add lines after the current lore */
+  addLore(...lines: TextLike[]): ItemBuilder;
+
+  /** Remove the lore */
+  clearLore(): ItemBuilder;
+
+  /** Add an enchantment, ignoring level limits and item type (default level 1) */
+  enchant(enchantment: BukkitEnchantment, level?: number): ItemBuilder;
+
+  /** Remove an enchantment */
+  unenchant(enchantment: BukkitEnchantment): ItemBuilder;
+
+  /** Hide parts of the tooltip */
+  flags(...flags: BukkitItemFlag[]): ItemBuilder;
+
+  /** Set the unbreakable tag (default true) */
+  unbreakable(unbreakable?: boolean): ItemBuilder;
+
+  /** Set the custom model data (null removes it) */
+  model(data: number | null): ItemBuilder;
+
+  /** Store a value in the item's persistent data */
+  pdc(key: BukkitNamespacedKey | string, value: SimpleDataValue): ItemBuilder;
+  pdc<T>(key: BukkitNamespacedKey | string, codec: DataCodec<T>, value: T): ItemBuilder;
+
+  /** Any other meta change (runs in order with the other edits) */
+  meta(edit: (meta: BukkitItemMeta) => void): ItemBuilder;
+
+  /**
+   * Create the item.
+   * @throws Error if meta was edited on an item without meta (AIR)
+   */
+  build(): BukkitItemStack;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function legacyText(value: TextLike): string {
+  return typeof value === "string" ? value : toLegacy(value);
+}
+
+function codecFor(value: SimpleDataValue): DataCodec<any> {
+  switch (typeof value) {
+    case "string":
+      return Data.string();
+    case "boolean":
+      return Data.boolean();
+    default:
+      return Number.isInteger(value) && Math.abs(value) <= 0x7fffffff ? Data.integer() : Data.double();
+  }
+}
+
+function createBuilder(base: BukkitItemStack): ItemBuilder {
+  const edits: Array<(meta: BukkitItemMeta) => void> = [];
+  let amount = base.getAmount();
+
+  const builder: ItemBuilder = {
+    amount(value) {
+      amount = value;
+      return builder;
+    },
+
+    name(name) {
+      return builder.meta(meta => meta.setDisplayName(name === null ? null : legacyText(name)));
+    },
+
+    lore(...lines) {
+      const legacy = lines.map(legacyText);
+      return builder.meta(meta => meta.setLore(legacy));
+    },
+
+    addLore(...lines) {
+      const legacy = lines.map(legacyText);
+      return builder.meta(meta => {
+        const current = meta.getLore();
+        meta.setLore([...(current === null ? [] : toList(current)), ...legacy]);
+      });
+    },
+
+    clearLore() {
+      return builder.meta(meta => meta.setLore(null));
+    },
+
+    enchant(enchantment, level = 1) {
+      return builder.meta(meta => {
+        meta.addEnchant(enchantment, level, true);
+      });
+    },
+
+    unenchant(enchantment) {
+      return builder.meta(meta => {
+        meta.removeEnchant(enchantment);
+      });
+    },
+
+    flags(...flags) {
+      return builder.meta(meta => meta.addItemFlags(...flags));
+    },
+
+    unbreakable(unbreakable = true) {
+      return builder.meta(meta => meta.setUnbreakable(unbreakable));
+    },
+
+    model(data) {
+      return builder.meta(meta => meta.setCustomModelData(data));
+    },
+
+    pdc(key: BukkitNamespacedKey | string, codecOrValue: any, value?: any) {
+      const codec: DataCodec<any> = value === undefined ? codecFor(codecOrValue) : codecOrValue;
+      const stored = value === undefined ? codecOrValue : value;
+      const namespacedKey = toPluginKey(key);
+      return builder.meta(meta => codec.write(meta.getPersistentDataContainer(), namespacedKey, stored));
+    },
+
+    meta(edit) {
+      edits.push(edit);
+      return builder;
+    },
+
+    build() {
+      const item = base.clone();
+      item.setAmount(amount);
+      if (edits.length === 0) return item;
+
+      const meta = item.getItemMeta();
+      if (meta === null) {
+        throw new Error(`Cannot edit the meta of ${item.getType().name()} (it has no meta)`);
+      }
+      for (const edit of edits) edit(meta);
+      item.setItemMeta(meta);
+      return item;
+    },
+  };
+
+  return builder;
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Start building an item.
+ *
+ * @example
+ * const token = item(Material.SUNFLOWER).name("§6Token").model(7).build();
+ */
+export function item(material: BukkitMaterial, amount: number = 1): ItemBuilder {
+  return createBuilder(new org.bukkit.inventory.ItemStack(material, amount));
+}
+
+/**
+ * Builder entry points.
+ */
+export const ItemBuilder = {
+  /** Same as item() */
+  of: item,
+
+  /**
+   * Edit a copy of an existing item (its meta and amount are kept).
+   *
+   * @example
+   * const renamed = ItemBuilder.from(hand).name("§eRenamed").build();
+   */
+  from(existing: BukkitItemStack): ItemBuilder {
+    return createBuilder(existing.clone());
+  },
+};
@@ -0,0 +1,187 @@
+/**
+ * DESIGN
+ * ------
+ * Typed access to the ItemMeta subtypes.
+ *
+ * getItemMeta() is typed as the base BukkitItemMeta, but the object is
+ * always a subtype decided by the material:
+ *
+ *   POTION, SPLASH_POTION, TIPPED_ARROW... ──→ PotionMeta
+ *   PLAYER_HEAD                            ──→ SkullMeta
+ *   LEATHER_*, WOLF_ARMOR                  ──→ LeatherArmorMeta
+ *   WRITTEN_BOOK, WRITABLE_BOOK            ──→ BookMeta
+ *   *_BANNER                               ──→ BannerMeta
+ *   ENCHANTED_BOOK                         ──→ EnchantmentStorageMeta
+ *   FILLED_MAP                             ──→ MapMeta
+ *   COMPASS                                ──→ CompassMeta
+ *   BUNDLE, *_BUNDLE                       ──→ BundleMeta
+ *   *_HELMET, *_CHESTPLATE... (armor)      ──→ ArmorMeta
+ *   CROSSBOW                               ──→ CrossbowMeta
+ *   FIREWORK_ROCKET                        ──→ FireworkMeta
+ *   tools, weapons, armor                  ──→ Damageable (too)
+ *
+ * getMetaAs() checks the actual Java type and narrows:
+ *
+ *   const potion = getMetaAs(stack, "potion");   // BukkitPotionMeta | null
+ *   if (potion !== null) {
+ *     potion.setColor(Color.RED);
+ *     stack.setItemMeta(potion);
+ *   }
+ *
+ * editMetaAs() does the get / edit / setItemMeta round-trip:
+ *
+ *   editMetaAs(stack, "skull", meta => setSkullTexture(meta, texture));
+ *
+ * WHY Class.isInstance AND NOT THE MATERIAL: The material table changes
+ * between versions (wolf armor, dyed bundles), and one meta can have
+ * several types (leather armor is both "leather" and "armor"). The Java
+ * type is the only reliable answer, as for command senders.
+ */
+
+import { JavaClass } from "../../java/types/class";
+import { BukkitArmorMeta } from "./armorMeta";
+import { BukkitBannerMeta } from "./bannerMeta";
+import { BukkitBookMeta } from "./bookMeta";
+import { BukkitBundleMeta } from "./bundleMeta";
+import { BukkitCompassMeta } from "./compassMeta";
+import { BukkitCrossbowMeta } from "./crossbowMeta";
+import { BukkitDamageableMeta } from "./damageableMeta";
+import { BukkitEnchantmentStorageMeta } from "./enchantmentStorageMeta";
+import { BukkitFireworkMeta } from "./fireworkMeta";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+import { BukkitLeatherArmorMeta } from "./leatherArmorMeta";
+import { BukkitMapMeta } from "./mapMeta";
+import { BukkitPotionMeta } from "./potionMeta";
+import { BukkitSkullMeta } from "./skullMeta";
+
+// ============================================
+// META KINDS
+// ============================================
+
+/**
+ * Meta type for each kind, used to narrow.
+ */
+export interface MetaKindTypes {
+  potion: BukkitPotionMeta;
+  skull: BukkitSkullMeta;
+  leather: BukkitLeatherArmorMeta;
+  book: BukkitBookMeta;
+  banner: BukkitBannerMeta;
+  enchantmentStorage: BukkitEnchantmentStorageMeta;
+  map: BukkitMapMeta;
+  compass: BukkitCompassMeta;
+  bundle: BukkitBundleMeta;
+  armor: BukkitArmorMeta;
+  crossbow: BukkitCrossbowMeta;
+  firework: BukkitFireworkMeta;
+  damageable: BukkitDamageableMeta;
+}
+
+/**
+ * ItemMeta subtypes getMetaAs() can narrow to.
+ */
+export type MetaKind = keyof MetaKindTypes;
+
+/**
+ * Java interface backing each meta kind.
+ */
+const META_CLASS_NAMES: Record<MetaKind, string> = {
+  potion: "org.bukkit.inventory.meta.PotionMeta",
+  skull: "org.bukkit.inventory.meta.SkullMeta",
+  leather: "org.bukkit.inventory.meta.LeatherArmorMeta",
+  book: "org.bukkit.inventory.meta.BookMeta",
+  banner: "org.bukkit.inventory.meta.BannerMeta",
+  enchantmentStorage: "org.bukkit.inventory.meta.EnchantmentStorageMeta",
+  map: "org.bukkit.inventory.meta.MapMeta",
+  compass: "org.bukkit.inventory.meta.CompassMeta",
+  bundle: "org.bukkit.inventory.meta.BundleMeta",
+  armor: "org.bukkit.inventory.meta.ArmorMeta",
+  crossbow: "org.bukkit.inventory.meta.CrossbowMeta",
+  firework: "org.bukkit.inventory.meta.FireworkMeta",
+  damageable: "org.bukkit.inventory.meta.Damageable",
+};
+
+/**
+ * Resolved Java classes, looked up on first use.
+ */
+const metaClasses = new Map<MetaKind, JavaClass<any>>();
+
+// ============================================
+// TYPE GUARDS
+// ============================================
+
+/**
+ * Check a meta against the Java interface of a kind.
+ *
+ * @example
+ * if (isMetaKind(meta, "book")) {
+ *   meta.setAuthor("Server");  // meta is BukkitBookMeta here
+ * }
+ */
+export function isMetaKind<K extends MetaKind>(meta: BukkitItemMeta | null, kind: K): meta is MetaKindTypes[K] {
+  if (meta === null) return false;
+
+  let clazz = metaClasses.get(kind);
+  if (clazz === undefined) {
+    clazz = Java.callStatic<JavaClass<any>>("java.lang.Class", "forName", META_CLASS_NAMES[kind]);
+    metaClasses.set(kind, clazz);
+  }
+  return clazz.isInstance(meta);
+}
+
+/**
+ * Get the kinds of a meta (several for e.g. leather armor).
+ */
+export function getMetaKinds(meta: BukkitItemMeta | null): MetaKind[] {
+  return (Object.keys(META_CLASS_NAMES) as MetaKind[]).filter(kind => isMetaKind(meta, kind));
+}
+
+// ============================================
+// ACCESS
+// ============================================
+
+/**
+ * Get a copy of the stack's meta as a subtype.
+ *
+ * Like getItemMeta(), changes only stick after stack.setItemMeta(meta).
+ *
+ * @returns The meta, or null if the item has no meta of that kind
+ */
+export function getMetaAs<K extends MetaKind>(stack: BukkitItemStack | null, kind: K): MetaKindTypes[K] | null {
+  const meta = stack?.getItemMeta() ?? null;
+  return isMetaKind(meta, kind) ? meta : null;
+}
+
+/**
+ * Edit the stack's meta as a subtype and save it back.
+ *
+ * @returns True if the item had meta of that kind (and was edited)
+ *
+ * @example
+ * editMetaAs(stack, "leather", meta => setLeatherColor(meta, "#FF0000"));
+ */
+export function editMetaAs<K extends MetaKind>(
+  stack: BukkitItemStack,
+  kind: K,
+  edit: (meta: MetaKindTypes[K]) => void
+): boolean {
+  const meta = getMetaAs(stack, kind);
+  if (meta === null) return false;
+
+  edit(meta);
+  stack.setItemMeta(meta);
+  return true;
+}
+
+/**
+ * Get the stack's meta as a subtype, or throw.
+ *
+ * @throws Error if the item has no meta of that kind
+ */
+export function requireMetaAs<K extends MetaKind>(stack: BukkitItemStack, kind: K): MetaKindTypes[K] {
+  const meta = getMetaAs(stack, kind);
+  if (meta === null) {
+    throw new Error(`${stack.getType().name()} has no ${kind} meta`);
+  }
+  return meta;
+}
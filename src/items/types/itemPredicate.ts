@@ -0,0 +1,254 @@
+/**
+ * DESIGN
+ * ------
+ * Composable tests on item stacks, for shops, quest turn-ins and any
+ * code asking "is this the item I want?":
+ *
+ *   const ticket = ItemMatch.custom("raffle_ticket");
+ *
+ *   const goodSword = ItemMatch.material(Material.DIAMOND_SWORD, Material.NETHERITE_SWORD)
+ *     .and(ItemMatch.enchant(Enchantment.SHARPNESS, 3))
+ *     .and(ItemMatch.durabilityAbove(100));
+ *
+ *   const notQuestItem = ItemMatch.data("quest_item").negate();
+ *
+ * WHY NOT inventory.contains(stack): Bukkit matches either by material
+ * (any DIAMOND counts, renamed or custom ones included) or by the exact
+ * stack (every name, lore and PDC byte must be equal). Shops need
+ * something in between: "a diamond that is not a custom item", "a
+ * sword with Sharpness III or better, any name".
+ *
+ * MATCHERS:
+ *
+ *   material(...materials)       type is one of the materials
+ *   name(text, options)          display name contains text (§ codes ignored)
+ *   lore(text, options)          a lore line contains text
+ *   enchant(enchantment, level)  enchantment at least level (books: stored)
+ *   data(key)                    PDC has the key (string keys: plugin namespace)
+ *   custom(item | id)            is a custom item (defineItem)
+ *   vanilla()                    is NOT a custom item
+ *   durabilityBelow(points)      damageable, durability left below points
+ *   durabilityAbove(points)      damageable, durability left above points
+ *   similar(stack)               same item as stack, any amount
+ *   where(test)                  any other test
+ *
+ *   all(...), any(...), not(...) and .and() / .or() / .negate() combine them.
+ *
+ * Empty slots (null, AIR) never match, so predicates can be used on
+ * inventory contents directly.
+ */
+
+import { BukkitEnchantment } from "../enums/enchantmentType";
+import { BukkitMaterial } from "../enums/materialType";
+import { CustomItem, customItemId } from "./customItem";
+import { getDurabilityLeft } from "./damageableMeta";
+import { getMetaAs } from "./itemMeta";
+import { BukkitItemStack, isItemEmpty } from "./itemstack";
+import { BukkitNamespacedKey, toPluginKey } from "./namespacedKey";
+import { toList } from "../../java/types/converter";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A test on a (non-empty) stack.
+ */
+export interface ItemPredicate {
+  /** True if the stack matches (false for null and AIR) */
+  test(stack: BukkitItemStack | null): boolean;
+
+  /** Matches when both match */
+  and(other: ItemPredicate): ItemPredicate;
+
+  /** Matches when either matches */
+  or(other: ItemPredicate): ItemPredicate;
+
+  /** Matches non-empty stacks this doesn't match */
+  negate(): ItemPredicate;
+}
+
+export interface TextMatchOptions {
+  /** Compare case-sensitively (default false) */
+  caseSensitive?: boolean;
+
+  /** Require the whole text to be equal, not only contain it (default false) */
+  exact?: boolean;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function stripCodes(text: string): string {
+  return text.replace(/§[0-9a-fk-orx]/gi, "");
+}
+
+function textMatcher(expected: string, options: TextMatchOptions): (actual: string) => boolean {
+  const fold = (text: string) => (options.caseSensitive ? text : text.toLowerCase());
+  const wanted = fold(stripCodes(expected));
+  return actual => {
+    const plain = fold(stripCodes(actual));
+    return options.exact ? plain === wanted : plain.includes(wanted);
+  };
+}
+
+/**
+ * Wrap a test on non-empty stacks into a predicate.
+ */
+function predicate(test: (stack: BukkitItemStack) => boolean): ItemPredicate {
+  const self: ItemPredicate = {
+    test: stack => stack !== null && !isItemEmpty(stack) && test(stack),
+    and: other => predicate(stack => test(stack) && other.test(stack)),
+    or: other => predicate(stack => test(stack) || other.test(stack)),
+    negate: () => predicate(stack => !test(stack)),
+  };
+  return self;
+}
+
+// ============================================
+// MATCHERS
+// ============================================
+
+/**
+ * Item predicate factories.
+ */
+export const ItemMatch = {
+  /**
+   * Type is one of the materials.
+   *
+   * @example ItemMatch.material(Material.OAK_LOG, Material.BIRCH_LOG)
+   */
+  material(...materials: BukkitMaterial[]): ItemPredicate {
+    const names = new Set(materials.map(material => material.name()));
+    return predicate(stack => names.has(stack.getType().name()));
+  },
+
+  /**
+   * Display name contains a text (colors ignored). Items without a
+   * custom name never match.
+   */
+  name(text: string, options: TextMatchOptions = {}): ItemPredicate {
+    const matches = textMatcher(text, options);
+    return predicate(stack => {
+      const meta = stack.getItemMeta();
+      return meta !== null && meta.hasDisplayName() && matches(meta.getDisplayName());
+    });
+  },
+
+  /**
+   * A lore line contains a text (colors ignored).
+   */
+  lore(text: string, options: TextMatchOptions = {}): ItemPredicate {
+    const matches = textMatcher(text, options);
+    return predicate(stack => {
+      const lore = stack.getItemMeta()?.getLore() ?? null;
+      return lore !== null && toList(lore).some(matches);
+    });
+  },
+
+  /**
+   * Has an enchantment at least at a level. Enchanted books match with
+   * their stored enchantments.
+   */
+  enchant(enchantment: BukkitEnchantment, minLevel: number = 1): ItemPredicate {
+    return predicate(stack => {
+      const book = getMetaAs(stack, "enchantmentStorage");
+      const level = book !== null
+        ? Math.max(book.getStoredEnchantLevel(enchantment), stack.getEnchantmentLevel(enchantment))
+        : stack.getEnchantmentLevel(enchantment);
+      return level >= minLevel;
+    });
+  },
+
+  /**
+   * Persistent data has a key (any type).
+   */
+  data(key: BukkitNamespacedKey | string): ItemPredicate {
+    return predicate(stack => {
+      const meta = stack.getItemMeta();
+      return meta !== null && meta.getPersistentDataContainer().has(toPluginKey(key));
+    });
+  },
+
+  /**
+   * Is a custom item (by definition or id).
+   */
+  custom(item: CustomItem | string): ItemPredicate {
+    const id = typeof item === "string" ? item : item.id;
+    return predicate(stack => customItemId(stack) === id);
+  },
+
+  /**
+   * Is not a custom item.
+   */
+  vanilla(): ItemPredicate {
+    return predicate(stack => customItemId(stack) === null);
+  },
+
+  /**
+   * Can be damaged and has less than some durability left.
+   */
+  durabilityBelow(points: number): ItemPredicate {
+    return predicate(stack => {
+      const meta = getMetaAs(stack, "damageable");
+      const left = meta === null ? null : getDurabilityLeft(stack, meta);
+      return left !== null && left < points;
+    });
+  },
+
+  /**
+   * Can be damaged and has more than some durability left.
+   */
+  durabilityAbove(points: number): ItemPredicate {
+    return predicate(stack => {
+      const meta = getMetaAs(stack, "damageable");
+      const left = meta === null ? null : getDurabilityLeft(stack, meta);
+      return left !== null && left > points;
+    });
+  },
+
+  /**
+   * Same item as a stack (type and meta), any amount.
+   */
+  similar(item: BukkitItemStack): ItemPredicate {
+    return predicate(stack => stack.isSimilar(item));
+  },
+
+  /**
+   * Any other test.
+   *
+   * @example ItemMatch.where(stack => stack.getAmount() === stack.getMaxStackSize())
+   */
+  where(test: (stack: BukkitItemStack) => boolean): ItemPredicate {
+    return predicate(test);
+  },
+
+  /**
+   * Matches every non-empty stack.
+   */
+  anything(): ItemPredicate {
+    return predicate(() => true);
+  },
+
+  /**
+   * Matches when all predicates match.
+   */
+  all(...predicates: ItemPredicate[]): ItemPredicate {
+    return predicate(stack => predicates.every(p => p.test(stack)));
+  },
+
+  /**
+   * Matches when any predicate matches.
+   */
+  any(...predicates: ItemPredicate[]): ItemPredicate {
+    return predicate(stack => predicates.some(p => p.test(stack)));
+  },
+
+  /**
+   * Matches non-empty stacks the predicate doesn't match.
+   */
+  not(inner: ItemPredicate): ItemPredicate {
+    return inner.negate();
+  },
+};
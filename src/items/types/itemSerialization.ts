@@ -0,0 +1,188 @@
+/**
+ * DESIGN
+ * ------
+ * Items as text, for kits, auction listings and inventory backups kept
+ * in files or databases.
+ *
+ * TWO FORMS, SAME CONTENT:
+ *
+ *   serializeItem(stack)  → JSON object, readable and diffable
+ *     { "id": "minecraft:diamond_sword", "count": 1,
+ *       "components": { "minecraft:enchantments": {...},
+ *                       "minecraft:custom_data": {...PDC...} },
+ *       "DataVersion": 4189 }
+ *
+ *   itemToBase64(stack)   → "CgAA..."  compact, for a database column
+ *
+ * Both are written by the server itself (Paper's item JSON and
+ * serializeAsBytes()), so every component is kept: name, lore,
+ * enchantments, flags, PDC, and whatever future versions add.
+ *
+ * WHY NOT ItemStack.serialize(): The Bukkit map holds ItemMeta objects
+ * and Java number types (int vs double) that JSON can't tell apart, and
+ * it has no data version. The server formats carry their DataVersion:
+ * an item saved on 1.21.1 is upgraded when read on a later version.
+ * Reading an item from a NEWER version than the server fails.
+ *
+ * EMPTY SLOTS:
+ * null and AIR serialize to null, and null reads back as null, so
+ * getContents() arrays keep their slot positions:
+ *
+ *   const backup = itemsToBase64(player.getInventory().getContents());
+ *   player.getInventory().setContents(itemsFromBase64(backup));
+ *
+ * The Base64 form of a list is one string: the slot count, ":", then
+ * the items' Base64 joined with "," (neither is part of the Base64
+ * alphabet), empty slots left blank:
+ *
+ *   "3:CgAA...,,CgAB..."   sword, empty slot, shield
+ *   "0:"                   no slots
+ *
+ * WHY THE COUNT: Without it, an empty list and a list of one empty slot
+ * would both be "".
+ */
+
+import { BukkitItemStack, deserializeItemStackBytes, isItemEmpty } from "./itemstack";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * JSON form of an item (Paper's item format).
+ */
+export interface SerializedItem {
+  /** Item type, e.g. "minecraft:diamond_sword" */
+  id: string;
+
+  /** Stack size */
+  count: number;
+
+  /** Data components (name, lore, enchantments, custom_data...), if any */
+  components?: Record<string, unknown>;
+
+  /** Minecraft data version the item was written with */
+  DataVersion: number;
+
+  [field: string]: unknown;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function isSerializedItem(value: any): value is SerializedItem {
+  return typeof value === "object" && value !== null
+    && typeof value.id === "string" && typeof value.DataVersion === "number";
+}
+
+// ============================================
+// SINGLE ITEMS
+// ============================================
+
+/**
+ * JSON form of an item.
+ *
+ * @returns The item as a plain object, or null for an empty slot
+ *
+ * @example
+ * config.set("kit.sword", JSON.stringify(serializeItem(sword)));
+ */
+export function serializeItem(stack: BukkitItemStack | null): SerializedItem | null {
+  if (stack === null || isItemEmpty(stack)) return null;
+  return JSON.parse(org.bukkit.Bukkit.getUnsafe().serializeItemAsJson(stack).toString());
+}
+
+/**
+ * Read an item from serializeItem() (as an object or JSON text).
+ *
+ * @returns The item, or null for null (an empty slot)
+ * @throws Error if the data isn't a serialized item
+ */
+export function deserializeItem(data: SerializedItem | string | null): BukkitItemStack | null {
+  if (data === null) return null;
+  const value = typeof data === "string" ? JSON.parse(data) : data;
+  if (!isSerializedItem(value)) {
+    throw new Error(`Not a serialized item: ${JSON.stringify(value)}`);
+  }
+
+  const json = Java.callStatic<{ getAsJsonObject(): unknown }>(
+    "com.google.gson.JsonParser",
+    "parseString",
+    JSON.stringify(value)
+  );
+  return org.bukkit.Bukkit.getUnsafe().deserializeItemFromJson(json.getAsJsonObject());
+}
+
+/**
+ * Compact Base64 form of an item.
+ *
+ * @returns Base64 text, or null for an empty slot
+ */
+export function itemToBase64(stack: BukkitItemStack | null): string | null {
+  if (stack === null || isItemEmpty(stack)) return null;
+  return java.util.Base64.getEncoder().encodeToString(stack.serializeAsBytes());
+}
+
+/**
+ * Read an item from itemToBase64().
+ *
+ * @returns The item, or null for null or "" (an empty slot)
+ */
+export function itemFromBase64(text: string | null): BukkitItemStack | null {
+  if (text === null || text === "") return null;
+  return deserializeItemStackBytes(java.util.Base64.getDecoder().decode(text));
+}
+
+// ============================================
+// ITEM LISTS (INVENTORY CONTENTS)
+// ============================================
+
+/**
+ * JSON form of a list of items, one entry per slot.
+ *
+ * @example
+ * data.set("backup", serializeItems(inventory.getContents()));
+ */
+export function serializeItems(items: (BukkitItemStack | null)[]): (SerializedItem | null)[] {
+  return Array.from(items, serializeItem);
+}
+
+/**
+ * Read a list from serializeItems() (as an array or JSON text).
+ */
+export function deserializeItems(data: (SerializedItem | null)[] | string): (BukkitItemStack | null)[] {
+  const entries = typeof data === "string" ? JSON.parse(data) : data;
+  if (!Array.isArray(entries)) {
+    throw new Error("Serialized items must be an array");
+  }
+  return entries.map(deserializeItem);
+}
+
+/**
+ * Compact Base64 form of a list of items, as one string.
+ */
+export function itemsToBase64(items: (BukkitItemStack | null)[]): string {
+  return `${items.length}:` + Array.from(items, item => itemToBase64(item) ?? "").join(",");
+}
+
+/**
+ * Read a list from itemsToBase64().
+ *
+ * @throws Error if the text isn't an item list
+ */
+export function itemsFromBase64(text: string): (BukkitItemStack | null)[] {
+  const match = /^(\d+):(.*)$/.exec(text);
+  if (match === null) {
+    throw new Error(`Not a Base64 item list: "${text.substring(0, 20)}"`);
+  }
+
+  const count = parseInt(match[1], 10);
+  if (count === 0) return [];
+
+  const entries = match[2].split(",");
+  if (entries.length !== count) {
+    throw new Error(`Base64 item list has ${entries.length} slots, expected ${count}`);
+  }
+  return entries.map(itemFromBase64);
+}
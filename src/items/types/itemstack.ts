@@ -9,13 +9,17 @@
 
 import { BukkitMaterial } from "../enums/materialType";
 import { BukkitEnchantment } from "../enums/enchantmentType";
+import { BukkitItemFlag } from "../enums/itemFlagType";
+import { BukkitPersistentDataHolder } from "../../world/types/persistentData";
 import { BukkitMaterialData } from "./materialData";
+import { JavaList } from "../../java/types/list";
+import { JavaSet } from "../../java/types/set";
 
 // ============================================
 // INTERFACES
 // ============================================
 
-export interface BukkitItemMeta {
+export interface BukkitItemMeta extends BukkitPersistentDataHolder {
   /**
    * Gets the display name that is set.
    * @returns The display name
@@ -24,9 +28,9 @@ export interface BukkitItemMeta {
 
   /**
    * Sets the display name.
-   * @param name - The name to set
+   * @param name - The name to set, or null to remove it
    */
-  setDisplayName(name: string): void;
+  setDisplayName(name: string | null): void;
 
   /**
    * Checks for existence of a display name.
@@ -38,7 +42,7 @@ export interface BukkitItemMeta {
    * Gets the lore that is set.
    * @returns A list of lore lines
    */
-  getLore(): string[] | null;
+  getLore(): JavaList<string> | null;
 
   /**
    * Sets the lore for this item.
@@ -131,6 +135,31 @@ export interface BukkitItemMeta {
    */
   hasConflictingEnchant(ench: BukkitEnchantment): boolean;
 
+  /**
+   * Hide parts of the tooltip.
+   * @param flags - The flags to add
+   */
+  addItemFlags(...flags: BukkitItemFlag[]): void;
+
+  /**
+   * Show parts of the tooltip again.
+   * @param flags - The flags to remove
+   */
+  removeItemFlags(...flags: BukkitItemFlag[]): void;
+
+  /**
+   * Get the current set of item flags.
+   * @returns A copy of the flags
+   */
+  getItemFlags(): JavaSet<BukkitItemFlag>;
+
+  /**
+   * Check if a flag is set.
+   * @param flag - Flag to check
+   * @returns True if the flag is set
+   */
+  hasItemFlag(flag: BukkitItemFlag): boolean;
+
   /**
    * Return a clone of this ItemMeta.
    * @returns A clone
@@ -317,6 +346,14 @@ export interface BukkitItemStack {
    */
   serialize(): Map<string, any>;
 
+  /**
+   * Serializes this item to bytes (Paper), including all components.
+   * The format is versioned: newer servers upgrade old bytes when reading.
+   * @returns Serialized bytes
+   * @throws IllegalArgumentException if the item is air
+   */
+  serializeAsBytes(): number[];
+
   /**
    * Get the translation key, suitable for use in a translation component.
    * @returns The translation key
@@ -405,6 +442,19 @@ export function deserializeItemStack(args: Map<string, any>): BukkitItemStack {
   return org.bukkit.inventory.ItemStack.deserialize(args);
 }
 
+/**
+ * Read an item written with serializeAsBytes() (Paper).
+ *
+ * @param bytes - Serialized bytes
+ * @returns Deserialized item stack
+ *
+ * @example
+ * const copy = deserializeItemStackBytes(item.serializeAsBytes());
+ */
+export function deserializeItemStackBytes(bytes: number[]): BukkitItemStack {
+  return org.bukkit.inventory.ItemStack.deserializeBytes(bytes);
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
@@ -0,0 +1,164 @@
+/**
+ * DESIGN
+ * ------
+ * LeatherArmorMeta is the ItemMeta for dyeable items: leather armor,
+ * leather horse armor and wolf armor.
+ *
+ * COLOR:
+ * Every piece has a color. Undyed pieces use the default leather brown
+ * (#A06540); getColor() returns it even when nothing was set. Dyeing in
+ * a crafting grid mixes colors; setColor() sets any exact RGB.
+ *
+ *   setLeatherColor(meta, "#FF0000")   // hex string
+ *   setLeatherColor(meta, 0x00FF00)    // RGB integer
+ *   setLeatherColor(meta, Color.BLUE)  // Bukkit color
+ *
+ * The color can be hidden from the tooltip with ItemFlag.HIDE_DYE.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/LeatherArmorMeta.html
+ */
+
+import { BukkitColor } from "../enums/colorType";
+import { BukkitItemMeta } from "./itemstack";
+
+
+// ============================================
+// LEATHER ARMOR META INTERFACE
+// ============================================
+
+export interface BukkitLeatherArmorMeta extends BukkitItemMeta {
+
+  /**
+   * Get the color of the armor.
+   *
+   * @returns The color (default leather color if undyed)
+   */
+  getColor(): BukkitColor;
+
+  /**
+   * Set the color of the armor.
+   *
+   * @param color Color, or null for the default leather color
+   */
+  setColor(color: BukkitColor | null): void;
+
+  /**
+   * Check if a color was set (Paper).
+   */
+  isDyed(): boolean;
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitLeatherArmorMeta;
+}
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A color as a Bukkit color, an RGB integer or a "#RRGGBB" string.
+ */
+export type LeatherColor = BukkitColor | number | string;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * RGB of undyed leather.
+ */
+export const DEFAULT_LEATHER_RGB = 0xa06540;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Convert a LeatherColor to a Bukkit color.
+ *
+ * @throws Error for a malformed hex string
+ */
+export function toBukkitColor(color: LeatherColor): BukkitColor {
+  if (typeof color === "number") {
+    return org.bukkit.Color.fromRGB(color & 0xffffff);
+  }
+  if (typeof color === "string") {
+    const match = /^#?([0-9a-f]{6})$/i.exec(color);
+    if (match === null) {
+      throw new Error(`Invalid hex color "${color}" (expected #RRGGBB)`);
+    }
+    return org.bukkit.Color.fromRGB(parseInt(match[1], 16));
+  }
+  return color;
+}
+
+/**
+ * Set the armor color.
+ *
+ * @example
+ * setLeatherColor(meta, "#3C44AA");
+ */
+export function setLeatherColor(meta: BukkitLeatherArmorMeta, color: LeatherColor): void {
+  meta.setColor(toBukkitColor(color));
+}
+
+/**
+ * Reset the armor to the default leather color.
+ */
+export function resetLeatherColor(meta: BukkitLeatherArmorMeta): void {
+  meta.setColor(null);
+}
+
+/**
+ * Get the armor color as "#RRGGBB".
+ */
+export function getLeatherHex(meta: BukkitLeatherArmorMeta): string {
+  return "#" + meta.getColor().asRGB().toString(16).padStart(6, "0").toUpperCase();
+}
+
+/**
+ * Check if the armor has the default leather color.
+ */
+export function isDefaultLeatherColor(meta: BukkitLeatherArmorMeta): boolean {
+  return meta.getColor().asRGB() === DEFAULT_LEATHER_RGB;
+}
+
+/**
+ * Mix colors the way a crafting grid does (average of the components,
+ * brightened to the brightest component).
+ *
+ * @example
+ * mixLeatherColors(Color.RED, Color.BLUE); // purple
+ */
+export function mixLeatherColors(...colors: LeatherColor[]): BukkitColor {
+  if (colors.length === 0) {
+    throw new Error("mixLeatherColors needs at least one color");
+  }
+
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  let brightest = 0;
+
+  for (const color of colors.map(toBukkitColor)) {
+    red += color.getRed();
+    green += color.getGreen();
+    blue += color.getBlue();
+    brightest += Math.max(color.getRed(), color.getGreen(), color.getBlue());
+  }
+
+  const count = colors.length;
+  const avgRed = red / count;
+  const avgGreen = green / count;
+  const avgBlue = blue / count;
+  const avgMax = Math.max(avgRed, avgGreen, avgBlue);
+  const gain = avgMax === 0 ? 0 : brightest / count / avgMax;
+
+  return org.bukkit.Color.fromRGB(
+    Math.floor(avgRed * gain),
+    Math.floor(avgGreen * gain),
+    Math.floor(avgBlue * gain)
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * DESIGN
+ * ------
+ * MapMeta is the ItemMeta for FILLED_MAP items.
+ *
+ * MAP ITEM vs MAP VIEW:
+ *
+ *   FILLED_MAP item ──── map id ────→ MapView (one per id, server-wide)
+ *   ├─ scaling                        ├─ world, center X/Z
+ *   └─ color (label tint)             ├─ scale (1:1 ... 1:16)
+ *                                     ├─ tracking position / unlimited
+ *                                     └─ locked
+ *
+ * Copies of a map share the same MapView: changing the view changes
+ * every copy. The meta only holds the id and how the item looks.
+ *
+ * SCALES:
+ *
+ *   CLOSEST  1 block per pixel    128 ×  128 blocks
+ *   CLOSE    2 blocks per pixel   256 ×  256 blocks
+ *   NORMAL   4 blocks per pixel   512 ×  512 blocks
+ *   FAR      8 blocks per pixel  1024 × 1024 blocks
+ *   FARTHEST 16 blocks per pixel 2048 × 2048 blocks
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/MapMeta.html
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/map/MapView.html
+ */
+
+import { JavaEnum } from "../../java/types/enum";
+import { BukkitWorld } from "../../world/types/world";
+import { BukkitColor } from "../enums/colorType";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * All map scale names, closest first.
+ */
+export type MapScaleKey = "CLOSEST" | "CLOSE" | "NORMAL" | "FAR" | "FARTHEST";
+
+/**
+ * MapView.Scale enum instance.
+ */
+export interface BukkitMapScale extends JavaEnum<MapScaleKey> {}
+
+// ============================================
+// MAP VIEW INTERFACE
+// ============================================
+
+/**
+ * The map data behind a map id.
+ */
+export interface BukkitMapView {
+  /**
+   * Get the map id.
+   */
+  getId(): number;
+
+  /**
+   * Check if the map was created by plugins with no world data.
+   */
+  isVirtual(): boolean;
+
+  /**
+   * Get the scale.
+   */
+  getScale(): BukkitMapScale;
+
+  /**
+   * Set the scale.
+   */
+  setScale(scale: BukkitMapScale): void;
+
+  /**
+   * Get the center X block coordinate.
+   */
+  getCenterX(): number;
+
+  /**
+   * Get the center Z block coordinate.
+   */
+  getCenterZ(): number;
+
+  /**
+   * Set the center X block coordinate.
+   */
+  setCenterX(x: number): void;
+
+  /**
+   * Set the center Z block coordinate.
+   */
+  setCenterZ(z: number): void;
+
+  /**
+   * Get the world drawn.
+   *
+   * @returns The world, or null if it was unloaded
+   */
+  getWorld(): BukkitWorld | null;
+
+  /**
+   * Set the world drawn.
+   */
+  setWorld(world: BukkitWorld): void;
+
+  /**
+   * Check if the holder's position is shown.
+   */
+  isTrackingPosition(): boolean;
+
+  /**
+   * Show the holder's position.
+   */
+  setTrackingPosition(trackingPosition: boolean): void;
+
+  /**
+   * Check if positions outside the map are shown at the border.
+   */
+  isUnlimitedTracking(): boolean;
+
+  /**
+   * Show positions outside the map at the border.
+   */
+  setUnlimitedTracking(unlimited: boolean): void;
+
+  /**
+   * Check if the map is locked (no longer updated).
+   */
+  isLocked(): boolean;
+
+  /**
+   * Lock the map (as a cartography table does).
+   */
+  setLocked(locked: boolean): void;
+}
+
+// ============================================
+// MAP META INTERFACE
+// ============================================
+
+export interface BukkitMapMeta extends BukkitItemMeta {
+
+  // ==========================================
+  // MAP VIEW
+  // ==========================================
+
+  /**
+   * Check if the item has a map id.
+   */
+  hasMapId(): boolean;
+
+  /**
+   * Get the map id.
+   *
+   * NOTE: Check hasMapId() first.
+   */
+  getMapId(): number;
+
+  /**
+   * Check if the item is linked to a map view.
+   */
+  hasMapView(): boolean;
+
+  /**
+   * Get the map view.
+   *
+   * @returns The view, or null if none
+   */
+  getMapView(): BukkitMapView | null;
+
+  /**
+   * Link the item to a map view.
+   */
+  setMapView(map: BukkitMapView | null): void;
+
+  // ==========================================
+  // APPEARANCE
+  // ==========================================
+
+  /**
+   * Check if the map is scaling (zoomed out in a cartography table).
+   */
+  isScaling(): boolean;
+
+  /**
+   * Set if the map is scaling.
+   */
+  setScaling(value: boolean): void;
+
+  /**
+   * Check if the map has a color.
+   */
+  hasColor(): boolean;
+
+  /**
+   * Get the color of the map label.
+   */
+  getColor(): BukkitColor | null;
+
+  /**
+   * Set the color of the map label.
+   */
+  setColor(color: BukkitColor | null): void;
+
+  // ==========================================
+  // CLONE
+  // ==========================================
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitMapMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Pixels on each side of a map.
+ */
+export const MAP_SIZE = 128;
+
+/**
+ * Blocks per pixel of each scale.
+ */
+export const BLOCKS_PER_PIXEL: { readonly [scale in MapScaleKey]: number } = {
+  CLOSEST: 1,
+  CLOSE: 2,
+  NORMAL: 4,
+  FAR: 8,
+  FARTHEST: 16,
+};
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Access to MapView.Scale constants.
+ */
+export function getMapScale(key: MapScaleKey): BukkitMapScale {
+  return org.bukkit.map.MapView.Scale[key];
+}
+
+/**
+ * Get the width (and depth) in blocks a map view covers.
+ */
+export function getCoveredBlocks(view: BukkitMapView): number {
+  return MAP_SIZE * BLOCKS_PER_PIXEL[view.getScale().name()];
+}
+
+/**
+ * Check if a block position is drawn on a map view.
+ */
+export function isOnMap(view: BukkitMapView, x: number, z: number): boolean {
+  const half = getCoveredBlocks(view) / 2;
+  return Math.abs(x - view.getCenterX()) < half && Math.abs(z - view.getCenterZ()) < half;
+}
+
+/**
+ * Get the map view of an id.
+ *
+ * @returns The view, or null if the id doesn't exist
+ */
+export function getMapView(id: number): BukkitMapView | null {
+  return org.bukkit.Bukkit.getMap(id);
+}
+
+/**
+ * Create a new map view and a FILLED_MAP item showing it.
+ *
+ * @example
+ * const map = createMap(world, 0, 0, "FAR");
+ */
+export function createMap(
+  world: BukkitWorld,
+  centerX: number,
+  centerZ: number,
+  scale: MapScaleKey = "NORMAL"
+): BukkitItemStack {
+  const view: BukkitMapView = org.bukkit.Bukkit.createMap(world);
+  view.setCenterX(Math.floor(centerX));
+  view.setCenterZ(Math.floor(centerZ));
+  view.setScale(getMapScale(scale));
+  view.setTrackingPosition(true);
+
+  return createMapItem(view);
+}
+
+/**
+ * Create a FILLED_MAP item showing an existing map view.
+ */
+export function createMapItem(view: BukkitMapView): BukkitItemStack {
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.FILLED_MAP, 1);
+  const meta = stack.getItemMeta() as BukkitMapMeta;
+  meta.setMapView(view);
+  stack.setItemMeta(meta);
+  return stack;
+}
+
+/**
+ * Describe map in human-readable format.
+ *
+ * @example
+ * describeMap(meta);
+ * // "Map #12 of world at 0, 0 (NORMAL)"
+ */
+export function describeMap(meta: BukkitMapMeta): string {
+  const view = meta.getMapView();
+  if (view === null) {
+    return "Blank map";
+  }
+  const world = view.getWorld()?.getName() ?? "an unloaded world";
+  return `Map #${view.getId()} of ${world} at ${view.getCenterX()}, ${view.getCenterZ()} (${view.getScale().name()})`;
+}
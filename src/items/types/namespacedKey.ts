@@ -66,6 +66,20 @@ export function createPluginKey(plugin: any, key: string): BukkitNamespacedKey {
   return new org.bukkit.NamespacedKey(plugin, key);
 }
 
+/**
+ * Accept a key or a plain string, which becomes a key in this plugin's namespace.
+ * 
+ * @param key - A NamespacedKey, or the key part of one in the plugin's namespace
+ * @returns The key as given, or a new NamespacedKey with the plugin's namespace
+ * 
+ * @example
+ * toPluginKey("coins");                    // "myplugin:coins"
+ * toPluginKey(minecraftKey("diamond"));    // unchanged
+ */
+export function toPluginKey(key: BukkitNamespacedKey | string): BukkitNamespacedKey {
+  return typeof key === "string" ? createPluginKey(PaperTS.getJavaPlugin(), key) : key;
+}
+
 /**
  * Get a key in the Minecraft namespace.
  * 
@@ -0,0 +1,296 @@
+/**
+ * DESIGN
+ * ------
+ * PotionMeta is the ItemMeta for POTION, SPLASH_POTION, LINGERING_POTION
+ * and TIPPED_ARROW items.
+ *
+ * POTION ANATOMY:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  Potion of Swiftness                    │
+ *   │                                         │
+ *   │  Base type: SWIFTNESS                   │
+ *   │  └─ Speed I (3:00)         ← brewing    │
+ *   │                                         │
+ *   │  Custom effects[]                       │
+ *   │  ├─ Jump Boost II (0:30)   ← plugins    │
+ *   │  └─ Night Vision (1:00)                 │
+ *   │                                         │
+ *   │  Color: #33EBFF (optional override)     │
+ *   └─────────────────────────────────────────┘
+ *
+ * Drinking applies the base type's effects AND the custom effects. A
+ * potion with only custom effects uses base type null (or WATER) and
+ * should set a color: without one the bottle shows the color of its
+ * effects mixed together.
+ *
+ * SPLASH / LINGERING / ARROWS:
+ * The same meta; the material decides how it is used. Lingering clouds
+ * and tipped arrows apply shorter durations (1/4 and 1/8).
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/PotionMeta.html
+ */
+
+import { JavaList } from "../../java/types/list";
+import { BukkitColor } from "../enums/colorType";
+import { BukkitMaterial } from "../enums/materialType";
+import { BukkitPotionEffectType } from "../enums/potionEffectType";
+import { BukkitPotionType } from "../enums/potionType";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+import { BukkitPotionEffect } from "./potionEffect";
+
+
+// ============================================
+// POTION META INTERFACE
+// ============================================
+
+export interface BukkitPotionMeta extends BukkitItemMeta {
+
+  // ==========================================
+  // BASE TYPE
+  // ==========================================
+
+  /**
+   * Get the base potion type.
+   *
+   * @returns The base type, or null if none
+   */
+  getBasePotionType(): BukkitPotionType | null;
+
+  /**
+   * Set the base potion type.
+   *
+   * @param type Base type, or null to remove it
+   */
+  setBasePotionType(type: BukkitPotionType | null): void;
+
+  /**
+   * Check if a base potion type is set.
+   */
+  hasBasePotionType(): boolean;
+
+  // ==========================================
+  // CUSTOM EFFECTS
+  // ==========================================
+
+  /**
+   * Check if there are custom effects.
+   */
+  hasCustomEffects(): boolean;
+
+  /**
+   * Get the custom effects (not the base type's effects).
+   *
+   * @returns Immutable list of effects
+   */
+  getCustomEffects(): JavaList<BukkitPotionEffect>;
+
+  /**
+   * Add a custom effect.
+   *
+   * @param effect Effect to add
+   * @param overwrite Replace an existing effect of the same type
+   * @returns True if the meta changed
+   */
+  addCustomEffect(effect: BukkitPotionEffect, overwrite: boolean): boolean;
+
+  /**
+   * Remove the custom effect of a type.
+   *
+   * @returns True if the meta changed
+   */
+  removeCustomEffect(type: BukkitPotionEffectType): boolean;
+
+  /**
+   * Check if there is a custom effect of a type.
+   */
+  hasCustomEffect(type: BukkitPotionEffectType): boolean;
+
+  /**
+   * Remove all custom effects.
+   *
+   * @returns True if the meta changed
+   */
+  clearCustomEffects(): boolean;
+
+  // ==========================================
+  // COLOR
+  // ==========================================
+
+  /**
+   * Check if a custom color is set.
+   */
+  hasColor(): boolean;
+
+  /**
+   * Get the custom color.
+   *
+   * @returns The color, or null if the effects decide it
+   */
+  getColor(): BukkitColor | null;
+
+  /**
+   * Set the custom color.
+   *
+   * @param color Color, or null to use the effects' color
+   */
+  setColor(color: BukkitColor | null): void;
+
+  // ==========================================
+  // CLONE
+  // ==========================================
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitPotionMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Materials that carry PotionMeta.
+ */
+export const POTION_MATERIALS = ["POTION", "SPLASH_POTION", "LINGERING_POTION", "TIPPED_ARROW"] as const;
+
+/**
+ * Duration multiplier of effects applied by lingering clouds.
+ */
+export const LINGERING_DURATION_FACTOR = 0.25;
+
+/**
+ * Duration multiplier of effects applied by tipped arrows.
+ */
+export const ARROW_DURATION_FACTOR = 0.125;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Check if a material carries PotionMeta.
+ */
+export function isPotionMaterial(material: BukkitMaterial): boolean {
+  return (POTION_MATERIALS as readonly string[]).includes(material.name());
+}
+
+/**
+ * Get custom effects as array.
+ */
+export function getCustomEffectsArray(meta: BukkitPotionMeta): BukkitPotionEffect[] {
+  const effects = meta.getCustomEffects();
+  const result: BukkitPotionEffect[] = [];
+
+  for (let i = 0; i < effects.size(); i++) {
+    result.push(effects.get(i));
+  }
+
+  return result;
+}
+
+/**
+ * Get every effect the potion applies: the base type's, then the custom ones.
+ */
+export function getAllEffects(meta: BukkitPotionMeta): BukkitPotionEffect[] {
+  const result: BukkitPotionEffect[] = [];
+  const base = meta.getBasePotionType();
+
+  if (base !== null) {
+    const effects = base.getPotionEffects();
+    for (let i = 0; i < effects.size(); i++) {
+      result.push(effects.get(i));
+    }
+  }
+
+  return result.concat(getCustomEffectsArray(meta));
+}
+
+/**
+ * Add a custom effect, replacing any effect of the same type.
+ *
+ * @param seconds Duration in seconds
+ * @param amplifier 0 = level I, 1 = level II...
+ *
+ * @example
+ * addEffect(meta, PotionEffectType.SPEED, 30, 1); // Speed II, 0:30
+ */
+export function addEffect(
+  meta: BukkitPotionMeta,
+  type: BukkitPotionEffectType,
+  seconds: number,
+  amplifier: number = 0
+): void {
+  meta.addCustomEffect(type.createEffect(Math.round(seconds * 20), amplifier), true);
+}
+
+/**
+ * Replace all custom effects with new ones.
+ */
+export function setCustomEffects(meta: BukkitPotionMeta, effects: BukkitPotionEffect[]): void {
+  meta.clearCustomEffects();
+  for (const effect of effects) {
+    meta.addCustomEffect(effect, true);
+  }
+}
+
+/**
+ * Set the bottle color from RGB components.
+ */
+export function setPotionColor(meta: BukkitPotionMeta, red: number, green: number, blue: number): void {
+  meta.setColor(org.bukkit.Color.fromRGB(red, green, blue));
+}
+
+/**
+ * Check if the potion has no effects at all (water, awkward, mundane...).
+ */
+export function isEffectless(meta: BukkitPotionMeta): boolean {
+  return getAllEffects(meta).length === 0;
+}
+
+/**
+ * Create a potion item.
+ *
+ * @param material POTION, SPLASH_POTION, LINGERING_POTION or TIPPED_ARROW
+ *
+ * @example
+ * const brew = createPotion(Material.SPLASH_POTION, PotionType.STRONG_HEALING);
+ */
+export function createPotion(
+  material: BukkitMaterial,
+  type: BukkitPotionType | null,
+  effects: BukkitPotionEffect[] = [],
+  amount: number = 1
+): BukkitItemStack {
+  if (!isPotionMaterial(material)) {
+    throw new Error(`${material.name()} is not a potion material`);
+  }
+
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(material, amount);
+  const meta = stack.getItemMeta() as BukkitPotionMeta;
+  meta.setBasePotionType(type);
+  setCustomEffects(meta, effects);
+  stack.setItemMeta(meta);
+  return stack;
+}
+
+/**
+ * Describe potion in human-readable format.
+ *
+ * @example
+ * describePotion(meta);
+ * // "SWIFTNESS potion with 2 custom effects (JUMP_BOOST, NIGHT_VISION)"
+ */
+export function describePotion(meta: BukkitPotionMeta): string {
+  const base = meta.getBasePotionType();
+  const parts: string[] = [base !== null ? `${base.name()} potion` : "Potion"];
+  const custom = getCustomEffectsArray(meta);
+
+  if (custom.length > 0) {
+    const types = custom.map(effect => effect.getType().getKey().getKey().toUpperCase()).join(", ");
+    parts.push(`with ${custom.length} custom effect${custom.length !== 1 ? "s" : ""} (${types})`);
+  }
+
+  return parts.join(" ");
+}
@@ -0,0 +1,225 @@
+/**
+ * DESIGN
+ * ------
+ * SkullMeta is the ItemMeta for PLAYER_HEAD items.
+ *
+ * WHAT A HEAD SHOWS:
+ *
+ *   ┌─────────────────────────────────────────┐
+ *   │  PLAYER_HEAD                            │
+ *   │                                         │
+ *   │  Owner profile                          │
+ *   │  ├─ id / name  → a real player's skin   │
+ *   │  └─ textures                            │
+ *   │     └─ skin URL (textures.minecraft.net)│
+ *   └─────────────────────────────────────────┘
+ *
+ * A head of a real player only needs the owner: the server fills in the
+ * skin. Decorative heads (from head databases) only have a texture,
+ * given either as a skin URL or as the Base64 "textures" value:
+ *
+ *   eyJ0ZXh0dXJlcyI6eyJTS0lOIjp7InVybCI6Imh0dHA6Ly90ZXh0dXJlcy5taW5lY3...
+ *     = {"textures":{"SKIN":{"url":"http://textures.minecraft.net/texture/<hash>"}}}
+ *
+ * setSkullTexture() accepts all three forms (URL, Base64, bare hash).
+ *
+ * WHY A STABLE PROFILE ID: Heads only stack when their profiles are equal.
+ * Textured heads get an id derived from the skin URL, so two heads made
+ * with the same texture stack together.
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/inventory/meta/SkullMeta.html
+ */
+
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { BukkitPlayerProfile, createPlayerProfile } from "../../entities/types/playerProfile";
+import { JavaUUID } from "../../java/types/uuid";
+import { BukkitItemMeta, BukkitItemStack } from "./itemstack";
+
+
+// ============================================
+// SKULL META INTERFACE
+// ============================================
+
+export interface BukkitSkullMeta extends BukkitItemMeta {
+
+  // ==========================================
+  // OWNER
+  // ==========================================
+
+  /**
+   * Check if the head has an owner (player or profile).
+   */
+  hasOwner(): boolean;
+
+  /**
+   * Get the owning player.
+   *
+   * @returns The owner (an OfflinePlayer), or null if none
+   */
+  getOwningPlayer(): { getUniqueId(): JavaUUID; getName(): string | null } | null;
+
+  /**
+   * Set the owning player. The skin is looked up by the server.
+   *
+   * @param owner Owner (any OfflinePlayer)
+   * @returns True if the owner was set
+   */
+  setOwningPlayer(owner: BukkitPlayer | { getUniqueId(): JavaUUID }): boolean;
+
+  // ==========================================
+  // PROFILE
+  // ==========================================
+
+  /**
+   * Get the owner profile.
+   *
+   * @returns The profile, or null if none
+   */
+  getOwnerProfile(): BukkitPlayerProfile | null;
+
+  /**
+   * Set the owner profile (owner and textures).
+   *
+   * @param profile Profile, or null to remove the owner
+   */
+  setOwnerProfile(profile: BukkitPlayerProfile | null): void;
+
+  // ==========================================
+  // CLONE
+  // ==========================================
+
+  /**
+   * Clone this meta.
+   */
+  clone(): BukkitSkullMeta;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Host serving skin textures. Clients ignore skins from other hosts.
+ */
+export const TEXTURE_URL_PREFIX = "http://textures.minecraft.net/texture/";
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Skin URL from a URL, a Base64 "textures" value or a bare texture hash.
+ */
+function toSkinUrl(texture: string): string {
+  if (texture.startsWith("http://") || texture.startsWith("https://")) {
+    return texture;
+  }
+  if (/^[0-9a-f]{32,}$/i.test(texture)) {
+    return TEXTURE_URL_PREFIX + texture;
+  }
+
+  const bytes = java.util.Base64.getDecoder().decode(texture);
+  const json = JSON.parse(String(new java.lang.String(bytes, "UTF-8")));
+  const url = json?.textures?.SKIN?.url;
+  if (typeof url !== "string") {
+    throw new Error("The texture value has no skin URL");
+  }
+  return url;
+}
+
+/**
+ * Version-3 style UUID derived from a string (two FNV-1a hashes per half).
+ */
+function stableProfileId(seed: string): JavaUUID {
+  const hex: string[] = [];
+  for (let round = 0; round < 4; round++) {
+    let hash = 0x811c9dc5 ^ round;
+    for (let i = 0; i < seed.length; i++) {
+      hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+    }
+    hex.push((hash >>> 0).toString(16).padStart(8, "0"));
+  }
+
+  const id = hex.join("");
+  return java.util.UUID.fromString(
+    `${id.slice(0, 8)}-${id.slice(8, 12)}-3${id.slice(13, 16)}-a${id.slice(17, 20)}-${id.slice(20, 32)}`
+  );
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Set the head's skin from a texture.
+ *
+ * @param texture Skin URL, Base64 "textures" value or texture hash
+ *
+ * @example
+ * setSkullTexture(meta, "eyJ0ZXh0dXJlcyI6...");
+ */
+export function setSkullTexture(meta: BukkitSkullMeta, texture: string): void {
+  const url = toSkinUrl(texture);
+  const profile = createPlayerProfile(stableProfileId(url), null);
+  const textures = profile.getTextures();
+  textures.setSkin(new java.net.URL(url));
+  profile.setTextures(textures);
+  meta.setOwnerProfile(profile);
+}
+
+/**
+ * Get the skin URL of the head.
+ *
+ * @returns The URL, or null if the head has no textures (yet)
+ */
+export function getSkullTexture(meta: BukkitSkullMeta): string | null {
+  const profile = meta.getOwnerProfile();
+  if (profile === null) {
+    return null;
+  }
+  const skin = profile.getTextures().getSkin();
+  return skin === null ? null : skin.toString();
+}
+
+/**
+ * Get the owner's name.
+ *
+ * @returns The name, or null for textured heads and heads without owner
+ */
+export function getSkullOwnerName(meta: BukkitSkullMeta): string | null {
+  return meta.getOwnerProfile()?.getName() ?? null;
+}
+
+/**
+ * Check if the head has a texture but no real owner (decorative head).
+ */
+export function isTexturedHead(meta: BukkitSkullMeta): boolean {
+  return getSkullTexture(meta) !== null && getSkullOwnerName(meta) === null;
+}
+
+/**
+ * Create the head of a player.
+ *
+ * @example
+ * inventory.addItem(createPlayerHead(player));
+ */
+export function createPlayerHead(owner: BukkitPlayer, amount: number = 1): BukkitItemStack {
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.PLAYER_HEAD, amount);
+  const meta = stack.getItemMeta() as BukkitSkullMeta;
+  meta.setOwningPlayer(owner);
+  stack.setItemMeta(meta);
+  return stack;
+}
+
+/**
+ * Create a decorative head from a texture.
+ *
+ * @param texture Skin URL, Base64 "textures" value or texture hash
+ */
+export function createTexturedHead(texture: string, amount: number = 1): BukkitItemStack {
+  const stack: BukkitItemStack = new org.bukkit.inventory.ItemStack(org.bukkit.Material.PLAYER_HEAD, amount);
+  const meta = stack.getItemMeta() as BukkitSkullMeta;
+  setSkullTexture(meta, texture);
+  stack.setItemMeta(meta);
+  return stack;
+}
@@ -0,0 +1,210 @@
+/**
+ * DESIGN
+ * ------
+ * Java CompletableFuture - a value that will be available later.
+ *
+ * Paper returns futures for anything that may need disk or network I/O:
+ * cookies, async chunk loading, async teleports. The work happens off the
+ * main thread, and the future completes whenever it's done.
+ *
+ * FUTURE vs PROMISE:
+ *
+ *   ┌──────────────────────────┐        ┌──────────────────────────┐
+ *   │   CompletableFuture<T>   │        │        Promise<T>        │
+ *   │   (Java)                 │ ─────→ │        (JavaScript)      │
+ *   │                          │        │                          │
+ *   │  completes on ANY thread │        │  resumes on MAIN thread  │
+ *   │  whenComplete(cb)        │        │  await / then()          │
+ *   └──────────────────────────┘        └──────────────────────────┘
+ *
+ * WHY NOT CALL whenComplete() DIRECTLY:
+ * The callback runs on whichever thread completed the future - usually a
+ * Netty or chunk worker thread. Calling the Bukkit API from there is
+ * unsafe. toPromise() hops back onto the main thread before resuming, so
+ * code after `await` can touch the world like any event handler.
+ *
+ *   const chunk = await toPromise(world.getChunkAtAsync(x, z));
+ *   chunk.getBlock(0, 64, 0).setType(Material.GOLD_BLOCK);  // safe
+ *
+ * WHY NOT join()/get():
+ * They block the calling thread until the future completes. On the main
+ * thread that freezes the whole server (and can deadlock if the future
+ * itself waits for the main thread).
+ *
+ * @see https://docs.oracle.com/en/java/javase/17/docs/api/java.base/java/util/concurrent/CompletableFuture.html
+ */
+
+import { runTask } from "../../scheduler/types/scheduler";
+
+// ============================================
+// INTERFACE
+// ============================================
+
+export interface JavaCompletableFuture<T> {
+  /**
+   * True if completed in any fashion: normally, exceptionally, or by cancellation.
+   */
+  isDone(): boolean;
+
+  /**
+   * True if this future was cancelled before it completed normally.
+   */
+  isCancelled(): boolean;
+
+  /**
+   * True if this future completed exceptionally, in any way.
+   */
+  isCompletedExceptionally(): boolean;
+
+  /**
+   * Returns the result value if completed, else the given value.
+   * Never blocks.
+   */
+  getNow(valueIfAbsent: T): T;
+
+  /**
+   * Waits for completion and returns the result.
+   *
+   * WARNING: Blocks the calling thread. Never call on the main thread;
+   * use toPromise() instead.
+   */
+  join(): T;
+
+  /**
+   * Waits for completion and returns the result.
+   *
+   * WARNING: Blocks the calling thread, like join().
+   */
+  get(): T;
+
+  /**
+   * Completes with the given value, if not already completed.
+   * @returns true if this call transitioned the future to completed
+   */
+  complete(value: T): boolean;
+
+  /**
+   * Completes with the given exception, if not already completed.
+   * @returns true if this call transitioned the future to completed
+   */
+  completeExceptionally(ex: JavaThrowable): boolean;
+
+  /**
+   * Cancels the future, if not already completed.
+   * @param mayInterruptIfRunning Ignored by CompletableFuture
+   */
+  cancel(mayInterruptIfRunning: boolean): boolean;
+
+  /**
+   * Runs an action when the future completes, with either the result
+   * or the exception (the other one is null).
+   *
+   * NOTE: The action runs on the completing thread, not the main thread.
+   */
+  whenComplete(action: (value: T | null, error: JavaThrowable | null) => void): JavaCompletableFuture<T>;
+
+  /**
+   * Returns a new future completed with the result of fn applied to this
+   * future's result.
+   */
+  thenApply<U>(fn: (value: T) => U): JavaCompletableFuture<U>;
+
+  /**
+   * Runs an action with the result, once completed normally.
+   */
+  thenAccept(action: (value: T) => void): JavaCompletableFuture<void>;
+
+  /**
+   * Returns a new future that recovers from an exception with fn's result.
+   */
+  exceptionally(fn: (error: JavaThrowable) => T): JavaCompletableFuture<T>;
+}
+
+/**
+ * A Java exception or error (only what we need to report it).
+ */
+export interface JavaThrowable {
+  getMessage(): string | null;
+  getCause(): JavaThrowable | null;
+  getClass(): { getName(): string };
+  toString(): string;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Turn a Java exception into a JS Error.
+ *
+ * CompletionException/ExecutionException only wrap the real failure,
+ * so they are unwrapped to keep the message useful.
+ */
+function toError(throwable: JavaThrowable): Error {
+  let cause = throwable;
+  while (cause.getCause() !== null) {
+    const name = cause.getClass().getName();
+    if (name !== "java.util.concurrent.CompletionException" &&
+        name !== "java.util.concurrent.ExecutionException") {
+      break;
+    }
+    cause = cause.getCause()!;
+  }
+
+  return new Error(cause.getMessage() ?? cause.toString(), { cause });
+}
+
+/**
+ * Await a Java future from JavaScript.
+ *
+ * The returned promise settles on the main server thread, one tick after
+ * the future completes, so the code after `await` may use the Bukkit API.
+ *
+ * @param future Future returned by a Java/Paper method
+ * @returns Promise resolving with the future's value, or rejecting with
+ *          the (unwrapped) Java exception
+ *
+ * @example
+ * const data = await toPromise(player.retrieveCookie(key));
+ *
+ * @example
+ * const arrived = await toPromise(player.teleportAsync(spawn));
+ * if (arrived) player.sendMessage("Welcome!");
+ */
+export function toPromise<T>(future: JavaCompletableFuture<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    future.whenComplete((value, error) => {
+      runTask(() => {
+        if (error !== null) {
+          reject(toError(error));
+        } else {
+          resolve(value as T);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Create an already completed future.
+ *
+ * Useful to implement Java APIs that expect a future when the value is
+ * known right away.
+ *
+ * @example
+ * const future = completedFuture("ready");
+ */
+export function completedFuture<T>(value: T): JavaCompletableFuture<T> {
+  return Java.callStatic("java.util.concurrent.CompletableFuture", "completedFuture", value);
+}
+
+/**
+ * Check if an object is a CompletableFuture.
+ */
+export function isCompletableFuture(obj: any): obj is JavaCompletableFuture<unknown> {
+  return obj !== null &&
+         typeof obj === "object" &&
+         typeof obj.whenComplete === "function" &&
+         typeof obj.isDone === "function" &&
+         typeof obj.getNow === "function";
+}
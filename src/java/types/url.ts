@@ -0,0 +1,38 @@
+/**
+ * Represents a Uniform Resource Locator, a pointer to a "resource" on the World Wide Web.
+ *
+ * Create one with `new java.net.URL("https://...")` (or URI.create(...).toURL()).
+ *
+ * @see https://docs.oracle.com/en/java/javase/21/docs/api/java.base/java/net/URL.html
+ */
+
+export interface JavaURL {
+  /**
+   * Gets the protocol name of this URL.
+   * @returns The protocol ("http", "https"...)
+   */
+  getProtocol(): string;
+
+  /**
+   * Gets the host name of this URL.
+   * @returns The host name
+   */
+  getHost(): string;
+
+  /**
+   * Gets the path part of this URL.
+   * @returns The path, or "" if there is none
+   */
+  getPath(): string;
+
+  /**
+   * Constructs a string representation of this URL.
+   * @returns The full URL
+   */
+  toExternalForm(): string;
+
+  /**
+   * Same as toExternalForm().
+   */
+  toString(): string;
+}
@@ -1,18 +1,23 @@
 import type { JavaEnum } from "../types/enum";
 
 /**
- * Creates a typed enum accessor with caching.
+ * Enum accessor returned by createEnum().
  */
-export function createEnum<K extends string, T extends JavaEnum<K>>(
-  className: string
-): Record<K, T> & {
+type EnumAccessor<K extends string, T> = Record<K, T> & {
   values(): T[];
   valueOf(name: K): T;
   className: string;
-} {
+};
+
+/**
+ * Creates a typed enum accessor with caching.
+ */
+export function createEnum<K extends string, T extends JavaEnum<K>>(
+  className: string
+): EnumAccessor<K, T> {
   const cache = new Map<string, T>();
 
-  return new Proxy({} as any, {
+  return new Proxy({} as EnumAccessor<K, T>, {
     get(_, prop: string) {
       if (prop === "values") {
         return () => Java.enumValues<T>(className);
@@ -45,4 +50,46 @@ export function createEnum<K extends string, T extends JavaEnum<K>>(
       }
     },
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Constant type of an enum-like registry (excludes values()/valueOf()).
+ */
+export type EnumRegistryValue<R> = Exclude<R[keyof R], (...args: any[]) => any>;
+
+/**
+ * Get the constant names of an enum-like registry.
+ *
+ * WHY TWO STRATEGIES: The framework has two kinds of enum registries:
+ *
+ *   - Plain objects (Material, GameMode in gamemodeType.ts): own keys are
+ *     the constants, plus values()/valueOf() functions to skip.
+ *   - createEnum() proxies (GameMode in java/enums.ts): no own keys at all,
+ *     Object.keys() returns [] - only values() knows the constants.
+ */
+export function enumKeys(registry: object): string[] {
+  const entries = registry as Record<string, unknown>;
+  const values = entries.values;
+  if (typeof values === "function" && Object.keys(registry).length === 0) {
+    return Array.from(values.call(registry) as Iterable<JavaEnum<string>>, value => value.name());
+  }
+  return Object.keys(registry).filter(key => typeof entries[key] !== "function");
+}
+
+/**
+ * Look up a constant of an enum-like registry by its exact name.
+ *
+ * Only UPPER_SNAKE_CASE names are looked up, so user input can't reach
+ * values(), valueOf() or other properties of the registry.
+ *
+ * @returns The constant, or undefined if the registry has none by that name
+ *
+ * @example
+ * enumConstant(Material, "DIAMOND");  // Material.DIAMOND
+ * enumConstant(Material, "values");   // undefined
+ */
+export function enumConstant<R extends object>(registry: R, name: string): EnumRegistryValue<R> | undefined {
+  const constant = /^[A-Z0-9_]+$/.test(name) ? (registry as Record<string, unknown>)[name] : undefined;
+  if (constant === undefined || constant === null || typeof constant === "function") return undefined;
+  return constant as EnumRegistryValue<R>;
+}
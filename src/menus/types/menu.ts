@@ -0,0 +1,482 @@
+/**
+ * DESIGN
+ * ------
+ * Chest GUIs with click handlers: shops, settings screens, selectors.
+ *
+ * A Menu is a template (title, rows, buttons). Opening it for a player
+ * creates a MenuView: that player's own inventory, with buttons that
+ * may depend on the player:
+ *
+ *   const kits = createMenu({
+ *     title: "Kits",
+ *     rows: 3,
+ *     render(view) {
+ *       view.button(13, kitIcon(view.player), click => giveKit(click.player));
+ *     },
+ *   }).border(glassPane);
+ *
+ *   kits.open(player);
+ *
+ *   ┌─────────────────────────────┐   border()        same for everyone
+ *   │ ▒ ▒ ▒ ▒ ▒ ▒ ▒ ▒ ▒           │   button()        same for everyone
+ *   │ ▒       [kit]       ▒       │   render(view)    per player, redone
+ *   │ ▒ ▒ ▒ ▒ ▒ ▒ ▒ ▒ ▒           │                   on every refresh()
+ *   └─────────────────────────────┘   fill()          whatever is left empty
+ *
+ * CLICKS:
+ * Every click in the menu is cancelled: items can't be taken out, put
+ * in, shift-clicked in or dragged across. The button's handler gets the
+ * ClickType (left, right, shift, number key...). Clicks in the player's
+ * own inventory are cancelled too, unless allowPlayerInventory is set
+ * (shift-clicks and double-clicks, which would move items into the
+ * menu, stay cancelled).
+ *
+ * WHY OPEN/CLOSE IS DEFERRED INSIDE HANDLERS: Bukkit must not open or
+ * close inventories while it is still handling a click in one. From a
+ * click handler, view.close() and menu.open() run on the next tick.
+ *
+ * LIVE ITEMS:
+ * view.refresh() (or menu.refreshAll()) redraws the menu; refreshTicks
+ * redraws it on a timer, for clocks, cooldowns, player counts.
+ *
+ * CLEANUP:
+ * A view ends when its inventory closes for any reason (player, another
+ * inventory, quit, death): its timer stops and onClose runs. The event
+ * listeners exist only while at least one menu is open. Open menus are
+ * closed when the plugin is disabled.
+ */
+
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { HandlerList } from "../../events/types/handlerList";
+import { BukkitClickType, isLeftClick, isRightClick, isShiftClick } from "../../events/types/inventory/enum/clickType";
+import { EventInventoryCloseEvent, InventoryCloseEvent } from "../../events/types/inventory/inventoryCloseEvent";
+import { EventInventoryDragEvent, InventoryDragEvent } from "../../events/types/inventory/inventoryDragEvent";
+import { EventInventoryClickEvent, InventoryClickEvent } from "../../events/types/inventory/inventoryInteractEvent";
+import { BukkitInventory } from "../../inventories/type/inventory";
+import { BukkitItemStack } from "../../items/types/itemstack";
+import { runTask, runTimer, Task } from "../../scheduler/types/scheduler";
+import { TextLike, toLegacy } from "../../text/types/textComponent";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A click on a menu slot.
+ */
+export interface MenuClick {
+  readonly player: BukkitPlayer;
+
+  /** Clicked slot of the menu (0 = top left) */
+  readonly slot: number;
+
+  /** What the player did (LEFT, SHIFT_RIGHT, NUMBER_KEY, ...) */
+  readonly click: BukkitClickType;
+
+  readonly isLeft: boolean;
+  readonly isRight: boolean;
+  readonly isShift: boolean;
+
+  /** The menu as the player sees it */
+  readonly view: MenuView;
+
+  /** The underlying event (already cancelled) */
+  readonly event: EventInventoryClickEvent;
+}
+
+export type MenuClickHandler = (click: MenuClick) => void;
+
+/**
+ * An item, or a function giving the item for a player (evaluated on
+ * every refresh). null leaves the slot empty.
+ */
+export type MenuItem = BukkitItemStack | null | ((player: BukkitPlayer) => BukkitItemStack | null);
+
+export interface MenuOptions {
+  /** Title, or a function giving it for a player */
+  title: TextLike | ((player: BukkitPlayer) => TextLike);
+
+  /** Number of rows, 1 to 6 */
+  rows: number;
+
+  /** Place per-player buttons. Runs on open and on every refresh. */
+  render?(view: MenuView): void;
+
+  /** Redraw open views every N ticks. Default 0 (only on refresh()) */
+  refreshTicks?: number;
+
+  /** Let players move items in their own inventory. Default false */
+  allowPlayerInventory?: boolean;
+
+  /** Called after the menu was shown to a player */
+  onOpen?(view: MenuView): void;
+
+  /** Called once the menu was closed, for any reason */
+  onClose?(view: MenuView): void;
+}
+
+/**
+ * A menu template, opened per player.
+ */
+export interface Menu {
+  readonly rows: number;
+
+  /** Number of slots (rows × 9) */
+  readonly size: number;
+
+  /** Place a button shown to every player (render() may replace it) */
+  button(slot: number, item: MenuItem, onClick?: MenuClickHandler): Menu;
+
+  /** Put an item in every slot left empty (no action) */
+  fill(item: MenuItem): Menu;
+
+  /** Put an item in every slot of the outer ring (no action) */
+  border(item: MenuItem): Menu;
+
+  /** Show the menu to a player */
+  open(player: BukkitPlayer): MenuView;
+
+  /** Views of this menu currently open */
+  views(): MenuView[];
+
+  /** Redraw every open view */
+  refreshAll(): void;
+
+  /** Close every open view */
+  closeAll(): void;
+}
+
+/**
+ * A menu as one player sees it.
+ */
+export interface MenuView {
+  readonly menu: Menu;
+  readonly player: BukkitPlayer;
+  readonly inventory: BukkitInventory;
+
+  /** False once the inventory was closed, or if opening it was cancelled */
+  readonly isOpen: boolean;
+
+  /** Place a button for this player, until the next refresh */
+  button(slot: number, item: MenuItem, onClick?: MenuClickHandler): MenuView;
+
+  /** Redraw: clear, then place border, buttons, render() and fill */
+  refresh(): void;
+
+  /** Close the inventory */
+  close(): void;
+}
+
+/**
+ * A placed button.
+ */
+interface Button {
+  item: MenuItem;
+  onClick?: MenuClickHandler;
+}
+
+/**
+ * View with the internals the listeners need.
+ */
+interface ViewState extends MenuView {
+  readonly handlers: Map<number, MenuClickHandler>;
+  readonly allowPlayerInventory: boolean;
+  end(): void;
+}
+
+// ============================================
+// OPEN VIEWS
+// ============================================
+
+/** Open views by player UUID */
+const openViews = new Map<string, ViewState>();
+
+/** Event listeners, while any view is open */
+let listeners: any[] | null = null;
+
+/** True while a click handler runs */
+let dispatching = false;
+
+/** True once the disable hook is registered */
+let disableHooked = false;
+
+/** Actions on the player's inventory that also move items in the menu */
+const MOVES_INTO_MENU = ["MOVE_TO_OTHER_INVENTORY", "COLLECT_TO_CURSOR"];
+
+function viewOf(player: { getUniqueId(): { toString(): string } }, top: BukkitInventory): ViewState | null {
+  const view = openViews.get(player.getUniqueId().toString());
+  return view !== undefined && view.inventory.equals(top) ? view : null;
+}
+
+/**
+ * Run now, or on the next tick if called from a click handler.
+ */
+function outsideClick(fn: () => void): void {
+  if (dispatching) runTask(() => fn());
+  else fn();
+}
+
+function handleClick(event: EventInventoryClickEvent): void {
+  const view = viewOf(event.getWhoClicked(), event.getView().getTopInventory());
+  if (view === null) return;
+
+  const rawSlot = event.getRawSlot();
+  const inMenu = rawSlot >= 0 && rawSlot < view.inventory.getSize();
+
+  if (inMenu || !view.allowPlayerInventory || MOVES_INTO_MENU.includes(event.getAction().name())) {
+    event.setCancelled(true);
+  }
+  if (!inMenu) return;
+
+  const handler = view.handlers.get(rawSlot);
+  if (handler === undefined) return;
+
+  const click = event.getClick();
+  dispatching = true;
+  try {
+    handler({
+      player: view.player,
+      slot: rawSlot,
+      click,
+      isLeft: isLeftClick(click),
+      isRight: isRightClick(click),
+      isShift: isShiftClick(click),
+      view,
+      event,
+    });
+  } finally {
+    dispatching = false;
+  }
+}
+
+function handleDrag(event: EventInventoryDragEvent): void {
+  const view = viewOf(event.getWhoClicked(), event.getView().getTopInventory());
+  if (view === null) return;
+
+  const size = view.inventory.getSize();
+  const touchesMenu = event.getRawSlots().toArray().some(slot => slot < size);
+  if (touchesMenu || !view.allowPlayerInventory) {
+    event.setCancelled(true);
+  }
+}
+
+function handleClose(event: EventInventoryCloseEvent): void {
+  viewOf(event.getPlayer(), event.getInventory())?.end();
+}
+
+function track(view: ViewState): void {
+  openViews.set(view.player.getUniqueId().toString(), view);
+
+  if (listeners === null) {
+    listeners = [
+      PaperTS.registerEvent<EventInventoryClickEvent>(InventoryClickEvent, handleClick),
+      PaperTS.registerEvent<EventInventoryDragEvent>(InventoryDragEvent, handleDrag),
+      PaperTS.registerEvent<EventInventoryCloseEvent>(InventoryCloseEvent, handleClose),
+    ];
+  }
+  if (!disableHooked) {
+    disableHooked = true;
+    PaperTS.onDisable(() => {
+      for (const open of [...openViews.values()]) {
+        open.close();
+        /* Listeners may already be gone while disabling */
+        open.end();
+      }
+      disableHooked = false;
+    });
+  }
+}
+
+function untrack(view: ViewState): void {
+  const id = view.player.getUniqueId().toString();
+  if (openViews.get(id) === view) openViews.delete(id);
+
+  if (openViews.size === 0 && listeners !== null) {
+    for (const listener of listeners) HandlerList.unregisterAll(listener);
+    listeners = null;
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Slot index of a row and column (both from 0).
+ *
+ * @example
+ * menu.button(slot(1, 4), item);  // center of a 3-row menu
+ */
+export function slot(row: number, column: number): number {
+  if (row < 0 || row > 5 || column < 0 || column > 8) {
+    throw new Error(`Invalid menu position row ${row}, column ${column} (rows 0-5, columns 0-8)`);
+  }
+  return row * 9 + column;
+}
+
+function itemFor(item: MenuItem, player: BukkitPlayer): BukkitItemStack | null {
+  return typeof item === "function" ? item(player) : item;
+}
+
+function checkSlot(slotIndex: number, size: number): void {
+  if (!Number.isInteger(slotIndex) || slotIndex < 0 || slotIndex >= size) {
+    throw new Error(`Menu slot ${slotIndex} out of range (0-${size - 1})`);
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Define a chest menu.
+ *
+ * @example
+ * const settings = createMenu({ title: "Settings", rows: 1 })
+ *   .button(4, () => toggleIcon(player), click => {
+ *     toggle(click.player);
+ *     click.view.refresh();
+ *   });
+ *
+ * settings.open(player);
+ */
+export function createMenu(options: MenuOptions): Menu {
+  const { rows } = options;
+  if (!Number.isInteger(rows) || rows < 1 || rows > 6) {
+    throw new Error(`Menu rows must be 1 to 6, got ${rows}`);
+  }
+  const size = rows * 9;
+
+  const buttons = new Map<number, Button>();
+  let filler: MenuItem = null;
+  let borderItem: MenuItem = null;
+
+  /** Views of this menu, in opening order */
+  const views = new Set<ViewState>();
+
+  function createView(player: BukkitPlayer): ViewState {
+    const title = typeof options.title === "function" ? options.title(player) : options.title;
+    const inventory: BukkitInventory = org.bukkit.Bukkit.createInventory(null, size, toLegacy(title));
+    const handlers = new Map<number, MenuClickHandler>();
+    let open = false;
+    let timer: Task | null = null;
+
+    function place(slotIndex: number, button: Button): void {
+      inventory.setItem(slotIndex, itemFor(button.item, player));
+      if (button.onClick !== undefined) handlers.set(slotIndex, button.onClick);
+      else handlers.delete(slotIndex);
+    }
+
+    const view: ViewState = {
+      menu,
+      player,
+      inventory,
+      handlers,
+      allowPlayerInventory: options.allowPlayerInventory ?? false,
+
+      get isOpen() {
+        return open;
+      },
+
+      button(slotIndex, item, onClick) {
+        checkSlot(slotIndex, size);
+        place(slotIndex, { item, onClick });
+        return view;
+      },
+
+      refresh(): void {
+        inventory.clear();
+        handlers.clear();
+
+        if (borderItem !== null) {
+          for (let i = 0; i < size; i++) {
+            const row = Math.floor(i / 9);
+            const column = i % 9;
+            if (row === 0 || row === rows - 1 || column === 0 || column === 8) {
+              inventory.setItem(i, itemFor(borderItem, player));
+            }
+          }
+        }
+        for (const [slotIndex, button] of buttons) place(slotIndex, button);
+        options.render?.(view);
+        if (filler !== null) {
+          for (let i = 0; i < size; i++) {
+            if (inventory.getItem(i) === null) inventory.setItem(i, itemFor(filler, player));
+          }
+        }
+      },
+
+      close(): void {
+        outsideClick(() => {
+          if (open) player.closeInventory();
+        });
+      },
+
+      /* Called by the close listener */
+      end(): void {
+        if (!open) return;
+        open = false;
+        timer?.cancel();
+        timer = null;
+        views.delete(view);
+        untrack(view);
+        options.onClose?.(view);
+      },
+    };
+
+    view.refresh();
+
+    const show = () => {
+      if (!player.isOnline()) return;
+      /* Opening closes the previous inventory first (and ends its view) */
+      player.openInventory(inventory);
+      /* Cancelled by an InventoryOpenEvent listener: never opened, nothing to track */
+      if (!player.getOpenInventory().getTopInventory().equals(inventory)) return;
+      open = true;
+      views.add(view);
+      track(view);
+
+      const every = options.refreshTicks ?? 0;
+      if (every > 0) timer = runTimer(every, every, () => view.refresh());
+      options.onOpen?.(view);
+    };
+    outsideClick(show);
+
+    return view;
+  }
+
+  const menu: Menu = {
+    rows,
+    size,
+
+    button(slotIndex, item, onClick) {
+      checkSlot(slotIndex, size);
+      buttons.set(slotIndex, { item, onClick });
+      return menu;
+    },
+
+    fill(item) {
+      filler = item;
+      return menu;
+    },
+
+    border(item) {
+      borderItem = item;
+      return menu;
+    },
+
+    open: createView,
+
+    views: () => [...views],
+
+    refreshAll(): void {
+      for (const view of views) view.refresh();
+    },
+
+    closeAll(): void {
+      for (const view of [...views]) view.close();
+    },
+  };
+
+  return menu;
+}
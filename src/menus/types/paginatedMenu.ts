@@ -0,0 +1,520 @@
+/**
+ * DESIGN
+ * ------
+ * Menus over more entries than fit in a chest: warps, auction listings,
+ * player lists. Give the entries and how to draw one; the menu handles
+ * the pages:
+ *
+ *   const warps = createPaginatedMenu({
+ *     title: "Warps",
+ *     rows: 6,
+ *     entries: () => warpStore.all(),
+ *     item: warp => createNamedItem(Material.ENDER_PEARL, 1, `§b${warp.name}`),
+ *     onClick: (warp, click) => click.player.teleport(warp.location),
+ *   });
+ *
+ *   ┌──────────────────────────────────┐
+ *   │ w  w  w  w  w  w  w  w  w        │  entry slots (default: every row
+ *   │ w  w  w  w  w  w  w  w  w        │  but the last)
+ *   │ ...                              │
+ *   │ ◀     [filter]  [3/7]  [sort]  ▶ │  controls (default: last row)
+ *   └──────────────────────────────────┘
+ *
+ * WHERE ENTRIES COME FROM:
+ * - entries: an array, or a function returning one (or a promise of
+ *   one). Loaded on open and on reload(); filters, sorting and paging
+ *   happen in memory.
+ * - loadPage: a function loading one page (offset, limit, filter and
+ *   sort names) for sources too large to load at once, like a database
+ *   of auctions. Called on every page, filter or sort change.
+ * While a load is pending the entry slots show loadingItem; a result
+ * arriving after the player moved on is ignored.
+ *
+ * FILTERS AND SORTS are named, so the control buttons can show the
+ * current one and loadPage can forward it to a query. The filter button
+ * cycles "all" → each filter; the sort button cycles "default" → each
+ * sort. Right-click cycles backwards.
+ *
+ * SCROLLING:
+ * scroll "page" (default) moves a whole page; "row" moves one row of
+ * entry slots, keeping the rest in view.
+ *
+ * @see menu.ts for the underlying menu, clicks and cleanup
+ */
+
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { Material } from "../../items/enums/materialType";
+import { BukkitItemStack, createLoreItem, createNamedItem } from "../../items/types/itemstack";
+import { createMenu, MenuClick, MenuClickHandler, MenuItem, MenuOptions, MenuView } from "./menu";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * What loadPage() is asked for.
+ */
+export interface PageRequest {
+  readonly player: BukkitPlayer;
+
+  /** Index of the first entry */
+  readonly offset: number;
+
+  /** Number of entries wanted */
+  readonly limit: number;
+
+  /** Active filter name, or null for all */
+  readonly filter: string | null;
+
+  /** Active sort name, or null for the source's order */
+  readonly sort: string | null;
+}
+
+/**
+ * What loadPage() answers.
+ */
+export interface PageResult<T> {
+  /** Entries from the requested offset (at most limit) */
+  readonly entries: readonly T[];
+
+  /** Number of entries matching the filter, over all pages */
+  readonly total: number;
+}
+
+/**
+ * Slots of the control buttons. null hides a control.
+ */
+export interface PageControls {
+  previous?: number | null;
+  next?: number | null;
+  indicator?: number | null;
+  filter?: number | null;
+  sort?: number | null;
+}
+
+export interface PaginatedMenuOptions<T> extends Omit<MenuOptions, "render"> {
+  /** All entries (or a function loading them) */
+  entries?: readonly T[] | ((player: BukkitPlayer) => readonly T[] | Promise<readonly T[]>);
+
+  /** Load one page at a time, instead of entries */
+  loadPage?(request: PageRequest): Promise<PageResult<T>>;
+
+  /** Item shown for an entry */
+  item(entry: T, player: BukkitPlayer): BukkitItemStack;
+
+  /** Called when an entry is clicked */
+  onClick?(entry: T, click: MenuClick): void;
+
+  /** Slots showing entries, in order. Default: every row but the last */
+  slots?: readonly number[];
+
+  /** "page" (default) or "row": how far previous/next move */
+  scroll?: "page" | "row";
+
+  /** Named filters (in-memory entries only; loadPage gets the name) */
+  filters?: { readonly [name: string]: (entry: T, player: BukkitPlayer) => boolean };
+
+  /** Named sort orders (in-memory entries only; loadPage gets the name) */
+  sorts?: { readonly [name: string]: (a: T, b: T) => number };
+
+  /** Control slots. Default: in the last row */
+  controls?: PageControls;
+
+  /** Shown while entries load. Default: a clock */
+  loadingItem?: MenuItem;
+
+  /** Shown in the first entry slot when there are no entries. Default: a barrier */
+  emptyItem?: MenuItem;
+
+  /** Extra buttons (after entries and controls) */
+  render?(view: PageView<T>): void;
+}
+
+/**
+ * A paginated menu as one player sees it.
+ */
+export interface PageView<T> extends MenuView {
+  /** Current position, from 0 */
+  readonly page: number;
+
+  /** Number of positions (at least 1) */
+  readonly pages: number;
+
+  /** Entries shown now */
+  readonly visible: readonly T[];
+
+  /** Number of entries matching the filter */
+  readonly total: number;
+
+  readonly filter: string | null;
+  readonly sort: string | null;
+
+  /** True while entries are loading */
+  readonly loading: boolean;
+
+  /** Go to a position (clamped to the valid range) */
+  setPage(page: number): void;
+  next(): void;
+  previous(): void;
+
+  /** Use a named filter, or null for all entries (back to the first page) */
+  setFilter(name: string | null): void;
+
+  /** Use a named sort, or null for the source's order */
+  setSort(name: string | null): void;
+
+  /** Load the entries again */
+  reload(): Promise<void>;
+}
+
+export interface PaginatedMenu<T> {
+  readonly rows: number;
+  readonly size: number;
+
+  /** Show the menu to a player, on the first page */
+  open(player: BukkitPlayer): PageView<T>;
+
+  /** Views of this menu currently open */
+  views(): PageView<T>[];
+
+  /** Redraw every open view (entries are not loaded again) */
+  refreshAll(): void;
+
+  /** Load the entries of every open view again */
+  reloadAll(): Promise<void>;
+
+  /** Close every open view */
+  closeAll(): void;
+}
+
+/**
+ * Per-view paging state.
+ */
+interface PageState<T> {
+  view: PageView<T>;
+  offset: number;
+  filter: string | null;
+  sort: string | null;
+
+  /** In-memory mode: every entry, as loaded */
+  all: readonly T[] | null;
+
+  /** Entries of the current position, and the filtered total */
+  visible: readonly T[];
+  total: number;
+
+  loading: boolean;
+
+  /** Increased by each load: older results are dropped */
+  generation: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Cycle through [null, ...names].
+ */
+function cycle(names: string[], current: string | null, backwards: boolean): string | null {
+  const choices = [null, ...names];
+  const index = choices.indexOf(current);
+  const next = (index + (backwards ? choices.length - 1 : 1)) % choices.length;
+  return choices[next];
+}
+
+function warn(message: string): void {
+  PaperTS.getJavaPlugin().getLogger().warning(message);
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Define a menu over a list of entries, with pages.
+ *
+ * @example
+ * const players = createPaginatedMenu({
+ *   title: "Players",
+ *   rows: 4,
+ *   entries: () => Array.from(org.bukkit.Bukkit.getOnlinePlayers().toArray()),
+ *   item: target => createNamedItem(Material.PLAYER_HEAD, 1, `§e${target.getName()}`),
+ *   sorts: { name: (a, b) => a.getName().localeCompare(b.getName()) },
+ *   onClick: (target, click) => click.player.teleport(target.getLocation()),
+ * });
+ */
+export function createPaginatedMenu<T>(options: PaginatedMenuOptions<T>): PaginatedMenu<T> {
+  const { rows } = options;
+  const size = rows * 9;
+
+  if (options.entries === undefined && options.loadPage === undefined) {
+    throw new Error("Paginated menu needs entries or loadPage");
+  }
+  if (options.slots === undefined && rows < 2) {
+    throw new Error("Paginated menu needs at least 2 rows (or explicit slots)");
+  }
+
+  const slots = options.slots ?? Array.from({ length: size - 9 }, (_, i) => i);
+  const pageSize = slots.length;
+  if (pageSize === 0) throw new Error("Paginated menu needs at least one entry slot");
+
+  /* "row" scrolling moves by the entry slots of one chest row */
+  const step = options.scroll === "row"
+    ? slots.filter(slot => Math.floor(slot / 9) === Math.floor(slots[0] / 9)).length
+    : pageSize;
+
+  const filterNames = Object.keys(options.filters ?? {});
+  const sortNames = Object.keys(options.sorts ?? {});
+  const lastRow = size - 9;
+  const controls: Required<PageControls> = {
+    previous: lastRow,
+    next: size - 1,
+    indicator: lastRow + 4,
+    filter: filterNames.length > 0 ? lastRow + 2 : null,
+    sort: sortNames.length > 0 ? lastRow + 6 : null,
+    ...options.controls,
+  };
+
+  const loadingItem = options.loadingItem ?? (() => createNamedItem(Material.CLOCK, 1, "§7Loading..."));
+  const emptyItem = options.emptyItem ?? (() => createNamedItem(Material.BARRIER, 1, "§cNothing here"));
+
+  /* Open views; removed in onClose */
+  const states = new Map<MenuView, PageState<T>>();
+  /* Views not open (yet): drawn before opening, or whose open was cancelled */
+  const pending = new WeakMap<MenuView, PageState<T>>();
+
+  const pagesOf = (state: PageState<T>) =>
+    state.total <= pageSize ? 1 : Math.ceil((state.total - pageSize) / step) + 1;
+
+  // ---- Entries ----
+
+  /** In-memory mode: recompute the visible entries */
+  function slice(state: PageState<T>): void {
+    const player = state.view.player;
+    let entries = state.all ?? [];
+
+    if (state.filter !== null) {
+      const filter = options.filters![state.filter];
+      entries = entries.filter(entry => filter(entry, player));
+    }
+    if (state.sort !== null) {
+      entries = [...entries].sort(options.sorts![state.sort]);
+    }
+
+    state.total = entries.length;
+    state.offset = Math.min(state.offset, (pagesOf(state) - 1) * step);
+    state.visible = entries.slice(state.offset, state.offset + pageSize);
+  }
+
+  /**
+   * Load all entries (in-memory mode) or the current page. A newer load,
+   * or closing the menu, makes the result stale: it is then dropped.
+   */
+  async function fetch(state: PageState<T>): Promise<void> {
+    const generation = ++state.generation;
+    const current = () => generation === state.generation;
+    const player = state.view.player;
+
+    state.loading = true;
+    state.view.refresh();
+
+    try {
+      if (options.loadPage !== undefined) {
+        const result = await options.loadPage({
+          player,
+          offset: state.offset,
+          limit: pageSize,
+          filter: state.filter,
+          sort: state.sort,
+        });
+        if (!current()) return;
+        state.visible = result.entries.slice(0, pageSize);
+        state.total = result.total;
+      } else {
+        const source = options.entries!;
+        const all = await (typeof source === "function" ? source(player) : source);
+        if (!current()) return;
+        state.all = all;
+        slice(state);
+      }
+    } catch (error) {
+      if (!current()) return;
+      warn(`Failed to load menu entries for ${player.getName()}: ${error}`);
+      state.visible = [];
+      state.total = 0;
+    }
+
+    state.loading = false;
+    state.view.refresh();
+  }
+
+  /** Apply a change of position, filter or sort */
+  function update(state: PageState<T>): void {
+    if (options.loadPage !== undefined) {
+      void fetch(state);
+    } else {
+      slice(state);
+      state.view.refresh();
+    }
+  }
+
+  // ---- Drawing ----
+
+  function control(view: MenuView, slot: number | null, item: MenuItem, onClick: MenuClickHandler): void {
+    if (slot !== null) view.button(slot, item, onClick);
+  }
+
+  function draw(state: PageState<T>): void {
+    const { view } = state;
+    const player = view.player;
+
+    if (state.loading) {
+      for (const slot of slots) view.button(slot, loadingItem);
+    } else if (state.visible.length === 0) {
+      view.button(slots[0], emptyItem);
+    } else {
+      state.visible.forEach((entry, i) => {
+        view.button(slots[i], options.item(entry, player), click => options.onClick?.(entry, click));
+      });
+    }
+
+    const page = Math.floor(state.offset / step);
+    const pages = pagesOf(state);
+
+    if (page > 0) {
+      control(view, controls.previous, createNamedItem(Material.ARROW, 1, "§ePrevious"), () => state.view.previous());
+    }
+    if (page < pages - 1) {
+      control(view, controls.next, createNamedItem(Material.ARROW, 1, "§eNext"), () => state.view.next());
+    }
+    control(view, controls.indicator, createNamedItem(Material.PAPER, Math.min(page + 1, 64), `§f${page + 1}/${pages}`), () => {});
+    control(view, controls.filter,
+      createLoreItem(Material.HOPPER, 1, "§eFilter", [`§7${state.filter ?? "all"}`, "§8Click to change"]),
+      click => state.view.setFilter(cycle(filterNames, state.filter, click.isRight)));
+    control(view, controls.sort,
+      createLoreItem(Material.COMPASS, 1, "§eSort", [`§7${state.sort ?? "default"}`, "§8Click to change"]),
+      click => state.view.setSort(cycle(sortNames, state.sort, click.isRight)));
+
+    options.render?.(state.view);
+  }
+
+  // ---- Views ----
+
+  /**
+   * The page state of a view.
+   *
+   * WHY ONLY OPEN VIEWS IN states: onClose is what removes an entry, and
+   * it never fires for a view whose open was cancelled. Until the view is
+   * open its state lives in a WeakMap, which lets it go with the view.
+   */
+  function stateOf(view: MenuView): PageState<T> {
+    const state = states.get(view) ?? pending.get(view);
+    if (state !== undefined) {
+      if (view.isOpen && !states.has(view)) {
+        pending.delete(view);
+        states.set(view, state);
+      }
+      return state;
+    }
+
+    const created: PageState<T> = {
+      view: undefined!,
+      offset: 0,
+      filter: null,
+      sort: null,
+      all: null,
+      visible: [],
+      total: 0,
+      loading: true,
+      generation: 0,
+    };
+
+    created.view = {
+      get menu() { return view.menu; },
+      get player() { return view.player; },
+      get inventory() { return view.inventory; },
+      get isOpen() { return view.isOpen; },
+      button(slot, item, onClick) {
+        view.button(slot, item, onClick);
+        return created.view;
+      },
+      refresh: () => view.refresh(),
+      close: () => view.close(),
+
+      get page() { return Math.floor(created.offset / step); },
+      get pages() { return pagesOf(created); },
+      get visible() { return created.visible; },
+      get total() { return created.total; },
+      get filter() { return created.filter; },
+      get sort() { return created.sort; },
+      get loading() { return created.loading; },
+
+      setPage(page: number): void {
+        const target = Math.max(0, Math.min(Math.floor(page), pagesOf(created) - 1)) * step;
+        if (target === created.offset) return;
+        created.offset = target;
+        update(created);
+      },
+      next: () => created.view.setPage(created.view.page + 1),
+      previous: () => created.view.setPage(created.view.page - 1),
+
+      setFilter(name: string | null): void {
+        if (name !== null && !filterNames.includes(name)) throw new Error(`Unknown filter "${name}"`);
+        created.filter = name;
+        created.offset = 0;
+        update(created);
+      },
+
+      setSort(name: string | null): void {
+        if (name !== null && !sortNames.includes(name)) throw new Error(`Unknown sort "${name}"`);
+        created.sort = name;
+        update(created);
+      },
+
+      reload: () => fetch(created),
+    };
+
+    if (view.isOpen) states.set(view, created);
+    else pending.set(view, created);
+    return created;
+  }
+
+  const menu = createMenu({
+    ...options,
+    render: view => draw(stateOf(view)),
+    onClose(view) {
+      const state = states.get(view);
+      states.delete(view);
+      if (state !== undefined) {
+        state.generation++;
+        options.onClose?.(state.view);
+      }
+    },
+    onOpen(view) {
+      /* Only once actually open: a cancelled open loads nothing */
+      const state = stateOf(view);
+      void fetch(state);
+      options.onOpen?.(state.view);
+    },
+  });
+
+  return {
+    rows,
+    size,
+
+    open(player: BukkitPlayer): PageView<T> {
+      return stateOf(menu.open(player)).view;
+    },
+
+    views: () => menu.views().map(view => stateOf(view).view),
+
+    refreshAll: () => menu.refreshAll(),
+
+    reloadAll: async () => {
+      await Promise.all(menu.views().map(view => fetch(stateOf(view))));
+    },
+
+    closeAll: () => menu.closeAll(),
+  };
+}
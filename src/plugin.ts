@@ -0,0 +1,319 @@
+/**
+ * DESIGN
+ * ------
+ * Base class for plugins, with lifecycle hooks and automatic cleanup.
+ *
+ * Without it, a plugin is a plain object passed to registerPlugin() at
+ * module top level. Nothing runs when the server disables the plugin,
+ * so timers, boss bars and listeners outlive it on /reload.
+ *
+ * LIFECYCLE:
+ *
+ *   startPlugin(new MyPlugin())
+ *        │
+ *        ├─ onLoad()        config, keys - nothing that touches players
+ *        ├─ registerPlugin  @EventHandler / @Command methods go live
+ *        ├─ onEnable()      start timers, create bars, load data
+ *        │
+ *        ⋮  (server runs)
+ *        │
+ *   server disables the plugin (stop, /reload)
+ *        │
+ *        ├─ onDisable()     save data
+ *        └─ teardown        everything tracked is cleaned up, newest first:
+ *                           tasks cancelled, bars hidden, listeners and
+ *                           commands unregistered
+ *
+ * WHAT IS TRACKED:
+ * - Tasks started with this.runLater()/runTimer()/runAsync(), until
+ *   they are cancelled or (one-shot tasks) have run
+ * - Boss bars created with this.createBossBar()
+ * - Anything passed to this.track() (a function or { dispose() })
+ * - The decorator registration (listeners and commands)
+ * Tasks scheduled with the free functions are owned by the same Java
+ * plugin, so they are cancelled too (scheduler.cancelTasks).
+ *
+ * @example
+ * class Lobby extends PaperPlugin {
+ *   protected onEnable(): void {
+ *     const bar = this.createBossBar("§eWelcome!", BarColor.YELLOW, BarStyle.SOLID);
+ *     this.runTimer(0, 20, () => showToAllPlayers(bar));
+ *   }
+ *
+ *   @EventHandler(PlayerJoinEvent)
+ *   onJoin(event: EventPlayerJoinEvent) { ... }
+ * }
+ *
+ * startPlugin(new Lobby());
+ */
+
+import { PluginRegistration, registerPlugin } from "./decorators";
+import { BukkitNamespacedKey, createPluginKey } from "./items/types/namespacedKey";
+import { cancelAllTasks, runAsync, runLater, runTimer, Task } from "./scheduler/types/scheduler";
+import { BukkitBarColor } from "./world/enums/barColors";
+import { BukkitBarFlag } from "./world/enums/barflag";
+import { BukkitBarStyle } from "./world/enums/barStyles";
+import { BukkitBossBar, createBossBar } from "./world/types/bossBar";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * The plugin's java.util.logging.Logger.
+ * Messages are prefixed with the plugin name in the server console.
+ */
+export interface PluginLogger {
+  info(message: string): void;
+  warning(message: string): void;
+  severe(message: string): void;
+}
+
+/**
+ * Something released on disable.
+ */
+export type Disposable = { dispose(): void } | (() => void);
+
+// ============================================
+// BASE CLASS
+// ============================================
+
+export abstract class PaperPlugin {
+  /** Cleanup callbacks, in registration order (run in reverse) */
+  private readonly disposables: Array<() => void> = [];
+
+  /** Listener/command registration, once started */
+  private registration: PluginRegistration | null = null;
+
+  private enabled = false;
+
+  // ---- Hooks ----
+
+  /**
+   * Called first, before any listener or command is registered.
+   * Use it for setup other code depends on (config, keys).
+   */
+  protected onLoad(): void {}
+
+  /**
+   * Called once listeners and commands are live.
+   */
+  protected onEnable(): void {}
+
+  /**
+   * Called when the server disables the plugin, before tracked
+   * resources are released. Save state here.
+   */
+  protected onDisable(): void {}
+
+  // ---- Java plugin ----
+
+  /**
+   * The Java plugin object (for APIs that take a Plugin argument).
+   */
+  get javaPlugin(): any /* BukkitPlugin */ {
+    return PaperTS.getJavaPlugin();
+  }
+
+  /** Plugin name, from plugin.yml */
+  get name(): string {
+    return this.javaPlugin.getName();
+  }
+
+  /** The plugin's logger */
+  get logger(): PluginLogger {
+    return this.javaPlugin.getLogger();
+  }
+
+  /**
+   * Absolute path of the plugin's data folder (plugins/<name>).
+   * The folder may not exist yet.
+   */
+  get dataFolder(): string {
+    return this.javaPlugin.getDataFolder().getAbsolutePath();
+  }
+
+  /** True between enable and disable */
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Create a key in this plugin's namespace.
+   *
+   * @example
+   * const coins = this.key("coins");  // "myplugin:coins"
+   */
+  key(name: string): BukkitNamespacedKey {
+    return createPluginKey(this.javaPlugin, name);
+  }
+
+  // ---- Tracked resources ----
+
+  /**
+   * Release something when the plugin is disabled.
+   *
+   * @returns The same value, for chaining
+   *
+   * @example
+   * const hologram = this.track(spawnHologram(loc));  // has dispose()
+   * this.track(() => world.setTime(0));
+   */
+  track<T extends Disposable>(disposable: T): T {
+    this.disposables.push(typeof disposable === "function" ? disposable : () => disposable.dispose());
+    return disposable;
+  }
+
+  /** Number of tracked resources not released yet */
+  get trackedCount(): number {
+    return this.disposables.length;
+  }
+
+  /**
+   * runLater() that is cancelled on disable.
+   */
+  protected runLater(ticks: number, fn: (task: Task) => void): Task {
+    return this.trackTask(run => runLater(ticks, run), fn, true);
+  }
+
+  /**
+   * runTimer() that is cancelled on disable.
+   */
+  protected runTimer(delay: number, period: number, fn: (task: Task) => void): Task {
+    return this.trackTask(run => runTimer(delay, period, run), fn, false);
+  }
+
+  /**
+   * runAsync() that is cancelled on disable (if it hasn't started yet).
+   */
+  protected runAsync(fn: (task: Task) => void): Task {
+    return this.trackTask(run => runAsync(run), fn, true);
+  }
+
+  /**
+   * createBossBar() whose bar is hidden and emptied on disable.
+   *
+   * WHY: Boss bars are client-side overlays. A bar nobody removes stays
+   * on every player's screen until they relog, even after /reload.
+   */
+  protected createBossBar(
+    title: string,
+    color: BukkitBarColor,
+    style: BukkitBarStyle,
+    ...flags: BukkitBarFlag[]
+  ): BukkitBossBar {
+    const bar = createBossBar(title, color, style, ...flags);
+    this.track(() => {
+      bar.removeAll();
+      bar.setVisible(false);
+    });
+    return bar;
+  }
+
+  /**
+   * Schedule fn and cancel it on disable.
+   *
+   * WHY RELEASE EARLY: A plugin calling this.runLater() on every event
+   * would otherwise keep one disposer per call until disable. The
+   * disposer is dropped once a one-shot task has run, or when the task
+   * is cancelled (also from inside fn, through its own handle).
+   */
+  private trackTask(
+    start: (run: (task: Task) => void) => Task,
+    fn: (task: Task) => void,
+    oneShot: boolean
+  ): Task {
+    const task = start(current => {
+      if (oneShot) this.release(dispose);
+      fn(current);
+    });
+
+    const cancel = task.cancel;
+    const dispose = () => cancel.call(task);
+    task.cancel = () => {
+      this.release(dispose);
+      cancel.call(task);
+    };
+
+    this.track(dispose);
+    return task;
+  }
+
+  /** Stop tracking a disposer without running it */
+  private release(dispose: () => void): void {
+    const index = this.disposables.indexOf(dispose);
+    if (index !== -1) this.disposables.splice(index, 1);
+  }
+
+  // ---- Lifecycle (driven by startPlugin/stopPlugin) ----
+
+  /** @internal */
+  static start(plugin: PaperPlugin): void {
+    if (plugin.enabled) return;
+
+    try {
+      plugin.onLoad();
+      plugin.registration = registerPlugin(plugin);
+      plugin.enabled = true;
+      plugin.onEnable();
+    } catch (error) {
+      plugin.logger.severe(`Error while enabling ${plugin.name}: ${error}`);
+      PaperPlugin.stop(plugin);
+    }
+  }
+
+  /** @internal */
+  static stop(plugin: PaperPlugin): void {
+    if (plugin.enabled) {
+      plugin.enabled = false;
+      try {
+        plugin.onDisable();
+      } catch (error) {
+        plugin.logger.severe(`Error while disabling ${plugin.name}: ${error}`);
+      }
+    }
+
+    /* Newest first: things created later may depend on earlier ones */
+    for (const dispose of plugin.disposables.splice(0).reverse()) {
+      try {
+        dispose();
+      } catch (error) {
+        plugin.logger.warning(`Cleanup failed: ${error}`);
+      }
+    }
+
+    if (plugin.registration !== null) {
+      plugin.registration.dispose();
+      plugin.registration = null;
+    }
+
+    cancelAllTasks();
+  }
+}
+
+// ============================================
+// ENTRY POINTS
+// ============================================
+
+/**
+ * Start a plugin: onLoad, register decorated handlers, onEnable.
+ * Also hooks stopPlugin() to the server disabling the plugin.
+ *
+ * Call once, at the top level of the bundle.
+ *
+ * @example
+ * startPlugin(new MyPlugin());
+ */
+export function startPlugin<T extends PaperPlugin>(plugin: T): T {
+  PaperTS.onDisable(() => PaperPlugin.stop(plugin));
+  PaperPlugin.start(plugin);
+  return plugin;
+}
+
+/**
+ * Disable a plugin now: onDisable, then release everything tracked.
+ * Safe to call more than once.
+ */
+export function stopPlugin(plugin: PaperPlugin): void {
+  PaperPlugin.stop(plugin);
+}
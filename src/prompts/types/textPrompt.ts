@@ -0,0 +1,292 @@
+/**
+ * DESIGN
+ * ------
+ * Ask a player for a line of text and get it back as a promise:
+ *
+ *   const name = await promptText(player, {
+ *     message: "§eName your warp (or type cancel):",
+ *     validate: text => /^\w{3,16}$/.test(text) ? null : "§c3-16 letters or digits",
+ *   });
+ *   if (name === null) return;  // cancelled, timed out or quit
+ *
+ * THREE WAYS TO TYPE:
+ *
+ *   via "chat"   The next chat message is the answer (and is not shown
+ *                to anyone). "cancel" gives up.
+ *   via "anvil"  An anvil opens with a paper to rename; clicking the
+ *                result submits. Closing the anvil gives up.
+ *   via "sign"   A sign editor opens; the first line is the answer. The
+ *                sign only exists for the player (Paper 1.20.1+).
+ *
+ * VALIDATION:
+ * validate() returns an error message to send, or null to accept. After
+ * an error the player is asked again (chat: the message is repeated;
+ * anvil: it stays open; sign: it reopens), until an answer passes or
+ * the prompt ends.
+ *
+ * ENDING WITHOUT AN ANSWER resolves null: timeout (default 60 s), quit,
+ * cancelPrompt(), or a new prompt for the same player.
+ *
+ * WHY CHAT ANSWERS HOP TO THE MAIN THREAD: AsyncPlayerChatEvent runs on
+ * a chat thread. The event is cancelled there; validation and the
+ * promise continue on the main thread, where plugin code may use the
+ * Bukkit API.
+ */
+
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { EventPriority } from "../../events/enum/eventPriority";
+import { EventSignChangeEvent, SignChangeEvent } from "../../events/types/block/signChangeEvent";
+import { HandlerList } from "../../events/types/handlerList";
+import { EventInventoryCloseEvent, InventoryCloseEvent } from "../../events/types/inventory/inventoryCloseEvent";
+import { EventInventoryClickEvent, InventoryClickEvent } from "../../events/types/inventory/inventoryInteractEvent";
+import { EventPrepareAnvilEvent, PrepareAnvilEvent } from "../../events/types/inventory/prepareAnvilEvent";
+import { AsyncPlayerChatEvent, EventAsyncPlayerChatEvent } from "../../events/types/player/asyncPlayerChatEvent";
+import { EventPlayerQuitEvent, PlayerQuitEvent } from "../../events/types/player/playerQuitEvent";
+import { BukkitAnvilInventory } from "../../inventories/type/anvilInventory";
+import { Material } from "../../items/enums/materialType";
+import { createLoreItem, createNamedItem } from "../../items/types/itemstack";
+import { runLater, runTask, secondsToTicks, Task } from "../../scheduler/types/scheduler";
+import { sameBlock } from "../../world/types/location";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Where the player types the answer.
+ */
+export type PromptMethod = "chat" | "anvil" | "sign";
+
+export interface PromptOptions {
+  /** Default "chat" */
+  via?: PromptMethod;
+
+  /**
+   * The question. Chat: sent before the answer (and after each error).
+   * Anvil: lore of the paper. Sign: lines 2-4 (split on "\n").
+   */
+  message?: string;
+
+  /** Text already typed (anvil and sign) */
+  initial?: string;
+
+  /** Error message to send for an invalid answer, or null to accept it */
+  validate?(input: string): string | null | undefined;
+
+  /** Seconds before giving up. Default 60, 0 = never */
+  timeout?: number;
+
+  /** Chat answers that give up (case-insensitive). Default ["cancel"] */
+  cancelWords?: string[];
+}
+
+/**
+ * A running prompt.
+ */
+interface ActivePrompt {
+  finish(result: string | null): void;
+}
+
+/**
+ * Per-method part of a prompt: shows the input, returns its cleanup.
+ */
+type InputStarter = (
+  player: BukkitPlayer,
+  options: PromptOptions,
+  submit: (input: string) => boolean,
+  giveUp: () => void,
+  listen: (listener: any) => void
+) => () => void;
+
+// ============================================
+// RUNNING PROMPTS
+// ============================================
+
+/** Prompts by player UUID */
+const active = new Map<string, ActivePrompt>();
+
+function isPlayer(player: BukkitPlayer, other: { getUniqueId(): { toString(): string } }): boolean {
+  return player.getUniqueId().toString() === other.getUniqueId().toString();
+}
+
+// ============================================
+// INPUT METHODS
+// ============================================
+
+const startChat: InputStarter = (player, options, submit, giveUp, listen) => {
+  const cancelWords = (options.cancelWords ?? ["cancel"]).map(word => word.toLowerCase());
+  const ask = () => {
+    if (options.message !== undefined) player.sendMessage(options.message);
+  };
+
+  listen(PaperTS.registerEvent<EventAsyncPlayerChatEvent>(AsyncPlayerChatEvent, event => {
+    if (!isPlayer(player, event.getPlayer())) return;
+    event.setCancelled(true);
+    const input = event.getMessage().trim();
+
+    runTask(() => {
+      if (cancelWords.includes(input.toLowerCase())) giveUp();
+      else if (!submit(input)) ask();
+    });
+  }, EventPriority.LOWEST));
+
+  ask();
+  return () => {};
+};
+
+const startAnvil: InputStarter = (player, options, submit, giveUp, listen) => {
+  const view = player.openAnvil(null, true);
+  if (view === null) {
+    giveUp();
+    return () => {};
+  }
+
+  const anvil = view.getTopInventory() as BukkitAnvilInventory;
+  const initial = options.initial ?? " ";
+  anvil.setItem(0, options.message !== undefined
+    ? createLoreItem(Material.PAPER, 1, initial, options.message.split("\n"))
+    : createNamedItem(Material.PAPER, 1, initial));
+
+  listen(PaperTS.registerEvent<EventPrepareAnvilEvent>(PrepareAnvilEvent, event => {
+    if (!event.getInventory().equals(anvil)) return;
+    event.setResult(createNamedItem(Material.PAPER, 1, event.getInventory().getRenameText() ?? initial));
+    event.getInventory().setRepairCost(0);
+  }));
+
+  listen(PaperTS.registerEvent<EventInventoryClickEvent>(InventoryClickEvent, event => {
+    if (!event.getView().getTopInventory().equals(anvil)) return;
+    event.setCancelled(true);
+    if (event.getRawSlot() === 2) submit((anvil.getRenameText() ?? initial).trim());
+  }));
+
+  listen(PaperTS.registerEvent<EventInventoryCloseEvent>(InventoryCloseEvent, event => {
+    if (event.getInventory().equals(anvil)) giveUp();
+  }));
+
+  return () => {
+    /* Emptied first: a closing anvil gives its items to the player */
+    anvil.clear();
+    runTask(() => {
+      if (player.getOpenInventory().getTopInventory().equals(anvil)) player.closeInventory();
+    });
+  };
+};
+
+const startSign: InputStarter = (player, options, submit, giveUp, listen) => {
+  const world = player.getWorld();
+  const location = player.getLocation().getBlock().getLocation();
+  location.setY(Math.max(world.getMinHeight(), location.getBlockY() - 3));
+  const original = location.getBlock().getBlockData();
+
+  const messageLines = (options.message ?? "^^^^^^^^").split("\n").slice(0, 3);
+  const lines = [options.initial ?? "", ...messageLines, "", "", ""].slice(0, 4);
+
+  const open = () => {
+    player.sendBlockChange(location, org.bukkit.Bukkit.createBlockData(Material.OAK_SIGN));
+    player.sendSignChange(location, lines);
+    player.openVirtualSign(
+      Java.callStatic("io.papermc.paper.math.Position", "block", location),
+      org.bukkit.block.sign.Side.FRONT
+    );
+  };
+
+  listen(PaperTS.registerEvent<EventSignChangeEvent>(SignChangeEvent, event => {
+    if (!isPlayer(player, event.getPlayer()) || !sameBlock(event.getBlock().getLocation(), location)) return;
+    event.setCancelled(true);
+    const input = (event.getLines()[0] ?? "").trim();
+
+    /* The editor is closed by now: reopen it after the error */
+    if (!submit(input)) runTask(open);
+  }));
+
+  open();
+  return () => {
+    if (player.isOnline()) player.sendBlockChange(location, original);
+  };
+};
+
+const STARTERS: { readonly [method in PromptMethod]: InputStarter } = {
+  chat: startChat,
+  anvil: startAnvil,
+  sign: startSign,
+};
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Ask a player for text.
+ *
+ * @returns The accepted answer, or null if the prompt ended without one
+ *
+ * @example
+ * const price = await promptText(player, {
+ *   via: "sign",
+ *   message: "Price per item",
+ *   validate: text => Number(text) > 0 ? null : "§cEnter a positive number",
+ * });
+ */
+export function promptText(player: BukkitPlayer, options: PromptOptions = {}): Promise<string | null> {
+  cancelPrompt(player);
+
+  return new Promise(resolve => {
+    const id = player.getUniqueId().toString();
+    const listeners: any[] = [];
+    let timer: Task | null = null;
+    let cleanup: () => void = () => {};
+    let done = false;
+
+    const prompt: ActivePrompt = { finish };
+
+    function finish(result: string | null): void {
+      if (done) return;
+      done = true;
+
+      if (active.get(id) === prompt) active.delete(id);
+      for (const listener of listeners) HandlerList.unregisterAll(listener);
+      timer?.cancel();
+      cleanup();
+      resolve(result);
+    }
+
+    function submit(input: string): boolean {
+      if (done) return true;
+      const error = options.validate?.(input);
+      if (error !== null && error !== undefined) {
+        player.sendMessage(error);
+        return false;
+      }
+      finish(input);
+      return true;
+    }
+
+    active.set(id, prompt);
+
+    listeners.push(PaperTS.registerEvent<EventPlayerQuitEvent>(PlayerQuitEvent, event => {
+      if (isPlayer(player, event.getPlayer())) finish(null);
+    }));
+
+    const seconds = options.timeout ?? 60;
+    if (seconds > 0) timer = runLater(secondsToTicks(seconds), () => finish(null));
+
+    const start = STARTERS[options.via ?? "chat"];
+    const stop = start(player, options, submit, () => finish(null), listener => listeners.push(listener));
+    if (done) stop();
+    else cleanup = stop;
+  });
+}
+
+/**
+ * End a player's prompt, if any (it resolves null).
+ */
+export function cancelPrompt(player: BukkitPlayer): void {
+  active.get(player.getUniqueId().toString())?.finish(null);
+}
+
+/**
+ * True while a player has a prompt open.
+ */
+export function hasPrompt(player: BukkitPlayer): boolean {
+  return active.has(player.getUniqueId().toString());
+}
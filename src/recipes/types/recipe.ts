@@ -0,0 +1,443 @@
+/**
+ * DESIGN
+ * ------
+ * Crafting, cooking, smithing and stonecutting recipes, registered with
+ * typed options and removed again when the plugin disables.
+ *
+ *   registerShapedRecipe("magic_wand", {
+ *     shape: [" G ", " S ", " S "],
+ *     ingredients: { G: Material.GOLD_INGOT, S: Material.STICK },
+ *     result: MagicWand,
+ *     discover: true,
+ *   });
+ *
+ *   registerFurnaceRecipe("cooked_flesh", {
+ *     input: Material.ROTTEN_FLESH,
+ *     result: Material.LEATHER,
+ *     experience: 0.5,
+ *   });
+ *
+ * RECIPE TYPES:
+ *
+ *   registerShapedRecipe        crafting grid, pattern matters
+ *   registerShapelessRecipe     crafting grid, any arrangement
+ *   registerFurnaceRecipe       furnace (also: "blasting", "smoking", "campfire")
+ *   registerSmithingRecipe      smithing table: template + base + addition
+ *   registerStonecuttingRecipe  stonecutter: one input, one result
+ *
+ * INGREDIENTS:
+ * A Material matches any stack of that material. An ItemStack or a
+ * CustomItem matches only stacks exactly like it (name, lore, PDC), so
+ * custom items can be ingredients without plain items sneaking in.
+ * An array accepts any of its entries (all materials, or all items).
+ *
+ * KEYS:
+ * A string key is in the plugin's namespace ("magic_wand" →
+ * "myplugin:magic_wand"). The key identifies the recipe in the recipe
+ * book, for discovery and for removal.
+ *
+ * DISCOVERY:
+ * Players only see recipes they discovered in the recipe book (they can
+ * still craft the others). discover: true gives the recipe to every
+ * player online now and to everyone who joins later.
+ *
+ * WHY REMOVE ON DISABLE: Recipes live in the server, not the plugin. On
+ * a reload the old recipes would stay registered with results built by
+ * the old code, and re-registering the same keys would fail.
+ */
+
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { HandlerList } from "../../events/types/handlerList";
+import { EventPlayerJoinEvent, PlayerJoinEvent } from "../../events/types/player/playerJoinEvent";
+import { BukkitMaterial } from "../../items/enums/materialType";
+import { CustomItem } from "../../items/types/customItem";
+import { BukkitItemStack } from "../../items/types/itemstack";
+import { BukkitNamespacedKey, toPluginKey } from "../../items/types/namespacedKey";
+import { arrayToList, collectionToArray } from "../../java/types/collections";
+
+// ============================================
+// JAVA INTERFACES
+// ============================================
+
+/**
+ * org.bukkit.inventory.RecipeChoice: what an ingredient slot accepts.
+ */
+export interface BukkitRecipeChoice {
+  /** True if a stack fits this slot */
+  test(item: BukkitItemStack): boolean;
+}
+
+/**
+ * org.bukkit.inventory.Recipe (all registrable recipes are Keyed).
+ */
+export interface BukkitRecipe {
+  getResult(): BukkitItemStack;
+  getKey(): BukkitNamespacedKey;
+}
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * What an ingredient slot accepts.
+ */
+export type Ingredient =
+  | BukkitMaterial
+  | BukkitItemStack
+  | CustomItem
+  | BukkitMaterial[]
+  | (BukkitItemStack | CustomItem)[];
+
+/**
+ * A recipe result: a material (one item), a stack or a custom item.
+ */
+export type RecipeResult = BukkitMaterial | BukkitItemStack | CustomItem;
+
+/** Recipe book tab of crafting recipes */
+export type CraftingCategory = "BUILDING" | "REDSTONE" | "EQUIPMENT" | "MISC";
+
+/** Recipe book tab of cooking recipes */
+export type CookingCategory = "FOOD" | "BLOCKS" | "MISC";
+
+export type CookingStation = "furnace" | "blasting" | "smoking" | "campfire";
+
+interface CommonRecipeOptions {
+  result: RecipeResult;
+
+  /** Amount of the result (default: the stack's amount, or 1) */
+  amount?: number;
+
+  /** Show the recipe in every player's recipe book (default false) */
+  discover?: boolean;
+}
+
+export interface ShapedRecipeOptions extends CommonRecipeOptions {
+  /** 1-3 rows of 1-3 characters; a space is an empty slot */
+  shape: string[];
+
+  /** Ingredient of each character in the shape */
+  ingredients: Record<string, Ingredient>;
+
+  /** Recipes with the same group share a recipe book entry */
+  group?: string;
+
+  category?: CraftingCategory;
+}
+
+export interface ShapelessRecipeOptions extends CommonRecipeOptions {
+  /** 1-9 ingredients, one per grid slot */
+  ingredients: Ingredient[];
+
+  group?: string;
+
+  category?: CraftingCategory;
+}
+
+export interface CookingRecipeOptions extends CommonRecipeOptions {
+  input: Ingredient;
+
+  /** Default "furnace" */
+  station?: CookingStation;
+
+  /** Experience given when the result is taken (default 0) */
+  experience?: number;
+
+  /** Ticks to cook (default 200; blasting and smoking 100; campfire 600) */
+  cookingTime?: number;
+
+  group?: string;
+
+  category?: CookingCategory;
+}
+
+export interface SmithingRecipeOptions extends CommonRecipeOptions {
+  /** Smithing template slot */
+  template: Ingredient;
+
+  /** Item being upgraded */
+  base: Ingredient;
+
+  /** Material added (ingot, gem...) */
+  addition: Ingredient;
+}
+
+export interface StonecuttingRecipeOptions extends CommonRecipeOptions {
+  input: Ingredient;
+
+  group?: string;
+}
+
+/**
+ * A recipe registered by this plugin.
+ */
+export interface RegisteredRecipe {
+  readonly key: BukkitNamespacedKey;
+
+  /** The Bukkit recipe object */
+  readonly recipe: BukkitRecipe;
+
+  /** Add it to a player's recipe book */
+  discover(player: BukkitPlayer): void;
+
+  /** Remove it from a player's recipe book */
+  undiscover(player: BukkitPlayer): void;
+
+  /** Remove the recipe from the server */
+  unregister(): void;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/** Recipes registered by this plugin, by key string */
+const registered = new Map<string, RegisteredRecipe>();
+
+/** Keys given to every player */
+const discovered = new Set<string>();
+
+let joinListener: any = null;
+let disableHooked = false;
+
+const DEFAULT_COOKING_TIME: { readonly [station in CookingStation]: number } = {
+  furnace: 200,
+  blasting: 100,
+  smoking: 100,
+  campfire: 600,
+};
+
+const COOKING_CLASSES: { readonly [station in CookingStation]: any } = {
+  get furnace() { return org.bukkit.inventory.FurnaceRecipe; },
+  get blasting() { return org.bukkit.inventory.BlastingRecipe; },
+  get smoking() { return org.bukkit.inventory.SmokingRecipe; },
+  get campfire() { return org.bukkit.inventory.CampfireRecipe; },
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function isCustomItem(value: any): value is CustomItem {
+  return typeof value.create === "function" && typeof value.id === "string";
+}
+
+function isItemStack(value: any): value is BukkitItemStack {
+  return typeof value.getAmount === "function";
+}
+
+function toStack(value: BukkitItemStack | CustomItem): BukkitItemStack {
+  return isCustomItem(value) ? value.create() : value.clone();
+}
+
+/**
+ * RecipeChoice for an ingredient.
+ */
+export function toRecipeChoice(ingredient: Ingredient): BukkitRecipeChoice {
+  const entries: any[] = Array.isArray(ingredient) ? ingredient : [ingredient];
+  if (entries.length === 0) {
+    throw new Error("An ingredient needs at least one material or item");
+  }
+
+  const exact = entries.map(entry => isCustomItem(entry) || isItemStack(entry));
+  if (exact.every(Boolean)) {
+    return new org.bukkit.inventory.RecipeChoice.ExactChoice(arrayToList(entries.map(toStack)));
+  }
+  if (!exact.some(Boolean)) {
+    return new org.bukkit.inventory.RecipeChoice.MaterialChoice(arrayToList(entries));
+  }
+  throw new Error("An ingredient can't mix materials and items");
+}
+
+function resultStack(options: CommonRecipeOptions): BukkitItemStack {
+  const { result } = options;
+  const stack = isCustomItem(result)
+    ? result.create()
+    : isItemStack(result)
+      ? result.clone()
+      : new org.bukkit.inventory.ItemStack(result, 1);
+  if (options.amount !== undefined) stack.setAmount(options.amount);
+  return stack;
+}
+
+function forEachOnline(fn: (player: BukkitPlayer) => void): void {
+  for (const player of collectionToArray<BukkitPlayer>(org.bukkit.Bukkit.getOnlinePlayers())) fn(player);
+}
+
+function hookLifecycle(): void {
+  if (joinListener === null && discovered.size > 0) {
+    joinListener = PaperTS.registerEvent<EventPlayerJoinEvent>(PlayerJoinEvent, event => {
+      const player = event.getPlayer();
+      for (const key of discovered) registered.get(key)?.discover(player);
+    });
+  }
+
+  if (!disableHooked) {
+    disableHooked = true;
+    PaperTS.onDisable(() => {
+      unregisterAllRecipes();
+      if (joinListener !== null) {
+        HandlerList.unregisterAll(joinListener);
+        joinListener = null;
+      }
+      disableHooked = false;
+    });
+  }
+}
+
+/**
+ * Add a built recipe to the server and track it.
+ */
+function register(recipe: BukkitRecipe, options: CommonRecipeOptions): RegisteredRecipe {
+  const key = recipe.getKey();
+  const id = key.toString();
+  if (registered.has(id)) {
+    throw new Error(`Recipe ${id} is already registered`);
+  }
+
+  /* true: resend the recipe book to online players */
+  if (!org.bukkit.Bukkit.addRecipe(recipe, true)) {
+    throw new Error(`The server refused recipe ${id}`);
+  }
+
+  const entry: RegisteredRecipe = {
+    key,
+    recipe,
+    discover: player => {
+      player.discoverRecipe(key);
+    },
+    undiscover: player => {
+      player.undiscoverRecipe(key);
+    },
+    unregister() {
+      if (registered.get(id) !== entry) return;
+      registered.delete(id);
+      discovered.delete(id);
+      org.bukkit.Bukkit.removeRecipe(key, true);
+    },
+  };
+  registered.set(id, entry);
+
+  if (options.discover) {
+    discovered.add(id);
+    forEachOnline(entry.discover);
+  }
+  hookLifecycle();
+  return entry;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Register a shaped crafting recipe.
+ *
+ * @throws Error if the shape uses a character without an ingredient
+ */
+export function registerShapedRecipe(key: BukkitNamespacedKey | string, options: ShapedRecipeOptions): RegisteredRecipe {
+  const recipe = new org.bukkit.inventory.ShapedRecipe(toPluginKey(key), resultStack(options));
+  recipe.shape(...options.shape);
+
+  const used = new Set(options.shape.join("").replace(/ /g, ""));
+  for (const char of used) {
+    const ingredient = options.ingredients[char];
+    if (ingredient === undefined) {
+      throw new Error(`Shape character "${char}" has no ingredient`);
+    }
+    recipe.setIngredient(char, toRecipeChoice(ingredient));
+  }
+  if (options.group !== undefined) recipe.setGroup(options.group);
+  if (options.category !== undefined) recipe.setCategory(org.bukkit.inventory.recipe.CraftingBookCategory[options.category]);
+
+  return register(recipe, options);
+}
+
+/**
+ * Register a shapeless crafting recipe.
+ */
+export function registerShapelessRecipe(
+  key: BukkitNamespacedKey | string,
+  options: ShapelessRecipeOptions
+): RegisteredRecipe {
+  if (options.ingredients.length === 0 || options.ingredients.length > 9) {
+    throw new Error("A shapeless recipe needs 1-9 ingredients");
+  }
+
+  const recipe = new org.bukkit.inventory.ShapelessRecipe(toPluginKey(key), resultStack(options));
+  for (const ingredient of options.ingredients) {
+    recipe.addIngredient(toRecipeChoice(ingredient));
+  }
+  if (options.group !== undefined) recipe.setGroup(options.group);
+  if (options.category !== undefined) recipe.setCategory(org.bukkit.inventory.recipe.CraftingBookCategory[options.category]);
+
+  return register(recipe, options);
+}
+
+/**
+ * Register a furnace, blast furnace, smoker or campfire recipe.
+ */
+export function registerFurnaceRecipe(key: BukkitNamespacedKey | string, options: CookingRecipeOptions): RegisteredRecipe {
+  const station = options.station ?? "furnace";
+  const recipe = new COOKING_CLASSES[station](
+    toPluginKey(key),
+    resultStack(options),
+    toRecipeChoice(options.input),
+    options.experience ?? 0,
+    options.cookingTime ?? DEFAULT_COOKING_TIME[station]
+  );
+  if (options.group !== undefined) recipe.setGroup(options.group);
+  if (options.category !== undefined) recipe.setCategory(org.bukkit.inventory.recipe.CookingBookCategory[options.category]);
+
+  return register(recipe, options);
+}
+
+/**
+ * Register a smithing table recipe (template + base + addition).
+ */
+export function registerSmithingRecipe(key: BukkitNamespacedKey | string, options: SmithingRecipeOptions): RegisteredRecipe {
+  const recipe = new org.bukkit.inventory.SmithingTransformRecipe(
+    toPluginKey(key),
+    resultStack(options),
+    toRecipeChoice(options.template),
+    toRecipeChoice(options.base),
+    toRecipeChoice(options.addition)
+  );
+  return register(recipe, options);
+}
+
+/**
+ * Register a stonecutter recipe.
+ */
+export function registerStonecuttingRecipe(
+  key: BukkitNamespacedKey | string,
+  options: StonecuttingRecipeOptions
+): RegisteredRecipe {
+  const recipe = new org.bukkit.inventory.StonecuttingRecipe(toPluginKey(key), resultStack(options), toRecipeChoice(options.input));
+  if (options.group !== undefined) recipe.setGroup(options.group);
+
+  return register(recipe, options);
+}
+
+/**
+ * A recipe registered by this plugin, or null.
+ */
+export function getRegisteredRecipe(key: BukkitNamespacedKey | string): RegisteredRecipe | null {
+  return registered.get(toPluginKey(key).toString()) ?? null;
+}
+
+/**
+ * Add recipes to a player's recipe book.
+ *
+ * @example discoverRecipes(player, wandRecipe, staffRecipe);
+ */
+export function discoverRecipes(player: BukkitPlayer, ...recipes: RegisteredRecipe[]): void {
+  player.discoverRecipes(arrayToList(recipes.map(recipe => recipe.key)));
+}
+
+/**
+ * Remove every recipe this plugin registered (done on disable).
+ */
+export function unregisterAllRecipes(): void {
+  for (const recipe of [...registered.values()]) recipe.unregister();
+}
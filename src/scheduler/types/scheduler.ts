@@ -0,0 +1,429 @@
+/**
+ * DESIGN
+ * ------
+ * Task scheduling on top of BukkitScheduler.
+ *
+ * Minecraft runs on a fixed 20 ticks per second loop. Plugins never sleep
+ * or block: they ask the scheduler to call them back on a later tick.
+ *
+ *   ┌──────────────────────────────────────────────────────────────┐
+ *   │                       SERVER MAIN THREAD                     │
+ *   │                                                              │
+ *   │  tick 0 ── tick 1 ── tick 2 ── ... ── tick 20 ── tick 40 ──► │
+ *   │    │                                    │          │         │
+ *   │    ├─ runLater(20, fn) ─────────────────┘          │         │
+ *   │    └─ runTimer(20, 20, fn) ─────────────┴──────────┴── ...   │
+ *   │                                                              │
+ *   ├──────────────────────────────────────────────────────────────┤
+ *   │                     ASYNC WORKER THREADS                     │
+ *   │    └─ runAsync(fn)  (no Bukkit API calls in here!)           │
+ *   └──────────────────────────────────────────────────────────────┘
+ *
+ * SYNC vs ASYNC:
+ * - Sync tasks run on the main thread, between ticks. Safe for all
+ *   Bukkit API calls, but block the server while they run.
+ * - Async tasks run on worker threads. Use them only for slow work that
+ *   doesn't touch the world (file/database/HTTP I/O), then hop back with
+ *   runTask() to apply the result.
+ *
+ * TASK HANDLES:
+ * Every function returns a Task that can be cancelled. Repeating tasks
+ * also receive their own Task, so they can stop themselves:
+ *
+ *   runTimer(0, 20, task => {
+ *     if (--seconds === 0) task.cancel();
+ *   });
+ *
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/scheduler/BukkitScheduler.html
+ * @see https://hub.spigotmc.org/javadocs/bukkit/org/bukkit/scheduler/BukkitTask.html
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Server ticks per second (when the server isn't lagging) */
+export const TICKS_PER_SECOND = 20;
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Rejection reason of sleepTicks()/sleepSeconds() when the wait is cut
+ * short by cancelAllTasks() or the plugin being disabled.
+ */
+export class TaskCancelledError extends Error {
+  constructor(message = "Task was cancelled") {
+    super(message);
+    this.name = "TaskCancelledError";
+  }
+}
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * A task scheduled with the Bukkit scheduler.
+ */
+export interface BukkitTask {
+  /** Returns the task ID assigned by the scheduler. */
+  getTaskId(): number;
+
+  /** Returns the plugin that owns this task. */
+  getOwner(): any /* BukkitPlugin */;
+
+  /** True if the task runs on the main thread. */
+  isSync(): boolean;
+
+  /** True if the task has been cancelled. */
+  isCancelled(): boolean;
+
+  /** Will attempt to cancel this task. */
+  cancel(): void;
+}
+
+/**
+ * The Bukkit scheduler (only the Runnable-based methods we use).
+ */
+export interface BukkitScheduler {
+  runTask(plugin: any, task: () => void): BukkitTask;
+  runTaskLater(plugin: any, task: () => void, delay: number): BukkitTask;
+  runTaskTimer(plugin: any, task: () => void, delay: number, period: number): BukkitTask;
+  runTaskAsynchronously(plugin: any, task: () => void): BukkitTask;
+  runTaskLaterAsynchronously(plugin: any, task: () => void, delay: number): BukkitTask;
+  runTaskTimerAsynchronously(plugin: any, task: () => void, delay: number, period: number): BukkitTask;
+  cancelTask(taskId: number): void;
+  cancelTasks(plugin: any): void;
+  isCurrentlyRunning(taskId: number): boolean;
+  isQueued(taskId: number): boolean;
+}
+
+/**
+ * Handle to a scheduled task.
+ *
+ * WHY WRAP BukkitTask: A timer's callback needs its own handle to cancel
+ * itself, but Bukkit only hands out the BukkitTask *after* scheduling.
+ * The wrapper exists before the task does, so it can be passed to the
+ * callback. It also answers isCancelled() correctly for one-shot tasks
+ * that already ran.
+ */
+export interface Task {
+  /** Bukkit task ID, or -1 if scheduling failed */
+  readonly taskId: number;
+
+  /** True if the task runs on the main thread */
+  readonly sync: boolean;
+
+  /** True once cancel() was called, or a one-shot task has finished */
+  isCancelled(): boolean;
+
+  /** Stop the task. Safe to call more than once, and from inside the task. */
+  cancel(): void;
+}
+
+// ============================================
+// SCHEDULER ACCESS
+// ============================================
+
+/**
+ * Get the server's scheduler.
+ */
+export function getScheduler(): BukkitScheduler {
+  return org.bukkit.Bukkit.getScheduler();
+}
+
+/**
+ * Convert seconds to ticks.
+ *
+ * @example
+ * runLater(secondsToTicks(5), () => player.sendMessage("5 seconds later"));
+ */
+export function secondsToTicks(seconds: number): number {
+  return Math.round(seconds * TICKS_PER_SECOND);
+}
+
+// ============================================
+// TASK CREATION
+// ============================================
+
+/**
+ * Schedule a callback and wrap it in a Task.
+ *
+ * @param repeating If false, the task counts as finished after its first run
+ */
+function schedule(
+  sync: boolean,
+  repeating: boolean,
+  callback: (task: Task) => void,
+  submit: (runnable: () => void) => BukkitTask
+): Task {
+  let bukkitTask: BukkitTask | null = null;
+  let done = false;
+
+  const task: Task = {
+    get taskId() {
+      return bukkitTask !== null ? bukkitTask.getTaskId() : -1;
+    },
+
+    sync,
+
+    isCancelled(): boolean {
+      return done || (bukkitTask !== null && bukkitTask.isCancelled());
+    },
+
+    cancel(): void {
+      if (done) return;
+      done = true;
+      if (bukkitTask !== null) bukkitTask.cancel();
+    },
+  };
+
+  bukkitTask = submit(() => {
+    if (done) return;
+    if (!repeating) done = true;
+    callback(task);
+  });
+
+  return task;
+}
+
+/**
+ * Run on the main thread on the next tick.
+ *
+ * Useful to leave the current event handler before acting, e.g. closing
+ * an inventory from inside an InventoryClickEvent.
+ *
+ * @example
+ * runTask(() => player.closeInventory());
+ */
+export function runTask(fn: (task: Task) => void): Task {
+  const plugin = PaperTS.getJavaPlugin();
+  return schedule(true, false, fn, runnable => getScheduler().runTask(plugin, runnable));
+}
+
+/**
+ * Run on the main thread after a delay.
+ *
+ * @param ticks Delay in ticks (20 ticks = 1 second)
+ *
+ * @example
+ * runLater(60, () => world.createExplosion(loc, 4));  // in 3 seconds
+ */
+export function runLater(ticks: number, fn: (task: Task) => void): Task {
+  const plugin = PaperTS.getJavaPlugin();
+  return schedule(true, false, fn, runnable => getScheduler().runTaskLater(plugin, runnable, ticks));
+}
+
+/**
+ * Run on the main thread repeatedly.
+ *
+ * @param delay Ticks before the first run
+ * @param period Ticks between runs
+ *
+ * @example
+ * const task = runTimer(0, 20, () => updateScoreboard());
+ * // later:
+ * task.cancel();
+ */
+export function runTimer(delay: number, period: number, fn: (task: Task) => void): Task {
+  const plugin = PaperTS.getJavaPlugin();
+  return schedule(true, true, fn, runnable => getScheduler().runTaskTimer(plugin, runnable, delay, period));
+}
+
+/**
+ * Run on a worker thread, as soon as possible.
+ *
+ * WARNING: Do not call the Bukkit API (worlds, entities, inventories)
+ * from an async task. Do the slow part here, then runTask() the result
+ * back onto the main thread.
+ *
+ * @example
+ * runAsync(() => {
+ *   const data = loadFromDisk(uuid);
+ *   runTask(() => applyData(player, data));
+ * });
+ */
+export function runAsync(fn: (task: Task) => void): Task {
+  const plugin = PaperTS.getJavaPlugin();
+  return schedule(false, false, fn, runnable => getScheduler().runTaskAsynchronously(plugin, runnable));
+}
+
+/**
+ * Run on a worker thread after a delay.
+ *
+ * @param ticks Delay in ticks
+ */
+export function runAsyncLater(ticks: number, fn: (task: Task) => void): Task {
+  const plugin = PaperTS.getJavaPlugin();
+  return schedule(false, false, fn, runnable => getScheduler().runTaskLaterAsynchronously(plugin, runnable, ticks));
+}
+
+/**
+ * Run on a worker thread repeatedly.
+ *
+ * @param delay Ticks before the first run
+ * @param period Ticks between runs
+ */
+export function runAsyncTimer(delay: number, period: number, fn: (task: Task) => void): Task {
+  const plugin = PaperTS.getJavaPlugin();
+  return schedule(false, true, fn, runnable => getScheduler().runTaskTimerAsynchronously(plugin, runnable, delay, period));
+}
+
+// ============================================
+// PROMISES
+// ============================================
+
+/**
+ * Wait a number of ticks, then continue on the main thread.
+ *
+ * WHY A PROMISE: Sequences like "countdown, then teleport, then wait,
+ * then start" turn into nested callbacks with runLater(). With await
+ * they read top to bottom:
+ *
+ *   for (let i = 3; i > 0; i--) {
+ *     broadcast(`Starting in ${i}...`);
+ *     await sleepTicks(20);
+ *   }
+ *   startGame();
+ *
+ * If the wait is cut short - cancelAllTasks(), or the plugin being
+ * disabled - the promise rejects with TaskCancelledError. The code after
+ * the await doesn't run, but catch/finally blocks around it do:
+ *
+ *   try {
+ *     await sleepTicks(200);
+ *     endRound();
+ *   } finally {
+ *     bar.removeAll();  // also on disable
+ *   }
+ *
+ * @param ticks Ticks to wait (0 = next tick)
+ */
+export function sleepTicks(ticks: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const task = runLater(ticks, () => {
+      sleeping.delete(task);
+      resolve();
+    });
+
+    const cancel = task.cancel;
+    task.cancel = () => {
+      sleeping.delete(task);
+      cancel.call(task);
+      /* No-op if the sleep already resolved */
+      reject(new TaskCancelledError());
+    };
+
+    sleeping.add(task);
+    hookDisable();
+  });
+}
+
+/**
+ * Wait a number of seconds, then continue on the main thread.
+ * Rejects like sleepTicks() when cut short.
+ *
+ * @example
+ * await sleepSeconds(5);
+ */
+export function sleepSeconds(seconds: number): Promise<void> {
+  return sleepTicks(secondsToTicks(seconds));
+}
+
+/**
+ * Compute a value on a worker thread, then continue on the main thread.
+ *
+ * Same rule as runAsync(): fn must not touch the Bukkit API. Errors
+ * thrown by fn reject the promise (on the main thread too).
+ *
+ * If the plugin is disabled before the task runs, the promise never
+ * settles - code that must finish on shutdown has to run synchronously.
+ *
+ * @example
+ * const text = await supplyAsync(() => java.nio.file.Files.readString(path));
+ * player.sendMessage(text);  // main thread again
+ */
+export function supplyAsync<T>(fn: () => T): Promise<T> {
+  return new Promise((resolve, reject) => {
+    runAsync(() => {
+      try {
+        const value = fn();
+        runTask(() => resolve(value));
+      } catch (error) {
+        runTask(() => reject(error));
+      }
+    });
+  });
+}
+
+// ============================================
+// COUNTDOWN
+// ============================================
+
+/**
+ * Count down once per second, then run a final callback.
+ *
+ * onTick receives the seconds remaining (from, from-1, ..., 1).
+ * onFinish runs one second after the last tick. Cancelling the returned
+ * task stops the countdown without calling onFinish.
+ *
+ * @example
+ * countdown(10, left => bar.setTitle(`Starting in ${left}s`), () => startGame());
+ */
+export function countdown(
+  from: number,
+  onTick: (remaining: number) => void,
+  onFinish: () => void
+): Task {
+  let remaining = from;
+
+  return runTimer(0, TICKS_PER_SECOND, task => {
+    if (remaining <= 0) {
+      task.cancel();
+      onFinish();
+      return;
+    }
+    onTick(remaining);
+    remaining--;
+  });
+}
+
+/**
+ * Cancel every task scheduled by this plugin.
+ *
+ * Used on disable/reload so no timer keeps calling into stale code.
+ */
+export function cancelAllTasks(): void {
+  cancelSleeping();
+  getScheduler().cancelTasks(PaperTS.getJavaPlugin());
+}
+
+// ============================================
+// PENDING SLEEPS
+// ============================================
+
+/**
+ * Tasks of sleepTicks() promises that haven't settled yet.
+ *
+ * WHY TRACK THEM: Bukkit cancels tasks silently - a cancelled runnable
+ * just never runs. Without this list a sleep cut short by a disable
+ * would leave its promise pending forever, skipping finally blocks.
+ */
+const sleeping = new Set<Task>();
+
+let disableHooked = false;
+
+function cancelSleeping(): void {
+  for (const task of [...sleeping]) task.cancel();
+}
+
+function hookDisable(): void {
+  if (disableHooked) return;
+  disableHooked = true;
+  PaperTS.onDisable(() => {
+    cancelSleeping();
+    disableHooked = false;
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * DESIGN
+ * ------
+ * Where stored records live: one record per id, behind a small interface.
+ *
+ * PlayerDataStore (and anything else keeping records by id) only talks
+ * to a DataBackend, so the storage can change without touching plugin
+ * code:
+ *
+ *   ┌──────────────────┐        ┌─────────────────────────────────┐
+ *   │ PlayerDataStore  │ ─────→ │ DataBackend<T>                  │
+ *   │ (cache, events)  │        │   jsonFileBackend  (this file)  │
+ *   └──────────────────┘        │   JDBC, Redis, ... (later)      │
+ *                               └─────────────────────────────────┘
+ *
+ * THREADING:
+ * load/save/delete/list return promises and do their I/O on a worker
+ * thread (supplyAsync), resolving back on the main thread. saveNow() is
+ * the one blocking call: while the plugin is being disabled, scheduled
+ * tasks no longer run, so the last save has to happen inline.
+ *
+ * WHY saveNow() WAITS FOR SAVES IN FLIGHT: At shutdown a worker thread
+ * may still be writing an older version of the same record. saveNow()
+ * blocks until that write is done, and a save queued before saveNow()
+ * but not started yet is skipped - otherwise it would overwrite the
+ * newer record with the older one.
+ *
+ * RECORDS:
+ * Records are plain JSON data (objects, arrays, strings, numbers,
+ * booleans, null). Java objects (UUIDs, locations, items) must be
+ * converted first, e.g. uuid.toString().
+ */
+
+import { supplyAsync } from "../../scheduler/types/scheduler";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * Storage for records by id.
+ *
+ * @typeParam T Record type (plain JSON data)
+ */
+export interface DataBackend<T> {
+  /** Read a record, or null if there is none */
+  load(id: string): Promise<T | null>;
+
+  /** Create or replace a record */
+  save(id: string, value: T): Promise<void>;
+
+  /**
+   * Create or replace a record, blocking the calling thread (for shutdown).
+   * Waits for a save() of the same record already writing; a save() that
+   * hasn't started yet doesn't overwrite this value.
+   */
+  saveNow(id: string, value: T): void;
+
+  /** Delete a record (no error if there is none) */
+  delete(id: string): Promise<void>;
+
+  /** Ids of all stored records */
+  list(): Promise<string[]>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Ids become file names: keep them to characters every filesystem accepts.
+ */
+function checkId(id: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new Error(`Invalid record id "${id}" (use letters, digits, _ and -)`);
+  }
+  return id;
+}
+
+// ============================================
+// JSON FILES
+// ============================================
+
+/**
+ * Store each record as a JSON file in the plugin's data folder.
+ *
+ *   plugins/<plugin>/<folder>/<id>.json
+ *
+ * Files are written to "<id>.json.tmp" first and then moved over the
+ * old file, so a crash mid-write never leaves a half-written record.
+ * Writes hold a lock, so two threads never share the temporary file.
+ *
+ * @param folder Folder inside the data folder (created on first save)
+ *
+ * @example
+ * const backend = jsonFileBackend<Stats>("stats");
+ * await backend.save(uuid.toString(), { kills: 3 });
+ */
+export function jsonFileBackend<T>(folder: string): DataBackend<T> {
+  const Files = java.nio.file.Files;
+  const StandardCopyOption = java.nio.file.StandardCopyOption;
+
+  const directory = () => new java.io.File(PaperTS.getJavaPlugin().getDataFolder(), folder);
+  const pathOf = (id: string) => new java.io.File(directory(), `${checkId(id)}.json`).toPath();
+
+  /* Held while writing, by the main thread or a worker */
+  const lock = new java.util.concurrent.locks.ReentrantLock();
+
+  /* Saves are numbered when requested; newest number written, by id */
+  let requested = 0;
+  const written = new Map<string, number>();
+
+  function read(id: string): T | null {
+    const path = pathOf(id);
+    if (!Files.exists(path)) return null;
+
+    const text: string = Files.readString(path);
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new Error(`Corrupt data file ${path}: ${error}`, { cause: error });
+    }
+  }
+
+  function write(id: string, value: T, sequence: number): void {
+    lock.lock();
+    try {
+      /* A later save (saveNow() at shutdown) got here first */
+      if ((written.get(id) ?? 0) > sequence) return;
+
+      const path = pathOf(id);
+      const temporary = path.resolveSibling(`${id}.json.tmp`);
+      Files.createDirectories(directory().toPath());
+      Files.writeString(temporary, JSON.stringify(value, null, 2));
+      Files.move(temporary, path, StandardCopyOption.REPLACE_EXISTING, StandardCopyOption.ATOMIC_MOVE);
+      written.set(id, sequence);
+    } finally {
+      lock.unlock();
+    }
+  }
+
+  return {
+    load: id => supplyAsync(() => read(id)),
+
+    save: (id, value) => {
+      const sequence = ++requested;
+      return supplyAsync(() => write(id, value, sequence));
+    },
+
+    saveNow: (id, value) => write(id, value, ++requested),
+
+    delete: id =>
+      supplyAsync(() => {
+        Files.deleteIfExists(pathOf(id));
+      }),
+
+    list: () =>
+      supplyAsync(() => {
+        const names: string[] | null = directory().list();
+        return Array.from(names ?? [], name => String(name))
+          .filter(name => name.endsWith(".json"))
+          .map(name => name.substring(0, name.length - ".json".length));
+      }),
+  };
+}
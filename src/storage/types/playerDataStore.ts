@@ -0,0 +1,505 @@
+/**
+ * DESIGN
+ * ------
+ * Per-player records, loaded on join, cached while online and saved in
+ * the background.
+ *
+ * Every plugin with stats, balances or unlocks ends up writing the same
+ * code: load on join, keep a Map<uuid, record>, save on quit, save every
+ * few minutes in case of a crash, and don't block the main thread while
+ * doing it. createPlayerDataStore() is that code, once:
+ *
+ *   const stats = createPlayerDataStore({
+ *     name: "stats",
+ *     defaults: () => ({ kills: 0, deaths: 0 }),
+ *   });
+ *
+ *   stats.update(player, s => { s.kills++; });
+ *   stats.get(player).kills;
+ *
+ * LIFECYCLE OF A RECORD:
+ *
+ *   PlayerJoinEvent ──→ load (worker thread) ──→ cached ──→ get()/update()
+ *                                                   │
+ *                        autosave (every N sec) ←───┤  only if changed
+ *                                                   │
+ *   PlayerQuitEvent ──→ save (worker thread) ←──────┘  then evicted
+ *
+ * WHY CHANGES ARE DETECTED BY SNAPSHOT: Records are plain objects that
+ * plugin code mutates directly. Instead of asking for markDirty() calls
+ * (one forgotten call = lost progress), the store remembers the JSON it
+ * last loaded or saved and writes only when the JSON differs.
+ *
+ * WHY LOADING ON JOIN IS ASYNC: Reading a file on the main thread stalls
+ * every player for the duration. The record is therefore not available
+ * during the join event itself: use ready(player) there.
+ *
+ * ORDERING:
+ * Saves of one player are chained, and loads wait for pending saves. A
+ * player who quits and rejoins immediately always gets the record that
+ * was just saved, never the older file. modify() of an offline player
+ * runs its whole load → change → save in the same chain, so two
+ * modify() calls never both start from the same stored record.
+ *
+ * SHUTDOWN:
+ * dispose() saves synchronously (tasks don't run while the plugin is
+ * being disabled). A save already writing on a worker thread can't be
+ * awaited there: backend.saveNow() waits for it instead, and saves
+ * still queued are skipped as outdated. Track the store in a
+ * PaperPlugin: this.track(store).
+ *
+ * OFFLINE PLAYERS:
+ * find()/load()/modify() work by UUID whether the player is online or
+ * not; online players are served from the cache so nothing is lost.
+ */
+
+import { EventPlayerJoinEvent, PlayerJoinEvent } from "../../events/types/player/playerJoinEvent";
+import { EventPlayerQuitEvent, PlayerQuitEvent } from "../../events/types/player/playerQuitEvent";
+import { HandlerList } from "../../events/types/handlerList";
+import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
+import { fromUUIDString, JavaUUID } from "../../java/types/uuid";
+import { runTimer, secondsToTicks, Task } from "../../scheduler/types/scheduler";
+import { DataBackend, jsonFileBackend } from "./dataBackend";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export interface PlayerDataStoreOptions<T> {
+  /** Name used in log messages, and the default folder (plugins/<plugin>/<name>/) */
+  name: string;
+
+  /**
+   * Record for a player without stored data.
+   * Also fills in fields missing from older records (shallow merge).
+   */
+  defaults: (uuid: JavaUUID) => T;
+
+  /** Storage. Default: jsonFileBackend(name) */
+  backend?: DataBackend<T>;
+
+  /** Seconds between saves of changed records. 0 disables. Default 300 */
+  autosaveSeconds?: number;
+}
+
+/**
+ * Cached per-player records with background persistence.
+ *
+ * @typeParam T Record type (plain JSON data)
+ */
+export interface PlayerDataStore<T> {
+  /** Name given in the options */
+  readonly name: string;
+
+  /**
+   * Record of an online player.
+   * @throws Error if the record isn't loaded yet (use ready())
+   */
+  get(player: BukkitPlayer): T;
+
+  /** Record of an online player, or null if not loaded */
+  peek(player: BukkitPlayer): T | null;
+
+  /**
+   * Wait until an online player's record is loaded.
+   *
+   * @example
+   * @EventHandler(PlayerJoinEvent)
+   * async onJoin(event: EventPlayerJoinEvent) {
+   *   const data = await stats.ready(event.getPlayer());
+   *   event.getPlayer().sendMessage(`Kills: ${data.kills}`);
+   * }
+   */
+  ready(player: BukkitPlayer): Promise<T>;
+
+  /** Replace an online player's record */
+  set(player: BukkitPlayer, value: T): void;
+
+  /**
+   * Change an online player's record.
+   * Return a new record, or mutate the given one and return nothing.
+   */
+  update(player: BukkitPlayer, fn: (value: T) => T | void): T;
+
+  /** Record of any player, or null if none is stored */
+  find(uuid: JavaUUID): Promise<T | null>;
+
+  /** Record of any player, or the defaults if none is stored */
+  load(uuid: JavaUUID): Promise<T>;
+
+  /**
+   * Change the record of any player and save it.
+   * Online players are changed in the cache (saved like any change).
+   *
+   * @example
+   * await stats.modify(targetUuid, s => { s.kills = 0; });
+   */
+  modify(uuid: JavaUUID, fn: (value: T) => T | void): Promise<T>;
+
+  /** Delete a stored record (an online player's is reset to the defaults) */
+  delete(uuid: JavaUUID): Promise<void>;
+
+  /**
+   * Every stored record, with online players' cached versions.
+   *
+   * @example
+   * const top = (await stats.all())
+   *   .sort((a, b) => b.value.kills - a.value.kills)
+   *   .slice(0, 10);
+   */
+  all(): Promise<Array<{ uuid: JavaUUID; value: T }>>;
+
+  /** Save an online player's record now (if changed) */
+  save(player: BukkitPlayer): Promise<void>;
+
+  /** Save every changed cached record now */
+  saveAll(): Promise<void>;
+
+  /** Stop listening, stop autosaving and save everything synchronously */
+  dispose(): void;
+}
+
+/** A cached record and the JSON it was last loaded or saved as */
+interface CacheEntry<T> {
+  value: T;
+  snapshot: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Fill fields added to the record type since the record was saved.
+ */
+function withDefaults<T>(stored: T, defaults: T): T {
+  return isPlainObject(stored) && isPlainObject(defaults) ? { ...defaults, ...stored } : stored;
+}
+
+function applyChange<T>(value: T, fn: (value: T) => T | void): T {
+  const result = fn(value);
+  return result === undefined ? value : result;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Create a player data store and start tracking online players.
+ *
+ * Players already online (after a reload) are loaded right away.
+ *
+ * @example
+ * interface Economy { balance: number; history: string[] }
+ *
+ * class Bank extends PaperPlugin {
+ *   readonly accounts = createPlayerDataStore<Economy>({
+ *     name: "accounts",
+ *     defaults: () => ({ balance: 100, history: [] }),
+ *   });
+ *
+ *   protected onEnable(): void {
+ *     this.track(this.accounts);
+ *   }
+ * }
+ */
+export function createPlayerDataStore<T>(options: PlayerDataStoreOptions<T>): PlayerDataStore<T> {
+  const { name, defaults } = options;
+  const backend = options.backend ?? jsonFileBackend<T>(name);
+  const autosaveSeconds = options.autosaveSeconds ?? 300;
+  const logger = PaperTS.getJavaPlugin().getLogger();
+
+  /** Records of online players, by UUID string */
+  const cache = new Map<string, CacheEntry<T>>();
+
+  /** Loads in progress, by UUID string */
+  const loading = new Map<string, Promise<T>>();
+
+  /** Tail of each player's save chain */
+  const writes = new Map<string, Promise<void>>();
+
+  /** Records handed to a save that hasn't finished (saved again on dispose) */
+  const unsaved = new Map<string, T>();
+
+  let disposed = false;
+
+  // ---- Persistence ----
+
+  /**
+   * Read a record from the backend, without waiting for pending saves.
+   */
+  async function readStored(id: string): Promise<T | null> {
+    const stored = await backend.load(id);
+    return stored === null ? null : withDefaults(stored, defaults(fromUUIDString(id)));
+  }
+
+  /**
+   * Read a record, after any pending save of the same player.
+   */
+  async function fetch(id: string): Promise<T | null> {
+    await writes.get(id);
+    return readStored(id);
+  }
+
+  /**
+   * Run a task at the end of a player's save chain.
+   * The chain goes on whether the task fails or not; the returned
+   * promise still rejects with the task's error.
+   */
+  function enqueue<R>(id: string, task: () => Promise<R>): Promise<R> {
+    const result = (writes.get(id) ?? Promise.resolve()).then(task);
+
+    const chain: Promise<void> = result
+      .then(() => {}, () => {})
+      .finally(() => {
+        if (writes.get(id) === chain) writes.delete(id);
+      });
+
+    writes.set(id, chain);
+    return result;
+  }
+
+  /**
+   * Save a copy of a value, remembered in `unsaved` until it is written.
+   */
+  async function write(id: string, copy: T): Promise<void> {
+    unsaved.set(id, copy);
+    try {
+      await backend.save(id, copy);
+    } finally {
+      if (unsaved.get(id) === copy) unsaved.delete(id);
+    }
+  }
+
+  /**
+   * Queue a save of a value. The copy is taken now, on the main thread.
+   */
+  function persist(id: string, value: T, entry?: CacheEntry<T>): Promise<void> {
+    const json = JSON.stringify(value);
+    if (entry !== undefined) entry.snapshot = json;
+
+    const copy = JSON.parse(json) as T;
+    unsaved.set(id, copy);
+
+    return enqueue(id, () => write(id, copy)).catch(error => {
+      logger.severe(`Could not save ${name} data of ${id}: ${error}`);
+      /* Make the next autosave try again */
+      if (entry !== undefined && entry.snapshot === json) entry.snapshot = "";
+    });
+  }
+
+  /**
+   * Save a cached record if it changed since the last load or save.
+   */
+  function saveIfChanged(id: string, entry: CacheEntry<T>): Promise<void> {
+    if (JSON.stringify(entry.value) === entry.snapshot) {
+      return writes.get(id) ?? Promise.resolve();
+    }
+    return persist(id, entry.value, entry);
+  }
+
+  // ---- Online players ----
+
+  function startLoading(player: BukkitPlayer): Promise<T> {
+    const uuid = player.getUniqueId();
+    const id = uuid.toString();
+    const pending = loading.get(id);
+    if (pending !== undefined) return pending;
+
+    const promise = fetch(id)
+      .then(stored => {
+        const value = stored ?? defaults(uuid);
+        /*
+         * Look the player up again: one who quit and rejoined while we
+         * were loading is a new Player object, and `player` is offline.
+         * Quit and still gone: nothing to cache, nothing changed.
+         */
+        if (org.bukkit.Bukkit.getPlayer(uuid) !== null && !disposed) {
+          cache.set(id, { value, snapshot: stored === null ? "" : JSON.stringify(value) });
+        }
+        return value;
+      })
+      .catch(error => {
+        logger.severe(`Could not load ${name} data of ${player.getName()}: ${error}`);
+        throw error;
+      })
+      .finally(() => {
+        if (loading.get(id) === promise) loading.delete(id);
+      });
+
+    loading.set(id, promise);
+    /* Errors are logged above; callers of ready() still see them */
+    promise.catch(() => {});
+    return promise;
+  }
+
+  function release(player: BukkitPlayer): void {
+    const id = player.getUniqueId().toString();
+    const entry = cache.get(id);
+    if (entry === undefined) return;
+
+    cache.delete(id);
+    saveIfChanged(id, entry);
+  }
+
+  function entryOf(player: BukkitPlayer): CacheEntry<T> {
+    const entry = cache.get(player.getUniqueId().toString());
+    if (entry === undefined) {
+      throw new Error(`${name} data of ${player.getName()} is not loaded (use ready())`);
+    }
+    return entry;
+  }
+
+  const listeners = [
+    PaperTS.registerEvent<EventPlayerJoinEvent>(PlayerJoinEvent, event => {
+      startLoading(event.getPlayer());
+    }),
+    PaperTS.registerEvent<EventPlayerQuitEvent>(PlayerQuitEvent, event => {
+      release(event.getPlayer());
+    }),
+  ];
+
+  const autosave: Task | null = autosaveSeconds > 0
+    ? runTimer(secondsToTicks(autosaveSeconds), secondsToTicks(autosaveSeconds), () => {
+        for (const [id, entry] of cache) saveIfChanged(id, entry);
+      })
+    : null;
+
+  const online = org.bukkit.Bukkit.getOnlinePlayers().iterator();
+  while (online.hasNext()) {
+    startLoading(online.next());
+  }
+
+  // ---- Store ----
+
+  const store: PlayerDataStore<T> = {
+    name,
+
+    get: player => entryOf(player).value,
+
+    peek: player => cache.get(player.getUniqueId().toString())?.value ?? null,
+
+    ready(player: BukkitPlayer): Promise<T> {
+      const entry = cache.get(player.getUniqueId().toString());
+      if (entry !== undefined) return Promise.resolve(entry.value);
+      if (!player.isOnline()) {
+        return Promise.reject(new Error(`${player.getName()} is offline (use load())`));
+      }
+      return startLoading(player);
+    },
+
+    set(player: BukkitPlayer, value: T): void {
+      entryOf(player).value = value;
+    },
+
+    update(player: BukkitPlayer, fn: (value: T) => T | void): T {
+      const entry = entryOf(player);
+      entry.value = applyChange(entry.value, fn);
+      return entry.value;
+    },
+
+    async find(uuid: JavaUUID): Promise<T | null> {
+      const id = uuid.toString();
+      const cached = cache.get(id);
+      if (cached !== undefined) return cached.value;
+      return fetch(id);
+    },
+
+    async load(uuid: JavaUUID): Promise<T> {
+      return (await store.find(uuid)) ?? defaults(uuid);
+    },
+
+    async modify(uuid: JavaUUID, fn: (value: T) => T | void): Promise<T> {
+      const id = uuid.toString();
+
+      /* Joined and still loading: change the cached record once it's there */
+      await loading.get(id)?.catch(() => {});
+
+      const cached = cache.get(id);
+      if (cached !== undefined) {
+        cached.value = applyChange(cached.value, fn);
+        return cached.value;
+      }
+
+      /*
+       * Offline: load, change and save as one step of the save chain, so
+       * a concurrent modify() starts from this one's result. A join in
+       * the meantime waits for the chain too (see fetch()).
+       */
+      return enqueue(id, async () => {
+        const changed = applyChange((await readStored(id)) ?? defaults(uuid), fn);
+        await write(id, JSON.parse(JSON.stringify(changed)) as T);
+        return changed;
+      });
+    },
+
+    async delete(uuid: JavaUUID): Promise<void> {
+      const id = uuid.toString();
+      const cached = cache.get(id);
+      if (cached !== undefined) {
+        cached.value = defaults(uuid);
+        cached.snapshot = "";
+      }
+      await writes.get(id);
+      await backend.delete(id);
+    },
+
+    async all(): Promise<Array<{ uuid: JavaUUID; value: T }>> {
+      const ids = new Set(await backend.list());
+      for (const id of cache.keys()) ids.add(id);
+
+      const result: Array<{ uuid: JavaUUID; value: T }> = [];
+      for (const id of ids) {
+        const value = cache.get(id)?.value ?? (await fetch(id));
+        if (value !== null) result.push({ uuid: fromUUIDString(id), value });
+      }
+      return result;
+    },
+
+    save(player: BukkitPlayer): Promise<void> {
+      return saveIfChanged(player.getUniqueId().toString(), entryOf(player));
+    },
+
+    async saveAll(): Promise<void> {
+      await Promise.all(Array.from(cache, ([id, entry]) => saveIfChanged(id, entry)));
+    },
+
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+
+      for (const listener of listeners) {
+        HandlerList.unregisterAll(listener);
+      }
+      autosave?.cancel();
+
+      /*
+       * Saves still queued may never run now: write them inline.
+       * saveNow() waits for a save already writing the same record.
+       */
+      for (const [id, value] of unsaved) {
+        trySaveNow(id, value);
+      }
+      for (const [id, entry] of cache) {
+        if (JSON.stringify(entry.value) !== entry.snapshot) trySaveNow(id, entry.value);
+      }
+      unsaved.clear();
+      cache.clear();
+    },
+  };
+
+  function trySaveNow(id: string, value: T): void {
+    try {
+      backend.saveNow(id, value);
+    } catch (error) {
+      logger.severe(`Could not save ${name} data of ${id}: ${error}`);
+    }
+  }
+
+  return store;
+}
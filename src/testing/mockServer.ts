@@ -0,0 +1,780 @@
+/**
+ * DESIGN
+ * ------
+ * An in-memory Paper server for unit-testing plugins in plain Node.
+ *
+ * Plugin code talks to three globals: `org.*` (Bukkit classes), `Java`
+ * (the Javet bridge) and `PaperTS` (event/command registration).
+ * installMockServer() replaces all three with in-memory stand-ins:
+ *
+ *   ┌────────────────────┐      ┌──────────────────────────────────┐
+ *   │  plugin code       │      │  MockServer                      │
+ *   │                    │      │                                  │
+ *   │  @EventHandler ────┼────→ │  event bus   ← server.callEvent  │
+ *   │  @Command ─────────┼────→ │  commands    ← dispatchCommand   │
+ *   │  runLater() ───────┼────→ │  scheduler   ← performTicks      │
+ *   │  Bukkit.getWorld() ┼────→ │  players, worlds, inventories    │
+ *   └────────────────────┘      └──────────────────────────────────┘
+ *
+ * USAGE:
+ *
+ *   import { installMockServer } from "../src/testing/mockServer";
+ *
+ *   const server = installMockServer();
+ *   const { default: plugin } = await import("../src/myPlugin");  // AFTER install
+ *   registerPlugin(plugin);
+ *
+ *   const steve = server.joinPlayer("Steve");
+ *   server.dispatchCommand(steve, "heal");
+ *   expect(steve.nextMessage()).toBe("§aHealed!");
+ *
+ *   server.uninstall();
+ *
+ * IMPORT ORDER MATTERS:
+ * Framework modules read Java constants when they are imported
+ * (`Material.STONE = org.bukkit.Material.STONE`). Install the mock server
+ * before importing plugin code - in a test setup file, or with a dynamic
+ * import as above. This module itself only imports type-free mock code.
+ *
+ * WHAT IS NOT SIMULATED:
+ * - Game mechanics (physics, mobs, damage, block drops)
+ * - Events the server would fire by itself: tests fire them explicitly
+ * - Threads: async tasks run on the test thread, during performTicks()
+ */
+
+import { createMockBossBar } from "./types/mockBossBar";
+import { parseMockComponents } from "./types/mockChat";
+import { createMockFileSystem } from "./types/mockFiles";
+import { createMockEventBus, createMockEvent, MockEventBus, MockEventFields } from "./types/mockEvents";
+import { mockList, mockMap, mockSet } from "./types/mockCollections";
+import { completedMockFuture, createMockFuture } from "./types/mockFuture";
+import { createMockInventory } from "./types/mockInventory";
+import {
+  constructNamespacedKey,
+  createMockItemStack,
+  createMockPotionEffect,
+  deserializeMockItemBytes,
+  deserializeMockItemJson,
+  mockBase64,
+  namespacedKeyFromString,
+  parseMockJson,
+  serializeMockItemJson,
+} from "./types/mockItems";
+import {
+  clearMockClasses,
+  createMockJavaBridge,
+  mockClassNode,
+  mockEnumConstant,
+  mockJavaClass,
+  mockPackageNode,
+  mockUUID,
+  nextMockUUID,
+  registerMockClass,
+  setHandlerListProvider,
+  tagJavaTypes,
+} from "./types/mockJava";
+import { createMockConsole, createMockPlayer, MockPlayer, MockPlayerOptions, MockSender } from "./types/mockPlayer";
+import { createMockRecipeBook, createMockRecipeChoice, mockRecipeConstructor } from "./types/mockRecipes";
+import { createMockScheduler, MockScheduler } from "./types/mockScheduler";
+import { createMockBlockData, createMockLocation, createMockVector, createMockWorld } from "./types/mockWorld";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export interface MockServerOptions {
+  /** Name of the mock plugin (namespace of its NamespacedKeys). Default "MockPlugin" */
+  pluginName?: string;
+
+  /** Name of the default world. Default "world" */
+  worldName?: string;
+}
+
+export interface MockServer {
+  /** The mock JavaPlugin returned by PaperTS.getJavaPlugin() */
+  readonly plugin: any;
+
+  /** The console sender */
+  readonly console: MockSender;
+
+  /** The manually driven scheduler */
+  readonly scheduler: MockScheduler;
+
+  /** The world players spawn in */
+  readonly defaultWorld: any;
+
+  // ---- Players ----
+
+  /** Put a player online without firing any event */
+  addPlayer(nameOrOptions: string | MockPlayerOptions): MockPlayer;
+
+  /** Put a player online and fire PlayerJoinEvent (join message is broadcast) */
+  joinPlayer(nameOrOptions: string | MockPlayerOptions): MockPlayer;
+
+  /** Fire PlayerQuitEvent and take the player offline */
+  quitPlayer(player: MockPlayer): void;
+
+  /** Online players, in join order */
+  getOnlinePlayers(): MockPlayer[];
+
+  /** Online player by exact name (case-insensitive), or null */
+  getPlayer(name: string): MockPlayer | null;
+
+  // ---- Worlds ----
+
+  /** Create a world (or return the existing one with that name) */
+  addWorld(name: string): any;
+
+  /** World by name, or null */
+  getWorld(name: string): any;
+
+  // ---- Events ----
+
+  /**
+   * Build an event from field values and deliver it to the listeners.
+   * @returns The event, after all handlers ran
+   */
+  callEvent(eventClass: any, fields?: MockEventFields): any;
+
+  /**
+   * Fire PlayerInteractEvent.
+   * @param action Action constant name (default RIGHT_CLICK_AIR)
+   */
+  interact(player: MockPlayer, action?: string, fields?: MockEventFields): any;
+
+  /**
+   * Fire InventoryClickEvent on the player's open inventory. Slots below
+   * the top inventory's size are in it, the rest in the player's.
+   * @param click ClickType constant name (default LEFT)
+   */
+  clickInventory(player: MockPlayer, rawSlot: number, click?: string, fields?: MockEventFields): any;
+
+  /** Fire InventoryDragEvent over raw slots of the player's open inventory */
+  dragInventory(player: MockPlayer, rawSlots: number[], fields?: MockEventFields): any;
+
+  /**
+   * Fire AsyncPlayerChatEvent, like the player typing in chat. If no
+   * handler cancels it, the message is broadcast as "<name> message".
+   */
+  chat(player: MockPlayer, message: string): any;
+
+  /**
+   * Press "Done" in the sign editor opened with openVirtualSign(): closes
+   * it and fires SignChangeEvent with the lines (missing lines are "").
+   */
+  editSign(player: MockPlayer, lines: string[]): any;
+
+  /** Number of registered listeners (for one event class, or all) */
+  listenerCount(eventClass?: any): number;
+
+  // ---- Files ----
+
+  /**
+   * Contents of a YAML or JSON file in the plugin's data folder, as plain
+   * JS (as of its last save), or null if it doesn't exist.
+   */
+  readDataFile(fileName: string): Record<string, any> | null;
+
+  /** Create or replace a YAML or JSON file in the plugin's data folder */
+  writeDataFile(fileName: string, contents: Record<string, any>): void;
+
+  // ---- Commands ----
+
+  /**
+   * Run a command line as a sender, like typing it in chat.
+   * @param commandLine Command without the leading "/" (one is stripped if present)
+   * @returns false if the command is unknown or returned false
+   */
+  dispatchCommand(sender: MockSender, commandLine: string): boolean;
+
+  /**
+   * Tab completions for a partially typed command line.
+   * @example server.tabComplete(player, "warp se")  // ["set"]
+   */
+  tabComplete(sender: MockSender, commandLine: string): string[];
+
+  /** Labels currently in the command map (names, aliases, prefixed names) */
+  getCommandLabels(): string[];
+
+  // ---- Time ----
+
+  /** Advance the scheduler synchronously */
+  performTicks(ticks?: number): void;
+
+  /**
+   * Advance the scheduler one tick at a time, letting promise
+   * continuations (sleepTicks, toPromise) run between ticks.
+   */
+  advance(ticks?: number): Promise<void>;
+
+  // ---- Lifecycle ----
+
+  /** Disable the plugin: runs the PaperTS.onDisable callbacks and cancels its tasks, like a server stop */
+  disablePlugin(): void;
+
+  /** Restore the previous globals. The server can't be used afterwards. */
+  uninstall(): void;
+}
+
+// ============================================
+// STATE
+// ============================================
+
+/** Globals replaced by the mock server */
+const GLOBAL_NAMES = ["org", "java", "Java", "PaperTS"] as const;
+
+/** The installed server, so a forgotten uninstall() doesn't leak into the next test */
+let installed: MockServer | null = null;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Wait for pending promise continuations to run.
+ *
+ * WHY A MACROTASK: Microtasks queued by other microtasks (an `await`
+ * after an `await`) all run before the next macrotask, so one timer
+ * round-trip flushes the whole chain.
+ */
+function flushPromises(): Promise<void> {
+  return new Promise(resolve => (globalThis as any).setTimeout(resolve, 0));
+}
+
+/**
+ * Split a command line like Bukkit does (single spaces, trailing "" kept).
+ */
+function splitCommandLine(commandLine: string): [string, string[]] {
+  const line = commandLine.startsWith("/") ? commandLine.substring(1) : commandLine;
+  const [label, ...args] = line.split(" ");
+  return [label.toLowerCase(), args];
+}
+
+/**
+ * Player inventory slot of a view's bottom section (main rows, then hotbar).
+ */
+function bottomSlot(index: number): number {
+  return index < 27 ? index + 9 : index - 27;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Install a mock server as the global `org`, `java`, `Java` and `PaperTS`.
+ *
+ * Installing while another mock server is installed uninstalls it first.
+ *
+ * @example
+ * const server = installMockServer({ pluginName: "Warps" });
+ */
+export function installMockServer(options: MockServerOptions = {}): MockServer {
+  if (installed !== null) installed.uninstall();
+
+  const global = globalThis as any;
+  const previous = GLOBAL_NAMES.map(name => [name, global[name]] as const);
+
+  const bus: MockEventBus = createMockEventBus();
+  const scheduler = createMockScheduler();
+  const players: MockPlayer[] = [];
+  const worlds: any[] = [];
+  const knownCommands = mockMap<string, any>();
+  const pluginName = options.pluginName ?? "MockPlugin";
+  const disableCallbacks: Array<() => void> = [];
+  let active = true;
+  let pluginEnabled = true;
+
+  // ---- Plugin ----
+
+  const logs: string[] = [];
+  const logger = {
+    info: (message: string) => logs.push(`[INFO] ${message}`),
+    warning: (message: string) => logs.push(`[WARNING] ${message}`),
+    severe: (message: string) => logs.push(`[SEVERE] ${message}`),
+    getRecords: () => [...logs],
+  };
+
+  const fileSystem = createMockFileSystem();
+  const recipeBook = createMockRecipeBook();
+  const dataFolder = fileSystem.constructFile(`/plugins/${pluginName}`);
+
+  const plugin = tagJavaTypes({
+    getName: () => pluginName,
+    isEnabled: () => pluginEnabled,
+    getLogger: () => logger,
+    getServer: () => bukkit,
+    getDataFolder: () => dataFolder,
+  }, "org.bukkit.plugin.Plugin", "org.bukkit.plugin.java.JavaPlugin");
+
+  // ---- Players & worlds ----
+
+  const context = {
+    dispatchCommand: (sender: any, commandLine: string) => server.dispatchCommand(sender, commandLine),
+    removePlayer: (player: any) => {
+      const index = players.indexOf(player);
+      if (index >= 0) players.splice(index, 1);
+    },
+    isOnline: (player: any) => players.includes(player),
+    getDefaultWorld: () => worlds[0],
+    inventoryOpening: (player: any, view: any) =>
+      !server.callEvent(InventoryOpenEvent, { player, view, inventory: view.getTopInventory() }).isCancelled(),
+    inventoryClosed: (player: any, view: any, reason: string) => {
+      server.callEvent(InventoryCloseEvent, {
+        player,
+        view,
+        inventory: view.getTopInventory(),
+        reason: mockEnumConstant("org.bukkit.event.inventory.InventoryCloseEvent$Reason", reason),
+      });
+    },
+  };
+
+  const console = createMockConsole(context);
+
+  const findPlayer = (name: string) =>
+    players.find(player => player.getName().toLowerCase() === name.toLowerCase()) ?? null;
+
+  // ---- Commands ----
+
+  const findCommand = (label: string) => knownCommands.get(label) as any;
+
+  const registerCommand = (
+    name: string,
+    description: string,
+    usageMessage: string,
+    permission: string,
+    aliases: string[],
+    executor: (sender: any, args: string[], label?: string) => boolean | void,
+    tabCompleter?: (sender: any, args: string[]) => string[]
+  ) => {
+    const labels: string[] = [];
+    const command = tagJavaTypes({
+      getName: () => name,
+      getLabel: () => name,
+      getDescription: () => description,
+      getUsage: () => usageMessage,
+      getPermission: () => permission || null,
+      getAliases: () => mockList([...aliases]),
+      isRegistered: () => labels.length > 0,
+      execute: (sender: any, label: string, args: string[]) => executor(sender, args, label) !== false,
+      tabComplete: (sender: any, _alias: string, args: string[]) => mockList(tabCompleter ? tabCompleter(sender, args) : []),
+      unregister: () => {
+        labels.length = 0;
+        return true;
+      },
+    }, "org.bukkit.command.Command");
+
+    /* Like SimpleCommandMap: the prefixed label always wins, plain labels only if free */
+    const fallback = `${pluginName.toLowerCase()}:`;
+    for (const label of [name, ...aliases].map(l => l.toLowerCase())) {
+      knownCommands.put(fallback + label, command);
+      labels.push(fallback + label);
+      if (!knownCommands.containsKey(label)) {
+        knownCommands.put(label, command);
+        labels.push(label);
+      }
+    }
+
+    return command;
+  };
+
+  // ---- Bukkit facade ----
+
+  const bukkit: Record<string, any> = {
+    getServer: () => bukkit,
+    getName: () => "MockServer",
+    getVersion: () => "mock",
+    getBukkitVersion: () => "mock",
+    getMaxPlayers: () => 20,
+    isPrimaryThread: () => true,
+
+    getOnlinePlayers: () => mockList(players),
+    getPlayer: (nameOrId: any) => {
+      if (typeof nameOrId !== "string") {
+        return players.find(player => player.getUniqueId().equals(nameOrId)) ?? null;
+      }
+      const exact = findPlayer(nameOrId);
+      if (exact !== null) return exact;
+      const lower = nameOrId.toLowerCase();
+      return players.find(player => player.getName().toLowerCase().startsWith(lower)) ?? null;
+    },
+    getPlayerExact: (name: string) => findPlayer(name),
+    getOfflinePlayer: (nameOrId: any) => {
+      const online = bukkit.getPlayer(nameOrId);
+      if (online !== null) return online;
+      const uuid = typeof nameOrId === "string" ? nextMockUUID() : nameOrId;
+      return tagJavaTypes({
+        getName: () => (typeof nameOrId === "string" ? nameOrId : null),
+        getUniqueId: () => uuid,
+        isOnline: () => false,
+        getPlayer: () => null,
+        hasPlayedBefore: () => false,
+      }, "org.bukkit.OfflinePlayer");
+    },
+
+    getWorld: (nameOrId: any) =>
+      worlds.find(world => (typeof nameOrId === "string" ? world.getName() === nameOrId : world.getUID().equals(nameOrId))) ?? null,
+    getWorlds: () => mockList(worlds),
+
+    getScheduler: () => scheduler,
+    getCurrentTick: () => scheduler.getCurrentTick(),
+    getConsoleSender: () => console,
+    getCommandMap: () => ({
+      getKnownCommands: () => knownCommands,
+      getCommand: (label: string) => findCommand(label.toLowerCase()) ?? null,
+      dispatch: (sender: any, commandLine: string) => server.dispatchCommand(sender, commandLine),
+    }),
+    getPluginManager: () => ({
+      callEvent: (event: any) => bus.dispatch(event),
+      getPlugin: (name: string) => (name === pluginName ? plugin : null),
+      isPluginEnabled: (name: string) => name === pluginName && pluginEnabled,
+    }),
+
+    broadcastMessage: (message: string) => {
+      for (const player of players) player.sendMessage(message);
+      console.sendMessage(message);
+      return players.length;
+    },
+
+    createBossBar: createMockBossBar,
+    createBlockData: createMockBlockData,
+
+    addRecipe: (recipe: any, resendRecipes?: boolean) => recipeBook.addRecipe(recipe, resendRecipes),
+    removeRecipe: (key: any, resendRecipes?: boolean) => recipeBook.removeRecipe(key, resendRecipes),
+    getRecipe: (key: any) => recipeBook.getRecipe(key),
+    recipeIterator: () => recipeBook.recipeIterator(),
+
+    getUnsafe: () => ({
+      serializeItemAsJson: serializeMockItemJson,
+      deserializeItemFromJson: deserializeMockItemJson,
+    }),
+
+    createInventory: (holder: any, sizeOrType: any, title?: string) =>
+      typeof sizeOrType === "number"
+        ? createMockInventory({ size: sizeOrType, holder, title })
+        : createMockInventory({ size: 27, type: sizeOrType.name(), holder, title }),
+
+    dispatchCommand: (sender: any, commandLine: string) => server.dispatchCommand(sender, commandLine),
+  };
+
+  // ---- Java classes ----
+
+  clearMockClasses();
+  setHandlerListProvider(className => bus.getHandlerList(className));
+
+  registerMockClass("org.bukkit.Bukkit", { statics: bukkit });
+  registerMockClass("org.bukkit.event.HandlerList", {
+    statics: {
+      unregisterAll: (listenerOrPlugin: any) => {
+        if (listenerOrPlugin === plugin) bus.clear();
+        else bus.unregisterAll(listenerOrPlugin);
+      },
+    },
+  });
+  registerMockClass("org.bukkit.Location", { construct: createMockLocation });
+  registerMockClass("org.bukkit.util.Vector", { construct: createMockVector });
+  registerMockClass("io.papermc.paper.math.Position", {
+    statics: {
+      block: (location: any) => ({
+        blockX: () => location.getBlockX(),
+        blockY: () => location.getBlockY(),
+        blockZ: () => location.getBlockZ(),
+        toLocation: (world: any) => createMockLocation(world, location.getBlockX(), location.getBlockY(), location.getBlockZ()),
+      }),
+    },
+  });
+  registerMockClass("org.bukkit.inventory.ItemStack", {
+    construct: (type: any, amount?: number) => createMockItemStack(type, amount),
+    statics: { deserializeBytes: deserializeMockItemBytes },
+  });
+  registerMockClass("org.bukkit.inventory.RecipeChoice$MaterialChoice", {
+    construct: (choices: any) => createMockRecipeChoice(false, choices),
+  });
+  registerMockClass("org.bukkit.inventory.RecipeChoice$ExactChoice", {
+    construct: (choices: any) => createMockRecipeChoice(true, choices),
+  });
+  registerMockClass("org.bukkit.inventory.ShapedRecipe", {
+    construct: mockRecipeConstructor("org.bukkit.inventory.ShapedRecipe"),
+  });
+  registerMockClass("org.bukkit.inventory.ShapelessRecipe", {
+    construct: mockRecipeConstructor("org.bukkit.inventory.ShapelessRecipe"),
+  });
+  for (const cooking of ["FurnaceRecipe", "BlastingRecipe", "SmokingRecipe", "CampfireRecipe"]) {
+    registerMockClass(`org.bukkit.inventory.${cooking}`, {
+      construct: mockRecipeConstructor(`org.bukkit.inventory.${cooking}`, ["inputChoice", "experience", "cookingTime"]),
+    });
+  }
+  registerMockClass("org.bukkit.inventory.SmithingTransformRecipe", {
+    construct: mockRecipeConstructor("org.bukkit.inventory.SmithingTransformRecipe", ["template", "base", "addition"]),
+  });
+  registerMockClass("org.bukkit.inventory.StonecuttingRecipe", {
+    construct: mockRecipeConstructor("org.bukkit.inventory.StonecuttingRecipe", ["inputChoice"]),
+  });
+  registerMockClass("org.bukkit.potion.PotionEffect", {
+    construct: createMockPotionEffect,
+    statics: { INFINITE_DURATION: -1 },
+  });
+  registerMockClass("org.bukkit.Registry", {
+    statics: {
+      EFFECT: { get: (key: any) => mockEnumConstant("org.bukkit.potion.PotionEffectType", key.getKey().toUpperCase()) },
+    },
+  });
+  registerMockClass("org.bukkit.NamespacedKey", {
+    construct: constructNamespacedKey,
+    statics: {
+      fromString: namespacedKeyFromString,
+      minecraft: (key: string) => constructNamespacedKey("minecraft", key),
+    },
+  });
+  registerMockClass("org.bukkit.configuration.file.YamlConfiguration", {
+    construct: fileSystem.createConfiguration,
+    statics: { loadConfiguration: fileSystem.loadConfiguration },
+  });
+  registerMockClass("net.md_5.bungee.chat.ComponentSerializer", { statics: { parse: parseMockComponents } });
+  registerMockClass("java.io.File", { construct: fileSystem.constructFile });
+  registerMockClass("java.nio.file.Files", { statics: fileSystem.nioFiles });
+  registerMockClass("java.lang.Class", { statics: { forName: mockJavaClass } });
+  registerMockClass("java.util.UUID", {
+    statics: {
+      fromString: mockUUID,
+      randomUUID: nextMockUUID,
+    },
+  });
+  registerMockClass("java.util.Base64", { statics: mockBase64 });
+  registerMockClass("com.google.gson.JsonParser", { statics: { parseString: parseMockJson } });
+  registerMockClass("java.util.ArrayList", { construct: () => mockList([]) });
+  registerMockClass("java.util.HashMap", { construct: () => mockMap() });
+  registerMockClass("java.util.concurrent.CompletableFuture", {
+    construct: createMockFuture,
+    statics: { completedFuture: completedMockFuture },
+  });
+  /* One thread: locking never has to wait */
+  registerMockClass("java.util.concurrent.locks.ReentrantLock", {
+    construct: () => ({ lock: () => {}, unlock: () => {}, tryLock: () => true }),
+  });
+
+  // ---- Server object ----
+
+  const PlayerJoinEvent = mockClassNode("org.bukkit.event.player.PlayerJoinEvent");
+  const PlayerQuitEvent = mockClassNode("org.bukkit.event.player.PlayerQuitEvent");
+  const PlayerInteractEvent = mockClassNode("org.bukkit.event.player.PlayerInteractEvent");
+  const InventoryClickEvent = mockClassNode("org.bukkit.event.inventory.InventoryClickEvent");
+  const InventoryDragEvent = mockClassNode("org.bukkit.event.inventory.InventoryDragEvent");
+  const InventoryCloseEvent = mockClassNode("org.bukkit.event.inventory.InventoryCloseEvent");
+  const InventoryOpenEvent = mockClassNode("org.bukkit.event.inventory.InventoryOpenEvent");
+  const AsyncPlayerChatEvent = mockClassNode("org.bukkit.event.player.AsyncPlayerChatEvent");
+  const SignChangeEvent = mockClassNode("org.bukkit.event.block.SignChangeEvent");
+
+  const server: MockServer = {
+    plugin,
+    console,
+    scheduler,
+
+    get defaultWorld() {
+      return worlds[0];
+    },
+
+    addPlayer(nameOrOptions: string | MockPlayerOptions): MockPlayer {
+      const playerOptions = typeof nameOrOptions === "string" ? { name: nameOrOptions } : nameOrOptions;
+      if (findPlayer(playerOptions.name) !== null) {
+        throw new Error(`Mock server: player ${playerOptions.name} is already online`);
+      }
+      const player = createMockPlayer(context, playerOptions);
+      players.push(player);
+      return player;
+    },
+
+    joinPlayer(nameOrOptions: string | MockPlayerOptions): MockPlayer {
+      const player = server.addPlayer(nameOrOptions);
+      const event = server.callEvent(PlayerJoinEvent, {
+        player,
+        joinMessage: `§e${player.getName()} joined the game`,
+      });
+      const message = event.getJoinMessage();
+      if (message !== null) bukkit.broadcastMessage(message);
+      return player;
+    },
+
+    quitPlayer(player: MockPlayer): void {
+      const event = server.callEvent(PlayerQuitEvent, {
+        player,
+        quitMessage: `§e${player.getName()} left the game`,
+      });
+      player.closeInventory("DISCONNECT");
+      context.removePlayer(player);
+      const message = event.getQuitMessage();
+      if (message !== null) bukkit.broadcastMessage(message);
+    },
+
+    getOnlinePlayers: () => [...players],
+    getPlayer: findPlayer,
+
+    addWorld(name: string): any {
+      const existing = server.getWorld(name);
+      if (existing !== null) return existing;
+      const world = createMockWorld(name, () => players);
+      worlds.push(world);
+      return world;
+    },
+
+    getWorld: (name: string) => worlds.find(world => world.getName() === name) ?? null,
+
+    callEvent(eventClass: any, fields: MockEventFields = {}): any {
+      return bus.dispatch(createMockEvent(eventClass, fields));
+    },
+
+    interact(player: MockPlayer, action: string = "RIGHT_CLICK_AIR", fields: MockEventFields = {}): any {
+      return server.callEvent(PlayerInteractEvent, {
+        player,
+        action: mockEnumConstant("org.bukkit.event.block.Action", action),
+        item: player.getInventory().getItemInMainHand(),
+        hand: mockEnumConstant("org.bukkit.inventory.EquipmentSlot", "HAND"),
+        clickedBlock: null,
+        blockFace: mockEnumConstant("org.bukkit.block.BlockFace", "SELF"),
+        ...fields,
+      });
+    },
+
+    clickInventory(player: MockPlayer, rawSlot: number, click: string = "LEFT", fields: MockEventFields = {}): any {
+      const view = player.getOpenInventory();
+      const topSize = view.getTopInventory().getSize();
+      const inTop = rawSlot >= 0 && rawSlot < topSize;
+      const clicked = rawSlot < 0 ? null : inTop ? view.getTopInventory() : view.getBottomInventory();
+      const slot = rawSlot < 0 || inTop ? rawSlot : bottomSlot(rawSlot - topSize);
+      const action = click.startsWith("SHIFT_") ? "MOVE_TO_OTHER_INVENTORY" : click === "DOUBLE_CLICK" ? "COLLECT_TO_CURSOR" : "PICKUP_ALL";
+
+      return server.callEvent(InventoryClickEvent, {
+        whoClicked: player,
+        view,
+        inventory: view.getTopInventory(),
+        clickedInventory: clicked,
+        rawSlot,
+        slot,
+        click: mockEnumConstant("org.bukkit.event.inventory.ClickType", click),
+        action: mockEnumConstant("org.bukkit.event.inventory.InventoryAction", action),
+        currentItem: clicked?.getItem(slot) ?? null,
+        cursor: player.getItemOnCursor(),
+        hotbarButton: -1,
+        ...fields,
+      });
+    },
+
+    dragInventory(player: MockPlayer, rawSlots: number[], fields: MockEventFields = {}): any {
+      const view = player.getOpenInventory();
+      return server.callEvent(InventoryDragEvent, {
+        whoClicked: player,
+        view,
+        inventory: view.getTopInventory(),
+        rawSlots: mockSet(rawSlots),
+        type: mockEnumConstant("org.bukkit.event.inventory.DragType", "EVEN"),
+        oldCursor: player.getItemOnCursor(),
+        ...fields,
+      });
+    },
+
+    chat(player: MockPlayer, message: string): any {
+      const event = server.callEvent(AsyncPlayerChatEvent, {
+        player,
+        message,
+        format: "<%1$s> %2$s",
+        async: true,
+      });
+      if (!event.isCancelled()) bukkit.broadcastMessage(`<${player.getDisplayName()}> ${event.getMessage()}`);
+      return event;
+    },
+
+    editSign(player: MockPlayer, lines: string[]): any {
+      const editor = player.signEditor;
+      if (editor === null) throw new Error(`Mock server: ${player.getName()} has no sign editor open`);
+      player.closeSignEditor();
+      return server.callEvent(SignChangeEvent, {
+        player,
+        block: editor.getBlock(),
+        lines: [0, 1, 2, 3].map(index => lines[index] ?? ""),
+      });
+    },
+
+    listenerCount: (eventClass?: any) => bus.listenerCount(eventClass),
+
+    dispatchCommand(sender: MockSender, commandLine: string): boolean {
+      const [label, args] = splitCommandLine(commandLine);
+      const command = findCommand(label);
+      if (command === null || !command.isRegistered()) {
+        sender.sendMessage(`Unknown command. Type "/help" for help.`);
+        return false;
+      }
+      if (command.execute(sender, label, args)) return true;
+
+      const usage = command.getUsage();
+      if (usage) sender.sendMessage(usage.replace("<command>", label));
+      return false;
+    },
+
+    tabComplete(sender: MockSender, commandLine: string): string[] {
+      const [label, args] = splitCommandLine(commandLine);
+      const command = findCommand(label);
+      if (command === null || args.length === 0) return [];
+      return command.tabComplete(sender, label, args).toArray();
+    },
+
+    readDataFile(fileName: string): Record<string, any> | null {
+      const text = fileSystem.files.get(fileSystem.constructFile(dataFolder, fileName).getAbsolutePath());
+      return text === undefined ? null : JSON.parse(text);
+    },
+
+    writeDataFile(fileName: string, contents: Record<string, any>): void {
+      const file = fileSystem.constructFile(dataFolder, fileName);
+      file.getParentFile().mkdirs();
+      fileSystem.files.set(file.getAbsolutePath(), JSON.stringify(contents, null, 2));
+    },
+
+    getCommandLabels: () => knownCommands.keySet().toArray(),
+
+    performTicks: (ticks: number = 1) => scheduler.performTicks(ticks),
+
+    async advance(ticks: number = 1): Promise<void> {
+      await flushPromises();
+      for (let i = 0; i < ticks; i++) {
+        scheduler.performTicks(1);
+        await flushPromises();
+      }
+    },
+
+    disablePlugin(): void {
+      if (!pluginEnabled) return;
+      for (const callback of disableCallbacks.splice(0)) callback();
+      /* Like Bukkit: a disabled plugin's tasks never run again */
+      scheduler.cancelTasks(plugin);
+      pluginEnabled = false;
+    },
+
+    uninstall(): void {
+      if (!active) return;
+      active = false;
+      clearMockClasses();
+      for (const [name, value] of previous) {
+        if (value === undefined) delete global[name];
+        else global[name] = value;
+      }
+      if (installed === server) installed = null;
+    },
+  };
+
+  server.addWorld(options.worldName ?? "world");
+
+  global.org = mockPackageNode("org");
+  global.java = mockPackageNode("java");
+  global.Java = createMockJavaBridge();
+  global.PaperTS = {
+    registerEvent: (eventClass: any, listener: (event: any) => void, priority?: any) =>
+      bus.register(eventClass, listener, priority),
+    registerCommand,
+    getJavaPlugin: () => plugin,
+    onDisable: (callback: () => void) => {
+      disableCallbacks.push(callback);
+    },
+  } satisfies typeof PaperTS;
+
+  installed = server;
+  return server;
+}
@@ -0,0 +1,75 @@
+/**
+ * Mock org.bukkit.boss.BossBar, as returned by Bukkit.createBossBar().
+ *
+ * Pure state: tests check getPlayers()/isVisible() to see what players
+ * would have on screen.
+ */
+
+import { mockList } from "./mockCollections";
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Create a mock boss bar.
+ */
+export function createMockBossBar(title: string, color: any, style: any, ...flags: any[]): any {
+  const players: any[] = [];
+  const activeFlags = [...flags];
+  let progress = 1;
+  let visible = true;
+
+  const bar: any = tagJavaTypes({
+    getTitle: () => title,
+    setTitle: (next: string | null) => {
+      title = next ?? "";
+    },
+    getColor: () => color,
+    setColor: (next: any) => {
+      color = next;
+    },
+    getStyle: () => style,
+    setStyle: (next: any) => {
+      style = next;
+    },
+    getProgress: () => progress,
+    setProgress: (next: number) => {
+      if (next < 0 || next > 1) {
+        throw new Error(`IllegalArgumentException: Progress must be between 0.0 and 1.0 (${next})`);
+      }
+      progress = next;
+    },
+
+    addFlag: (flag: any) => {
+      if (!activeFlags.includes(flag)) activeFlags.push(flag);
+    },
+    removeFlag: (flag: any) => {
+      const index = activeFlags.indexOf(flag);
+      if (index >= 0) activeFlags.splice(index, 1);
+    },
+    hasFlag: (flag: any) => activeFlags.includes(flag),
+
+    addPlayer: (player: any) => {
+      if (!players.includes(player)) players.push(player);
+    },
+    removePlayer: (player: any) => {
+      const index = players.indexOf(player);
+      if (index >= 0) players.splice(index, 1);
+    },
+    removeAll: () => {
+      players.length = 0;
+    },
+    getPlayers: () => mockList([...players]),
+
+    isVisible: () => visible,
+    setVisible: (next: boolean) => {
+      visible = next;
+    },
+    show: () => bar.setVisible(true),
+    hide: () => bar.setVisible(false),
+  }, "org.bukkit.boss.BossBar");
+
+  return bar;
+}
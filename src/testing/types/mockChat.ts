@@ -0,0 +1,79 @@
+/**
+ * Mock BungeeCord chat components (net.md_5.bungee.api.chat).
+ *
+ * Components keep the JSON they were parsed from. Senders record a
+ * component message twice: its plain text in messages (like a legacy
+ * message, for nextMessage()) and its JSON in components, for asserting
+ * on colors, hover text and click actions.
+ */
+
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * A parsed component.
+ */
+export interface MockComponent {
+  /** The JSON text this component was parsed from */
+  readonly json: string;
+
+  toPlainText(): string;
+
+  /** Same as toPlainText(): the mock doesn't render § codes */
+  toLegacyText(): string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function plainText(component: any): string {
+  if (typeof component === "string") return component;
+  if (Array.isArray(component)) return component.map(plainText).join("");
+
+  let own = "";
+  if (typeof component.text === "string") own = component.text;
+  else if (typeof component.keybind === "string") own = component.keybind;
+  else if (typeof component.translate === "string") {
+    const args = (component.with ?? []).map(plainText);
+    own = args.length > 0 ? `${component.translate} (${args.join(", ")})` : component.translate;
+  }
+  return own + (component.extra ?? []).map(plainText).join("");
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Mock net.md_5.bungee.chat.ComponentSerializer.parse(): one component
+ * per JSON text.
+ */
+export function parseMockComponents(json: string): MockComponent[] {
+  const text = plainText(JSON.parse(json));
+
+  return [tagJavaTypes({
+    json,
+    toPlainText: () => text,
+    toLegacyText: () => text,
+    toString: () => json,
+  }, "net.md_5.bungee.api.chat.BaseComponent")];
+}
+
+/**
+ * Mock CommandSender.Spigot, recording component messages into a
+ * sender's logs.
+ */
+export function createMockSpigotSender(messages: string[], components: string[]): any {
+  return {
+    sendMessage(...args: any[]): void {
+      /* Skip the optional sender UUID */
+      const parts = args.flat().filter(part => part !== null && typeof part.toPlainText === "function");
+      messages.push(parts.map(part => part.toPlainText()).join(""));
+      components.push(...parts.map(part => part.json));
+    },
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * DESIGN
+ * ------
+ * In-memory stand-ins for java.util collections.
+ *
+ * The framework never iterates Java collections with for..of - it uses
+ * iterator()/hasNext()/next(), size(), get() and toArray(). These mocks
+ * implement exactly that surface on top of JS arrays, Maps and Sets, so
+ * helpers like removeIf() or onlinePlayerNames() run unchanged in Node.
+ *
+ *   ┌──────────────────┐        ┌──────────────────────┐
+ *   │  JS container    │ ─────→ │  mock Java wrapper   │
+ *   │  (array / Map)   │  live  │  iterator(), size()  │
+ *   └──────────────────┘        └──────────────────────┘
+ *
+ * LIVE VIEWS: Wrappers don't copy. A mockList over the online player
+ * array sees players joining later, like the unmodifiable views Bukkit
+ * returns.
+ *
+ * EQUALITY: Keys are compared with equals() when the object has one
+ * (NamespacedKey, UUID), otherwise by identity - like HashMap.
+ */
+
+import { JavaIterator } from "../../java/types/iterator";
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Java-style equality: equals() if available, identity otherwise.
+ */
+export function javaEquals(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a !== null && typeof a === "object" && typeof a.equals === "function") {
+    return a.equals(b);
+  }
+  return false;
+}
+
+/**
+ * Iterator over a snapshot of values.
+ *
+ * @param onRemove Called by remove() with the last returned value
+ */
+export function mockIterator<T>(values: T[], onRemove?: (value: T) => void): JavaIterator<T> {
+  let index = 0;
+  let last: T | undefined;
+
+  return {
+    hasNext(): boolean {
+      return index < values.length;
+    },
+
+    next(): T {
+      if (index >= values.length) {
+        throw new Error("NoSuchElementException");
+      }
+      last = values[index++];
+      return last;
+    },
+
+    remove(): void {
+      if (onRemove === undefined || last === undefined) {
+        throw new Error("UnsupportedOperationException");
+      }
+      onRemove(last);
+    },
+  } as JavaIterator<T>;
+}
+
+// ============================================
+// LIST
+// ============================================
+
+/**
+ * Wrap a JS array as a java.util.List.
+ *
+ * @example
+ * const list = mockList(["a", "b"]);
+ * list.get(0);  // "a"
+ */
+export function mockList<T>(items: T[] = []): any /* JavaList<T> */ {
+  return {
+    size: () => items.length,
+    isEmpty: () => items.length === 0,
+    get: (index: number) => {
+      if (index < 0 || index >= items.length) {
+        throw new Error(`IndexOutOfBoundsException: Index ${index} out of bounds for length ${items.length}`);
+      }
+      return items[index];
+    },
+    set: (index: number, value: T) => {
+      const previous = items[index];
+      items[index] = value;
+      return previous;
+    },
+    add: (...args: any[]) => {
+      if (args.length === 2) {
+        items.splice(args[0], 0, args[1]);
+      } else {
+        items.push(args[0]);
+      }
+      return true;
+    },
+    addAll: (other: any) => {
+      items.push(...toJsArray<T>(other));
+      return true;
+    },
+    remove: (target: any) => {
+      if (typeof target === "number") {
+        return items.splice(target, 1)[0];
+      }
+      const index = items.findIndex(item => javaEquals(item, target));
+      if (index < 0) return false;
+      items.splice(index, 1);
+      return true;
+    },
+    contains: (value: T) => items.some(item => javaEquals(item, value)),
+    indexOf: (value: T) => items.findIndex(item => javaEquals(item, value)),
+    clear: () => {
+      items.length = 0;
+    },
+    iterator: () => mockIterator([...items], value => {
+      const index = items.indexOf(value);
+      if (index >= 0) items.splice(index, 1);
+    }),
+    toArray: () => [...items],
+    forEach: (action: (value: T) => void) => [...items].forEach(value => action(value)),
+    toString: () => `[${items.join(", ")}]`,
+  };
+}
+
+// ============================================
+// SET
+// ============================================
+
+/**
+ * Wrap a JS array as a java.util.Set (equals()-based uniqueness).
+ */
+export function mockSet<T>(items: T[] = []): any /* JavaSet<T> */ {
+  const list = mockList(items);
+
+  return {
+    ...list,
+    add: (value: T) => {
+      if (items.some(item => javaEquals(item, value))) return false;
+      items.push(value);
+      return true;
+    },
+    addAll: (other: any) => {
+      let changed = false;
+      for (const value of toJsArray<T>(other)) {
+        if (!items.some(item => javaEquals(item, value))) {
+          items.push(value);
+          changed = true;
+        }
+      }
+      return changed;
+    },
+  };
+}
+
+// ============================================
+// MAP
+// ============================================
+
+/**
+ * A java.util.Map backed by an array of entries.
+ *
+ * WHY NOT A JS Map: JS Maps compare keys by identity, but Java maps
+ * are keyed by equals() - two NamespacedKeys for "plugin:coins" must
+ * hit the same entry.
+ */
+export function mockMap<K, V>(initial: Array<[K, V]> = []): any /* JavaMap<K, V> */ {
+  const entries: Array<[K, V]> = [...initial];
+
+  const find = (key: K) => entries.findIndex(([k]) => javaEquals(k, key));
+
+  const entryObject = ([key, value]: [K, V]) => ({
+    getKey: () => key,
+    getValue: () => value,
+    setValue: (next: V) => {
+      const index = find(key);
+      const previous = entries[index][1];
+      entries[index][1] = next;
+      return previous;
+    },
+  });
+
+  const map = {
+    size: () => entries.length,
+    isEmpty: () => entries.length === 0,
+    get: (key: K) => {
+      const index = find(key);
+      return index >= 0 ? entries[index][1] : null;
+    },
+    getOrDefault: (key: K, fallback: V) => {
+      const index = find(key);
+      return index >= 0 ? entries[index][1] : fallback;
+    },
+    put: (key: K, value: V) => {
+      const index = find(key);
+      if (index >= 0) {
+        const previous = entries[index][1];
+        entries[index][1] = value;
+        return previous;
+      }
+      entries.push([key, value]);
+      return null;
+    },
+    putAll: (other: any) => {
+      const iter = other.entrySet().iterator();
+      while (iter.hasNext()) {
+        const entry = iter.next();
+        map.put(entry.getKey(), entry.getValue());
+      }
+    },
+    remove: (key: K) => {
+      const index = find(key);
+      if (index < 0) return null;
+      return entries.splice(index, 1)[0][1];
+    },
+    containsKey: (key: K) => find(key) >= 0,
+    containsValue: (value: V) => entries.some(([, v]) => javaEquals(v, value)),
+    clear: () => {
+      entries.length = 0;
+    },
+    keySet: () => mockSet(entries.map(([k]) => k)),
+    values: () => mockList(entries.map(([, v]) => v)),
+    entrySet: () => mockSet(entries.map(entryObject)),
+    forEach: (action: (key: K, value: V) => void) => {
+      for (const [k, v] of [...entries]) action(k, v);
+    },
+    toString: () => `{${entries.map(([k, v]) => `${k}=${v}`).join(", ")}}`,
+  };
+
+  return map;
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Read a mock (or real) Java collection, or a JS array, into a JS array.
+ */
+export function toJsArray<T>(collection: any): T[] {
+  if (Array.isArray(collection)) return [...collection];
+  if (collection === null || collection === undefined) return [];
+  if (typeof collection.toArray === "function") return [...collection.toArray()];
+
+  const result: T[] = [];
+  const iter = collection.iterator();
+  while (iter.hasNext()) {
+    result.push(iter.next());
+  }
+  return result;
+}
@@ -0,0 +1,217 @@
+/**
+ * DESIGN
+ * ------
+ * Event bus and event objects for the mock server.
+ *
+ * PaperTS.registerEvent() lands here instead of Bukkit's PluginManager.
+ * Tests fire events with callEvent() and then inspect the same object
+ * the handlers received:
+ *
+ *   const event = server.callEvent(PlayerJoinEvent, { player, joinMessage: "hi" });
+ *   event.getJoinMessage();  // whatever the handlers set
+ *
+ * EVENT OBJECTS ARE GENERATED FROM FIELDS:
+ * Bukkit events are mostly getters and setters around fields. Instead of
+ * one mock class per event, createMockEvent() maps accessor names onto
+ * a plain field record:
+ *
+ *   getJoinMessage()  → fields.joinMessage
+ *   setJoinMessage(m) → fields.joinMessage = m
+ *   isCancelled()     → fields.cancelled (false by default)
+ *   hasItem()         → fields.item != null
+ *
+ * Any event class works without registering it first.
+ *
+ * DISPATCH ORDER:
+ * Listeners run by priority (LOWEST first, MONITOR last), then in
+ * registration order - the same order Bukkit uses. Only listeners of the
+ * exact event class are called (no superclass handler lists).
+ */
+
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/** Field values an event is built from (names without get/set/is) */
+export type MockEventFields = Record<string, any>;
+
+interface RegisteredListener {
+  /** The token returned by registerEvent, for HandlerList.unregisterAll */
+  token: object;
+  className: string;
+  slot: number;
+  callback: (event: any) => void;
+}
+
+export interface MockEventBus {
+  /**
+   * Register a listener, like PaperTS.registerEvent.
+   * @returns Token identifying the listener
+   */
+  register(eventClass: any, callback: (event: any) => void, priority?: any): object;
+
+  /** Remove every registration made with this token */
+  unregisterAll(token: object): void;
+
+  /** Remove every listener */
+  clear(): void;
+
+  /** Deliver an event object to its listeners */
+  dispatch<E>(event: E): E;
+
+  /** Number of listeners for an event class (or all listeners) */
+  listenerCount(eventClass?: any): number;
+
+  /** Mock HandlerList for an event class */
+  getHandlerList(className: string): any;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PRIORITY_SLOTS: Record<string, number> = {
+  LOWEST: 0,
+  LOW: 1,
+  NORMAL: 2,
+  HIGH: 3,
+  HIGHEST: 4,
+  MONITOR: 5,
+};
+
+/** Hidden property holding the event's class name */
+const EVENT_CLASS = Symbol("eventClass");
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Class name of an event class node (org.bukkit...PlayerJoinEvent).
+ */
+export function eventClassName(eventClass: any): string {
+  return eventClass.class.getName();
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+// ============================================
+// EVENT OBJECTS
+// ============================================
+
+/**
+ * Build an event object from field values.
+ *
+ * @param eventClass The event class node, e.g. org.bukkit.event.player.PlayerJoinEvent
+ * @param fields Field values ("player", "joinMessage", "cancelled", ...)
+ *
+ * @example
+ * const event = createMockEvent(PlayerInteractEvent, { player, action: Action.RIGHT_CLICK_AIR });
+ * event.getAction();  // Action.RIGHT_CLICK_AIR
+ */
+export function createMockEvent(eventClass: any, fields: MockEventFields = {}): any {
+  const className = eventClassName(eventClass);
+  const simpleName = className.substring(Math.max(className.lastIndexOf("."), className.lastIndexOf("$")) + 1);
+  const values: MockEventFields = { cancelled: false, ...fields };
+
+  const base = tagJavaTypes({
+    [EVENT_CLASS]: className,
+    getEventName: () => simpleName,
+    isAsynchronous: () => values.async === true,
+    getHandlers: () => eventClass.getHandlerList(),
+    getFields: () => values,
+    toString: () => `${simpleName}${JSON.stringify(Object.keys(values))}`,
+  }, className, "org.bukkit.event.Event", "org.bukkit.event.Cancellable");
+
+  return new Proxy(base, {
+    get(target: any, prop) {
+      if (typeof prop === "symbol" || prop in target) return target[prop];
+
+      const accessor = /^(get|set|is|has)([A-Z].*)$/.exec(prop);
+      if (accessor === null) return undefined;
+
+      const [, kind, rest] = accessor;
+      const field = lowerFirst(rest);
+
+      switch (kind) {
+        case "get":
+          return () => values[field] ?? null;
+        case "is":
+          return () => values[field] === true;
+        case "has":
+          return () => values[field] !== undefined && values[field] !== null;
+        case "set":
+          return (value: any) => {
+            values[field] = value;
+          };
+      }
+      return undefined;
+    },
+  });
+}
+
+// ============================================
+// EVENT BUS
+// ============================================
+
+/**
+ * Create the bus behind PaperTS.registerEvent and HandlerList.
+ */
+export function createMockEventBus(): MockEventBus {
+  const listeners: RegisteredListener[] = [];
+
+  const bus: MockEventBus = {
+    register(eventClass: any, callback: (event: any) => void, priority?: any): object {
+      const token = tagJavaTypes({}, "org.bukkit.event.Listener");
+      const key = priority !== undefined && priority !== null ? priority.name() : "NORMAL";
+      listeners.push({
+        token,
+        className: eventClassName(eventClass),
+        slot: PRIORITY_SLOTS[key] ?? PRIORITY_SLOTS.NORMAL,
+        callback,
+      });
+      return token;
+    },
+
+    unregisterAll(token: object): void {
+      for (let i = listeners.length - 1; i >= 0; i--) {
+        if (listeners[i].token === token) listeners.splice(i, 1);
+      }
+    },
+
+    clear(): void {
+      listeners.length = 0;
+    },
+
+    dispatch<E>(event: E): E {
+      const className: string = (event as any)[EVENT_CLASS];
+      const targets = listeners
+        .filter(listener => listener.className === className)
+        .sort((a, b) => a.slot - b.slot);  /* Array.sort is stable: keeps registration order */
+
+      for (const listener of targets) {
+        listener.callback(event);
+      }
+      return event;
+    },
+
+    listenerCount(eventClass?: any): number {
+      if (eventClass === undefined) return listeners.length;
+      const className = eventClassName(eventClass);
+      return listeners.filter(listener => listener.className === className).length;
+    },
+
+    getHandlerList(className: string): any {
+      return {
+        unregister: (token: object) => bus.unregisterAll(token),
+        getRegisteredListeners: () => listeners.filter(listener => listener.className === className).map(l => l.token),
+      };
+    },
+  };
+
+  return bus;
+}
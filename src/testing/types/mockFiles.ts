@@ -0,0 +1,363 @@
+/**
+ * DESIGN
+ * ------
+ * In-memory files for the mock server: java.io.File, java.nio.file.Files
+ * and YAML configurations.
+ *
+ * Nothing touches the disk. A "file" is an entry in a map from absolute
+ * path to its text. Tests seed and inspect files as plain JS through the
+ * server (YAML files are written as JSON, which is valid YAML):
+ *
+ *   server.writeDataFile("config.yml", { game: { "max-players": 500 } });
+ *   settings.load();
+ *   server.readDataFile("config.yml");  // now includes the written defaults
+ *
+ * INSIDE A LOADED CONFIGURATION:
+ * Sections are JS Maps and lists are mock java.util.Lists, matching what
+ * the real API hands out (ConfigurationSection / List). Saving converts
+ * back to plain JS, so later edits to a loaded configuration don't leak
+ * into the stored file until save() is called.
+ *
+ * NOT SIMULATED: YAML syntax. Configurations are saved and loaded as
+ * JSON, which is valid YAML but not what the server would write.
+ */
+
+import { mockList, mockSet } from "./mockCollections";
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * Storage behind the mock files.
+ */
+export interface MockFileSystem {
+  /** Text contents by absolute path */
+  readonly files: Map<string, string>;
+
+  /** new java.io.File(parent, child) / new java.io.File(path) */
+  constructFile(parentOrPath: any, child?: string): any;
+
+  /** Static methods of java.nio.file.Files */
+  readonly nioFiles: Record<string, (...args: any[]) => any>;
+
+  /** YamlConfiguration.loadConfiguration(file) */
+  loadConfiguration(file: any): any;
+
+  /** new YamlConfiguration() */
+  createConfiguration(): any;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function joinPath(parent: string, child: string): string {
+  if (child.startsWith("/")) return child;
+  return `${parent.replace(/\/+$/, "")}/${child}`.replace(/\/\.\//g, "/");
+}
+
+function isList(value: any): boolean {
+  return value !== null && typeof value === "object" && typeof value.toArray === "function";
+}
+
+/**
+ * Stored form (plain JS) → live form (Maps and mock lists).
+ */
+function fromStored(value: unknown): any {
+  if (Array.isArray(value)) return mockList(value.map(fromStored));
+  if (value !== null && typeof value === "object") {
+    return new Map(Object.entries(value).map(([key, child]) => [key, fromStored(child)]));
+  }
+  return value;
+}
+
+/**
+ * Live form → stored form (deep copy).
+ */
+function toStored(value: any): unknown {
+  if (value instanceof Map) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of value) result[key] = toStored(child);
+    return result;
+  }
+  if (isList(value)) return Array.from(value.toArray(), toStored);
+  if (Array.isArray(value)) return value.map(toStored);
+  return value;
+}
+
+// ============================================
+// CONFIGURATION SECTIONS
+// ============================================
+
+/**
+ * Wrap a Map as a ConfigurationSection.
+ *
+ * @param node Contents of this section
+ * @param defaults Values from addDefault(), at the same level (or null)
+ */
+function createMockSection(node: Map<string, any>, currentPath: string, defaults: Map<string, any> | null): any {
+  function lookup(from: Map<string, any> | null, path: string): any {
+    let current: any = from;
+    for (const segment of path.split(".")) {
+      if (!(current instanceof Map)) return undefined;
+      current = current.get(segment);
+    }
+    return current;
+  }
+
+  function raw(path: string): any {
+    const value = lookup(node, path);
+    return value !== undefined ? value : lookup(defaults, path);
+  }
+
+  function wrap(value: any, path: string): any {
+    if (!(value instanceof Map)) return value;
+    const fullPath = currentPath === "" ? path : `${currentPath}.${path}`;
+    const sectionDefaults = lookup(defaults, path);
+    return createMockSection(value, fullPath, sectionDefaults instanceof Map ? sectionDefaults : null);
+  }
+
+  function write(target: Map<string, any>, path: string, value: any): void {
+    const segments = path.split(".");
+    let current = target;
+    for (const segment of segments.slice(0, -1)) {
+      let next = current.get(segment);
+      if (!(next instanceof Map)) {
+        next = new Map();
+        current.set(segment, next);
+      }
+      current = next;
+    }
+    const last = segments[segments.length - 1];
+    if (value === null || value === undefined) current.delete(last);
+    else current.set(last, value instanceof Map || isList(value) ? value : fromStored(value));
+  }
+
+  function collectKeys(from: Map<string, any>, prefix: string, deep: boolean, into: string[]): void {
+    for (const [key, value] of from) {
+      const path = prefix === "" ? key : `${prefix}.${key}`;
+      if (!into.includes(path)) into.push(path);
+      if (deep && value instanceof Map) collectKeys(value, path, deep, into);
+    }
+  }
+
+  const section: any = tagJavaTypes({
+    getKeys: (deep: boolean) => {
+      const keys: string[] = [];
+      collectKeys(node, "", deep, keys);
+      if (defaults !== null) collectKeys(defaults, "", deep, keys);
+      return mockSet(keys);
+    },
+    contains: (path: string) => raw(path) !== undefined,
+    isSet: (path: string) => lookup(node, path) !== undefined,
+    getCurrentPath: () => currentPath,
+    getName: () => currentPath.substring(currentPath.lastIndexOf(".") + 1),
+
+    get: (path: string, def: any = null) => {
+      const value = raw(path);
+      return value === undefined ? def : wrap(value, path);
+    },
+    set: (path: string, value: any) => write(node, path, value),
+    createSection: (path: string) => {
+      write(node, path, new Map());
+      return wrap(lookup(node, path), path);
+    },
+
+    getString: (path: string, def: string | null = null) => {
+      const value = raw(path);
+      return value === undefined || value instanceof Map || isList(value) ? def : String(value);
+    },
+    isString: (path: string) => typeof raw(path) === "string",
+    getInt: (path: string, def: number = 0) => {
+      const value = raw(path);
+      return typeof value === "number" ? Math.trunc(value) : def;
+    },
+    isInt: (path: string) => Number.isInteger(raw(path)),
+    getDouble: (path: string, def: number = 0) => {
+      const value = raw(path);
+      return typeof value === "number" ? value : def;
+    },
+    isDouble: (path: string) => typeof raw(path) === "number",
+    getBoolean: (path: string, def: boolean = false) => {
+      const value = raw(path);
+      return typeof value === "boolean" ? value : def;
+    },
+    isBoolean: (path: string) => typeof raw(path) === "boolean",
+
+    getList: (path: string) => {
+      const value = raw(path);
+      return isList(value) ? value : null;
+    },
+    isList: (path: string) => isList(raw(path)),
+    getStringList: (path: string) => {
+      const value = raw(path);
+      if (!isList(value)) return mockList([]);
+      return mockList(Array.from(value.toArray() as any[])
+        .filter(item => item !== null && typeof item !== "object")
+        .map(String));
+    },
+
+    getConfigurationSection: (path: string) => {
+      const value = raw(path);
+      return value instanceof Map ? wrap(value, path) : null;
+    },
+    isConfigurationSection: (path: string) => raw(path) instanceof Map,
+
+    addDefault: (path: string) => {
+      throw new Error(`Mock server: addDefault(${path}) is only supported on the root configuration`);
+    },
+
+    toString: () => `MemorySection[path='${currentPath}']`,
+  }, "org.bukkit.configuration.ConfigurationSection");
+
+  return section;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Create an empty in-memory file system.
+ */
+export function createMockFileSystem(): MockFileSystem {
+  const files = new Map<string, string>();
+  const folders = new Set<string>();
+
+  function ensureParent(path: string): void {
+    const parent = path.substring(0, path.lastIndexOf("/"));
+    if (parent !== "" && !folders.has(parent)) {
+      throw new Error(`NoSuchFileException: ${parent}`);
+    }
+  }
+
+  function makeFolders(path: string): void {
+    let current = path;
+    while (current.length > 0) {
+      folders.add(current);
+      current = current.substring(0, current.lastIndexOf("/"));
+    }
+  }
+
+  /** java.nio.file.Path (only what the framework uses) */
+  function constructPath(path: string): any {
+    return tagJavaTypes({
+      toFile: () => constructFile(path),
+      getFileName: () => constructPath(path.substring(path.lastIndexOf("/") + 1)),
+      getParent: () => (path.lastIndexOf("/") > 0 ? constructPath(path.substring(0, path.lastIndexOf("/"))) : null),
+      resolve: (other: string) => constructPath(joinPath(path, String(other))),
+      resolveSibling: (other: string) => constructPath(joinPath(path.substring(0, path.lastIndexOf("/")), String(other))),
+      equals: (other: any) => other !== null && String(other) === path,
+      toString: () => path,
+    }, "java.nio.file.Path");
+  }
+
+  function constructFile(parentOrPath: any, child?: string): any {
+    const base = typeof parentOrPath === "string" ? parentOrPath : parentOrPath.getAbsolutePath();
+    const joined = child === undefined ? base : joinPath(base, child);
+    const path = joined.startsWith("/") ? joined : `/${joined}`;
+    const name = path.substring(path.lastIndexOf("/") + 1);
+
+    const file: any = tagJavaTypes({
+      getPath: () => path,
+      getAbsolutePath: () => path,
+      getName: () => name,
+      getParentFile: () => (path.lastIndexOf("/") > 0 ? constructFile(path.substring(0, path.lastIndexOf("/"))) : null),
+      exists: () => files.has(path) || folders.has(path),
+      isFile: () => files.has(path),
+      isDirectory: () => folders.has(path),
+      mkdirs: () => {
+        if (folders.has(path)) return false;
+        makeFolders(path);
+        return true;
+      },
+      delete: () => files.delete(path) || folders.delete(path),
+      list: () => {
+        if (!folders.has(path)) return null;
+        const names = new Set<string>();
+        for (const entry of [...files.keys(), ...folders]) {
+          if (entry.startsWith(`${path}/`)) names.add(entry.substring(path.length + 1).split("/")[0]);
+        }
+        return [...names];
+      },
+      toPath: () => constructPath(path),
+      equals: (other: any) => other !== null && typeof other?.getAbsolutePath === "function" && other.getAbsolutePath() === path,
+      toString: () => path,
+    }, "java.io.File");
+
+    return file;
+  }
+
+  function createConfiguration(initial: Record<string, unknown> = {}): any {
+    const root: Map<string, any> = fromStored(initial);
+    const defaults = new Map<string, any>();
+    const section = createMockSection(root, "", defaults);
+
+    const options: any = {
+      copyDefaults: () => options,
+      setHeader: () => options,
+    };
+
+    return tagJavaTypes({
+      ...section,
+      addDefault: (path: string, value: any) => {
+        createMockSection(defaults, "", null).set(path, value);
+      },
+      options: () => options,
+      save: (file: any) => {
+        const parent = file.getParentFile();
+        if (parent !== null && !parent.exists()) {
+          throw new Error(`IOException: ${parent.getAbsolutePath()} does not exist`);
+        }
+        files.set(file.getAbsolutePath(), JSON.stringify(toStored(root), null, 2));
+      },
+      saveToString: () => JSON.stringify(toStored(root), null, 2),
+      loadFromString: (contents: string) => {
+        root.clear();
+        for (const [key, value] of fromStored(JSON.parse(contents) ?? {})) root.set(key, value);
+      },
+      toString: () => "YamlConfiguration",
+    }, "org.bukkit.configuration.file.YamlConfiguration", "org.bukkit.configuration.file.FileConfiguration",
+       "org.bukkit.configuration.ConfigurationSection");
+  }
+
+  const nioFiles = {
+    exists: (path: any) => files.has(String(path)) || folders.has(String(path)),
+    isDirectory: (path: any) => folders.has(String(path)),
+    readString: (path: any) => {
+      const text = files.get(String(path));
+      if (text === undefined) throw new Error(`NoSuchFileException: ${path}`);
+      return text;
+    },
+    writeString: (path: any, text: string) => {
+      ensureParent(String(path));
+      files.set(String(path), String(text));
+      return path;
+    },
+    createDirectories: (path: any) => {
+      makeFolders(String(path));
+      return path;
+    },
+    move: (source: any, target: any) => {
+      const text = nioFiles.readString(source);
+      ensureParent(String(target));
+      files.delete(String(source));
+      files.set(String(target), text);
+      return target;
+    },
+    deleteIfExists: (path: any) => files.delete(String(path)),
+  };
+
+  return {
+    files,
+    constructFile,
+    nioFiles,
+    loadConfiguration: (file: any) => {
+      const text = files.get(file.getAbsolutePath());
+      return createConfiguration(text === undefined ? {} : JSON.parse(text));
+    },
+    createConfiguration: () => createConfiguration(),
+  };
+}
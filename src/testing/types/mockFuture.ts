@@ -0,0 +1,131 @@
+/**
+ * Mock java.util.concurrent.CompletableFuture.
+ *
+ * Completion is synchronous: callbacks registered with whenComplete()
+ * run inside complete(), or right away if the future is already done.
+ * toPromise() still hops through the (mock) scheduler, so tests advance
+ * one tick before an `await` resumes - as on a real server.
+ */
+
+import { JavaCompletableFuture, JavaThrowable } from "../../java/types/completableFuture";
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Create a pending future. Complete it with complete() or
+ * completeExceptionally().
+ */
+export function createMockFuture<T>(): JavaCompletableFuture<T> {
+  let state: "pending" | "done" | "failed" | "cancelled" = "pending";
+  let result: T | null = null;
+  let failure: JavaThrowable | null = null;
+  const callbacks: Array<(value: T | null, error: JavaThrowable | null) => void> = [];
+
+  function settle(): void {
+    for (const callback of callbacks.splice(0)) {
+      callback(result, failure);
+    }
+  }
+
+  const future: JavaCompletableFuture<T> = tagJavaTypes({
+    isDone: () => state !== "pending",
+    isCancelled: () => state === "cancelled",
+    isCompletedExceptionally: () => state === "failed" || state === "cancelled",
+
+    getNow: (valueIfAbsent: T) => (state === "done" ? result as T : valueIfAbsent),
+
+    join(): T {
+      if (state === "pending") {
+        throw new Error("Mock server: join() on a pending future would block forever");
+      }
+      if (failure !== null) throw new Error(failure.getMessage() ?? "CompletionException");
+      return result as T;
+    },
+
+    get(): T {
+      return future.join();
+    },
+
+    complete(value: T): boolean {
+      if (state !== "pending") return false;
+      state = "done";
+      result = value;
+      settle();
+      return true;
+    },
+
+    completeExceptionally(ex: JavaThrowable): boolean {
+      if (state !== "pending") return false;
+      state = "failed";
+      failure = ex;
+      settle();
+      return true;
+    },
+
+    cancel(): boolean {
+      if (state !== "pending") return false;
+      state = "cancelled";
+      failure = mockThrowable("java.util.concurrent.CancellationException", "cancelled");
+      settle();
+      return true;
+    },
+
+    whenComplete(action: (value: T | null, error: JavaThrowable | null) => void): JavaCompletableFuture<T> {
+      callbacks.push(action);
+      if (state !== "pending") settle();
+      return future;
+    },
+
+    thenApply<U>(fn: (value: T) => U): JavaCompletableFuture<U> {
+      const next = createMockFuture<U>();
+      future.whenComplete((value, error) => {
+        if (error !== null) next.completeExceptionally(error);
+        else next.complete(fn(value as T));
+      });
+      return next;
+    },
+
+    thenAccept(action: (value: T) => void): JavaCompletableFuture<void> {
+      return future.thenApply(value => {
+        action(value);
+      });
+    },
+
+    exceptionally(fn: (error: JavaThrowable) => T): JavaCompletableFuture<T> {
+      const next = createMockFuture<T>();
+      future.whenComplete((value, error) => {
+        next.complete(error !== null ? fn(error) : value as T);
+      });
+      return next;
+    },
+  }, "java.util.concurrent.CompletableFuture", "java.util.concurrent.Future");
+
+  return future;
+}
+
+/**
+ * Create an already completed future.
+ */
+export function completedMockFuture<T>(value: T): JavaCompletableFuture<T> {
+  const future = createMockFuture<T>();
+  future.complete(value);
+  return future;
+}
+
+/**
+ * Create a Java-like exception, e.g. to fail a future.
+ *
+ * @example
+ * future.completeExceptionally(mockThrowable("java.io.IOException", "disk full"));
+ */
+export function mockThrowable(className: string, message: string | null, cause: JavaThrowable | null = null): JavaThrowable {
+  return tagJavaTypes({
+    getMessage: () => message,
+    getCause: () => cause,
+    getClass: () => ({ getName: () => className }),
+    toString: () => (message !== null ? `${className}: ${message}` : className),
+  }, className, "java.lang.Throwable");
+}
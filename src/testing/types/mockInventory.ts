@@ -0,0 +1,277 @@
+/**
+ * DESIGN
+ * ------
+ * Inventories for the mock server.
+ *
+ * Slots hold an ItemStack or null (empty), like Bukkit's getItem().
+ * addItem() follows the real stacking rules: it first tops up similar
+ * stacks, then fills empty slots, and returns what didn't fit.
+ *
+ * PLAYER INVENTORY LAYOUT (41 slots):
+ *
+ *   ┌────────────────────────────────────────┐
+ *   │  0-8    hotbar                         │
+ *   │  9-35   main storage                   │
+ *   │  36-39  boots, leggings, chest, helmet │
+ *   │  40     off hand                       │
+ *   └────────────────────────────────────────┘
+ */
+
+import { mockList, mockMap } from "./mockCollections";
+import { mockEnumConstant, tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export interface MockInventoryOptions {
+  /** Number of slots */
+  size: number;
+
+  /** InventoryType constant name (default CHEST) */
+  type?: string;
+
+  /** Title shown to viewers */
+  title?: string;
+
+  /** Holder returned by getHolder() */
+  holder?: any;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function isEmptySlot(item: any): boolean {
+  return item === null || item === undefined || item.isEmpty();
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Create a mock Inventory.
+ *
+ * @example
+ * const chest = createMockInventory({ size: 27, title: "Loot" });
+ * chest.addItem(new ItemStack(Material.DIAMOND, 5));
+ */
+export function createMockInventory(options: MockInventoryOptions): any {
+  const slots: any[] = new Array(options.size).fill(null);
+  const viewers: any[] = [];
+  const type = mockEnumConstant("org.bukkit.event.inventory.InventoryType", options.type ?? "CHEST");
+
+  const firstIndex = (predicate: (item: any) => boolean) => slots.findIndex(predicate);
+
+  const matches = (item: any, target: any) => {
+    if (isEmptySlot(item)) return false;
+    /* contains()/first() accept a Material or an ItemStack */
+    return typeof target.getAmount === "function" ? item.isSimilar(target) : item.getType() === target;
+  };
+
+  const inventory: any = tagJavaTypes({
+    getSize: () => slots.length,
+    getType: () => type,
+    getTitle: () => options.title ?? "",
+    getHolder: () => options.holder ?? null,
+    getViewers: () => mockList(viewers),
+    getMaxStackSize: () => 64,
+
+    getItem: (index: number) => (isEmptySlot(slots[index]) ? null : slots[index]),
+    setItem: (index: number, item: any) => {
+      slots[index] = isEmptySlot(item) ? null : item;
+    },
+
+    getContents: () => slots.map(item => (isEmptySlot(item) ? null : item)),
+    getStorageContents: () => inventory.getContents(),
+    setStorageContents: (items: any[]) => inventory.setContents(items),
+    setContents: (items: any[]) => {
+      for (let i = 0; i < slots.length; i++) {
+        slots[i] = isEmptySlot(items[i]) ? null : items[i];
+      }
+    },
+
+    addItem: (...items: any[]) => {
+      const leftovers = mockMap<number, any>();
+
+      items.forEach((original, index) => {
+        const item = original.clone();
+        let remaining = item.getAmount();
+        const max = Math.min(item.getMaxStackSize(), 64);
+
+        for (const slot of slots) {
+          if (remaining <= 0) break;
+          if (isEmptySlot(slot) || !slot.isSimilar(item)) continue;
+          const moved = Math.min(max - slot.getAmount(), remaining);
+          if (moved > 0) {
+            slot.setAmount(slot.getAmount() + moved);
+            remaining -= moved;
+          }
+        }
+
+        for (let i = 0; i < slots.length && remaining > 0; i++) {
+          if (!isEmptySlot(slots[i])) continue;
+          const stack = item.clone();
+          stack.setAmount(Math.min(max, remaining));
+          slots[i] = stack;
+          remaining -= stack.getAmount();
+        }
+
+        if (remaining > 0) {
+          const leftover = item.clone();
+          leftover.setAmount(remaining);
+          leftovers.put(index, leftover);
+        }
+      });
+
+      return leftovers;
+    },
+
+    removeItem: (...items: any[]) => {
+      const leftovers = mockMap<number, any>();
+
+      items.forEach((item, index) => {
+        let remaining = item.getAmount();
+        for (let i = 0; i < slots.length && remaining > 0; i++) {
+          const slot = slots[i];
+          if (isEmptySlot(slot) || !slot.isSimilar(item)) continue;
+          const taken = Math.min(slot.getAmount(), remaining);
+          slot.setAmount(slot.getAmount() - taken);
+          if (slot.getAmount() <= 0) slots[i] = null;
+          remaining -= taken;
+        }
+        if (remaining > 0) {
+          const leftover = item.clone();
+          leftover.setAmount(remaining);
+          leftovers.put(index, leftover);
+        }
+      });
+
+      return leftovers;
+    },
+
+    contains: (target: any, amount?: number) => {
+      if (amount === undefined) return firstIndex(item => matches(item, target)) >= 0;
+      const total = slots.filter(item => matches(item, target)).reduce((sum, item) => sum + item.getAmount(), 0);
+      return total >= amount;
+    },
+    containsAtLeast: (item: any, amount: number) => inventory.contains(item, amount),
+    first: (target: any) => firstIndex(item => matches(item, target)),
+    firstEmpty: () => firstIndex(isEmptySlot),
+    isEmpty: () => slots.every(isEmptySlot),
+
+    remove: (target: any) => {
+      for (let i = 0; i < slots.length; i++) {
+        if (matches(slots[i], target)) slots[i] = null;
+      }
+    },
+    clear: (index?: number) => {
+      if (index !== undefined) {
+        slots[index] = null;
+      } else {
+        slots.fill(null);
+      }
+    },
+
+    equals: (other: any) => other === inventory,
+
+    /** Mock only: viewers are tracked by the mock player's openInventory() */
+    addViewer: (player: any) => {
+      if (!viewers.includes(player)) viewers.push(player);
+    },
+    removeViewer: (player: any) => {
+      const index = viewers.indexOf(player);
+      if (index >= 0) viewers.splice(index, 1);
+    },
+  }, "org.bukkit.inventory.Inventory");
+
+  return inventory;
+}
+
+/**
+ * Create a mock PlayerInventory (41 slots).
+ */
+export function createMockPlayerInventory(holder: any): any {
+  const inventory = createMockInventory({ size: 41, type: "PLAYER", holder, title: "Inventory" });
+  let heldSlot = 0;
+
+  const slotAccessor = (slot: number) => ({
+    get: () => inventory.getItem(slot),
+    set: (item: any) => inventory.setItem(slot, item),
+  });
+  const boots = slotAccessor(36);
+  const leggings = slotAccessor(37);
+  const chestplate = slotAccessor(38);
+  const helmet = slotAccessor(39);
+  const offHand = slotAccessor(40);
+
+  /* Storage stops before the armor slots */
+  const storage = inventory.getContents;
+
+  return tagJavaTypes(Object.assign(inventory, {
+    getHeldItemSlot: () => heldSlot,
+    setHeldItemSlot: (slot: number) => {
+      if (slot < 0 || slot > 8) throw new Error(`IllegalArgumentException: Slot is not between 0 and 8 inclusive`);
+      heldSlot = slot;
+    },
+    getItemInMainHand: () => inventory.getItem(heldSlot),
+    setItemInMainHand: (item: any) => inventory.setItem(heldSlot, item),
+    getItemInOffHand: offHand.get,
+    setItemInOffHand: offHand.set,
+    getHelmet: helmet.get,
+    setHelmet: helmet.set,
+    getChestplate: chestplate.get,
+    setChestplate: chestplate.set,
+    getLeggings: leggings.get,
+    setLeggings: leggings.set,
+    getBoots: boots.get,
+    setBoots: boots.set,
+    getArmorContents: () => [boots.get(), leggings.get(), chestplate.get(), helmet.get()],
+    setArmorContents: (items: any[]) => {
+      [boots, leggings, chestplate, helmet].forEach((accessor, i) => accessor.set(items[i] ?? null));
+    },
+    getExtraContents: () => [offHand.get()],
+    getStorageContents: () => storage().slice(0, 36),
+    setStorageContents: (items: any[]) => {
+      for (let slot = 0; slot < 36; slot++) inventory.setItem(slot, items[slot] ?? null);
+    },
+  }), "org.bukkit.inventory.PlayerInventory");
+}
+
+/**
+ * Create a mock AnvilInventory (input, second input, result).
+ * setRenameText() is mock only: it stands for the player typing.
+ */
+export function createMockAnvilInventory(): any {
+  const inventory = createMockInventory({ size: 3, type: "ANVIL", title: "Repair & Name" });
+  let renameText: string | null = null;
+  let repairCost = 0;
+
+  return tagJavaTypes(Object.assign(inventory, {
+    getRenameText: () => renameText,
+    setRenameText: (text: string | null) => {
+      renameText = text;
+    },
+    getRepairCost: () => repairCost,
+    setRepairCost: (levels: number) => {
+      repairCost = levels;
+    },
+  }), "org.bukkit.inventory.AnvilInventory");
+}
+
+/**
+ * Create a mock InventoryView between a player and a top inventory.
+ */
+export function createMockInventoryView(player: any, top: any, title: string): any {
+  return tagJavaTypes({
+    getPlayer: () => player,
+    getTopInventory: () => top,
+    getBottomInventory: () => player.getInventory(),
+    getType: () => top.getType(),
+    getTitle: () => title,
+    getOriginalTitle: () => title,
+    countSlots: () => top.getSize() + 36,
+    close: () => player.closeInventory(),
+  }, "org.bukkit.inventory.InventoryView");
+}
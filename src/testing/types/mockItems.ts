@@ -0,0 +1,535 @@
+/**
+ * DESIGN
+ * ------
+ * Item stacks, item meta and persistent data for the mock server.
+ *
+ * Behaviour mirrors Bukkit where tests are likely to look:
+ * - getItemMeta() returns a COPY; changes only stick after setItemMeta()
+ * - clone() is deep (meta and persistent data included)
+ * - isSimilar() compares everything except the amount
+ *
+ *   ┌──────────────┐ getItemMeta() ┌──────────────┐
+ *   │  ItemStack   │ ────────────→ │ ItemMeta     │  (copy)
+ *   │  type/amount │ ←──────────── │ name, lore,  │
+ *   └──────────────┘ setItemMeta() │ PDC, enchants│
+ *                                  └──────────────┘
+ */
+
+import { mockList, mockMap, mockSet, toJsArray } from "./mockCollections";
+import { mockEnumConstant, mockKey, tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/** Plain state behind a mock ItemMeta */
+interface MetaState {
+  displayName: string | null;
+  lore: string[] | null;
+  customModelData: number | null;
+  unbreakable: boolean;
+  damage: number;
+  enchants: Array<[any, number]>;
+  flags: any[];
+  data: MockDataEntry[];
+}
+
+/**
+ * One stored value: key, value and the PersistentDataType it was set
+ * with (null when copied with copyTo(), which keeps any type).
+ */
+export type MockDataEntry = [key: any, value: any, type?: any];
+
+// ============================================
+// NAMESPACED KEYS
+// ============================================
+
+/**
+ * Constructor of org.bukkit.NamespacedKey.
+ *
+ * @param owner Plugin (namespace = lowercase plugin name) or namespace string
+ */
+export function constructNamespacedKey(owner: any, key: string): any {
+  const namespace = typeof owner === "string" ? owner : owner.getName().toLowerCase();
+  if (!/^[a-z0-9._/-]+$/.test(key)) {
+    throw new Error(`IllegalArgumentException: Invalid key. Must be [a-z0-9/._-]: ${key}`);
+  }
+  return mockKey(namespace, key);
+}
+
+/**
+ * NamespacedKey.fromString("ns:key") / fromString("key").
+ */
+export function namespacedKeyFromString(text: string): any {
+  const separator = text.indexOf(":");
+  return separator < 0
+    ? mockKey("minecraft", text)
+    : mockKey(text.substring(0, separator) || "minecraft", text.substring(separator + 1));
+}
+
+// ============================================
+// PERSISTENT DATA
+// ============================================
+
+/** Hidden property holding the entries of a mock container */
+const CONTAINER_ENTRIES = Symbol("containerEntries");
+
+/**
+ * Deep copy of a stored value.
+ * Arrays and nested containers are copied, like NBT is on the real server.
+ */
+function copyDataValue(value: any): any {
+  if (Array.isArray(value)) return value.map(copyDataValue);
+  if (value !== null && typeof value === "object" && value[CONTAINER_ENTRIES] !== undefined) {
+    return createMockDataContainer(copyDataEntries(value[CONTAINER_ENTRIES]));
+  }
+  return value;
+}
+
+function copyDataEntries(entries: MockDataEntry[]): MockDataEntry[] {
+  return entries.map(([key, value, type]) => [key, copyDataValue(value), type]);
+}
+
+/**
+ * Comparable form of stored values (nested containers included).
+ */
+function describeDataValue(value: any): any {
+  if (Array.isArray(value)) return value.map(describeDataValue);
+  if (value !== null && typeof value === "object" && value[CONTAINER_ENTRIES] !== undefined) {
+    return describeDataEntries(value[CONTAINER_ENTRIES]);
+  }
+  return value;
+}
+
+function describeDataEntries(entries: MockDataEntry[]): any[] {
+  return entries.map(([key, value]) => [String(key), describeDataValue(value)]).sort();
+}
+
+/**
+ * Mock PersistentDataContainer over an entry array.
+ *
+ * Values are copied on the way in and out, like NBT would be: changing
+ * a nested container read with get() doesn't change the stored one until
+ * it is set() back. has(key, type)/get(key, type) check the type the value
+ * was set with, and get() with another type throws, like Paper.
+ */
+export function createMockDataContainer(entries: MockDataEntry[] = []): any {
+  const find = (key: any) => entries.findIndex(([k]) => k.equals(key));
+  const sameType = (entry: MockDataEntry, type: any) =>
+    type === undefined || type === null || entry[2] === undefined || entry[2] === null || entry[2] === type;
+
+  const container = tagJavaTypes({
+    [CONTAINER_ENTRIES]: entries,
+
+    set(key: any, type: any, value: any): void {
+      if (value === null || value === undefined) {
+        throw new Error("NullPointerException: The provided value cannot be null");
+      }
+      const index = find(key);
+      if (index >= 0) entries[index] = [key, copyDataValue(value), type];
+      else entries.push([key, copyDataValue(value), type]);
+    },
+    has(key: any, type?: any): boolean {
+      const index = find(key);
+      return index >= 0 && sameType(entries[index], type);
+    },
+    get(key: any, type: any): any {
+      const index = find(key);
+      if (index < 0) return null;
+      if (!sameType(entries[index], type)) {
+        throw new Error(`IllegalArgumentException: The found tag instance for ${key} cannot store ${type}`);
+      }
+      return copyDataValue(entries[index][1]);
+    },
+    getOrDefault(key: any, type: any, fallback: any): any {
+      return container.get(key, type) ?? fallback;
+    },
+    remove(key: any): void {
+      const index = find(key);
+      if (index >= 0) entries.splice(index, 1);
+    },
+    getKeys: () => mockSet(entries.map(([k]) => k)),
+    isEmpty: () => entries.length === 0,
+    copyTo(other: any, replace: boolean): void {
+      for (const [key, value, type] of entries) {
+        if (replace || !other.has(key)) other.set(key, type ?? null, copyDataValue(value));
+      }
+    },
+    getAdapterContext: () => ({ newPersistentDataContainer: () => createMockDataContainer() }),
+    equals: (other: any) =>
+      other !== null && other?.[CONTAINER_ENTRIES] !== undefined &&
+      JSON.stringify(describeDataEntries(entries)) === JSON.stringify(describeDataEntries(other[CONTAINER_ENTRIES])),
+  }, "org.bukkit.persistence.PersistentDataContainer");
+
+  return container;
+}
+
+// ============================================
+// ITEM META
+// ============================================
+
+function emptyMetaState(): MetaState {
+  return {
+    displayName: null,
+    lore: null,
+    customModelData: null,
+    unbreakable: false,
+    damage: 0,
+    enchants: [],
+    flags: [],
+    data: [],
+  };
+}
+
+function copyMetaState(state: MetaState): MetaState {
+  return {
+    displayName: state.displayName,
+    lore: state.lore !== null ? [...state.lore] : null,
+    customModelData: state.customModelData,
+    unbreakable: state.unbreakable,
+    damage: state.damage,
+    enchants: state.enchants.map(([e, l]) => [e, l] as [any, number]),
+    flags: [...state.flags],
+    data: copyDataEntries(state.data),
+  };
+}
+
+function sameMetaState(a: MetaState, b: MetaState): boolean {
+  return JSON.stringify(serializeMetaState(a)) === JSON.stringify(serializeMetaState(b));
+}
+
+function serializeMetaState(state: MetaState): object {
+  return {
+    displayName: state.displayName,
+    lore: state.lore,
+    customModelData: state.customModelData,
+    unbreakable: state.unbreakable,
+    damage: state.damage,
+    enchants: state.enchants.map(([e, l]) => [String(e.getKey?.() ?? e), l]).sort(),
+    flags: state.flags.map(f => String(f)).sort(),
+    data: describeDataEntries(state.data),
+  };
+}
+
+/** Hidden property holding the state of a mock ItemMeta */
+const META_STATE = Symbol("metaState");
+
+/**
+ * Create a mock ItemMeta around its state.
+ */
+function createMockItemMeta(state: MetaState): any {
+  const meta: any = tagJavaTypes({
+    [META_STATE]: state,
+
+    hasDisplayName: () => state.displayName !== null,
+    getDisplayName: () => state.displayName ?? "",
+    setDisplayName: (name: string | null) => {
+      state.displayName = name;
+    },
+
+    hasLore: () => state.lore !== null && state.lore.length > 0,
+    getLore: () => (state.lore !== null ? mockList([...state.lore]) : null),
+    setLore: (lore: any) => {
+      state.lore = lore !== null ? toJsArray<string>(lore) : null;
+    },
+
+    hasCustomModelData: () => state.customModelData !== null,
+    getCustomModelData: () => {
+      if (state.customModelData === null) throw new Error("IllegalStateException: no custom model data");
+      return state.customModelData;
+    },
+    setCustomModelData: (data: number | null) => {
+      state.customModelData = data;
+    },
+
+    isUnbreakable: () => state.unbreakable,
+    setUnbreakable: (unbreakable: boolean) => {
+      state.unbreakable = unbreakable;
+    },
+
+    hasDamage: () => state.damage > 0,
+    getDamage: () => state.damage,
+    setDamage: (damage: number) => {
+      state.damage = damage;
+    },
+    hasMaxDamage: () => false,
+
+    hasEnchants: () => state.enchants.length > 0,
+    hasEnchant: (enchantment: any) => state.enchants.some(([e]) => e === enchantment),
+    getEnchantLevel: (enchantment: any) => state.enchants.find(([e]) => e === enchantment)?.[1] ?? 0,
+    getEnchants: () => mockMap(state.enchants.map(([e, l]) => [e, l] as [any, number])),
+    addEnchant: (enchantment: any, level: number) => {
+      meta.removeEnchant(enchantment);
+      state.enchants.push([enchantment, level]);
+      return true;
+    },
+    removeEnchant: (enchantment: any) => {
+      const index = state.enchants.findIndex(([e]) => e === enchantment);
+      if (index < 0) return false;
+      state.enchants.splice(index, 1);
+      return true;
+    },
+
+    addItemFlags: (...flags: any[]) => {
+      for (const flag of flags) {
+        if (!state.flags.includes(flag)) state.flags.push(flag);
+      }
+    },
+    removeItemFlags: (...flags: any[]) => {
+      state.flags = state.flags.filter(flag => !flags.includes(flag));
+    },
+    hasItemFlag: (flag: any) => state.flags.includes(flag),
+    getItemFlags: () => mockSet([...state.flags]),
+
+    getPersistentDataContainer: () => createMockDataContainer(state.data),
+
+    clone: () => createMockItemMeta(copyMetaState(state)),
+    equals: (other: any) => other !== null && other[META_STATE] !== undefined && sameMetaState(state, other[META_STATE]),
+    serialize: () => mockMap(Object.entries(serializeMetaState(state)) as Array<[any, any]>),
+  }, "org.bukkit.inventory.meta.ItemMeta", "org.bukkit.inventory.meta.Damageable",
+     "org.bukkit.persistence.PersistentDataHolder");
+
+  return meta;
+}
+
+// ============================================
+// ITEM STACKS
+// ============================================
+
+/** Hidden property holding the meta state of a mock ItemStack */
+const STACK_META = Symbol("stackMeta");
+
+/**
+ * Snapshots written with serializeAsBytes().
+ *
+ * WHY HANDLES: The real bytes are NBT. Mock bytes only spell
+ * "mock-item:<index>" and point at a snapshot kept here, so a
+ * deserialized item is an independent copy with the same state.
+ */
+const serializedItems: any[] = [];
+
+const SERIALIZED_PREFIX = "mock-item:";
+
+/** DataVersion written by the mock (1.21.4) */
+const MOCK_DATA_VERSION = 4189;
+
+/**
+ * Constructor of org.bukkit.inventory.ItemStack.
+ *
+ * @example
+ * const stack = createMockItemStack(Material.DIAMOND, 3);
+ */
+export function createMockItemStack(type: any, amount: number = 1): any {
+  let material = type;
+  let count = amount;
+  let metaState: MetaState = emptyMetaState();
+
+  const air = () => material.isAir?.() === true;
+
+  const stack: any = tagJavaTypes({
+    [STACK_META]: () => metaState,
+
+    getType: () => material,
+    setType: (next: any) => {
+      material = next;
+    },
+    getAmount: () => count,
+    setAmount: (next: number) => {
+      count = next;
+    },
+    getMaxStackSize: () => material.getMaxStackSize?.() ?? 64,
+    isEmpty: () => air() || count <= 0,
+
+    hasItemMeta: () => !air() && !sameMetaState(metaState, emptyMetaState()),
+    getItemMeta: () => (air() ? null : createMockItemMeta(copyMetaState(metaState))),
+    setItemMeta: (meta: any) => {
+      metaState = meta === null ? emptyMetaState() : copyMetaState(meta[META_STATE]);
+      return true;
+    },
+
+    getEnchantments: () => mockMap(metaState.enchants.map(([e, l]) => [e, l] as [any, number])),
+    getEnchantmentLevel: (enchantment: any) => metaState.enchants.find(([e]) => e === enchantment)?.[1] ?? 0,
+    containsEnchantment: (enchantment: any) => metaState.enchants.some(([e]) => e === enchantment),
+    addUnsafeEnchantment: (enchantment: any, level: number) => {
+      metaState.enchants = metaState.enchants.filter(([e]) => e !== enchantment);
+      metaState.enchants.push([enchantment, level]);
+    },
+    removeEnchantment: (enchantment: any) => {
+      const level = stack.getEnchantmentLevel(enchantment);
+      metaState.enchants = metaState.enchants.filter(([e]) => e !== enchantment);
+      return level;
+    },
+
+    getPersistentDataContainer: () => createMockDataContainer(metaState.data),
+
+    isSimilar: (other: any) =>
+      other !== null && other !== undefined && other[STACK_META] !== undefined &&
+      other.getType() === material && sameMetaState(metaState, other[STACK_META]()),
+
+    equals: (other: any) => stack.isSimilar(other) && other.getAmount() === count,
+
+    clone: () => {
+      const copy = createMockItemStack(material, count);
+      copy.setItemMeta(createMockItemMeta(copyMetaState(metaState)));
+      return copy;
+    },
+
+    serialize: () => mockMap<string, any>([
+      ["type", material.name()],
+      ["amount", count],
+      ...(stack.hasItemMeta() ? [["meta", serializeMetaState(metaState)] as [string, any]] : []),
+    ]),
+
+    serializeAsBytes: () => {
+      if (air()) throw new Error("IllegalArgumentException: Cannot serialize empty ItemStack");
+      serializedItems.push(stack.clone());
+      return Array.from(`${SERIALIZED_PREFIX}${serializedItems.length - 1}`, char => char.charCodeAt(0));
+    },
+
+    toString: () => `ItemStack{${material.name()} x ${count}}`,
+  }, "org.bukkit.inventory.ItemStack", "org.bukkit.configuration.serialization.ConfigurationSerializable");
+
+  return stack;
+}
+
+/**
+ * ItemStack.deserializeBytes() for bytes from serializeAsBytes().
+ */
+export function deserializeMockItemBytes(bytes: number[]): any {
+  const text = String.fromCharCode(...bytes);
+  const snapshot = text.startsWith(SERIALIZED_PREFIX)
+    ? serializedItems[Number(text.substring(SERIALIZED_PREFIX.length))]
+    : undefined;
+  if (snapshot === undefined) {
+    throw new Error("IllegalArgumentException: Bytes were not written by serializeAsBytes()");
+  }
+  return snapshot.clone();
+}
+
+/**
+ * UnsafeValues.serializeItemAsJson(): Paper's item JSON. The meta is
+ * described under "components" for readability; reading goes through
+ * the "mock:snapshot" handle, like serializeAsBytes().
+ */
+export function serializeMockItemJson(stack: any): any {
+  if (stack.isEmpty()) throw new Error("IllegalArgumentException: Cannot serialize empty ItemStack");
+  serializedItems.push(stack.clone());
+
+  const json = JSON.stringify({
+    id: `minecraft:${stack.getType().name().toLowerCase()}`,
+    count: stack.getAmount(),
+    components: {
+      "mock:snapshot": serializedItems.length - 1,
+      ...(stack.hasItemMeta() ? { "mock:meta": serializeMetaState(stack[STACK_META]()) } : {}),
+    },
+    DataVersion: MOCK_DATA_VERSION,
+  });
+  return parseMockJson(json);
+}
+
+/**
+ * UnsafeValues.deserializeItemFromJson() for JSON from serializeMockItemJson().
+ */
+export function deserializeMockItemJson(json: any): any {
+  const data = JSON.parse(json.toString());
+  const snapshot = serializedItems[data?.components?.["mock:snapshot"]];
+  if (snapshot === undefined) {
+    throw new Error("IllegalArgumentException: JSON was not written by serializeItemAsJson()");
+  }
+  const copy = snapshot.clone();
+  copy.setAmount(data.count);
+  return copy;
+}
+
+/**
+ * Gson JsonParser.parseString(): an element that only prints itself.
+ */
+export function parseMockJson(text: string): any {
+  JSON.parse(text);
+  const element: any = tagJavaTypes({
+    getAsJsonObject: () => element,
+    toString: () => text,
+  }, "com.google.gson.JsonElement", "com.google.gson.JsonObject");
+  return element;
+}
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * java.util.Base64 (standard alphabet, padded) over mock byte arrays.
+ */
+export const mockBase64 = {
+  getEncoder: () => ({
+    encodeToString(bytes: number[]): string {
+      let text = "";
+      for (let i = 0; i < bytes.length; i += 3) {
+        const chunk = ((bytes[i] & 0xff) << 16) | ((bytes[i + 1] ?? 0) & 0xff) << 8 | ((bytes[i + 2] ?? 0) & 0xff);
+        const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+        for (let c = 0; c < 4; c++) {
+          text += c < chars ? BASE64_ALPHABET[(chunk >> (18 - c * 6)) & 0x3f] : "=";
+        }
+      }
+      return text;
+    },
+  }),
+
+  getDecoder: () => ({
+    decode(text: string): number[] {
+      const bytes: number[] = [];
+      let bits = 0;
+      let buffer = 0;
+      for (const char of text.replace(/=+$/, "")) {
+        const value = BASE64_ALPHABET.indexOf(char);
+        if (value < 0) throw new Error(`IllegalArgumentException: Illegal base64 character "${char}"`);
+        buffer = (buffer << 6) | value;
+        bits += 6;
+        if (bits >= 8) {
+          bits -= 8;
+          bytes.push((buffer >> bits) & 0xff);
+        }
+      }
+      return bytes;
+    },
+  }),
+};
+
+/**
+ * Empty slot filler used by inventories (Material.AIR x 0).
+ */
+export function mockAir(): any {
+  return createMockItemStack(mockEnumConstant("org.bukkit.Material", "AIR"), 0);
+}
+
+// ============================================
+// POTION EFFECTS
+// ============================================
+
+/**
+ * Mock PotionEffect (`new PotionEffect(type, duration, amplifier, ...)`).
+ */
+export function createMockPotionEffect(
+  type: any,
+  duration: number,
+  amplifier: number,
+  ambient: boolean = false,
+  particles: boolean = true,
+  icon: boolean = particles
+): any {
+  const effect = tagJavaTypes({
+    getType: () => type,
+    getDuration: () => duration,
+    getAmplifier: () => amplifier,
+    isAmbient: () => ambient,
+    hasParticles: () => particles,
+    hasIcon: () => icon,
+    isInfinite: () => duration === -1,
+    withDuration: (ticks: number) => createMockPotionEffect(type, ticks, amplifier, ambient, particles, icon),
+    apply: (entity: any) => entity.addPotionEffect(effect),
+    equals: (other: any) =>
+      other !== null && typeof other === "object" && typeof other.getType === "function" &&
+      other.getType() === type && other.getDuration() === duration && other.getAmplifier() === amplifier &&
+      other.isAmbient() === ambient && other.hasParticles() === particles && other.hasIcon() === icon,
+    toString: () => `${type.getKey().getKey()}:${duration}t-x${amplifier}`,
+  }, "org.bukkit.potion.PotionEffect");
+  return effect;
+}
@@ -0,0 +1,445 @@
+/**
+ * DESIGN
+ * ------
+ * Fake `org.*`, `java.*` and `Java` globals for running plugins in Node.
+ *
+ * On a real server, Javet resolves `org.bukkit.Material.STONE` against
+ * the JVM. Here the same path is resolved by Proxies that make up what's
+ * missing, following Java naming conventions:
+ *
+ *   org.bukkit.event.player.PlayerJoinEvent.getHandlerList()
+ *   └─┬──────────────────┘ └──────┬──────┘ └──────┬───────┘
+ *     lowercase = package    Capitalized = class   method (if mocked)
+ *
+ *   org.bukkit.Material.STONE
+ *                       └─┬─┘
+ *                 UPPER_CASE = enum constant (created on first access)
+ *
+ * A few small enums (GameMode, Difficulty, Environment) are closed: their
+ * constants are listed, and unknown names fail as on the server.
+ *
+ *   org.bukkit.event.entity.EntityDamageEvent.DamageCause
+ *                                             └────┬────┘
+ *                      Capitalized inside a class = nested class ($)
+ *
+ * WHY MAKE UP ENUM CONSTANTS: Registries like Material touch hundreds of
+ * constants at import time. Listing them all would duplicate the real
+ * server; a constant only has to be *stable* (same object every time)
+ * and answer name()/ordinal() for plugin code to work.
+ *
+ * CLASS IMPLEMENTATIONS:
+ * Classes with behaviour (Bukkit, Location, ItemStack...) are registered
+ * by the mock server with registerMockClass(). A registered class can be
+ * constructed with `new` and exposes its static methods. Calling a static
+ * method nobody registered throws an explicit "not mocked" error instead
+ * of failing with "undefined is not a function".
+ *
+ * instanceof CHECKS:
+ * Mock objects are tagged with the Java types they implement
+ * (tagJavaTypes). Class.forName(name).isInstance(obj) reads these tags,
+ * so sender checks like isPlayerSender() behave as on the server.
+ */
+
+import { mockList } from "./mockCollections";
+
+// ============================================
+// TYPE TAGS
+// ============================================
+
+/** Property holding the Java types a mock object implements */
+const JAVA_TYPES = Symbol("javaTypes");
+
+/**
+ * Mark a mock object as implementing Java types (fully qualified names).
+ *
+ * @example
+ * tagJavaTypes(player, "org.bukkit.entity.Player", "org.bukkit.command.CommandSender");
+ */
+export function tagJavaTypes<T extends object>(obj: T, ...types: string[]): T {
+  const existing: Set<string> = (obj as any)[JAVA_TYPES] ?? new Set<string>();
+  for (const type of types) existing.add(type);
+  Object.defineProperty(obj, JAVA_TYPES, { value: existing, enumerable: false, configurable: true });
+  return obj;
+}
+
+/**
+ * Check if a mock object was tagged with a Java type.
+ */
+export function hasJavaType(obj: any, type: string): boolean {
+  if (obj === null || (typeof obj !== "object" && typeof obj !== "function")) return false;
+  const types: Set<string> | undefined = obj[JAVA_TYPES];
+  return types !== undefined && types.has(type);
+}
+
+// ============================================
+// ENUM CONSTANTS
+// ============================================
+
+/**
+ * Constants per enum class, in creation order.
+ *
+ * WHY MODULE-LEVEL: Framework registries capture constants when they are
+ * imported. They must stay the same objects across mock server restarts,
+ * or `Material.STONE === item.getType()` would break between tests.
+ */
+const enumConstants = new Map<string, Map<string, any>>();
+
+/**
+ * Enums the mock knows completely, in declaration order.
+ *
+ * WHY SOME ARE CLOSED: Command arguments and config values look
+ * constants up by what a user typed. For these enums an unknown name has
+ * to fail as on the server, not become a new constant (and show up in
+ * completions from then on).
+ */
+const CLOSED_ENUMS: Record<string, string[]> = {
+  "org.bukkit.GameMode": ["CREATIVE", "SURVIVAL", "ADVENTURE", "SPECTATOR"],
+  "org.bukkit.Difficulty": ["PEACEFUL", "EASY", "NORMAL", "HARD"],
+  "org.bukkit.World$Environment": ["NORMAL", "NETHER", "THE_END", "CUSTOM"],
+};
+
+/**
+ * Get (or create) an enum constant.
+ *
+ * @param className Fully qualified name, nested classes with `$`
+ *
+ * @example
+ * mockEnumConstant("org.bukkit.Material", "STONE").name();  // "STONE"
+ */
+export function mockEnumConstant(className: string, name: string): any {
+  let constants = enumConstants.get(className);
+  if (constants === undefined) {
+    constants = new Map();
+    enumConstants.set(className, constants);
+    /* Closed enums get all their constants at once, for the right ordinals */
+    for (const declared of CLOSED_ENUMS[className] ?? []) {
+      mockEnumConstant(className, declared);
+    }
+  }
+
+  let constant = constants.get(name);
+  if (constant === undefined) {
+    const ordinal = constants.size;
+    const simpleName = className.substring(className.lastIndexOf(".") + 1);
+    const key = name.toLowerCase();
+
+    constant = tagJavaTypes({
+      name: () => name,
+      ordinal: () => ordinal,
+      toString: () => name,
+      equals: (other: any) => other === constant,
+      hashCode: () => ordinal,
+      compareTo: (other: any) => ordinal - other.ordinal(),
+      getDeclaringClass: () => mockJavaClass(className),
+      getKey: () => mockKey("minecraft", key),
+      getKeyOrThrow: () => mockKey("minecraft", key),
+      getTranslationKey: () => `${simpleName.toLowerCase()}.minecraft.${key}`,
+      ...(className === "org.bukkit.Material" ? materialMethods(name) : {}),
+      ...(className === "org.bukkit.event.inventory.ClickType" ? clickTypeMethods(name) : {}),
+    }, className, "java.lang.Enum");
+
+    constants.set(name, constant);
+  }
+
+  return constant;
+}
+
+/**
+ * Check if a name is a constant of an enum. Always true for enums that
+ * are not closed (any constant can be made up).
+ */
+export function isMockEnumConstant(className: string, name: string): boolean {
+  const declared = CLOSED_ENUMS[className];
+  return declared === undefined || declared.includes(name);
+}
+
+/**
+ * Look up an enum constant by name, like Enum.valueOf().
+ *
+ * @throws Error if the enum is closed and has no such constant
+ */
+export function mockEnumValueOf(className: string, name: string): any {
+  if (!isMockEnumConstant(className, name)) {
+    throw new Error(`IllegalArgumentException: No enum constant ${className.replace(/\$/g, ".")}.${name}`);
+  }
+  return mockEnumConstant(className, name);
+}
+
+/**
+ * All constants of an enum created so far, in creation order.
+ *
+ * NOTE: Constants are created on first access, so values() only lists
+ * the ones the code (or the framework registries) touched - except for
+ * closed enums, which always list all their constants.
+ */
+export function mockEnumValues(className: string): any[] {
+  const first = CLOSED_ENUMS[className]?.[0];
+  if (first !== undefined) mockEnumConstant(className, first);
+  return [...(enumConstants.get(className)?.values() ?? [])];
+}
+
+/**
+ * The few Material methods plugin code relies on.
+ */
+function materialMethods(name: string): object {
+  const isAir = name === "AIR" || name === "CAVE_AIR" || name === "VOID_AIR";
+  return {
+    isAir: () => isAir,
+    isBlock: () => !name.endsWith("_SWORD") && !name.endsWith("_INGOT"),
+    isItem: () => !isAir,
+    getMaxStackSize: () => (/_(SWORD|PICKAXE|AXE|SHOVEL|HOE|HELMET|CHESTPLATE|LEGGINGS|BOOTS)$/.test(name) ? 1 : 64),
+    getMaxDurability: () => toolDurability(name),
+    isLegacy: () => name.startsWith("LEGACY_"),
+  };
+}
+
+/** Vanilla durability of tools and weapons by tier (0 for other items) */
+const TOOL_DURABILITY: Record<string, number> = {
+  WOODEN: 59,
+  STONE: 131,
+  IRON: 250,
+  GOLDEN: 32,
+  DIAMOND: 1561,
+  NETHERITE: 2031,
+};
+
+function toolDurability(name: string): number {
+  const match = /^([A-Z]+)_(SWORD|PICKAXE|AXE|SHOVEL|HOE)$/.exec(name);
+  return match !== null ? TOOL_DURABILITY[match[1]] ?? 0 : 0;
+}
+
+/**
+ * ClickType's classification methods.
+ */
+function clickTypeMethods(name: string): object {
+  return {
+    isLeftClick: () => ["LEFT", "SHIFT_LEFT", "DOUBLE_CLICK", "WINDOW_BORDER_LEFT", "CREATIVE"].includes(name),
+    isRightClick: () => ["RIGHT", "SHIFT_RIGHT", "WINDOW_BORDER_RIGHT"].includes(name),
+    isShiftClick: () => ["SHIFT_LEFT", "SHIFT_RIGHT"].includes(name),
+    isKeyboardClick: () => ["NUMBER_KEY", "DROP", "CONTROL_DROP", "SWAP_OFFHAND"].includes(name),
+    isMouseClick: () => !["NUMBER_KEY", "DROP", "CONTROL_DROP", "SWAP_OFFHAND", "CREATIVE", "UNKNOWN"].includes(name),
+    isCreativeAction: () => name === "MIDDLE" || name === "CREATIVE",
+  };
+}
+
+/**
+ * Minimal NamespacedKey, used for enum keys.
+ * The full mock (with constructor) is registered by the item mocks.
+ */
+export function mockKey(namespace: string, key: string): any {
+  const self = tagJavaTypes({
+    getNamespace: () => namespace,
+    getKey: () => key,
+    asString: () => `${namespace}:${key}`,
+    toString: () => `${namespace}:${key}`,
+    equals: (other: any) =>
+      other !== null && typeof other === "object" && typeof other.getNamespace === "function" &&
+      other.getNamespace() === namespace && other.getKey() === key,
+    hashCode: () => `${namespace}:${key}`.length,
+  }, "org.bukkit.NamespacedKey", "net.kyori.adventure.key.Key");
+  return self;
+}
+
+// ============================================
+// CLASSES
+// ============================================
+
+/**
+ * Behaviour of a mocked Java class.
+ */
+export interface MockClassImplementation {
+  /** Called for `new Class(...args)` and Java.newInstance() */
+  construct?: (...args: any[]) => any;
+
+  /** Static methods and fields */
+  statics?: Record<string, any>;
+}
+
+/** Classes mocked by the current server */
+const implementations = new Map<string, MockClassImplementation>();
+
+/** One proxy per class name, so `a === b` holds for the same class */
+const classNodes = new Map<string, any>();
+
+/** Supplies handler lists for `SomeEvent.getHandlerList()` */
+let handlerListProvider: ((className: string) => any) | null = null;
+
+/**
+ * Register (or replace) the implementation of a Java class.
+ *
+ * @example
+ * registerMockClass("org.bukkit.Bukkit", { statics: bukkitFacade });
+ */
+export function registerMockClass(className: string, implementation: MockClassImplementation): void {
+  implementations.set(className, implementation);
+}
+
+/**
+ * Forget all class implementations (enum constants are kept).
+ */
+export function clearMockClasses(): void {
+  implementations.clear();
+  handlerListProvider = null;
+}
+
+/**
+ * Set where `getHandlerList()` of any event class comes from.
+ *
+ * WHY A PROVIDER: Every event class has a static getHandlerList(), and
+ * event classes are created on the fly - the event bus answers for all
+ * of them instead of registering each one.
+ */
+export function setHandlerListProvider(provider: ((className: string) => any) | null): void {
+  handlerListProvider = provider;
+}
+
+/**
+ * Mock java.lang.Class, for isInstance()/getName() checks.
+ */
+export function mockJavaClass(className: string): any {
+  const simpleName = className.substring(Math.max(className.lastIndexOf("."), className.lastIndexOf("$")) + 1);
+  return {
+    getName: () => className,
+    getSimpleName: () => simpleName,
+    isInstance: (obj: any) => hasJavaType(obj, className),
+    cast: (obj: any) => {
+      if (obj !== null && !hasJavaType(obj, className)) {
+        throw new Error(`ClassCastException: cannot cast to ${className}`);
+      }
+      return obj;
+    },
+    isEnum: () => enumConstants.has(className),
+    getEnumConstants: () => mockEnumValues(className),
+    equals: (other: any) => other !== null && typeof other === "object" && other.getName?.() === className,
+    toString: () => `class ${className}`,
+  };
+}
+
+/**
+ * Proxy standing for a Java class (`org.bukkit.Location`).
+ */
+export function mockClassNode(className: string): any {
+  const cached = classNodes.get(className);
+  if (cached !== undefined) return cached;
+
+  const node = new Proxy(function () {} as any, {
+    construct(_target, args) {
+      const implementation = implementations.get(className);
+      if (implementation?.construct === undefined) {
+        throw new Error(`Mock server: new ${className}() is not mocked`);
+      }
+      return implementation.construct(...args);
+    },
+
+    get(_target, prop) {
+      if (typeof prop === "symbol") return undefined;
+
+      const statics = implementations.get(className)?.statics;
+      if (statics !== undefined && prop in statics) {
+        return statics[prop];
+      }
+
+      if (prop === "class") return mockJavaClass(className);
+      if (prop === "getHandlerList" && handlerListProvider !== null) {
+        const provider = handlerListProvider;
+        return () => provider(className);
+      }
+      if (prop === "values") return () => mockEnumValues(className);
+      if (prop === "valueOf") return (name: string) => mockEnumValueOf(className, name);
+      if (prop === "then" || prop === "prototype" || prop === "toJSON") return undefined;
+      if (prop === "toString") return () => className;
+
+      if (/^[A-Z][A-Z0-9_]*$/.test(prop)) {
+        return isMockEnumConstant(className, prop) ? mockEnumConstant(className, prop) : undefined;
+      }
+      if (/^[A-Z]/.test(prop)) {
+        return mockClassNode(`${className}$${prop}`);
+      }
+
+      return () => {
+        throw new Error(`Mock server: ${className.replace(/\$/g, ".")}.${prop}() is not mocked`);
+      };
+    },
+
+    has(_target, prop) {
+      return typeof prop === "string";
+    },
+  });
+
+  classNodes.set(className, node);
+  return node;
+}
+
+/**
+ * Proxy standing for a Java package (`org.bukkit`).
+ */
+export function mockPackageNode(packageName: string): any {
+  return new Proxy({} as any, {
+    get(_target, prop) {
+      if (typeof prop === "symbol" || prop === "then" || prop === "toJSON") return undefined;
+      const name = `${packageName}.${prop}`;
+      return /^[A-Z]/.test(prop) ? mockClassNode(name) : mockPackageNode(name);
+    },
+  });
+}
+
+/**
+ * Resolve a class by its Javet name (nested classes with `$`).
+ */
+export function resolveMockClass(className: string): any {
+  return mockClassNode(className);
+}
+
+// ============================================
+// Java GLOBAL
+// ============================================
+
+/**
+ * Build the `Java` bridge global.
+ */
+export function createMockJavaBridge(): typeof Java {
+  return {
+    enumValue: <T>(className: string, valueName: string) => mockEnumValueOf(className, valueName) as T,
+    enumValues: <T>(className: string) => mockEnumValues(className) as T[],
+    newInstance: <T>(className: string, ...args: unknown[]) => new (resolveMockClass(className))(...args) as T,
+    callStatic: <T>(className: string, methodName: string, ...args: unknown[]) =>
+      resolveMockClass(className)[methodName](...args) as T,
+    getStatic: <T>(className: string, fieldName: string) => resolveMockClass(className)[fieldName] as T,
+    classExists: (className: string) => implementations.has(className) || enumConstants.has(className),
+    singletonList: <T>(element: T) => mockList([element]),
+    asList: <T>(...elements: T[]) => mockList(elements),
+    toList: <T>(elements: T[]) => mockList([...elements]),
+    emptyList: <T>() => mockList<T>([]),
+    emptyImmutableList: <T>() => mockList<T>([]),
+  };
+}
+
+// ============================================
+// UUIDS
+// ============================================
+
+/**
+ * Mock java.util.UUID from its string form.
+ */
+export function mockUUID(value: string): any {
+  return tagJavaTypes({
+    toString: () => value,
+    equals: (other: any) => other !== null && typeof other === "object" && String(other) === value,
+    hashCode: () => value.length,
+    compareTo: (other: any) => value.localeCompare(String(other)),
+    version: () => Number.parseInt(value.charAt(14), 16),
+  }, "java.util.UUID");
+}
+
+let uuidCounter = 0;
+
+/**
+ * Next deterministic UUID (00000000-0000-4000-8000-000000000001, ...).
+ *
+ * WHY DETERMINISTIC: Test failures that print UUIDs stay reproducible.
+ */
+export function nextMockUUID(): any {
+  uuidCounter++;
+  const hex = uuidCounter.toString(16).padStart(12, "0");
+  return mockUUID(`00000000-0000-4000-8000-${hex}`);
+}
@@ -0,0 +1,510 @@
+/**
+ * DESIGN
+ * ------
+ * Players and the console sender for the mock server.
+ *
+ * Mock players record what the plugin did to them, so tests can assert
+ * on outcomes instead of on calls:
+ *
+ *   server.dispatchCommand(player, "heal");
+ *   player.getHealth();      // 20
+ *   player.nextMessage();    // "§aHealed!"
+ *
+ * PERMISSIONS:
+ * Ops have every permission. Others only have the nodes given with
+ * addPermission() (no wildcards, no defaults from plugin.yml).
+ *
+ * WHY AN INDEX SIGNATURE ON MockPlayer: Plugin code is typed against
+ * BukkitPlayer, which has hundreds of methods. The index signature lets
+ * a MockPlayer be passed where a BukkitPlayer is expected without a cast;
+ * methods the mock doesn't implement are simply undefined.
+ */
+
+import { createMockSpigotSender } from "./mockChat";
+import { mockList, mockSet, toJsArray } from "./mockCollections";
+import { completedMockFuture } from "./mockFuture";
+import {
+  createMockAnvilInventory,
+  createMockInventory,
+  createMockInventoryView,
+  createMockPlayerInventory,
+} from "./mockInventory";
+import { createMockDataContainer, MockDataEntry } from "./mockItems";
+import { mockEnumConstant, mockUUID, nextMockUUID, tagJavaTypes } from "./mockJava";
+import { createMockVector } from "./mockWorld";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * Hooks a mock player needs from its server.
+ */
+export interface MockPlayerContext {
+  /** Run a command line (without the leading "/") as a sender */
+  dispatchCommand(sender: any, commandLine: string): boolean;
+
+  /** Called when the player is kicked */
+  removePlayer(player: any): void;
+
+  /** True while the player is in the server's online list */
+  isOnline(player: any): boolean;
+
+  /** Called when the player's open inventory closes (before it is gone) */
+  inventoryClosed(player: any, view: any, reason: string): void;
+
+  /** Called before an inventory opens; false if the open was cancelled */
+  inventoryOpening(player: any, view: any): boolean;
+
+  /** World used when no location is given */
+  getDefaultWorld(): any;
+}
+
+export interface MockPlayerOptions {
+  /** Player name */
+  name: string;
+
+  /** UUID string (default: a deterministic one) */
+  uuid?: string;
+
+  /** Give every permission (default false) */
+  op?: boolean;
+
+  /** Granted permission nodes */
+  permissions?: string[];
+
+  /** Starting location (default: the default world's spawn) */
+  location?: any;
+
+  /** GameMode constant name (default SURVIVAL) */
+  gameMode?: string;
+
+  /** Client locale (default "en_us") */
+  locale?: string;
+}
+
+/**
+ * A sender that records the messages it receives.
+ */
+export interface MockSender {
+  /** Every message received, oldest first (component messages as plain text) */
+  readonly messages: string[];
+
+  /** JSON of every component message received (spigot().sendMessage()), oldest first */
+  readonly components: string[];
+
+  /** Remove and return the oldest unread message, or null */
+  nextMessage(): string | null;
+
+  /** Forget all received messages */
+  clearMessages(): void;
+
+  [method: string]: any;
+}
+
+export interface MockPlayer extends MockSender {
+  /** Grant a permission node */
+  addPermission(permission: string): void;
+
+  /** Revoke a permission node */
+  removePermission(permission: string): void;
+
+  /** Message passed to kickPlayer(), or null if still online */
+  readonly kickMessage: string | null;
+
+  /** Titles shown with sendTitle(), oldest first */
+  readonly titles: Array<{ title: string | null; subtitle: string | null }>;
+
+  /** Sounds played with playSound(), oldest first */
+  readonly sounds: any[];
+
+  /** Client-side block changes (sendBlockChange()), oldest first */
+  readonly blockChanges: Array<{ location: any; blockData: any }>;
+
+  /** Client-side sign text (sendSignChange()), oldest first */
+  readonly signChanges: Array<{ location: any; lines: string[] }>;
+
+  /** Location of the sign editor opened with openVirtualSign(), or null */
+  readonly signEditor: any | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Message recording shared by players and the console.
+ */
+function createMessageLog(): Pick<MockSender, "messages" | "components" | "nextMessage" | "clearMessages"> & {
+  sendMessage(...messages: any[]): void;
+  spigot(): any;
+} {
+  const messages: string[] = [];
+  const components: string[] = [];
+  const spigot = createMockSpigotSender(messages, components);
+  let read = 0;
+
+  return {
+    messages,
+    components,
+    spigot: () => spigot,
+    sendMessage(...args: any[]): void {
+      for (const message of args.flat()) {
+        messages.push(String(message));
+      }
+    },
+    nextMessage(): string | null {
+      return read < messages.length ? messages[read++] : null;
+    },
+    clearMessages(): void {
+      messages.length = 0;
+      components.length = 0;
+      read = 0;
+    },
+  };
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+let entityIdCounter = 0;
+
+/**
+ * Create a mock player. Use server.addPlayer() to also put it online.
+ */
+export function createMockPlayer(context: MockPlayerContext, options: MockPlayerOptions): MockPlayer {
+  const uuid = options.uuid !== undefined ? mockUUID(options.uuid) : nextMockUUID();
+  const entityId = ++entityIdCounter;
+  const permissions = new Set(options.permissions ?? []);
+  const log = createMessageLog();
+  const cookies = new Map<string, number[]>();
+  const data: MockDataEntry[] = [];
+  const titles: Array<{ title: string | null; subtitle: string | null }> = [];
+  const sounds: any[] = [];
+  const blockChanges: Array<{ location: any; blockData: any }> = [];
+  const signChanges: Array<{ location: any; lines: string[] }> = [];
+  const recipes = new Map<string, any>();
+  const effects = new Map<string, any>();
+
+  let op = options.op ?? false;
+  let kickMessage: string | null = null;
+  let displayName = options.name;
+  let location = options.location ?? context.getDefaultWorld().getSpawnLocation();
+  let gameMode = mockEnumConstant("org.bukkit.GameMode", options.gameMode ?? "SURVIVAL");
+  let health = 20;
+  let maxHealth = 20;
+  let foodLevel = 20;
+  let saturation = 5;
+  let exhaustion = 0;
+  let remainingAir = 300;
+  let fireTicks = -20;
+  let fallDistance = 0;
+  let level = 0;
+  let exp = 0;
+  let totalExperience = 0;
+  let allowFlight = false;
+  let flying = false;
+  let cursor: any = null;
+  let openView: any = null;
+  let signEditor: any = null;
+  let velocity = createMockVector();
+  let vehicle: any = null;
+  const passengers: any[] = [];
+
+  /* Only MAX_HEALTH, backed by the same value as getMaxHealth() */
+  const maxHealthAttribute = {
+    getBaseValue: () => maxHealth,
+    setBaseValue: (value: number) => {
+      maxHealth = value;
+      health = Math.min(health, value);
+    },
+    getValue: () => maxHealth,
+    getDefaultValue: () => 20,
+  };
+
+  const player: MockPlayer = tagJavaTypes({
+    ...log,
+
+    get kickMessage() {
+      return kickMessage;
+    },
+    titles,
+    sounds,
+    blockChanges,
+    signChanges,
+    get signEditor() {
+      return signEditor;
+    },
+
+    // ---- Identity ----
+    getName: () => options.name,
+    getUniqueId: () => uuid,
+    getEntityId: () => entityId,
+    getType: () => mockEnumConstant("org.bukkit.entity.EntityType", "PLAYER"),
+    getDisplayName: () => displayName,
+    setDisplayName: (name: string | null) => {
+      displayName = name ?? options.name;
+    },
+    getPlayerListName: () => displayName,
+    getLocale: () => options.locale ?? "en_us",
+    isOnline: () => context.isOnline(player),
+    getPlayer: () => (player.isOnline() ? player : null),
+    hasPlayedBefore: () => true,
+
+    // ---- Permissions ----
+    isOp: () => op,
+    setOp: (value: boolean) => {
+      op = value;
+    },
+    hasPermission: (permission: any) => op || permissions.has(typeof permission === "string" ? permission : permission.getName()),
+    isPermissionSet: (permission: any) => permissions.has(typeof permission === "string" ? permission : permission.getName()),
+    addPermission: (permission: string) => {
+      permissions.add(permission);
+    },
+    removePermission: (permission: string) => {
+      permissions.delete(permission);
+    },
+
+    // ---- Position ----
+    getLocation: () => location.clone(),
+    getWorld: () => location.getWorld(),
+    teleport: (target: any) => {
+      /* Like Bukkit: riding or carried entities don't teleport */
+      if (vehicle !== null || passengers.length > 0) return false;
+      location = (typeof target.getLocation === "function" && typeof target.getYaw !== "function"
+        ? target.getLocation()
+        : target).clone();
+      return true;
+    },
+    teleportAsync: (target: any) => completedMockFuture(player.teleport(target)),
+
+    // ---- Vehicles ----
+    getVehicle: () => vehicle,
+    isInsideVehicle: () => vehicle !== null,
+    leaveVehicle: () => vehicle !== null && vehicle.removePassenger(player),
+    getPassengers: () => mockList([...passengers]),
+    addPassenger: (passenger: any) => {
+      if (passenger === player || passengers.includes(passenger)) return false;
+      passenger.leaveVehicle();
+      passengers.push(passenger);
+      passenger.setMockVehicle(player);
+      return true;
+    },
+    removePassenger: (passenger: any) => {
+      const index = passengers.indexOf(passenger);
+      if (index < 0) return false;
+      passengers.splice(index, 1);
+      passenger.setMockVehicle(null);
+      return true;
+    },
+    eject: () => {
+      const carried = passengers.length > 0;
+      for (const passenger of [...passengers]) player.removePassenger(passenger);
+      return carried;
+    },
+    /* Mock only: keeps both sides of addPassenger() in sync */
+    setMockVehicle: (value: any) => {
+      vehicle = value;
+    },
+    getVelocity: () => velocity.clone(),
+    setVelocity: (next: any) => {
+      velocity = next.clone();
+    },
+
+    // ---- State ----
+    getGameMode: () => gameMode,
+    setGameMode: (mode: any) => {
+      gameMode = mode;
+    },
+    getHealth: () => health,
+    setHealth: (value: number) => {
+      if (value < 0 || value > maxHealth) {
+        throw new Error(`IllegalArgumentException: Health value (${value}) must be between 0 and ${maxHealth}`);
+      }
+      health = value;
+    },
+    getMaxHealth: () => maxHealth,
+    setMaxHealth: (value: number) => {
+      maxHealth = value;
+      health = Math.min(health, value);
+    },
+    getAttribute: (attribute: any) => (attribute.name() === "MAX_HEALTH" ? maxHealthAttribute : null),
+    isDead: () => health <= 0,
+    getFoodLevel: () => foodLevel,
+    setFoodLevel: (value: number) => {
+      foodLevel = value;
+    },
+    getSaturation: () => saturation,
+    setSaturation: (value: number) => {
+      saturation = value;
+    },
+    getExhaustion: () => exhaustion,
+    setExhaustion: (value: number) => {
+      exhaustion = value;
+    },
+    getRemainingAir: () => remainingAir,
+    setRemainingAir: (ticks: number) => {
+      remainingAir = ticks;
+    },
+    getMaximumAir: () => 300,
+    getFireTicks: () => fireTicks,
+    setFireTicks: (ticks: number) => {
+      fireTicks = ticks;
+    },
+    getFallDistance: () => fallDistance,
+    setFallDistance: (distance: number) => {
+      fallDistance = distance;
+    },
+    getLevel: () => level,
+    setLevel: (value: number) => {
+      level = value;
+    },
+    getExp: () => exp,
+    setExp: (value: number) => {
+      exp = value;
+    },
+    getTotalExperience: () => totalExperience,
+    setTotalExperience: (value: number) => {
+      totalExperience = value;
+    },
+    getAllowFlight: () => allowFlight,
+    setAllowFlight: (value: boolean) => {
+      allowFlight = value;
+      if (!value) flying = false;
+    },
+    isFlying: () => flying,
+    setFlying: (value: boolean) => {
+      if (value && !allowFlight) throw new Error("IllegalArgumentException: Cannot make player fly if getAllowFlight() is false");
+      flying = value;
+    },
+
+    // ---- Potion effects ----
+    addPotionEffect: (effect: any) => {
+      effects.set(effect.getType().getKey().toString(), effect);
+      return true;
+    },
+    addPotionEffects: (added: any) => toJsArray<any>(added).every(effect => player.addPotionEffect(effect)),
+    hasPotionEffect: (type: any) => effects.has(type.getKey().toString()),
+    getPotionEffect: (type: any) => effects.get(type.getKey().toString()) ?? null,
+    removePotionEffect: (type: any) => {
+      effects.delete(type.getKey().toString());
+    },
+    getActivePotionEffects: () => mockList([...effects.values()]),
+    clearActivePotionEffects: () => {
+      const had = effects.size > 0;
+      effects.clear();
+      return had;
+    },
+
+    // ---- Inventories ----
+    getInventory: () => inventory,
+    getEnderChest: () => enderChest,
+    getItemOnCursor: () => cursor,
+    setItemOnCursor: (item: any) => {
+      cursor = item;
+    },
+    openInventory: (target: any) => {
+      /* Like Bukkit: the previous inventory closes even if the open is cancelled */
+      if (openView !== null) player.closeInventory("OPEN_NEW");
+      const view = createMockInventoryView(player, target, target.getTitle?.() ?? "");
+      if (!context.inventoryOpening(player, view)) return null;
+      openView = view;
+      target.addViewer?.(player);
+      return openView;
+    },
+    openAnvil: (_location: any, _force: boolean) => player.openInventory(createMockAnvilInventory()),
+    getOpenInventory: () => openView ?? createMockInventoryView(player, createMockInventory({ size: 5, type: "CRAFTING" }), "Crafting"),
+    /** Mock only: reason is a Paper InventoryCloseEvent.Reason name (default PLUGIN) */
+    closeInventory: (reason: string = "PLUGIN") => {
+      if (openView === null) return;
+      const view = openView;
+      context.inventoryClosed(player, view, reason);
+      view.getTopInventory().removeViewer?.(player);
+      if (openView === view) openView = null;
+    },
+    updateInventory: () => {},
+
+    // ---- Interaction ----
+    performCommand: (commandLine: string) => context.dispatchCommand(player, commandLine),
+    kickPlayer: (message: string | null) => {
+      kickMessage = message ?? "";
+      context.removePlayer(player);
+    },
+    updateCommands: () => {},
+    sendTitle: (title: string | null, subtitle: string | null) => {
+      titles.push({ title, subtitle });
+    },
+    playSound: (...args: any[]) => {
+      sounds.push(args[1]);
+    },
+    sendRawMessage: (message: string) => log.sendMessage(message),
+    sendBlockChange: (target: any, blockData: any) => {
+      blockChanges.push({ location: target.clone(), blockData });
+    },
+    sendSignChange: (target: any, lines: string[] | null) => {
+      signChanges.push({ location: target.clone(), lines: [...(lines ?? ["", "", "", ""])] });
+    },
+    openVirtualSign: (position: any, _side: any) => {
+      signEditor = position.toLocation(player.getWorld());
+    },
+    /** Mock only: the sign editor closed (server.editSign()) */
+    closeSignEditor: () => {
+      signEditor = null;
+    },
+
+    // ---- Recipe book ----
+    discoverRecipe: (key: any) => {
+      if (recipes.has(key.toString())) return false;
+      recipes.set(key.toString(), key);
+      return true;
+    },
+    discoverRecipes: (keys: any) => [...keys.toArray()].filter(key => player.discoverRecipe(key)).length,
+    undiscoverRecipe: (key: any) => recipes.delete(key.toString()),
+    undiscoverRecipes: (keys: any) => [...keys.toArray()].filter(key => player.undiscoverRecipe(key)).length,
+    hasDiscoveredRecipe: (key: any) => recipes.has(key.toString()),
+    getDiscoveredRecipes: () => mockSet([...recipes.values()]),
+
+    // ---- Storage ----
+    getPersistentDataContainer: () => createMockDataContainer(data),
+    storeCookie: (key: any, value: number[]) => {
+      cookies.set(key.toString(), [...value]);
+    },
+    retrieveCookie: (key: any) => completedMockFuture(cookies.get(key.toString()) ?? null),
+
+    equals: (other: any) => other === player,
+    toString: () => `CraftPlayer{name=${options.name}}`,
+  }, "org.bukkit.entity.Player", "org.bukkit.entity.HumanEntity", "org.bukkit.entity.LivingEntity",
+     "org.bukkit.entity.Entity", "org.bukkit.command.CommandSender", "org.bukkit.OfflinePlayer",
+     "org.bukkit.permissions.Permissible", "org.bukkit.inventory.InventoryHolder",
+     "org.bukkit.persistence.PersistentDataHolder");
+
+  const inventory = createMockPlayerInventory(player);
+  const enderChest = createMockInventory({ size: 27, type: "ENDER_CHEST", holder: player, title: "Ender Chest" });
+
+  return player;
+}
+
+/**
+ * Create the console sender (op, every permission).
+ */
+export function createMockConsole(context: MockPlayerContext): MockSender {
+  const log = createMessageLog();
+
+  const console: MockSender = tagJavaTypes({
+    ...log,
+    getName: () => "CONSOLE",
+    isOp: () => true,
+    setOp: () => {},
+    hasPermission: () => true,
+    isPermissionSet: () => true,
+    isConversing: () => false,
+    sendRawMessage: (message: string) => log.sendMessage(message),
+    getEffectivePermissions: () => mockList([]),
+    performCommand: (commandLine: string) => context.dispatchCommand(console, commandLine),
+    toString: () => "CraftConsoleCommandSender",
+  }, "org.bukkit.command.ConsoleCommandSender", "org.bukkit.command.CommandSender",
+     "org.bukkit.permissions.Permissible", "org.bukkit.conversations.Conversable");
+
+  return console;
+}
@@ -0,0 +1,131 @@
+/**
+ * Mock recipes and the server's recipe list.
+ *
+ * Recipe objects keep what they were built with (getResult(), getKey(),
+ * getInputChoice()...), so tests can look a recipe up with Bukkit.getRecipe()
+ * and check it. Nothing is crafted: there is no crafting grid.
+ */
+
+import { mockList } from "./mockCollections";
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export interface MockRecipeBook {
+  addRecipe(recipe: any, resendRecipes?: boolean): boolean;
+  removeRecipe(key: any, resendRecipes?: boolean): boolean;
+  getRecipe(key: any): any;
+  recipeIterator(): any;
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Mock RecipeChoice.MaterialChoice / ExactChoice over a Java list.
+ *
+ * @param exact True for ExactChoice (stacks compared with isSimilar)
+ */
+export function createMockRecipeChoice(exact: boolean, choices: any): any {
+  const entries: any[] = choices.toArray ? [...choices.toArray()] : [...choices];
+  if (entries.length === 0) {
+    throw new Error("IllegalArgumentException: Must have at least one choice");
+  }
+
+  return tagJavaTypes({
+    getChoices: () => mockList(exact ? entries.map(entry => entry.clone()) : entries),
+    test: (stack: any) =>
+      exact ? entries.some(entry => entry.isSimilar(stack)) : entries.includes(stack.getType()),
+    toString: () => `${exact ? "ExactChoice" : "MaterialChoice"}{choices=${entries.join(", ")}}`,
+  }, `org.bukkit.inventory.RecipeChoice$${exact ? "ExactChoice" : "MaterialChoice"}`, "org.bukkit.inventory.RecipeChoice");
+}
+
+/**
+ * Constructor of a mock keyed recipe class. Extra constructor arguments
+ * are named by `fields` (e.g. ["inputChoice", "experience"])
+ * and readable with the matching getter.
+ */
+export function mockRecipeConstructor(className: string, fields: string[] = []): (...args: any[]) => any {
+  return (key: any, result: any, ...args: any[]) => {
+    const values = new Map<string, any>(fields.map((field, index) => [field, args[index]]));
+    const shape: string[] = [];
+    const ingredients = new Map<string, any>();
+    const ingredientList: any[] = [];
+    let group = "";
+    let category: any = null;
+
+    const recipe: any = {
+      getKey: () => key,
+      getResult: () => result.clone(),
+      getGroup: () => group,
+      setGroup: (next: string) => {
+        group = next;
+      },
+      getCategory: () => category,
+      setCategory: (next: any) => {
+        category = next;
+      },
+
+      // ---- Shaped ----
+      shape: (...rows: string[]) => {
+        if (rows.length < 1 || rows.length > 3 || rows.some(row => row.length < 1 || row.length > 3)) {
+          throw new Error("IllegalArgumentException: Crafting recipes should be 1, 2 or 3 rows of 1-3 characters");
+        }
+        shape.splice(0, shape.length, ...rows);
+        return recipe;
+      },
+      getShape: () => [...shape],
+      setIngredient: (char: string, choice: any) => {
+        if (!shape.join("").includes(char)) {
+          throw new Error(`IllegalArgumentException: Symbol does not appear in the shape: ${char}`);
+        }
+        ingredients.set(char, choice);
+        return recipe;
+      },
+      getChoiceMap: () => ingredients,
+
+      // ---- Shapeless ----
+      addIngredient: (choice: any) => {
+        if (ingredientList.length === 9) {
+          throw new Error("IllegalArgumentException: Shapeless recipes cannot have more than 9 ingredients");
+        }
+        ingredientList.push(choice);
+        return recipe;
+      },
+      getChoiceList: () => mockList(ingredientList),
+
+      toString: () => `${className.substring(className.lastIndexOf(".") + 1)}{key=${key}}`,
+    };
+
+    for (const [field, value] of values) {
+      const getter = `get${field[0].toUpperCase()}${field.substring(1)}`;
+      recipe[getter] = () => value;
+    }
+
+    return tagJavaTypes(recipe, className, "org.bukkit.inventory.Recipe", "org.bukkit.Keyed");
+  };
+}
+
+/**
+ * The server's recipe list (Bukkit.addRecipe() and friends).
+ */
+export function createMockRecipeBook(): MockRecipeBook {
+  const recipes = new Map<string, any>();
+
+  return {
+    addRecipe(recipe) {
+      const id = recipe.getKey().toString();
+      if (recipes.has(id)) {
+        throw new Error(`IllegalStateException: Duplicate recipe ignored with ID ${id}`);
+      }
+      recipes.set(id, recipe);
+      return true;
+    },
+    removeRecipe: key => recipes.delete(key.toString()),
+    getRecipe: key => recipes.get(key.toString()) ?? null,
+    recipeIterator: () => mockList([...recipes.values()]).iterator(),
+  };
+}
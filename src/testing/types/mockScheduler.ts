@@ -0,0 +1,155 @@
+/**
+ * DESIGN
+ * ------
+ * A scheduler driven by the test instead of a clock.
+ *
+ * Nothing runs by itself: time only moves when the test calls
+ * performTicks(). That makes timers deterministic - "after 3 seconds"
+ * is exactly performTicks(60), no sleeping involved.
+ *
+ *   test                      MockScheduler
+ *    │  runLater(20, fn)  ──→  queue: [fn @ tick 20]
+ *    │  performTicks(19)  ──→  tick 19: nothing due
+ *    │  performTicks(1)   ──→  tick 20: fn()
+ *    ▼
+ *
+ * ASYNC TASKS:
+ * There are no worker threads in Node. Async tasks are queued like sync
+ * ones and run during the tick they are due - the test sees them run in
+ * order, which is exactly what makes them testable.
+ */
+
+import { BukkitScheduler, BukkitTask } from "../../scheduler/types/scheduler";
+import { tagJavaTypes } from "./mockJava";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+interface ScheduledTask {
+  task: BukkitTask;
+  runnable: () => void;
+  nextRun: number;
+  /** Ticks between runs, or -1 for one-shot tasks */
+  period: number;
+  sync: boolean;
+  cancelled: boolean;
+}
+
+export interface MockScheduler extends BukkitScheduler {
+  /** Current tick (starts at 0) */
+  getCurrentTick(): number;
+
+  /**
+   * Advance time, running every task that becomes due.
+   * @param ticks Ticks to advance (default 1)
+   */
+  performTicks(ticks?: number): void;
+
+  /** Tasks still waiting to run (including repeating ones) */
+  getPendingCount(): number;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Create a manually driven scheduler.
+ *
+ * @example
+ * const scheduler = createMockScheduler();
+ * scheduler.runTaskLater(plugin, () => fired = true, 20);
+ * scheduler.performTicks(20);  // fired === true
+ */
+export function createMockScheduler(): MockScheduler {
+  let currentTick = 0;
+  let nextId = 1;
+  const tasks: ScheduledTask[] = [];
+
+  function schedule(plugin: any, runnable: () => void, delay: number, period: number, sync: boolean): BukkitTask {
+    const id = nextId++;
+    const entry: ScheduledTask = {
+      task: null as any,
+      runnable,
+      /* Bukkit never runs a task in the tick it was scheduled in */
+      nextRun: currentTick + Math.max(1, delay),
+      period: period > 0 ? period : -1,
+      sync,
+      cancelled: false,
+    };
+
+    entry.task = tagJavaTypes({
+      getTaskId: () => id,
+      getOwner: () => plugin,
+      isSync: () => sync,
+      isCancelled: () => entry.cancelled,
+      cancel: () => {
+        entry.cancelled = true;
+      },
+    }, "org.bukkit.scheduler.BukkitTask");
+
+    tasks.push(entry);
+    return entry.task;
+  }
+
+  function runDue(): void {
+    const due = tasks
+      .filter(entry => !entry.cancelled && entry.nextRun <= currentTick)
+      .sort((a, b) => a.nextRun - b.nextRun || a.task.getTaskId() - b.task.getTaskId());
+
+    for (const entry of due) {
+      if (entry.cancelled) continue;
+      if (entry.period > 0) {
+        entry.nextRun = currentTick + entry.period;
+      } else {
+        entry.cancelled = true;
+      }
+      entry.runnable();
+    }
+
+    for (let i = tasks.length - 1; i >= 0; i--) {
+      if (tasks[i].cancelled) tasks.splice(i, 1);
+    }
+  }
+
+  const byId = (taskId: number) => tasks.find(entry => entry.task.getTaskId() === taskId);
+
+  return {
+    runTask: (plugin, task) => schedule(plugin, task, 0, -1, true),
+    runTaskLater: (plugin, task, delay) => schedule(plugin, task, delay, -1, true),
+    runTaskTimer: (plugin, task, delay, period) => schedule(plugin, task, delay, period, true),
+    runTaskAsynchronously: (plugin, task) => schedule(plugin, task, 0, -1, false),
+    runTaskLaterAsynchronously: (plugin, task, delay) => schedule(plugin, task, delay, -1, false),
+    runTaskTimerAsynchronously: (plugin, task, delay, period) => schedule(plugin, task, delay, period, false),
+
+    cancelTask(taskId: number): void {
+      const entry = byId(taskId);
+      if (entry !== undefined) entry.cancelled = true;
+    },
+
+    cancelTasks(plugin: any): void {
+      for (const entry of tasks) {
+        if (entry.task.getOwner() === plugin) entry.cancelled = true;
+      }
+    },
+
+    isCurrentlyRunning: () => false,
+
+    isQueued(taskId: number): boolean {
+      const entry = byId(taskId);
+      return entry !== undefined && !entry.cancelled;
+    },
+
+    getCurrentTick: () => currentTick,
+
+    performTicks(ticks: number = 1): void {
+      for (let i = 0; i < ticks; i++) {
+        currentTick++;
+        runDue();
+      }
+    },
+
+    getPendingCount: () => tasks.filter(entry => !entry.cancelled).length,
+  };
+}
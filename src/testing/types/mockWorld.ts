@@ -0,0 +1,349 @@
+/**
+ * DESIGN
+ * ------
+ * Worlds, blocks and locations for the mock server.
+ *
+ * A mock world is flat and empty: every block is AIR until a test (or
+ * the plugin) sets it. Blocks are created lazily and cached, so
+ * getBlockAt() returns the same object for the same coordinates.
+ *
+ *   world.getBlockAt(0, 64, 0)          ← AIR, created on first access
+ *   world.getBlockAt(0, 64, 0).setType(Material.STONE)
+ *   world.getBlockAt(0, 64, 0).getType() ← STONE
+ */
+
+import { createMockDataContainer, MockDataEntry } from "./mockItems";
+import { mockList } from "./mockCollections";
+import { mockEnumConstant, nextMockUUID, tagJavaTypes } from "./mockJava";
+
+// ============================================
+// VECTORS
+// ============================================
+
+/**
+ * Constructor of org.bukkit.util.Vector.
+ */
+export function createMockVector(x: number = 0, y: number = 0, z: number = 0): any {
+  const vector: any = tagJavaTypes({
+    getX: () => x,
+    getY: () => y,
+    getZ: () => z,
+    setX: (value: number) => {
+      x = value;
+      return vector;
+    },
+    setY: (value: number) => {
+      y = value;
+      return vector;
+    },
+    setZ: (value: number) => {
+      z = value;
+      return vector;
+    },
+    add: (other: any) => {
+      x += other.getX(); y += other.getY(); z += other.getZ();
+      return vector;
+    },
+    subtract: (other: any) => {
+      x -= other.getX(); y -= other.getY(); z -= other.getZ();
+      return vector;
+    },
+    multiply: (factor: number) => {
+      x *= factor; y *= factor; z *= factor;
+      return vector;
+    },
+    length: () => Math.sqrt(x * x + y * y + z * z),
+    lengthSquared: () => x * x + y * y + z * z,
+    normalize: () => vector.multiply(1 / vector.length()),
+    dot: (other: any) => x * other.getX() + y * other.getY() + z * other.getZ(),
+    toLocation: (world: any) => createMockLocation(world, x, y, z),
+    clone: () => createMockVector(x, y, z),
+    equals: (other: any) =>
+      other !== null && typeof other === "object" && typeof other.normalize === "function" &&
+      other.getX() === x && other.getY() === y && other.getZ() === z,
+    toString: () => `${x},${y},${z}`,
+  }, "org.bukkit.util.Vector");
+
+  return vector;
+}
+
+// ============================================
+// LOCATIONS
+// ============================================
+
+/**
+ * Constructor of org.bukkit.Location.
+ *
+ * @example
+ * const spawn = createMockLocation(world, 0.5, 64, 0.5);
+ */
+export function createMockLocation(
+  world: any,
+  x: number,
+  y: number,
+  z: number,
+  yaw: number = 0,
+  pitch: number = 0
+): any {
+  const location: any = tagJavaTypes({
+    getWorld: () => world,
+    setWorld: (next: any) => {
+      world = next;
+    },
+    getX: () => x,
+    getY: () => y,
+    getZ: () => z,
+    getYaw: () => yaw,
+    getPitch: () => pitch,
+    setX: (value: number) => {
+      x = value;
+    },
+    setY: (value: number) => {
+      y = value;
+    },
+    setZ: (value: number) => {
+      z = value;
+    },
+    setYaw: (value: number) => {
+      yaw = value;
+    },
+    setPitch: (value: number) => {
+      pitch = value;
+    },
+    getBlockX: () => Math.floor(x),
+    getBlockY: () => Math.floor(y),
+    getBlockZ: () => Math.floor(z),
+    getBlock: () => world.getBlockAt(Math.floor(x), Math.floor(y), Math.floor(z)),
+    getChunk: () => world.getChunkAt(location),
+
+    /* Same formula as Location.getDirection() */
+    getDirection: () => {
+      const rotX = yaw * Math.PI / 180;
+      const rotY = pitch * Math.PI / 180;
+      const xz = Math.cos(rotY);
+      return createMockVector(-xz * Math.sin(rotX), -Math.sin(rotY), xz * Math.cos(rotX));
+    },
+    toVector: () => createMockVector(x, y, z),
+
+    add: (...args: any[]) => {
+      if (args.length === 1) {
+        x += args[0].getX(); y += args[0].getY(); z += args[0].getZ();
+      } else {
+        x += args[0]; y += args[1]; z += args[2];
+      }
+      return location;
+    },
+    subtract: (...args: any[]) => {
+      if (args.length === 1) {
+        x -= args[0].getX(); y -= args[0].getY(); z -= args[0].getZ();
+      } else {
+        x -= args[0]; y -= args[1]; z -= args[2];
+      }
+      return location;
+    },
+    multiply: (factor: number) => {
+      x *= factor; y *= factor; z *= factor;
+      return location;
+    },
+    zero: () => {
+      x = 0; y = 0; z = 0;
+      return location;
+    },
+
+    distanceSquared: (other: any) => {
+      if (other.getWorld() !== world) {
+        throw new Error("IllegalArgumentException: Cannot measure distance between worlds");
+      }
+      return (x - other.getX()) ** 2 + (y - other.getY()) ** 2 + (z - other.getZ()) ** 2;
+    },
+    distance: (other: any) => Math.sqrt(location.distanceSquared(other)),
+    length: () => Math.sqrt(x * x + y * y + z * z),
+
+    clone: () => createMockLocation(world, x, y, z, yaw, pitch),
+    equals: (other: any) =>
+      other !== null && typeof other === "object" && typeof other.getYaw === "function" &&
+      other.getWorld() === world && other.getX() === x && other.getY() === y && other.getZ() === z &&
+      other.getYaw() === yaw && other.getPitch() === pitch,
+    toString: () =>
+      `Location{world=${world?.getName() ?? null},x=${x},y=${y},z=${z},pitch=${pitch},yaw=${yaw}}`,
+  }, "org.bukkit.Location");
+
+  return location;
+}
+
+// ============================================
+// BLOCKS
+// ============================================
+
+const FACE_OFFSETS: Record<string, [number, number, number]> = {
+  NORTH: [0, 0, -1],
+  SOUTH: [0, 0, 1],
+  EAST: [1, 0, 0],
+  WEST: [-1, 0, 0],
+  UP: [0, 1, 0],
+  DOWN: [0, -1, 0],
+  SELF: [0, 0, 0],
+};
+
+/**
+ * Create mock BlockData: only the material, no block states.
+ * Also Bukkit.createBlockData(material).
+ */
+export function createMockBlockData(material: any): any {
+  const blockData: any = tagJavaTypes({
+    getMaterial: () => material,
+    getAsString: () => `minecraft:${material.name().toLowerCase()}`,
+    clone: () => createMockBlockData(material),
+    matches: (other: any) => other !== null && other.getMaterial() === material,
+    equals: (other: any) => blockData.matches(other),
+    toString: () => `CraftBlockData{${blockData.getAsString()}}`,
+  }, "org.bukkit.block.data.BlockData");
+
+  return blockData;
+}
+
+/**
+ * Create a mock Block. Use world.getBlockAt() instead of calling this.
+ */
+function createMockBlock(world: any, x: number, y: number, z: number): any {
+  let type = mockEnumConstant("org.bukkit.Material", "AIR");
+
+  const block: any = tagJavaTypes({
+    getWorld: () => world,
+    getX: () => x,
+    getY: () => y,
+    getZ: () => z,
+    getLocation: () => createMockLocation(world, x, y, z),
+    getChunk: () => world.getChunkAt(x >> 4, z >> 4),
+
+    getType: () => type,
+    setType: (next: any) => {
+      type = next;
+    },
+    getBlockData: () => createMockBlockData(type),
+    setBlockData: (blockData: any) => {
+      type = blockData.getMaterial();
+    },
+    isEmpty: () => type.isAir(),
+    isLiquid: () => type.name() === "WATER" || type.name() === "LAVA",
+
+    getRelative: (...args: any[]) => {
+      if (typeof args[0] === "number") {
+        return world.getBlockAt(x + args[0], y + args[1], z + args[2]);
+      }
+      const [dx, dy, dz] = FACE_OFFSETS[args[0].name()] ?? [0, 0, 0];
+      const distance = args[1] ?? 1;
+      return world.getBlockAt(x + dx * distance, y + dy * distance, z + dz * distance);
+    },
+
+    breakNaturally: () => {
+      if (type.isAir()) return false;
+      type = mockEnumConstant("org.bukkit.Material", "AIR");
+      return true;
+    },
+
+    equals: (other: any) => other === block,
+    toString: () => `Block{x=${x},y=${y},z=${z},type=${type.name()}}`,
+  }, "org.bukkit.block.Block");
+
+  return block;
+}
+
+// ============================================
+// WORLDS
+// ============================================
+
+/**
+ * Create a mock World.
+ *
+ * @param players Live list of all online players (filtered by world)
+ *
+ * @example
+ * const world = createMockWorld("world", () => server.getOnlinePlayers());
+ */
+export function createMockWorld(name: string, players: () => any[]): any {
+  const uid = nextMockUUID();
+  const blocks = new Map<string, any>();
+  const chunks = new Map<string, any>();
+  const data: MockDataEntry[] = [];
+  let spawn: any = null;
+  let time = 0;
+  let storm = false;
+  let thundering = false;
+
+  const world: any = tagJavaTypes({
+    getName: () => name,
+    getUID: () => uid,
+    getEnvironment: () => mockEnumConstant("org.bukkit.World$Environment", "NORMAL"),
+    getMinHeight: () => -64,
+    getMaxHeight: () => 320,
+
+    getBlockAt: (...args: any[]) => {
+      const [x, y, z] = args.length === 1
+        ? [args[0].getBlockX(), args[0].getBlockY(), args[0].getBlockZ()]
+        : [Math.floor(args[0]), Math.floor(args[1]), Math.floor(args[2])];
+      const key = `${x},${y},${z}`;
+      let block = blocks.get(key);
+      if (block === undefined) {
+        block = createMockBlock(world, x, y, z);
+        blocks.set(key, block);
+      }
+      return block;
+    },
+
+    getChunkAt: (...args: any[]) => {
+      const [cx, cz] = typeof args[0] === "number"
+        ? [args[0], args[1]]
+        : [args[0].getBlockX() >> 4, args[0].getBlockZ() >> 4];
+      const key = `${cx},${cz}`;
+      let chunk = chunks.get(key);
+      if (chunk === undefined) {
+        chunk = tagJavaTypes({
+          getX: () => cx,
+          getZ: () => cz,
+          getWorld: () => world,
+          isLoaded: () => true,
+          load: () => true,
+          getBlock: (x: number, y: number, z: number) => world.getBlockAt(cx * 16 + x, y, cz * 16 + z),
+        }, "org.bukkit.Chunk");
+        chunks.set(key, chunk);
+      }
+      return chunk;
+    },
+    isChunkLoaded: () => true,
+
+    getSpawnLocation: () => (spawn ?? createMockLocation(world, 0.5, 64, 0.5)).clone(),
+    setSpawnLocation: (...args: any[]) => {
+      spawn = args.length === 1 ? args[0].clone() : createMockLocation(world, args[0], args[1], args[2]);
+      return true;
+    },
+
+    getTime: () => time,
+    setTime: (value: number) => {
+      time = ((value % 24000) + 24000) % 24000;
+    },
+    getFullTime: () => time,
+    hasStorm: () => storm,
+    setStorm: (value: boolean) => {
+      storm = value;
+    },
+    isThundering: () => thundering,
+    setThundering: (value: boolean) => {
+      thundering = value;
+    },
+
+    getPlayers: () => mockList(players().filter(player => player.getWorld() === world)),
+
+    /* Visual/audio effects have no observable state in tests */
+    spawnParticle: () => {},
+    playSound: () => {},
+    playEffect: () => {},
+
+    getPersistentDataContainer: () => createMockDataContainer(data),
+
+    equals: (other: any) => other === world,
+    toString: () => `CraftWorld{name=${name}}`,
+  }, "org.bukkit.World", "org.bukkit.generator.WorldInfo", "org.bukkit.persistence.PersistentDataHolder");
+
+  return world;
+}
@@ -0,0 +1,489 @@
+/**
+ * DESIGN
+ * ------
+ * Rich text written as tagged strings, in the style of MiniMessage, so
+ * messages can live in config and language files:
+ *
+ *   "<green>Hi <hover:show_text:'<gray>Online since 5 min'>there</hover>!"
+ *
+ *   ──→ { text: "", extra: [
+ *         { text: "", color: "green", extra: [
+ *           { text: "Hi " },
+ *           { text: "", hoverEvent: {...}, extra: [{ text: "there" }] },
+ *           { text: "!" } ] } ] }
+ *
+ * TAGS:
+ *   <red> <#ff8800> <color:gold>          color
+ *   <bold> <b> <italic> <i> <em>          decorations (<!bold> turns one off)
+ *   <underlined> <u> <strikethrough> <st> <obfuscated> <obf>
+ *   <hover:show_text:'text'>              hover text (tags allowed inside)
+ *   <click:run_command:'/spawn'>          click: run_command, suggest_command,
+ *                                           open_url, copy_to_clipboard, change_page
+ *   <insert:'text'> <font:'uniform'>      shift-click insertion, font
+ *   <gradient:#f00:#00f> <rainbow>        color per character
+ *   <lang:item.minecraft.diamond:'arg'>   translatable (also <tr:...>)
+ *   <key:key.jump>                        key binding
+ *   <newline> <br>                        line break
+ *   <reset>                               close every open tag
+ *   <name>                                placeholder (see below)
+ *
+ * A closing tag (</red>, </hover>, or </> for the last one) also closes
+ * tags opened after it. Unclosed tags end with the text. Arguments with
+ * ":" or ">" go in single or double quotes. Unknown tags stay as text.
+ *
+ * WHY PLACEHOLDERS ARE NOT PARSED: Their values are usually player input
+ * (names, chat, sign text). Inserting them after parsing means a player
+ * named "<obf>x" can't restyle the message or add click actions.
+ *
+ * ESCAPING: "\<" is a literal "<"; escapeTags() escapes a whole string.
+ *
+ * @see textComponent.ts for the component model and rendering
+ * @see https://docs.advntr.dev/minimessage/format.html
+ */
+
+import { BukkitCommandSender } from "../../entities/types/commandSender";
+import {
+  ClickAction,
+  isHexColor,
+  NamedTextColor,
+  parseTextColor,
+  sendRich,
+  TextColor,
+  TextComponent,
+  TextDecoration,
+  TextLike,
+  toComponent,
+} from "./textComponent";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Values for <name> placeholders. Strings are inserted literally (tags
+ * in them are not parsed).
+ */
+export interface MiniPlaceholders {
+  [name: string]: TextLike | number;
+}
+
+/**
+ * An open tag while parsing.
+ */
+interface OpenTag {
+  /** Tag name as used by the closing tag */
+  name: string;
+
+  /** Component receiving the tag's content */
+  node: TextComponent;
+
+  /** Colors to spread over the content when the tag closes */
+  gradient?: "rainbow" | TextColor[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DECORATION_ALIASES: { readonly [tag: string]: TextDecoration } = {
+  bold: "bold",
+  b: "bold",
+  italic: "italic",
+  i: "italic",
+  em: "italic",
+  underlined: "underlined",
+  u: "underlined",
+  strikethrough: "strikethrough",
+  st: "strikethrough",
+  obfuscated: "obfuscated",
+  obf: "obfuscated",
+};
+
+const TAG_ALIASES: { readonly [tag: string]: string } = {
+  grey: "gray",
+  dark_grey: "dark_gray",
+  colour: "color",
+  c: "color",
+  insertion: "insert",
+};
+
+const CLICK_ACTIONS: readonly ClickAction[] = [
+  "run_command",
+  "suggest_command",
+  "open_url",
+  "copy_to_clipboard",
+  "change_page",
+];
+
+/**
+ * RGB of the named colors, for gradients.
+ */
+const NAMED_RGB: { readonly [name in NamedTextColor]: number } = {
+  black: 0x000000,
+  dark_blue: 0x0000aa,
+  dark_green: 0x00aa00,
+  dark_aqua: 0x00aaaa,
+  dark_red: 0xaa0000,
+  dark_purple: 0xaa00aa,
+  gold: 0xffaa00,
+  gray: 0xaaaaaa,
+  dark_gray: 0x555555,
+  blue: 0x5555ff,
+  green: 0x55ff55,
+  aqua: 0x55ffff,
+  red: 0xff5555,
+  light_purple: 0xff55ff,
+  yellow: 0xffff55,
+  white: 0xffffff,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * A color tag name ("red", "grey", "#f80") as a color, or null.
+ */
+function tagColor(name: string): TextColor | null {
+  try {
+    return parseTextColor(TAG_ALIASES[name] ?? name);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Index of the ">" ending the tag that starts at "<", or -1.
+ * Quoted arguments may contain ">".
+ */
+function findTagEnd(input: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < input.length; i++) {
+    const c = input[i];
+    if (quote !== null) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = null;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    } else if (c === "<") {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * "hover:show_text:'a:b'" → ["hover", "show_text", "a:b"]
+ */
+function splitArguments(body: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (quote !== null) {
+      if (c === "\\" && (body[i + 1] === quote || body[i + 1] === "\\")) current += body[++i];
+      else if (c === quote) quote = null;
+      else current += c;
+    } else if ((c === "'" || c === '"') && current === "") {
+      quote = c;
+    } else if (c === ":") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function rgbOf(color: TextColor): number {
+  return isHexColor(color) ? parseInt(color.substring(1), 16) : NAMED_RGB[color as NamedTextColor];
+}
+
+function hexOf(rgb: number): TextColor {
+  return `#${rgb.toString(16).padStart(6, "0")}`;
+}
+
+/**
+ * Color at position t (0..1) of a gradient through the given stops.
+ */
+function gradientAt(stops: number[], t: number): TextColor {
+  if (stops.length === 1) return hexOf(stops[0]);
+
+  const scaled = t * (stops.length - 1);
+  const index = Math.min(Math.floor(scaled), stops.length - 2);
+  const local = scaled - index;
+  const [from, to] = [stops[index], stops[index + 1]];
+
+  const channel = (shift: number) => {
+    const a = (from >> shift) & 0xff;
+    const b = (to >> shift) & 0xff;
+    return Math.round(a + (b - a) * local) << shift;
+  };
+  return hexOf(channel(16) | channel(8) | channel(0));
+}
+
+/**
+ * Color at position t (0..1) of the rainbow (hue circle).
+ */
+function rainbowAt(t: number): TextColor {
+  const hue = t * 6;
+  const x = Math.round(255 * (1 - Math.abs((hue % 2) - 1)));
+  const [r, g, b] = [
+    [255, x, 0], [x, 255, 0], [0, 255, x], [0, x, 255], [x, 0, 255], [255, 0, x],
+  ][Math.floor(hue) % 6];
+  return hexOf((r << 16) | (g << 8) | b);
+}
+
+/**
+ * Spread colors over every character of a tag's text. Text that sets
+ * its own color keeps it (but still takes its place in the gradient).
+ */
+function applyGradient(node: TextComponent, gradient: "rainbow" | TextColor[]): void {
+  const leaves: Array<{ leaf: TextComponent; colored: boolean }> = [];
+
+  function collect(component: TextComponent, colored: boolean): void {
+    const own = colored || component.color !== undefined;
+    if (component.text !== undefined && component.text !== "") leaves.push({ leaf: component, colored: own });
+    for (const child of component.extra ?? []) collect(child, own);
+  }
+  for (const child of node.extra ?? []) collect(child, false);
+
+  const total = leaves.reduce((sum, { leaf }) => sum + [...leaf.text!].length, 0);
+  const stops = gradient === "rainbow" ? [] : gradient.map(rgbOf);
+  const colorAt = (i: number) => {
+    const t = total > 1 ? i / (total - 1) : 0;
+    return gradient === "rainbow" ? rainbowAt(i / Math.max(total, 1)) : gradientAt(stops, t);
+  };
+
+  let position = 0;
+  for (const { leaf, colored } of leaves) {
+    const chars = [...leaf.text!];
+    if (!colored) {
+      leaf.text = "";
+      leaf.extra = [...chars.map((char, i) => ({ text: char, color: colorAt(position + i) })), ...(leaf.extra ?? [])];
+    }
+    position += chars.length;
+  }
+}
+
+/**
+ * Name a tag is closed by: aliases close each other ("<b>" with "</bold>").
+ */
+function canonicalName(name: string): string {
+  return DECORATION_ALIASES[name] ?? TAG_ALIASES[name] ?? name;
+}
+
+/**
+ * Component for a placeholder value, copied: gradients change the
+ * components they cover, and the caller's value must stay as it is.
+ */
+function placeholderComponent(value: TextLike | number): TextComponent {
+  return typeof value === "number" ? { text: String(value) } : JSON.parse(JSON.stringify(toComponent(value)));
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+/**
+ * Parse tagged text into a component.
+ *
+ * @param placeholders Values for <name> tags
+ *
+ * @example
+ * parseMiniMessage("<gold>Welcome, <player>!", { player: player.getName() });
+ * parseMiniMessage("<click:run_command:'/spawn'><aqua><u>Back to spawn");
+ */
+export function parseMiniMessage(input: string, placeholders: MiniPlaceholders = {}): TextComponent {
+  const root: TextComponent = { text: "", extra: [] };
+  const stack: OpenTag[] = [];
+  let buffer = "";
+
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].node : root);
+
+  function append(component: TextComponent): void {
+    flush();
+    current().extra!.push(component);
+  }
+
+  function flush(): void {
+    if (buffer !== "") {
+      current().extra!.push({ text: buffer });
+      buffer = "";
+    }
+  }
+
+  function open(name: string, style: TextComponent, gradient?: OpenTag["gradient"]): void {
+    const node: TextComponent = { text: "", ...style, extra: [] };
+    append(node);
+    stack.push({ name: canonicalName(name), node, gradient });
+  }
+
+  function close(tag: OpenTag): void {
+    if (tag.gradient !== undefined) applyGradient(tag.node, tag.gradient);
+  }
+
+  /** Close tags down to (and including) the one at index */
+  function closeTo(index: number): void {
+    flush();
+    while (stack.length > index) close(stack.pop()!);
+  }
+
+  /** Handle one tag; false if it isn't a known tag */
+  function handleTag(body: string): boolean {
+    if (body.startsWith("/")) {
+      const name = canonicalName(body.substring(1).toLowerCase());
+      const index = name === "" ? stack.length - 1 : stack.map(tag => tag.name).lastIndexOf(name);
+      if (index < 0) return false;
+      closeTo(index);
+      return true;
+    }
+
+    const negated = body.startsWith("!");
+    const [rawName, ...args] = splitArguments(negated ? body.substring(1) : body);
+    const name = rawName.toLowerCase();
+
+    const decoration = DECORATION_ALIASES[name];
+    if (decoration !== undefined) {
+      open(name, { [decoration]: !negated });
+      return true;
+    }
+    if (negated) return false;
+
+    const color = tagColor(name);
+    if (color !== null) {
+      open(name, { color });
+      return true;
+    }
+
+    switch (name) {
+      case "color":
+      case "colour":
+      case "c": {
+        const value = args.length > 0 ? tagColor(args[0].toLowerCase()) : null;
+        if (value === null) return false;
+        open(name, { color: value });
+        return true;
+      }
+
+      case "hover": {
+        if (args[0]?.toLowerCase() !== "show_text" || args.length < 2) return false;
+        const contents = parseMiniMessage(args.slice(1).join(":"), placeholders);
+        open(name, { hoverEvent: { action: "show_text", contents } });
+        return true;
+      }
+
+      case "click": {
+        const action = args[0]?.toLowerCase() as ClickAction;
+        if (!CLICK_ACTIONS.includes(action) || args.length < 2) return false;
+        open(name, { clickEvent: { action, value: args.slice(1).join(":") } });
+        return true;
+      }
+
+      case "insert":
+      case "insertion":
+        if (args.length === 0) return false;
+        open(name, { insertion: args.join(":") });
+        return true;
+
+      case "font":
+        if (args.length === 0) return false;
+        open(name, { font: args.join(":") });
+        return true;
+
+      case "gradient": {
+        const colors = args.map(arg => tagColor(arg.toLowerCase()));
+        if (colors.some(value => value === null)) return false;
+        open(name, {}, colors.length > 0 ? (colors as TextColor[]) : ["white", "black"]);
+        return true;
+      }
+
+      case "rainbow":
+        open(name, {}, "rainbow");
+        return true;
+
+      case "lang":
+      case "tr":
+      case "translate": {
+        if (args.length === 0) return false;
+        const [key, ...values] = args;
+        const component: TextComponent = { translate: key };
+        if (values.length > 0) component.with = values.map(value => parseMiniMessage(value, placeholders));
+        append(component);
+        return true;
+      }
+
+      case "key":
+        if (args.length === 0) return false;
+        append({ keybind: args[0] });
+        return true;
+
+      case "newline":
+      case "br":
+        buffer += "\n";
+        return true;
+
+      case "reset":
+        closeTo(0);
+        return true;
+    }
+
+    if (args.length === 0 && Object.prototype.hasOwnProperty.call(placeholders, rawName)) {
+      append(placeholderComponent(placeholders[rawName]));
+      return true;
+    }
+    return false;
+  }
+
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === "\\" && (input[i + 1] === "<" || input[i + 1] === "\\")) {
+      buffer += input[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === "<") {
+      const end = findTagEnd(input, i);
+      if (end > i + 1 && handleTag(input.substring(i + 1, end))) {
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += c;
+    i++;
+  }
+
+  closeTo(0);
+  return root;
+}
+
+/**
+ * Escape text so parseMiniMessage() shows it as written.
+ *
+ * @example
+ * parseMiniMessage(`<gray>${escapeTags(sign.getLine(0))}`);
+ */
+export function escapeTags(text: string): string {
+  return text.replace(/[\\<]/g, c => `\\${c}`);
+}
+
+/**
+ * Parse tagged text and send it to a player or the console.
+ *
+ * @example
+ * sendMini(player, "<green>Saved! <click:run_command:'/home'><u>Teleport</u>");
+ */
+export function sendMini(sender: BukkitCommandSender, input: string, placeholders?: MiniPlaceholders): void {
+  sendRich(sender, parseMiniMessage(input, placeholders));
+}
@@ -0,0 +1,435 @@
+/**
+ * DESIGN
+ * ------
+ * Rich chat text: colors (named and hex), decorations, hover text and
+ * click actions, built in TypeScript instead of "§a" strings.
+ *
+ * A component is plain data in Minecraft's JSON text format. Children
+ * (extra) inherit the style of their parent:
+ *
+ *   text("Click ").color("gray")                 {"text":"Click ","color":"gray",
+ *     .append(                                     "extra":[{
+ *       text("here").color("#55ffff").bold()         "text":"here","color":"#55ffff",
+ *         .hover("Teleports you to spawn")           "bold":true,
+ *         .runCommand("/spawn"))                     "hoverEvent":{...},
+ *                                                    "clickEvent":{...}}]}
+ *
+ * RENDERING:
+ *
+ *   RichText / TextComponent ──→ toJson()          JSON text format
+ *                           ├──→ toBaseComponents() BungeeCord components, for
+ *                           │                       sender.spigot().sendMessage()
+ *                           ├──→ toLegacy()         "§x§5§5§f§f§f§f§lhere" for APIs
+ *                           │                       that only take strings
+ *                           └──→ toPlainText()      "Click here"
+ *
+ * WHY JSON IN BETWEEN: The JSON text format is the one stable, documented
+ * description of chat components. Building the BungeeCord objects from
+ * it (ComponentSerializer) avoids mirroring their constructors, which
+ * changed across versions (hover "contents" vs "value").
+ *
+ * @see miniMessage.ts for writing components as "<green>tagged</green>" text
+ * @see https://minecraft.wiki/w/Raw_JSON_text_format
+ */
+
+import { BukkitCommandSender } from "../../entities/types/commandSender";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * The 16 chat colors, by their JSON names.
+ */
+export type NamedTextColor =
+  | "black" | "dark_blue" | "dark_green" | "dark_aqua"
+  | "dark_red" | "dark_purple" | "gold" | "gray"
+  | "dark_gray" | "blue" | "green" | "aqua"
+  | "red" | "light_purple" | "yellow" | "white";
+
+/**
+ * A named color or a hex color ("#ff8800").
+ */
+export type TextColor = NamedTextColor | `#${string}`;
+
+/**
+ * Text decorations, as component flags.
+ */
+export type TextDecoration = "bold" | "italic" | "underlined" | "strikethrough" | "obfuscated";
+
+/**
+ * What clicking a component does.
+ */
+export type ClickAction =
+  | "run_command"
+  | "suggest_command"
+  | "open_url"
+  | "copy_to_clipboard"
+  | "change_page";
+
+/**
+ * A chat component in Minecraft's JSON text format.
+ *
+ * Exactly one content field is set: text, translate or keybind.
+ */
+export interface TextComponent {
+  /** Literal text */
+  text?: string;
+
+  /** Translation key, rendered in the client's language ("block.minecraft.stone") */
+  translate?: string;
+
+  /** Arguments substituted into the translation (%s) */
+  with?: TextComponent[];
+
+  /** Key binding name, shown as the player's key ("key.jump") */
+  keybind?: string;
+
+  color?: TextColor;
+  bold?: boolean;
+  italic?: boolean;
+  underlined?: boolean;
+  strikethrough?: boolean;
+  obfuscated?: boolean;
+
+  /** Resource pack font ("minecraft:uniform") */
+  font?: string;
+
+  /** Text inserted into the chat box on shift-click */
+  insertion?: string;
+
+  clickEvent?: { action: ClickAction; value: string };
+
+  hoverEvent?: { action: "show_text"; contents: TextComponent };
+
+  /** Children, styled like this component unless they say otherwise */
+  extra?: TextComponent[];
+}
+
+/**
+ * Anything accepted where text is expected: a plain string (taken
+ * literally, no § codes or tags), a builder or a component.
+ */
+export type TextLike = string | RichText | TextComponent;
+
+/**
+ * BungeeCord chat component (net.md_5.bungee.api.chat.BaseComponent).
+ */
+export interface BungeeBaseComponent {
+  /** Text without any formatting */
+  toPlainText(): string;
+
+  /** Text with § codes */
+  toLegacyText(): string;
+}
+
+/**
+ * Chainable component builder. Every method changes this component and
+ * returns it.
+ */
+export interface RichText {
+  /** The component being built */
+  readonly component: TextComponent;
+
+  color(color: TextColor): RichText;
+  bold(value?: boolean): RichText;
+  italic(value?: boolean): RichText;
+  underlined(value?: boolean): RichText;
+  strikethrough(value?: boolean): RichText;
+  obfuscated(value?: boolean): RichText;
+  decorate(decoration: TextDecoration, value?: boolean): RichText;
+  font(font: string): RichText;
+  insertion(text: string): RichText;
+
+  /** Show text when hovering */
+  hover(text: TextLike): RichText;
+
+  /** Run a command as the player on click ("/spawn") */
+  runCommand(command: string): RichText;
+
+  /** Put a command into the chat box on click */
+  suggestCommand(command: string): RichText;
+
+  /** Open a URL on click (after the client's confirmation screen) */
+  openUrl(url: string): RichText;
+
+  /** Copy text to the clipboard on click */
+  copyToClipboard(text: string): RichText;
+
+  /** Add children */
+  append(...parts: TextLike[]): RichText;
+
+  /** Add a line break */
+  newline(): RichText;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Legacy § code of each named color.
+ */
+export const NAMED_TEXT_COLORS: { readonly [name in NamedTextColor]: string } = {
+  black: "0",
+  dark_blue: "1",
+  dark_green: "2",
+  dark_aqua: "3",
+  dark_red: "4",
+  dark_purple: "5",
+  gold: "6",
+  gray: "7",
+  dark_gray: "8",
+  blue: "9",
+  green: "a",
+  aqua: "b",
+  red: "c",
+  light_purple: "d",
+  yellow: "e",
+  white: "f",
+};
+
+/**
+ * Legacy § code of each decoration.
+ */
+const DECORATION_CODES: { readonly [decoration in TextDecoration]: string } = {
+  obfuscated: "k",
+  bold: "l",
+  strikethrough: "m",
+  underlined: "n",
+  italic: "o",
+};
+
+const DECORATIONS = Object.keys(DECORATION_CODES) as TextDecoration[];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * True for "#rgb" and "#rrggbb" colors.
+ */
+export function isHexColor(color: string): color is `#${string}` {
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color);
+}
+
+/**
+ * True for the 16 named colors.
+ */
+export function isNamedColor(color: string): color is NamedTextColor {
+  return Object.prototype.hasOwnProperty.call(NAMED_TEXT_COLORS, color);
+}
+
+/**
+ * "#F80" → "#ff8800"; throws on anything that is not a color.
+ */
+export function parseTextColor(color: string): TextColor {
+  if (isNamedColor(color)) return color;
+  if (isHexColor(color)) {
+    const hex = color.substring(1).toLowerCase();
+    return `#${hex.length === 3 ? [...hex].map(c => c + c).join("") : hex}`;
+  }
+  throw new Error(`Invalid text color "${color}" (use a color name or #rrggbb)`);
+}
+
+function isRichText(value: unknown): value is RichText {
+  return value !== null && typeof value === "object" && "component" in value && typeof (value as { append?: unknown }).append === "function";
+}
+
+/**
+ * Style of a component after inheriting from its parents.
+ */
+type Style = Pick<TextComponent, "color" | TextDecoration>;
+
+function inherit(parent: Style, component: TextComponent): Style {
+  const style: Style = { ...parent };
+  if (component.color !== undefined) style.color = component.color;
+  for (const decoration of DECORATIONS) {
+    if (component[decoration] !== undefined) style[decoration] = component[decoration];
+  }
+  return style;
+}
+
+function legacyStyle(style: Style): string {
+  let codes = "§r";
+  if (style.color !== undefined) {
+    codes = isHexColor(style.color)
+      ? "§x" + [...style.color.substring(1)].map(c => `§${c}`).join("")
+      : `§${NAMED_TEXT_COLORS[style.color as NamedTextColor]}`;
+  }
+  for (const decoration of DECORATIONS) {
+    if (style[decoration]) codes += `§${DECORATION_CODES[decoration]}`;
+  }
+  return codes;
+}
+
+/**
+ * Text of a component itself (without children), as a client without
+ * resource packs would show it.
+ */
+function ownText(component: TextComponent, render: (child: TextComponent) => string): string {
+  if (component.text !== undefined) return component.text;
+  if (component.keybind !== undefined) return component.keybind;
+  if (component.translate !== undefined) {
+    /* The server doesn't know the client's translations: show the key and its arguments */
+    const args = (component.with ?? []).map(render);
+    return args.length > 0 ? `${component.translate} (${args.join(", ")})` : component.translate;
+  }
+  return "";
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+function wrap(component: TextComponent): RichText {
+  const builder: RichText = {
+    component,
+
+    color(color) {
+      component.color = parseTextColor(color);
+      return builder;
+    },
+    bold: (value = true) => builder.decorate("bold", value),
+    italic: (value = true) => builder.decorate("italic", value),
+    underlined: (value = true) => builder.decorate("underlined", value),
+    strikethrough: (value = true) => builder.decorate("strikethrough", value),
+    obfuscated: (value = true) => builder.decorate("obfuscated", value),
+    decorate(decoration, value = true) {
+      component[decoration] = value;
+      return builder;
+    },
+    font(font) {
+      component.font = font;
+      return builder;
+    },
+    insertion(text) {
+      component.insertion = text;
+      return builder;
+    },
+
+    hover(text) {
+      component.hoverEvent = { action: "show_text", contents: toComponent(text) };
+      return builder;
+    },
+    runCommand: command => click("run_command", command),
+    suggestCommand: command => click("suggest_command", command),
+    openUrl: url => click("open_url", url),
+    copyToClipboard: text => click("copy_to_clipboard", text),
+
+    append(...parts) {
+      component.extra = [...(component.extra ?? []), ...parts.map(toComponent)];
+      return builder;
+    },
+    newline: () => builder.append("\n"),
+  };
+
+  function click(action: ClickAction, value: string): RichText {
+    component.clickEvent = { action, value };
+    return builder;
+  }
+
+  return builder;
+}
+
+/**
+ * Start a literal text component.
+ *
+ * @example
+ * text("Welcome ").color("gold").append(text(player.getName()).bold());
+ */
+export function text(content = ""): RichText {
+  return wrap({ text: content });
+}
+
+/**
+ * Start a component translated by the client ("%s" in the translation
+ * is replaced by the arguments).
+ *
+ * @example
+ * translatable("block.minecraft.diamond_block").color("aqua");
+ * translatable("death.attack.fall", player.getName());
+ */
+export function translatable(key: string, ...args: TextLike[]): RichText {
+  return wrap(args.length > 0 ? { translate: key, with: args.map(toComponent) } : { translate: key });
+}
+
+/**
+ * Start a component showing the key bound to an action.
+ *
+ * @example
+ * text("Press ").append(keybind("key.sneak").color("yellow"), " to sit");
+ */
+export function keybind(key: string): RichText {
+  return wrap({ keybind: key });
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+/**
+ * The component for any text-like value. Strings become literal text,
+ * builders give their component.
+ */
+export function toComponent(value: TextLike): TextComponent {
+  if (typeof value === "string") return { text: value };
+  if (isRichText(value)) return value.component;
+  return value;
+}
+
+/**
+ * Serialize to the JSON text format (as used by /tellraw).
+ */
+export function toJson(value: TextLike): string {
+  return JSON.stringify(toComponent(value));
+}
+
+/**
+ * Text without any formatting.
+ *
+ * @example
+ * toPlainText(text("Hi ").color("red").append("there"));  // "Hi there"
+ */
+export function toPlainText(value: TextLike): string {
+  const component = toComponent(value);
+  return ownText(component, toPlainText) + (component.extra ?? []).map(toPlainText).join("");
+}
+
+/**
+ * Text with § codes, for APIs that only take strings (item names,
+ * titles, scoreboards). Hover and click events are dropped.
+ *
+ * Hex colors use the "§x§r§r§g§g§b§b" form understood since 1.16.
+ */
+export function toLegacy(value: TextLike): string {
+  function render(component: TextComponent, parent: Style): string {
+    const style = inherit(parent, component);
+    const own = ownText(component, child => render(child, style));
+    return (own === "" ? "" : legacyStyle(style) + own)
+      + (component.extra ?? []).map(child => render(child, style)).join("");
+  }
+
+  const legacy = render(toComponent(value), {});
+  /* Leading reset is implied at the start of a message */
+  return legacy.startsWith("§r") ? legacy.substring(2) : legacy;
+}
+
+/**
+ * BungeeCord components for sender.spigot().sendMessage().
+ */
+export function toBaseComponents(value: TextLike): BungeeBaseComponent[] {
+  const parsed = Java.callStatic<BungeeBaseComponent[]>("net.md_5.bungee.chat.ComponentSerializer", "parse", toJson(value));
+  return Array.from(parsed);
+}
+
+/**
+ * Send rich text to a player or the console.
+ *
+ * @example
+ * sendRich(player, text("Teleport to spawn").color("aqua").runCommand("/spawn"));
+ */
+export function sendRich(sender: BukkitCommandSender, ...parts: TextLike[]): void {
+  const message = parts.length === 1 ? toComponent(parts[0]) : { text: "", extra: parts.map(toComponent) };
+  sender.spigot().sendMessage(...toBaseComponents(message));
+}
@@ -0,0 +1,599 @@
+/**
+ * DESIGN
+ * ------
+ * Typed, versioned structures stored in PersistentDataContainers.
+ *
+ * The helpers in persistentData.ts store one primitive per key. Anything
+ * bigger (a pet with an owner, a home and a list of toys) ends up as a
+ * JSON string under one key: opaque to other tools, impossible to migrate
+ * field by field, and unable to hold UUIDs, locations or items.
+ *
+ * A schema declares the structure once and maps it onto nested
+ * containers, one key per field:
+ *
+ *   const PetData = defineDataSchema("pet", {
+ *     version: 2,
+ *     fields: {
+ *       name: Data.string(),
+ *       owner: Data.uuid(),
+ *       kind: Data.enumValue(EntityType),
+ *       home: Data.optional(Data.location()),
+ *       stats: Data.object({ level: Data.integer(), xp: Data.double() }),
+ *       toys: Data.list(Data.itemStack()),
+ *     },
+ *     migrations: {
+ *       2: data => data.rename("hp", "health"),
+ *     },
+ *   });
+ *
+ *   PetData.write(wolf, { name: "Rex", ... });
+ *   PetData.read(wolf);  // typed value, or null
+ *
+ * STORAGE LAYOUT:
+ *
+ *   entity PDC
+ *   └── myplugin:pet                      TAG_CONTAINER
+ *       ├── myplugin:schema_version       INTEGER   2
+ *       ├── myplugin:name                 STRING    "Rex"
+ *       ├── myplugin:owner                STRING    "069a79f4-..."
+ *       ├── myplugin:kind                 STRING    "WOLF"
+ *       ├── myplugin:stats                TAG_CONTAINER
+ *       │   ├── myplugin:level            INTEGER   3
+ *       │   └── myplugin:xp               DOUBLE    41.5
+ *       └── myplugin:toys                 TAG_CONTAINER_ARRAY
+ *           └── [ { myplugin:value  BYTE_ARRAY  <item> }, ... ]
+ *
+ * Field names become keys in snake_case ("maxHealth" → "max_health"),
+ * since keys only allow lowercase letters, digits and ._-/
+ *
+ * MIGRATIONS:
+ * The version is stored next to the fields. read() finds an older
+ * version, runs the migrations for every later version in order, then
+ * writes the migrated data back so the work happens once:
+ *
+ *   stored v1 ──→ migrations[2] ──→ migrations[3] ──→ current v3 ──→ read
+ *
+ * A migration edits the stored container through a small view (get, set,
+ * rename, remove). Versions without a migration are skipped, so adding
+ * an optional field needs a version bump but no code.
+ *
+ * ITEMS:
+ * ItemStack.getItemMeta() returns a copy. Read and write on the meta,
+ * then setItemMeta(meta), or a migration done by read() is lost.
+ *
+ * WHY THROW ON BAD DATA: A required field that is missing, or an enum
+ * constant that no longer exists, means the schema changed without a
+ * migration. Returning a half-filled object would spread the damage;
+ * the error names the exact path instead ("pet.stats.level: missing").
+ */
+
+import { enumConstant, EnumRegistryValue } from "../../java/utils/enumHelper";
+import { BukkitItemStack, deserializeItemStackBytes } from "../../items/types/itemstack";
+import { BukkitNamespacedKey, createPluginKey } from "../../items/types/namespacedKey";
+import { fromUUIDString, JavaUUID } from "../../java/types/uuid";
+import { BukkitLocation } from "./location";
+import {
+  BukkitPersistentDataContainer,
+  BukkitPersistentDataHolder,
+  BukkitPersistentDataType,
+  isPersistentDataContainer,
+  PersistentDataType,
+} from "./persistentData";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Reads and writes one value under a key.
+ */
+export interface DataCodec<T> {
+  /** Store a value under the key */
+  write(container: BukkitPersistentDataContainer, key: BukkitNamespacedKey, value: T): void;
+
+  /**
+   * Read the value under the key.
+   *
+   * @param path Location in the schema, for error messages
+   * @returns The value, or undefined if the key is missing
+   * @throws Error if the stored data doesn't match the codec
+   */
+  read(container: BukkitPersistentDataContainer, key: BukkitNamespacedKey, path: string): T | undefined;
+}
+
+/**
+ * Fields of a schema or nested object, by name.
+ */
+export interface DataFields {
+  readonly [name: string]: DataCodec<any>;
+}
+
+/**
+ * Typed value of a set of fields.
+ */
+export type DataValue<F extends DataFields> = {
+  [K in keyof F]: F[K] extends DataCodec<infer T> ? T : never;
+};
+
+/**
+ * Something that stores persistent data: a holder (entity, ItemMeta,
+ * chunk, world, tile state) or a container directly.
+ */
+export type DataTarget = BukkitPersistentDataHolder | BukkitPersistentDataContainer;
+
+/**
+ * Access to stored data inside a migration.
+ * Field names are top-level names of the schema (converted to keys
+ * like the schema does).
+ */
+export interface DataMigrationView {
+  /** True if the field is stored */
+  has(field: string): boolean;
+
+  /** Read a field with a codec, or null if missing */
+  get<T>(field: string, codec: DataCodec<T>): T | null;
+
+  /** Write a field with a codec */
+  set<T>(field: string, codec: DataCodec<T>, value: T): void;
+
+  /** Move a field to a new name, whatever its type */
+  rename(from: string, to: string): void;
+
+  /** Delete a field */
+  remove(field: string): void;
+}
+
+export interface DataSchemaOptions<F extends DataFields> {
+  /** Current version. Default 1 */
+  version?: number;
+
+  /** The structure */
+  fields: F;
+
+  /** Upgrade steps, by the version they upgrade TO */
+  migrations?: { [toVersion: number]: (data: DataMigrationView) => void };
+}
+
+/**
+ * A declared structure, stored under one key of a container.
+ */
+export interface DataSchema<F extends DataFields> {
+  /** Key name (in the plugin namespace) */
+  readonly name: string;
+
+  /** Current version */
+  readonly version: number;
+
+  /**
+   * Read the structure, migrating old data first.
+   * @returns The value, or null if nothing is stored
+   * @throws Error if the stored data doesn't match the schema
+   */
+  read(target: DataTarget): DataValue<F> | null;
+
+  /** Store the structure, replacing what was there */
+  write(target: DataTarget, value: DataValue<F>): void;
+
+  /** True if something is stored */
+  has(target: DataTarget): boolean;
+
+  /** Delete the stored structure */
+  remove(target: DataTarget): void;
+
+  /**
+   * Read, change and write back in one call.
+   * Returning null removes the data.
+   *
+   * @example
+   * PetData.update(wolf, pet => pet && { ...pet, stats: { ...pet.stats, xp: pet.stats.xp + 5 } });
+   */
+  update(target: DataTarget, fn: (value: DataValue<F> | null) => DataValue<F> | null): DataValue<F> | null;
+
+  /** Use the whole structure as a field of another schema */
+  asCodec(): DataCodec<DataValue<F>>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Field holding the stored version */
+const VERSION_FIELD = "schema_version";
+
+/** Field holding each element of a list */
+const LIST_ELEMENT_FIELD = "value";
+
+/**
+ * Types tried, in order, when a field is moved without knowing its type.
+ * Containers first: they can't be mistaken for anything else.
+ */
+const RAW_TYPES: Array<BukkitPersistentDataType<any, any>> = [
+  PersistentDataType.TAG_CONTAINER,
+  PersistentDataType.TAG_CONTAINER_ARRAY,
+  PersistentDataType.STRING,
+  PersistentDataType.INTEGER,
+  PersistentDataType.LONG,
+  PersistentDataType.DOUBLE,
+  PersistentDataType.FLOAT,
+  PersistentDataType.SHORT,
+  PersistentDataType.BYTE,
+  PersistentDataType.BYTE_ARRAY,
+  PersistentDataType.INTEGER_ARRAY,
+  PersistentDataType.LONG_ARRAY,
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Keys by field name, created on first use */
+const fieldKeys = new Map<string, BukkitNamespacedKey>();
+
+/**
+ * Plugin key for a field name ("maxHealth" → "myplugin:max_health").
+ */
+function fieldKey(name: string): BukkitNamespacedKey {
+  let key = fieldKeys.get(name);
+  if (key === undefined) {
+    const keyName = name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+    if (!/^[a-z0-9._\-/]+$/.test(keyName)) {
+      throw new Error(`Invalid persistent data field name "${name}" (use letters, digits and ._-/)`);
+    }
+    key = createPluginKey(PaperTS.getJavaPlugin(), keyName);
+    fieldKeys.set(name, key);
+  }
+  return key;
+}
+
+function containerOf(target: DataTarget): BukkitPersistentDataContainer {
+  return isPersistentDataContainer(target) ? target : target.getPersistentDataContainer();
+}
+
+function newContainer(parent: BukkitPersistentDataContainer): BukkitPersistentDataContainer {
+  return parent.getAdapterContext().newPersistentDataContainer();
+}
+
+function writeFields<F extends DataFields>(
+  container: BukkitPersistentDataContainer,
+  fields: F,
+  value: DataValue<F>
+): void {
+  for (const [name, codec] of Object.entries(fields)) {
+    codec.write(container, fieldKey(name), value[name]);
+  }
+}
+
+function readFields<F extends DataFields>(
+  container: BukkitPersistentDataContainer,
+  fields: F,
+  path: string
+): DataValue<F> {
+  const result: Record<string, unknown> = {};
+  for (const [name, codec] of Object.entries(fields)) {
+    const value = codec.read(container, fieldKey(name), `${path}.${name}`);
+    if (value === undefined) {
+      throw new Error(`${path}.${name}: missing`);
+    }
+    result[name] = value;
+  }
+  return result as DataValue<F>;
+}
+
+/**
+ * Codec storing a value as one built-in type.
+ */
+function primitive<T>(type: BukkitPersistentDataType<any, T>): DataCodec<T> {
+  return {
+    write: (container, key, value) => container.set(key, type, value),
+    read: (container, key) => (container.has(key, type) ? (container.get(key, type) as T) : undefined),
+  };
+}
+
+/**
+ * Codec storing a value as another codec's value.
+ */
+function mapped<S, T>(
+  codec: DataCodec<S>,
+  encode: (value: T) => S,
+  decode: (stored: S, path: string) => T
+): DataCodec<T> {
+  return {
+    write: (container, key, value) => codec.write(container, key, encode(value)),
+    read: (container, key, path) => {
+      const stored = codec.read(container, key, path);
+      return stored === undefined ? undefined : decode(stored, path);
+    },
+  };
+}
+
+/**
+ * Copy a value of unknown type between keys (for renames).
+ */
+function copyRaw(
+  from: BukkitPersistentDataContainer,
+  fromKey: BukkitNamespacedKey,
+  to: BukkitPersistentDataContainer,
+  toKey: BukkitNamespacedKey
+): boolean {
+  for (const type of RAW_TYPES) {
+    if (from.has(fromKey, type)) {
+      to.set(toKey, type, from.get(fromKey, type));
+      return true;
+    }
+  }
+  return false;
+}
+
+function createMigrationView(container: BukkitPersistentDataContainer, schemaName: string): DataMigrationView {
+  return {
+    has: field => container.has(fieldKey(field)),
+    get: (field, codec) => codec.read(container, fieldKey(field), `${schemaName}.${field}`) ?? null,
+    set: (field, codec, value) => codec.write(container, fieldKey(field), value),
+    rename(from, to): void {
+      if (copyRaw(container, fieldKey(from), container, fieldKey(to))) {
+        container.remove(fieldKey(from));
+      }
+    },
+    remove: field => container.remove(fieldKey(field)),
+  };
+}
+
+// ============================================
+// CODECS
+// ============================================
+
+/**
+ * Codec factories for defineDataSchema() fields.
+ */
+export const Data = {
+  string: (): DataCodec<string> => primitive(PersistentDataType.STRING),
+
+  integer: (): DataCodec<number> => primitive(PersistentDataType.INTEGER),
+
+  /** Whole numbers beyond ±2^31 (timestamps). Exact up to 2^53. */
+  long: (): DataCodec<number> => primitive(PersistentDataType.LONG),
+
+  double: (): DataCodec<number> => primitive(PersistentDataType.DOUBLE),
+
+  boolean: (): DataCodec<boolean> => primitive(PersistentDataType.BOOLEAN),
+
+  /**
+   * A constant of an enum registry, stored by name.
+   *
+   * @example Data.enumValue(Material)
+   */
+  enumValue<R extends object>(registry: R): DataCodec<EnumRegistryValue<R>> {
+    return mapped(
+      primitive(PersistentDataType.STRING),
+      (value: any) => value.name(),
+      (name, path) => {
+        const constant = enumConstant(registry, name);
+        if (constant === undefined) {
+          throw new Error(`${path}: unknown constant "${name}"`);
+        }
+        return constant;
+      }
+    );
+  },
+
+  /**
+   * A UUID, stored as its string form (readable in NBT dumps).
+   */
+  uuid(): DataCodec<JavaUUID> {
+    return mapped(
+      primitive(PersistentDataType.STRING),
+      value => value.toString(),
+      text => fromUUIDString(text)
+    );
+  },
+
+  /**
+   * A location, stored as world name, coordinates and rotation.
+   * Reading fails if the world isn't loaded.
+   */
+  location(): DataCodec<BukkitLocation> {
+    const fields = {
+      world: Data.string(),
+      x: Data.double(),
+      y: Data.double(),
+      z: Data.double(),
+      yaw: Data.double(),
+      pitch: Data.double(),
+    };
+
+    return mapped(
+      Data.object(fields),
+      location => ({
+        world: location.getWorld()!.getName(),
+        x: location.getX(),
+        y: location.getY(),
+        z: location.getZ(),
+        yaw: location.getYaw(),
+        pitch: location.getPitch(),
+      }),
+      (stored, path) => {
+        const world = org.bukkit.Bukkit.getWorld(stored.world);
+        if (world === null) {
+          throw new Error(`${path}.world: world "${stored.world}" is not loaded`);
+        }
+        return new org.bukkit.Location(world, stored.x, stored.y, stored.z, stored.yaw, stored.pitch);
+      }
+    );
+  },
+
+  /**
+   * An item, stored with serializeAsBytes() (all components kept,
+   * upgraded by the server across versions). Air can't be stored.
+   */
+  itemStack(): DataCodec<BukkitItemStack> {
+    return mapped(
+      primitive(PersistentDataType.BYTE_ARRAY),
+      item => item.serializeAsBytes(),
+      bytes => deserializeItemStackBytes(bytes)
+    );
+  },
+
+  /**
+   * Nested fields, stored in their own container.
+   *
+   * @example Data.object({ level: Data.integer(), xp: Data.double() })
+   */
+  object<F extends DataFields>(fields: F): DataCodec<DataValue<F>> {
+    return {
+      write(container, key, value): void {
+        const nested = newContainer(container);
+        writeFields(nested, fields, value);
+        container.set(key, PersistentDataType.TAG_CONTAINER, nested);
+      },
+      read(container, key, path) {
+        const nested = container.has(key, PersistentDataType.TAG_CONTAINER)
+          ? container.get(key, PersistentDataType.TAG_CONTAINER)
+          : null;
+        return nested === null ? undefined : readFields(nested, fields, path);
+      },
+    };
+  },
+
+  /**
+   * A list, stored as an array of containers (one element each).
+   *
+   * @example Data.list(Data.uuid())
+   */
+  list<T>(element: DataCodec<T>): DataCodec<T[]> {
+    const elementKey = () => fieldKey(LIST_ELEMENT_FIELD);
+
+    return {
+      write(container, key, values): void {
+        const entries = values.map(value => {
+          const entry = newContainer(container);
+          element.write(entry, elementKey(), value);
+          return entry;
+        });
+        container.set(key, PersistentDataType.TAG_CONTAINER_ARRAY, entries);
+      },
+      read(container, key, path) {
+        const entries = container.has(key, PersistentDataType.TAG_CONTAINER_ARRAY)
+          ? container.get(key, PersistentDataType.TAG_CONTAINER_ARRAY)
+          : null;
+        if (entries === null) return undefined;
+
+        return Array.from(entries, (entry, index) => {
+          const value = element.read(entry, elementKey(), `${path}[${index}]`);
+          if (value === undefined) throw new Error(`${path}[${index}]: missing`);
+          return value;
+        });
+      },
+    };
+  },
+
+  /**
+   * A field that may be absent. null is stored as "no key".
+   *
+   * @example Data.optional(Data.location())
+   */
+  optional<T>(codec: DataCodec<T>): DataCodec<T | null> {
+    return {
+      write(container, key, value): void {
+        if (value === null || value === undefined) container.remove(key);
+        else codec.write(container, key, value);
+      },
+      read: (container, key, path) => codec.read(container, key, path) ?? null,
+    };
+  },
+};
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Declare a structure stored under one key of persistent data.
+ *
+ * @param name Key name in the plugin namespace (also used in errors)
+ *
+ * @example
+ * const Bounty = defineDataSchema("bounty", {
+ *   fields: { placedBy: Data.uuid(), reward: Data.integer() },
+ * });
+ *
+ * Bounty.write(target, { placedBy: sender.getUniqueId(), reward: 500 });
+ * const bounty = Bounty.read(target);
+ */
+export function defineDataSchema<F extends DataFields>(
+  name: string,
+  options: DataSchemaOptions<F>
+): DataSchema<F> {
+  const version = options.version ?? 1;
+  const migrations = options.migrations ?? {};
+  const fields = options.fields;
+
+  if (VERSION_FIELD in fields) {
+    throw new Error(`Persistent data schema "${name}": "${VERSION_FIELD}" is a reserved field name`);
+  }
+
+  /**
+   * Upgrade a stored container in place.
+   * @returns true if anything ran (the caller writes it back)
+   */
+  function migrate(stored: BukkitPersistentDataContainer): boolean {
+    const versionKey = fieldKey(VERSION_FIELD);
+    const storedVersion = stored.has(versionKey, PersistentDataType.INTEGER)
+      ? stored.get(versionKey, PersistentDataType.INTEGER)!
+      : 1;
+
+    if (storedVersion > version) {
+      throw new Error(`${name}: stored version ${storedVersion} is newer than the schema (${version})`);
+    }
+    if (storedVersion === version) return false;
+
+    const view = createMigrationView(stored, name);
+    for (let next = storedVersion + 1; next <= version; next++) {
+      migrations[next]?.(view);
+    }
+    stored.set(versionKey, PersistentDataType.INTEGER, version);
+    return true;
+  }
+
+  /** Versioned storage, shared by the schema and asCodec() */
+  const codec: DataCodec<DataValue<F>> = {
+    write(container, key, value): void {
+      const stored = newContainer(container);
+      stored.set(fieldKey(VERSION_FIELD), PersistentDataType.INTEGER, version);
+      writeFields(stored, fields, value);
+      container.set(key, PersistentDataType.TAG_CONTAINER, stored);
+    },
+    read(container, key, path) {
+      if (!container.has(key, PersistentDataType.TAG_CONTAINER)) return undefined;
+
+      const stored = container.get(key, PersistentDataType.TAG_CONTAINER)!;
+      if (migrate(stored)) {
+        container.set(key, PersistentDataType.TAG_CONTAINER, stored);
+      }
+      return readFields(stored, fields, path);
+    },
+  };
+
+  const schema: DataSchema<F> = {
+    name,
+    version,
+
+    read: target => codec.read(containerOf(target), fieldKey(name), name) ?? null,
+
+    write: (target, value) => codec.write(containerOf(target), fieldKey(name), value),
+
+    has: target => containerOf(target).has(fieldKey(name), PersistentDataType.TAG_CONTAINER),
+
+    remove: target => containerOf(target).remove(fieldKey(name)),
+
+    update(target: DataTarget, fn: (value: DataValue<F> | null) => DataValue<F> | null): DataValue<F> | null {
+      const next = fn(schema.read(target));
+      if (next === null) schema.remove(target);
+      else schema.write(target, next);
+      return next;
+    },
+
+    asCodec: () => codec,
+  };
+
+  return schema;
+}
@@ -55,6 +55,7 @@ import { BukkitPlayer } from "../../entities/types/bukkitPlayer";
 import { BukkitItemStack } from "../../items/types/itemstack";
 import { BukkitNamespacedKey } from "../../items/types/namespacedKey";
 import { JavaCollection } from "../../java/types/collections";
+import { JavaCompletableFuture } from "../../java/types/completableFuture";
 import { JavaList } from "../../java/types/list";
 import { JavaMap } from "../../java/types/map";
 import { JavaRandom } from "../../java/types/random";
@@ -250,6 +251,28 @@ export interface BukkitWorld extends BukkitWorldInfo, BukkitPersistentDataHolder
      */
     getChunkAt(block: BukkitBlock): BukkitChunk;
 
+    /**
+     * Get chunk at coordinates, loading (and generating) it off the main thread.
+     * Await with toPromise().
+     */
+    getChunkAtAsync(x: number, z: number): JavaCompletableFuture<BukkitChunk>;
+
+    /**
+     * Get chunk at coordinates, loading it off the main thread.
+     * If gen is false and the chunk isn't generated, completes with null.
+     */
+    getChunkAtAsync(x: number, z: number, gen: boolean): JavaCompletableFuture<BukkitChunk | null>;
+
+    /**
+     * Get chunk at location, loading it off the main thread.
+     */
+    getChunkAtAsync(location: BukkitLocation): JavaCompletableFuture<BukkitChunk>;
+
+    /**
+     * Get chunk containing block, loading it off the main thread.
+     */
+    getChunkAtAsync(block: BukkitBlock): JavaCompletableFuture<BukkitChunk>;
+
     /**
      * Check if chunk is loaded.
      */
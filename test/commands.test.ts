@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { Command, registerPlugin, SubCommand, TabComplete } from "../src/decorators";
+import { Arg, ArgsOf, optional } from "../src/commands/types/argument";
+import { GameMode } from "../src/java/enums";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.uninstall();
+});
+
+const giveArgs = [Arg.integer("amount", { min: 1, max: 64 }), optional(Arg.player("target"))] as const;
+const gmArgs = [Arg.enumValue("mode", GameMode)] as const;
+
+class Commands {
+  warps: string[] = [];
+
+  @Command({ name: "give", aliases: ["g"], args: giveArgs })
+  give(sender: any, args: ArgsOf<typeof giveArgs>) {
+    const target = args.target ?? sender;
+    sender.sendMessage(`${target.getName()} x${args.amount}`);
+  }
+
+  @Command({ name: "gm", senders: "player", args: gmArgs })
+  gm(player: any, args: ArgsOf<typeof gmArgs>) {
+    player.setGameMode(args.mode);
+  }
+
+  @SubCommand("warp set", { args: [Arg.string("name")] })
+  setWarp(sender: any, args: { name: string }) {
+    this.warps.push(args.name);
+  }
+
+  @SubCommand("warp delete", { permission: "warps.admin", aliases: ["del"], args: [Arg.string("name")] })
+  deleteWarp(sender: any, args: { name: string }) {
+    this.warps = this.warps.filter(warp => warp !== args.name);
+  }
+
+  @TabComplete("warp delete")
+  completeWarps() {
+    return this.warps;
+  }
+}
+
+describe("command routing", () => {
+  let commands: Commands;
+
+  beforeEach(() => {
+    commands = new Commands();
+    registerPlugin(commands);
+  });
+
+  it("parses arguments", () => {
+    const steve = server.addPlayer("Steve");
+    server.addPlayer("Alex");
+
+    server.dispatchCommand(steve, "give 5 alex");
+    expect(steve.nextMessage()).toBe("Alex x5");
+    server.dispatchCommand(steve, "give 3");
+    expect(steve.nextMessage()).toBe("Steve x3");
+  });
+
+  it("reports bad arguments with the usage", () => {
+    const steve = server.addPlayer("Steve");
+
+    server.dispatchCommand(steve, "give lots");
+    expect(steve.nextMessage()).toBe('§camount must be a whole number, got "lots"');
+    expect(steve.nextMessage()).toBe("§cUsage: /give <amount> [target]");
+  });
+
+  it("shows the label that was typed in the usage", () => {
+    const steve = server.addPlayer("Steve");
+
+    server.dispatchCommand(steve, "g");
+    expect(steve.nextMessage()).toBe("§cMissing argument: amount");
+    expect(steve.nextMessage()).toBe("§cUsage: /g <amount> [target]");
+  });
+
+  it("routes sub-commands and their aliases", () => {
+    const steve = server.addPlayer({ name: "Steve", permissions: ["warps.admin"] });
+
+    server.dispatchCommand(steve, "warp set spawn");
+    server.dispatchCommand(steve, "warp set mine");
+    server.dispatchCommand(steve, "warp del spawn");
+    expect(commands.warps).toEqual(["mine"]);
+
+    server.dispatchCommand(steve, "warp fly");
+    expect(steve.nextMessage()).toBe("§cUnknown sub-command: fly");
+  });
+
+  it("checks sub-command permissions", () => {
+    const steve = server.addPlayer("Steve");
+    commands.warps.push("spawn");
+
+    server.dispatchCommand(steve, "warp delete spawn");
+    expect(commands.warps).toEqual(["spawn"]);
+    expect(steve.nextMessage()).toBe("§cYou don't have permission to use this command.");
+  });
+
+  it("restricts senders", () => {
+    server.dispatchCommand(server.console, "gm creative");
+    expect(server.console.nextMessage()).toBe("§cThis command can only be used by players.");
+  });
+
+  it("rejects unknown enum constants", () => {
+    const steve = server.addPlayer("Steve");
+
+    server.dispatchCommand(steve, "gm creative");
+    expect(steve.getGameMode()).toBe(GameMode.CREATIVE);
+
+    server.dispatchCommand(steve, "gm bogus");
+    expect(steve.nextMessage()).toBe("§cUnknown mode: bogus");
+    expect(steve.getGameMode()).toBe(GameMode.CREATIVE);
+  });
+});
+
+describe("tab completion", () => {
+  let commands: Commands;
+
+  beforeEach(() => {
+    commands = new Commands();
+    registerPlugin(commands);
+  });
+
+  it("completes sub-commands the sender may use", () => {
+    const steve = server.addPlayer("Steve");
+    expect(server.tabComplete(steve, "warp ")).toEqual(["set"]);
+
+    steve.addPermission("warps.admin");
+    expect(server.tabComplete(steve, "warp ")).toEqual(["set", "delete", "del"]);
+  });
+
+  it("completes from @TabComplete", () => {
+    const steve = server.addPlayer({ name: "Steve", permissions: ["warps.admin"] });
+    commands.warps.push("spawn", "mine");
+
+    expect(server.tabComplete(steve, "warp delete s")).toEqual(["spawn"]);
+  });
+
+  it("completes only known enum constants", () => {
+    const steve = server.addPlayer("Steve");
+    server.dispatchCommand(steve, "gm bogus");
+
+    expect(server.tabComplete(steve, "gm ")).toEqual(["creative", "survival", "adventure", "spectator"]);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { createMockFuture, mockThrowable } from "../src/testing/types/mockFuture";
+import { completedFuture, isCompletableFuture, toPromise } from "../src/java/types/completableFuture";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+describe("toPromise", () => {
+  it("resumes on a later tick, not inside complete()", async () => {
+    const future = createMockFuture<string>();
+    let value: string | null = null;
+    void toPromise(future).then(result => (value = result));
+
+    future.complete("cookie");
+    await Promise.resolve();
+    expect(value).toBeNull();
+
+    await server.advance(1);
+    expect(value).toBe("cookie");
+  });
+
+  it("rejects with the exception inside a CompletionException", async () => {
+    const future = createMockFuture<string>();
+    const result = toPromise(future);
+    result.catch(() => {});
+
+    const cause = mockThrowable("java.io.IOException", "disk full");
+    future.completeExceptionally(mockThrowable("java.util.concurrent.CompletionException", "wrapped", cause));
+
+    await server.advance(1);
+    await expect(result).rejects.toThrow("disk full");
+  });
+
+  it("works with futures that are already done", async () => {
+    const result = toPromise(completedFuture(7));
+
+    await server.advance(1);
+    await expect(result).resolves.toBe(7);
+  });
+});
+
+describe("isCompletableFuture", () => {
+  it("recognizes futures only", () => {
+    expect(isCompletableFuture(createMockFuture())).toBe(true);
+    expect(isCompletableFuture(Promise.resolve(1))).toBe(false);
+    expect(isCompletableFuture(null)).toBe(false);
+  });
+});
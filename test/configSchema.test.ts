@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { Config, defineConfig } from "../src/config/types/configSchema";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.uninstall();
+});
+
+describe("defineConfig", () => {
+  it("writes defaults and reads them back", () => {
+    const settings = defineConfig({ game: { "max-players": Config.integer({ default: 16, min: 2 }) } });
+
+    expect(settings.load()).toEqual([]);
+    expect(settings.values.game["max-players"]).toBe(16);
+  });
+
+  it("leaves a field unset when its default is invalid too", () => {
+    const settings = defineConfig({
+      spawn: Config.location({ default: { world: "lobby", x: 0, y: 64, z: 0 } }),
+      motd: Config.string({ notEmpty: true }),
+      "max-players": Config.integer({ default: 16 }),
+    });
+
+    const issues = settings.load();
+    expect(issues.map(issue => issue.path)).toEqual(["spawn.world", "motd"]);
+    expect(issues[0].message).toBe('world "lobby" is not loaded (so is the default; left unset)');
+    expect(settings.values.spawn).toBeUndefined();
+    expect(settings.values.motd).toBeUndefined();
+    expect(settings.values["max-players"]).toBe(16);
+  });
+
+  it("rejects an invalid default when the field is declared", () => {
+    expect(() => Config.integer({ default: 500, max: 100 })).toThrow("Invalid config default 500: must be at most 100 (got 500)");
+    expect(() => Config.string({ default: " ", notEmpty: true })).toThrow("must not be empty");
+  });
+});
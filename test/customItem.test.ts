@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { defineItem, getCustomItem } from "../src/items/types/customItem";
+import { Material } from "../src/items/enums/materialType";
+import { EntityDamageByEntityEvent } from "../src/events/types/entity/sub/entityDamageByEntityEvent";
+import { PlayerInteractEvent } from "../src/events/types/player/playerInteractEvent";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+describe("defineItem", () => {
+  it("runs click handlers with a cooldown", () => {
+    let uses = 0;
+    const wand = defineItem("wand", { base: Material.BLAZE_ROD, cooldown: 1, onRightClick: () => uses++ });
+    const steve = server.addPlayer("Steve");
+    const stack = wand.create();
+
+    server.interact(steve, "RIGHT_CLICK_AIR", { item: stack });
+    server.interact(steve, "RIGHT_CLICK_AIR", { item: stack });
+    expect(uses).toBe(1);
+    expect(wand.cooldownLeft(steve)).toBe(1);
+
+    server.performTicks(20);
+    server.interact(steve, "RIGHT_CLICK_AIR", { item: stack });
+    expect(uses).toBe(2);
+  });
+
+  it("skips cancelled hits", () => {
+    let hits = 0;
+    const sword = defineItem("sword", { base: Material.IRON_SWORD, onHitEntity: () => hits++ });
+    const steve = server.addPlayer("Steve");
+    const alex = server.addPlayer("Alex");
+    steve.getInventory().setItemInMainHand(sword.create());
+
+    server.callEvent(EntityDamageByEntityEvent, { damager: steve, entity: alex, cancelled: true });
+    expect(hits).toBe(0);
+    server.callEvent(EntityDamageByEntityEvent, { damager: steve, entity: alex });
+    expect(hits).toBe(1);
+  });
+
+  it("forgets items and listeners when the plugin is disabled", () => {
+    defineItem("wand", { base: Material.BLAZE_ROD });
+
+    server.disablePlugin();
+    expect(getCustomItem("wand")).toBeNull();
+    expect(server.listenerCount(PlayerInteractEvent)).toBe(0);
+    expect(server.listenerCount(EntityDamageByEntityEvent)).toBe(0);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { formatMessage, formatNumber, pluralCategory } from "../src/i18n/types/messageFormat";
+import { createTranslator } from "../src/i18n/types/translator";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+const KILLS = "{count, plural, =0 {no kills} one {# kill} other {# kills}}";
+
+describe("pluralCategory", () => {
+  it("treats only 1 as singular in English, Italian and German", () => {
+    for (const locale of ["en_us", "it_it", "de_de"]) {
+      expect([0, 1, 2].map(count => pluralCategory(count, locale))).toEqual(["other", "one", "other"]);
+    }
+  });
+
+  it("treats 0 as singular in French and Portuguese", () => {
+    expect(pluralCategory(0, "fr_fr")).toBe("one");
+    expect(pluralCategory(1, "pt_br")).toBe("one");
+    expect(pluralCategory(2, "fr_fr")).toBe("other");
+  });
+});
+
+describe("formatMessage", () => {
+  it("picks exact branches before the plural category", () => {
+    expect(formatMessage(KILLS, { count: 0 }, "en_us")).toBe("no kills");
+    expect(formatMessage(KILLS, { count: 1 }, "en_us")).toBe("1 kill");
+    expect(formatMessage(KILLS, { count: 1500 }, "en_us")).toBe("1,500 kills");
+    expect(formatMessage("{count, plural, one {# kill} other {# kills}}", { count: 0 }, "fr_fr")).toBe("0 kill");
+  });
+
+  it("formats numbers with the locale's separators", () => {
+    expect(formatNumber(1234.5, "en_us", 2)).toBe("1,234.50");
+    expect(formatNumber(1234.5, "de_de")).toBe("1.234,5");
+    expect(formatNumber(-1234567, "fr_fr")).toBe("-1\u202f234\u202f567");
+    expect(formatMessage("Balance: {money, number, 2}", { money: 1234.5 }, "it_it")).toBe("Balance: 1.234,50");
+  });
+
+  it("shows names of players and enum constants, and selects branches", () => {
+    const steve = server.joinPlayer("Steve");
+    const mode = steve.getGameMode();
+
+    expect(formatMessage("§a{target} was healed", { target: steve }, "en_us")).toBe("§aSteve was healed");
+    expect(formatMessage("{mode, select, survival {Survival} other {?}}", { mode }, "en_us")).toBe("Survival");
+  });
+
+  it("leaves placeholders without a parameter as written", () => {
+    expect(formatMessage("Hi {target}, {count} left", { count: 2 }, "en_us")).toBe("Hi {target}, 2 left");
+  });
+});
+
+describe("createTranslator", () => {
+  const bundled = {
+    en_us: { kills: KILLS, hello: "Hello", only: { english: "English only" } },
+    it_it: { kills: "{count, plural, one {# uccisione} other {# uccisioni}}", hello: "Ciao" },
+    de_de: { kills: "{count, plural, one {# Kill} other {# Kills}}", hello: "Hallo" },
+  };
+
+  it("answers each player in their client's locale", () => {
+    const messages = createTranslator({ bundled });
+    const mario = server.joinPlayer({ name: "Mario", locale: "it_IT" });
+    const hans = server.joinPlayer({ name: "Hans", locale: "de_de" });
+
+    expect(messages.t(mario, "kills", { count: 3 })).toBe("3 uccisioni");
+    expect(messages.t(hans, "kills", { count: 1 })).toBe("1 Kill");
+  });
+
+  it("falls back to another file of the language, then the default locale", () => {
+    const messages = createTranslator({ bundled });
+    const austrian = server.joinPlayer({ name: "Franz", locale: "de_at" });
+
+    expect(messages.t(austrian, "hello")).toBe("Hallo");
+    expect(messages.t(austrian, "only.english")).toBe("English only");
+    expect(messages.t("ja_jp", "hello")).toBe("Hello");
+  });
+
+  it("uses the console locale for non-player senders", () => {
+    const messages = createTranslator({ bundled, consoleLocale: "it_it" });
+    expect(messages.t(server.console, "hello")).toBe("Ciao");
+  });
+
+  it("returns a missing key as-is", () => {
+    const messages = createTranslator({ bundled });
+    expect(messages.t("en_us", "nope.missing")).toBe("nope.missing");
+    expect(messages.has("en_us", "nope.missing")).toBe(false);
+  });
+
+  it("writes bundled messages into the locale files and keeps edits", () => {
+    server.writeDataFile("lang/it_it.yml", { hello: "Salve" });
+    const messages = createTranslator({ bundled });
+
+    expect(messages.t("it_it", "hello")).toBe("Salve");
+    expect(server.readDataFile("lang/it_it.yml")).toEqual({
+      hello: "Salve",
+      kills: bundled.it_it.kills,
+    });
+    expect(messages.locales()).toEqual(["de_de", "en_us", "it_it"]);
+  });
+});
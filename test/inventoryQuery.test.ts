@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { ItemMatch } from "../src/items/types/itemPredicate";
+import { count, find, has, take, takeAll } from "../src/inventories/type/inventoryQuery";
+import { item } from "../src/items/types/itemBuilder";
+import { defineItem } from "../src/items/types/customItem";
+import { Material } from "../src/items/enums/materialType";
+import { Enchantment } from "../src/items/enums/enchantmentType";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+const stack = (material: any, amount = 1) => new org.bukkit.inventory.ItemStack(material, amount);
+
+describe("ItemMatch", () => {
+  it("matches materials, names and lore, ignoring colors and case", () => {
+    const relic = item(Material.GOLD_INGOT).name("§6Ancient §lRelic").lore("§7Quest item").build();
+
+    expect(ItemMatch.material(Material.IRON_INGOT, Material.GOLD_INGOT).test(relic)).toBe(true);
+    expect(ItemMatch.name("ancient relic").test(relic)).toBe(true);
+    expect(ItemMatch.name("relic", { exact: true }).test(relic)).toBe(false);
+    expect(ItemMatch.name("Relic", { caseSensitive: true }).test(relic)).toBe(true);
+    expect(ItemMatch.lore("quest").test(relic)).toBe(true);
+    expect(ItemMatch.name("relic").test(stack(Material.GOLD_INGOT))).toBe(false);
+  });
+
+  it("never matches null or AIR, not even negated", () => {
+    const notStone = ItemMatch.not(ItemMatch.material(Material.STONE));
+
+    expect(ItemMatch.anything().test(null)).toBe(false);
+    expect(notStone.test(stack(Material.AIR))).toBe(false);
+    expect(notStone.test(stack(Material.DIRT))).toBe(true);
+  });
+
+  it("checks enchantment levels, data keys, custom items and durability", () => {
+    const sword = item(Material.DIAMOND_SWORD).enchant(Enchantment.SHARPNESS, 3).pdc("bound", true).build();
+    const wand = defineItem("wand", { base: Material.BLAZE_ROD }).create();
+
+    expect(ItemMatch.enchant(Enchantment.SHARPNESS, 3).test(sword)).toBe(true);
+    expect(ItemMatch.enchant(Enchantment.SHARPNESS, 4).test(sword)).toBe(false);
+    expect(ItemMatch.data("bound").test(sword)).toBe(true);
+    expect(ItemMatch.custom("wand").test(wand)).toBe(true);
+    expect(ItemMatch.vanilla().test(wand)).toBe(false);
+    expect(ItemMatch.vanilla().test(sword)).toBe(true);
+
+    const worn = item(Material.DIAMOND_SWORD).meta(meta => (meta as any).setDamage(1500)).build();
+    expect(ItemMatch.durabilityBelow(100).test(worn)).toBe(true);
+    expect(ItemMatch.durabilityBelow(100).test(sword)).toBe(false);
+    expect(ItemMatch.durabilityBelow(100).test(stack(Material.DIRT))).toBe(false);
+  });
+
+  it("combines predicates", () => {
+    const ore = ItemMatch.material(Material.IRON_ORE).or(ItemMatch.material(Material.GOLD_ORE));
+    const plainOre = ore.and(ItemMatch.name("x").negate());
+
+    expect(plainOre.test(stack(Material.GOLD_ORE))).toBe(true);
+    expect(plainOre.test(item(Material.GOLD_ORE).name("x").build())).toBe(false);
+    expect(ItemMatch.all(ore, ItemMatch.vanilla()).test(stack(Material.IRON_ORE))).toBe(true);
+    expect(ItemMatch.any(ore, ItemMatch.material(Material.COAL)).test(stack(Material.COAL))).toBe(true);
+  });
+});
+
+describe("inventory queries", () => {
+  const emerald = ItemMatch.material(Material.EMERALD);
+
+  function fill() {
+    const steve = server.joinPlayer("Steve");
+    const inventory = steve.getInventory();
+    inventory.setItem(3, stack(Material.EMERALD, 5));
+    inventory.setItem(7, stack(Material.DIRT, 64));
+    inventory.setItem(20, stack(Material.EMERALD, 10));
+    /* Off hand: never counted */
+    inventory.setItemInOffHand(stack(Material.EMERALD, 30));
+    return inventory;
+  }
+
+  it("finds and counts matching storage slots in order", () => {
+    const inventory = fill();
+
+    expect(find(inventory, emerald).map(({ slot }) => slot)).toEqual([3, 20]);
+    expect(count(inventory, emerald)).toBe(15);
+    expect(has(inventory, emerald, 15)).toBe(true);
+    expect(has(inventory, emerald, 16)).toBe(false);
+  });
+
+  it("takes from the first slots, splitting the last stack", () => {
+    const inventory = fill();
+
+    expect(take(inventory, emerald, 8)).toBe(true);
+    expect(inventory.getItem(3)).toBeNull();
+    expect(inventory.getItem(20).getAmount()).toBe(7);
+  });
+
+  it("takes nothing when there aren't enough", () => {
+    const inventory = fill();
+
+    expect(take(inventory, emerald, 16)).toBe(false);
+    expect(inventory.getItem(3).getAmount()).toBe(5);
+    expect(inventory.getItem(20).getAmount()).toBe(10);
+    expect(inventory.getItemInOffHand().getAmount()).toBe(30);
+  });
+
+  it("rejects amounts that aren't positive integers", () => {
+    const inventory = fill();
+    expect(() => take(inventory, emerald, 0)).toThrow("Amount to take must be a positive integer (got 0)");
+    expect(() => take(inventory, emerald, 1.5)).toThrow("positive integer");
+  });
+
+  it("takes every match with takeAll()", () => {
+    const inventory = fill();
+
+    expect(takeAll(inventory, emerald)).toBe(15);
+    expect(count(inventory, emerald)).toBe(0);
+    expect(count(inventory, ItemMatch.anything())).toBe(64);
+  });
+});
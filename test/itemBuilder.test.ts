@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { item, ItemBuilder } from "../src/items/types/itemBuilder";
+import { Material } from "../src/items/enums/materialType";
+import { Enchantment } from "../src/items/enums/enchantmentType";
+import { ItemFlag } from "../src/items/enums/itemFlagType";
+import { PersistentDataType } from "../src/world/types/persistentData";
+import { Data } from "../src/world/types/persistentSchema";
+import { toPluginKey } from "../src/items/types/namespacedKey";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+describe("item()", () => {
+  it("applies every edit in one meta round-trip", () => {
+    const blade = item(Material.DIAMOND_SWORD)
+      .name("§bFrostbite")
+      .lore("§7Forged in ice")
+      .addLore("§7Slows on hit")
+      .enchant(Enchantment.SHARPNESS, 10)
+      .flags(ItemFlag.HIDE_ENCHANTS)
+      .unbreakable()
+      .model(1001)
+      .build();
+    const meta = blade.getItemMeta();
+
+    expect(meta.getDisplayName()).toBe("§bFrostbite");
+    expect(meta.getLore().toArray()).toEqual(["§7Forged in ice", "§7Slows on hit"]);
+    expect(blade.getEnchantmentLevel(Enchantment.SHARPNESS)).toBe(10);
+    expect(meta.hasItemFlag(ItemFlag.HIDE_ENCHANTS)).toBe(true);
+    expect(meta.isUnbreakable()).toBe(true);
+    expect(meta.getCustomModelData()).toBe(1001);
+  });
+
+  it("builds independent stacks on every build()", () => {
+    const builder = item(Material.SUNFLOWER).amount(3).name("§6Token");
+    const first = builder.build();
+    const second = builder.build();
+
+    first.setAmount(1);
+    expect(second.getAmount()).toBe(3);
+    expect(second.getItemMeta().getDisplayName()).toBe("§6Token");
+  });
+
+  it("refuses meta edits on AIR", () => {
+    expect(() => item(Material.AIR).name("x").build()).toThrow("Cannot edit the meta of AIR");
+  });
+});
+
+describe("pdc()", () => {
+  it("picks the data type from the value", () => {
+    const stack = item(Material.STICK)
+      .pdc("id", "wand")
+      .pdc("soulbound", true)
+      .pdc("charges", 3)
+      .pdc("power", 1.5)
+      .pdc("big", 2 ** 40)
+      .build();
+    const data = stack.getItemMeta().getPersistentDataContainer();
+
+    expect(data.get(toPluginKey("id"), PersistentDataType.STRING)).toBe("wand");
+    expect(data.get(toPluginKey("soulbound"), PersistentDataType.BOOLEAN)).toBe(true);
+    expect(data.get(toPluginKey("charges"), PersistentDataType.INTEGER)).toBe(3);
+    expect(data.get(toPluginKey("power"), PersistentDataType.DOUBLE)).toBe(1.5);
+    expect(data.has(toPluginKey("big"), PersistentDataType.INTEGER)).toBe(false);
+    expect(data.get(toPluginKey("big"), PersistentDataType.DOUBLE)).toBe(2 ** 40);
+  });
+
+  it("uses the codec it is given", () => {
+    const stack = item(Material.CLOCK).pdc("created", Data.long(), 1_700_000_000_000).build();
+    const data = stack.getItemMeta().getPersistentDataContainer();
+
+    expect(data.get(toPluginKey("created"), PersistentDataType.LONG)).toBe(1_700_000_000_000);
+  });
+});
+
+describe("ItemBuilder.from()", () => {
+  it("edits a copy and keeps the original's meta", () => {
+    const original = item(Material.DIAMOND_SWORD).name("§bFrostbite").model(7).build();
+    const renamed = ItemBuilder.from(original).name("§eRenamed").build();
+
+    expect(original.getItemMeta().getDisplayName()).toBe("§bFrostbite");
+    expect(renamed.getItemMeta().getDisplayName()).toBe("§eRenamed");
+    expect(renamed.getItemMeta().getCustomModelData()).toBe(7);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { mockList } from "../src/testing/types/mockCollections";
+import { editMetaAs, getMetaAs, getMetaKinds, requireMetaAs } from "../src/items/types/itemMeta";
+import { addBundleItems, BUNDLE_CAPACITY, getBundleFullness, getBundleItems } from "../src/items/types/bundleMeta";
+import { isPotionMaterial } from "../src/items/types/potionMeta";
+import { Material } from "../src/items/enums/materialType";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+const stack = (material: any, amount = 1) => new org.bukkit.inventory.ItemStack(material, amount);
+
+/** Bundle meta over a plain list (the mock's metas have no bundle kind) */
+function bundleMeta(): any {
+  let items: any[] = [];
+  return {
+    getItems: () => mockList([...items]),
+    setItems: (next: any[] | null) => {
+      items = next ?? [];
+    },
+    addItem: (item: any) => {
+      items.push(item);
+    },
+  };
+}
+
+describe("getMetaAs", () => {
+  it("narrows to kinds the meta implements, and null otherwise", () => {
+    const sword = stack(Material.DIAMOND_SWORD);
+
+    expect(getMetaAs(sword, "damageable")).not.toBeNull();
+    expect(getMetaAs(sword, "potion")).toBeNull();
+    expect(getMetaAs(stack(Material.AIR), "damageable")).toBeNull();
+    expect(getMetaAs(null, "damageable")).toBeNull();
+    expect(getMetaKinds(sword.getItemMeta())).toEqual(["damageable"]);
+  });
+
+  it("saves edits back only for a matching kind", () => {
+    const sword = stack(Material.DIAMOND_SWORD);
+
+    expect(editMetaAs(sword, "damageable", meta => meta.setDamage(12))).toBe(true);
+    expect(editMetaAs(sword, "book", () => {
+      throw new Error("not a book");
+    })).toBe(false);
+    expect(requireMetaAs(sword, "damageable").getDamage()).toBe(12);
+    expect(() => requireMetaAs(sword, "potion")).toThrow("DIAMOND_SWORD has no potion meta");
+  });
+});
+
+describe("bundle helpers", () => {
+  it("adds what fits and returns the rest", () => {
+    const meta = bundleMeta();
+
+    const leftover = addBundleItems(meta, stack(Material.DIAMOND, 40), stack(Material.EMERALD, 40));
+
+    expect(getBundleItems(meta).map(item => item.getAmount())).toEqual([40, 24]);
+    expect(leftover).toHaveLength(1);
+    expect(leftover[0].getType()).toBe(Material.EMERALD);
+    expect(leftover[0].getAmount()).toBe(16);
+    expect(getBundleFullness(meta)).toBe(1);
+  });
+
+  it("doesn't change the items it was given", () => {
+    const meta = bundleMeta();
+    const diamonds = stack(Material.DIAMOND, BUNDLE_CAPACITY + 1);
+
+    addBundleItems(meta, diamonds);
+    expect(diamonds.getAmount()).toBe(BUNDLE_CAPACITY + 1);
+  });
+});
+
+describe("potion helpers", () => {
+  it("knows which materials carry potion meta", () => {
+    expect(isPotionMaterial(Material.SPLASH_POTION)).toBe(true);
+    expect(isPotionMaterial(Material.TIPPED_ARROW)).toBe(true);
+    expect(isPotionMaterial(Material.GLASS_BOTTLE)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { itemsFromBase64, itemsToBase64 } from "../src/items/types/itemSerialization";
+import { Material } from "../src/items/enums/materialType";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.uninstall();
+});
+
+describe("Base64 item lists", () => {
+  it("keeps empty slots in place", () => {
+    const sword = new org.bukkit.inventory.ItemStack(Material.DIAMOND_SWORD, 1);
+    const items = itemsFromBase64(itemsToBase64([sword, null]));
+
+    expect(items).toHaveLength(2);
+    expect(items[0]!.isSimilar(sword)).toBe(true);
+    expect(items[1]).toBeNull();
+  });
+
+  it("tells an empty list from one empty slot", () => {
+    expect(itemsFromBase64(itemsToBase64([]))).toEqual([]);
+    expect(itemsFromBase64(itemsToBase64([null]))).toEqual([null]);
+  });
+
+  it("rejects text without a slot count", () => {
+    expect(() => itemsFromBase64("CgAA")).toThrow("Not a Base64 item list");
+    expect(() => itemsFromBase64("3:,")).toThrow("has 2 slots, expected 3");
+  });
+});
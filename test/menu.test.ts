@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { createMenu } from "../src/menus/types/menu";
+import { Material } from "../src/items/enums/materialType";
+import { InventoryClickEvent } from "../src/events/types/inventory/inventoryInteractEvent";
+import { InventoryOpenEvent } from "../src/events/types/inventory/inventoryOpenEvent";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+describe("createMenu", () => {
+  it("runs button handlers and cancels clicks", () => {
+    const clicked: number[] = [];
+    const menu = createMenu({ title: "Shop", rows: 1 })
+      .button(4, new org.bukkit.inventory.ItemStack(Material.EMERALD, 1), click => clicked.push(click.slot));
+    const steve = server.joinPlayer("Steve");
+
+    const view = menu.open(steve);
+    const event = server.clickInventory(steve, 4);
+
+    expect(view.isOpen).toBe(true);
+    expect(clicked).toEqual([4]);
+    expect(event.isCancelled()).toBe(true);
+  });
+
+  it("releases its listeners when closed", () => {
+    const steve = server.joinPlayer("Steve");
+    const view = createMenu({ title: "Shop", rows: 1 }).open(steve);
+
+    steve.closeInventory();
+    expect(view.isOpen).toBe(false);
+    expect(server.listenerCount(InventoryClickEvent)).toBe(0);
+  });
+
+  it("stays closed when InventoryOpenEvent is cancelled", () => {
+    PaperTS.registerEvent<any>(InventoryOpenEvent, event => event.setCancelled(true));
+    const steve = server.joinPlayer("Steve");
+    const menu = createMenu({ title: "Shop", rows: 1 });
+
+    const view = menu.open(steve);
+    expect(view.isOpen).toBe(false);
+    expect(menu.views()).toEqual([]);
+    expect(server.listenerCount(InventoryClickEvent)).toBe(0);
+  });
+});
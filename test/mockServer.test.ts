@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { PlayerJoinEvent } from "../src/events/types/player/playerJoinEvent";
+import { Material } from "../src/items/enums/materialType";
+import { GameMode } from "../src/java/enums";
+import { runLater, runTimer } from "../src/scheduler/types/scheduler";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.uninstall();
+});
+
+describe("players", () => {
+  it("joins and quits", () => {
+    const steve = server.joinPlayer("Steve");
+
+    expect(server.getOnlinePlayers()).toEqual([steve]);
+    expect(org.bukkit.Bukkit.getPlayerExact("steve")).toBe(steve);
+    expect(steve.isOnline()).toBe(true);
+
+    server.quitPlayer(steve);
+    expect(server.getOnlinePlayers()).toEqual([]);
+    expect(steve.isOnline()).toBe(false);
+  });
+
+  it("records messages", () => {
+    const steve = server.addPlayer("Steve");
+    steve.sendMessage("one", "two");
+
+    expect(steve.nextMessage()).toBe("one");
+    expect(steve.nextMessage()).toBe("two");
+    expect(steve.nextMessage()).toBeNull();
+  });
+
+  it("checks permissions", () => {
+    const steve = server.addPlayer({ name: "Steve", permissions: ["a.b"] });
+
+    expect(steve.hasPermission("a.b")).toBe(true);
+    expect(steve.hasPermission("a.c")).toBe(false);
+    steve.setOp(true);
+    expect(steve.hasPermission("a.c")).toBe(true);
+  });
+});
+
+describe("events", () => {
+  it("delivers fired events to listeners", () => {
+    const joined: string[] = [];
+    PaperTS.registerEvent<any>(PlayerJoinEvent, event => joined.push(event.getPlayer().getName()));
+
+    server.joinPlayer("Steve");
+    expect(joined).toEqual(["Steve"]);
+    expect(server.listenerCount(PlayerJoinEvent)).toBe(1);
+  });
+});
+
+describe("scheduler", () => {
+  it("runs tasks when ticks advance", () => {
+    const runs: number[] = [];
+    runLater(5, () => runs.push(-1));
+    const timer = runTimer(0, 2, () => runs.push(runs.length));
+
+    server.performTicks(4);
+    expect(runs).toEqual([0, 1]);
+
+    timer.cancel();
+    server.performTicks(2);
+    expect(runs).toEqual([0, 1, -1]);
+  });
+
+  it("cancels every task when the plugin is disabled", () => {
+    let ran = false;
+    runLater(1, () => (ran = true));
+
+    server.disablePlugin();
+    server.performTicks(2);
+    expect(ran).toBe(false);
+  });
+});
+
+describe("items", () => {
+  it("copies meta until setItemMeta()", () => {
+    const stack = new org.bukkit.inventory.ItemStack(Material.DIAMOND_SWORD, 1);
+    const meta = stack.getItemMeta();
+    meta.setDisplayName("Blade");
+
+    expect(stack.getItemMeta().hasDisplayName()).toBe(false);
+    stack.setItemMeta(meta);
+    expect(stack.getItemMeta().getDisplayName()).toBe("Blade");
+  });
+
+  it("compares stacks like Bukkit", () => {
+    const a = new org.bukkit.inventory.ItemStack(Material.STONE, 1);
+    const b = new org.bukkit.inventory.ItemStack(Material.STONE, 5);
+
+    expect(a.isSimilar(b)).toBe(true);
+    expect(a.equals(b)).toBe(false);
+  });
+
+  it("keeps player inventory slots apart", () => {
+    const inventory = server.addPlayer("Steve").getInventory();
+    inventory.setHelmet(new org.bukkit.inventory.ItemStack(Material.IRON_HELMET, 1));
+    inventory.setItem(0, new org.bukkit.inventory.ItemStack(Material.STONE, 3));
+
+    expect(inventory.getStorageContents()).toHaveLength(36);
+    expect(inventory.getArmorContents()[3].getType()).toBe(Material.IRON_HELMET);
+    expect(inventory.getItemInMainHand().getAmount()).toBe(3);
+  });
+});
+
+describe("enums", () => {
+  it("keeps constants stable across servers", () => {
+    const stone = org.bukkit.Material.STONE;
+    server.uninstall();
+    server = installMockServer();
+
+    expect(org.bukkit.Material.STONE).toBe(stone);
+  });
+
+  it("rejects unknown constants of closed enums", () => {
+    expect(() => Java.enumValue("org.bukkit.GameMode", "BOGUS")).toThrow("No enum constant org.bukkit.GameMode.BOGUS");
+    expect(GameMode.valueOf("CREATIVE")).toBe(org.bukkit.GameMode.CREATIVE);
+    expect(GameMode.values().map(mode => mode.name())).toEqual(["CREATIVE", "SURVIVAL", "ADVENTURE", "SPECTATOR"]);
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { createPaginatedMenu } from "../src/menus/types/paginatedMenu";
+import { Material } from "../src/items/enums/materialType";
+import { createNamedItem } from "../src/items/types/itemstack";
+import { InventoryOpenEvent } from "../src/events/types/inventory/inventoryOpenEvent";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+const numbers = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+const numberMenu = (count: number, extra: object = {}) => createPaginatedMenu({
+  title: "Numbers",
+  rows: 2,
+  entries: numbers(count),
+  item: (n: number) => createNamedItem(Material.PAPER, n, `#${n}`),
+  ...extra,
+});
+
+describe("createPaginatedMenu", () => {
+  it("moves between pages with the control buttons", async () => {
+    const steve = server.joinPlayer("Steve");
+    const view = numberMenu(20).open(steve);
+    await server.advance(1);
+
+    expect(view.pages).toBe(3);
+    expect(view.visible).toEqual(numbers(9));
+    expect(view.inventory.getItem(13).getAmount()).toBe(1);
+
+    server.clickInventory(steve, 17);
+    expect(view.page).toBe(1);
+    expect(view.visible).toEqual(numbers(18).slice(9));
+    expect(view.inventory.getItem(13).getAmount()).toBe(2);
+
+    view.setPage(99);
+    expect(view.visible).toEqual([19, 20]);
+    expect(view.inventory.getItem(17)).toBeNull();
+
+    server.clickInventory(steve, 9);
+    expect(view.page).toBe(1);
+  });
+
+  it("scrolls one row at a time", async () => {
+    const steve = server.joinPlayer("Steve");
+    const view = numberMenu(20, { rows: 3, scroll: "row" }).open(steve);
+    await server.advance(1);
+
+    view.next();
+    expect(view.visible).toEqual(numbers(27).slice(9, 20));
+    expect(view.pages).toBe(2);
+  });
+
+  it("filters and sorts in memory, back to the first page on a new filter", async () => {
+    const steve = server.joinPlayer("Steve");
+    const view = numberMenu(30, {
+      filters: { even: (n: number) => n % 2 === 0 },
+      sorts: { descending: (a: number, b: number) => b - a },
+    }).open(steve);
+    await server.advance(1);
+
+    view.next();
+    view.setFilter("even");
+    expect(view.page).toBe(0);
+    expect(view.total).toBe(15);
+    expect(view.visible).toEqual([2, 4, 6, 8, 10, 12, 14, 16, 18]);
+
+    view.setSort("descending");
+    expect(view.visible.slice(0, 3)).toEqual([30, 28, 26]);
+    expect(() => view.setFilter("odd")).toThrow('Unknown filter "odd"');
+  });
+
+  it("ignores a page load that finishes after the player moved on", async () => {
+    const pending: Array<(result: { entries: number[]; total: number }) => void> = [];
+    const menu = createPaginatedMenu<number>({
+      title: "Auctions",
+      rows: 2,
+      loadPage: () => new Promise(resolve => pending.push(resolve)),
+      item: n => createNamedItem(Material.PAPER, n, `#${n}`),
+    });
+    const steve = server.joinPlayer("Steve");
+    const view = menu.open(steve);
+
+    pending[0]({ entries: [1, 2], total: 30 });
+    await server.advance(1);
+    view.next();
+    view.next();
+    expect(view.loading).toBe(true);
+
+    pending[2]({ entries: [21, 22], total: 30 });
+    pending[1]({ entries: [11, 12], total: 30 });
+    await server.advance(1);
+    expect(view.loading).toBe(false);
+    expect(view.visible).toEqual([21, 22]);
+  });
+
+  it("forgets a view when it closes and starts over on the next open", async () => {
+    const closed: number[] = [];
+    const menu = numberMenu(20, { onClose: (view: any) => closed.push(view.page) });
+    const steve = server.joinPlayer("Steve");
+
+    const view = menu.open(steve);
+    await server.advance(1);
+    view.next();
+    steve.closeInventory();
+
+    expect(closed).toEqual([1]);
+    expect(menu.views()).toEqual([]);
+
+    const again = menu.open(steve);
+    await server.advance(1);
+    expect(again.page).toBe(0);
+    expect(menu.views()).toHaveLength(1);
+  });
+
+  it("loads nothing and keeps no state when InventoryOpenEvent is cancelled", async () => {
+    let cancel = true;
+    PaperTS.registerEvent<any>(InventoryOpenEvent, event => event.setCancelled(cancel));
+    const loads: string[] = [];
+    const closed: string[] = [];
+    const menu = createPaginatedMenu({
+      title: "Numbers",
+      rows: 2,
+      entries: player => {
+        loads.push(player.getName());
+        return numbers(3);
+      },
+      item: n => createNamedItem(Material.PAPER, n, `#${n}`),
+      onClose: view => closed.push(view.player.getName()),
+    });
+    const steve = server.joinPlayer("Steve");
+
+    const view = menu.open(steve);
+    await server.advance(1);
+    expect(view.isOpen).toBe(false);
+    expect(loads).toEqual([]);
+    expect(menu.views()).toEqual([]);
+
+    cancel = false;
+    const opened = menu.open(steve);
+    await server.advance(1);
+    expect(opened.isOpen).toBe(true);
+    expect(loads).toEqual(["Steve"]);
+    expect(opened.visible).toEqual([1, 2, 3]);
+
+    steve.closeInventory();
+    expect(closed).toEqual(["Steve"]);
+  });
+});
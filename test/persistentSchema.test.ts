@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { Data, defineDataSchema } from "../src/world/types/persistentSchema";
+import { GameMode } from "../src/entities/enums/gamemodeType";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+const PetV1 = defineDataSchema("pet", {
+  fields: {
+    name: Data.string(),
+    hp: Data.integer(),
+  },
+});
+
+const PetV2 = defineDataSchema("pet", {
+  version: 2,
+  fields: {
+    name: Data.string(),
+    health: Data.integer(),
+  },
+  migrations: {
+    2: data => data.rename("hp", "health"),
+  },
+});
+
+describe("defineDataSchema", () => {
+  it("round-trips nested objects, lists, enums, UUIDs and optional fields", () => {
+    const Profile = defineDataSchema("profile", {
+      fields: {
+        owner: Data.uuid(),
+        mode: Data.enumValue(GameMode),
+        stats: Data.object({ level: Data.integer(), xp: Data.double() }),
+        tags: Data.list(Data.string()),
+        nickname: Data.optional(Data.string()),
+      },
+    });
+    const steve = server.joinPlayer("Steve");
+
+    Profile.write(steve, {
+      owner: steve.getUniqueId(),
+      mode: GameMode.CREATIVE,
+      stats: { level: 3, xp: 41.5 },
+      tags: ["builder", "vip"],
+      nickname: null,
+    });
+    const profile = Profile.read(steve)!;
+
+    expect(profile.owner.toString()).toBe(steve.getUniqueId().toString());
+    expect(profile.mode.name()).toBe("CREATIVE");
+    expect(profile.stats).toEqual({ level: 3, xp: 41.5 });
+    expect(profile.tags).toEqual(["builder", "vip"]);
+    expect(profile.nickname).toBeNull();
+  });
+
+  it("reads null when nothing is stored, and after remove()", () => {
+    const steve = server.joinPlayer("Steve");
+    expect(PetV1.read(steve)).toBeNull();
+
+    PetV1.write(steve, { name: "Rex", hp: 10 });
+    expect(PetV1.has(steve)).toBe(true);
+
+    PetV1.remove(steve);
+    expect(PetV1.has(steve)).toBe(false);
+    expect(PetV1.read(steve)).toBeNull();
+  });
+
+  it("migrates old data on read and writes it back", () => {
+    const steve = server.joinPlayer("Steve");
+    PetV1.write(steve, { name: "Rex", hp: 10 });
+
+    expect(PetV2.read(steve)).toEqual({ name: "Rex", health: 10 });
+    /* Stored as version 2 now: the old schema can't read it any more */
+    expect(() => PetV1.read(steve)).toThrow("pet: stored version 2 is newer than the schema (1)");
+  });
+
+  it("names the path of a missing field", () => {
+    const Nested = defineDataSchema("nested", {
+      fields: { stats: Data.object({ level: Data.integer() }) },
+    });
+    const Renamed = defineDataSchema("nested", {
+      fields: { stats: Data.object({ rank: Data.integer() }) },
+    });
+    const steve = server.joinPlayer("Steve");
+
+    Nested.write(steve, { stats: { level: 2 } });
+    expect(() => Renamed.read(steve)).toThrow("nested.stats.rank: missing");
+  });
+
+  it("rejects enum constants that no longer exist", () => {
+    const Mode = defineDataSchema("mode", { fields: { mode: Data.string() } });
+    const Typed = defineDataSchema("mode", { fields: { mode: Data.enumValue(GameMode) } });
+    const steve = server.joinPlayer("Steve");
+
+    Mode.write(steve, { mode: "HARDCORE" });
+    expect(() => Typed.read(steve)).toThrow('mode.mode: unknown constant "HARDCORE"');
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { createPlayerDataStore, PlayerDataStore } from "../src/storage/types/playerDataStore";
+import { fromUUIDString } from "../src/java/types/uuid";
+
+interface Stats {
+  kills: number;
+}
+
+const STEVE = "00000000-0000-0000-0000-00000000000a";
+
+let server: MockServer;
+let stats: PlayerDataStore<Stats>;
+
+beforeEach(() => {
+  server = installMockServer();
+  stats = createPlayerDataStore<Stats>({ name: "stats", defaults: () => ({ kills: 0 }), autosaveSeconds: 0 });
+});
+
+afterEach(() => {
+  stats.dispose();
+  server.uninstall();
+});
+
+describe("online players", () => {
+  it("loads a record on join", async () => {
+    const steve = server.joinPlayer("Steve");
+    await server.advance(2);
+
+    stats.update(steve, s => { s.kills++; });
+    expect(stats.get(steve)).toEqual({ kills: 1 });
+  });
+
+  it("caches the record of a player who rejoined while loading", async () => {
+    server.quitPlayer(server.joinPlayer({ name: "Steve", uuid: STEVE }));
+    const steve = server.joinPlayer({ name: "Steve", uuid: STEVE });
+    await server.advance(2);
+
+    expect(stats.peek(steve)).toEqual({ kills: 0 });
+  });
+});
+
+describe("offline players", () => {
+  it("applies concurrent modify() calls one after the other", async () => {
+    const uuid = fromUUIDString(STEVE);
+    const first = stats.modify(uuid, s => { s.kills += 1; });
+    const second = stats.modify(uuid, s => { s.kills += 10; });
+    await server.advance(10);
+
+    expect(await first).toEqual({ kills: 1 });
+    expect(await second).toEqual({ kills: 11 });
+
+    const loaded = stats.load(uuid);
+    await server.advance(2);
+    expect(await loaded).toEqual({ kills: 11 });
+  });
+
+  it("saves pending changes on dispose", async () => {
+    const steve = server.joinPlayer({ name: "Steve", uuid: STEVE });
+    await server.advance(2);
+    stats.update(steve, s => { s.kills = 5; });
+    stats.save(steve);
+
+    stats.dispose();
+    stats = createPlayerDataStore<Stats>({ name: "stats", defaults: () => ({ kills: 0 }), autosaveSeconds: 0 });
+    const loaded = stats.load(fromUUIDString(STEVE));
+    await server.advance(2);
+    expect(await loaded).toEqual({ kills: 5 });
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { deserializeSnapshot, serializeSnapshot, snapshotPlayer } from "../src/entities/types/playerSnapshot";
+import { Material } from "../src/items/enums/materialType";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.uninstall();
+});
+
+describe("snapshotPlayer", () => {
+  it("restores items, stats and location", () => {
+    const steve = server.joinPlayer("Steve");
+    steve.getInventory().setItem(0, new org.bukkit.inventory.ItemStack(Material.DIAMOND, 3));
+    steve.setLevel(5);
+    steve.setTotalExperience(160);
+    const home = steve.getLocation();
+    const snapshot = snapshotPlayer(steve);
+
+    steve.getInventory().clear();
+    steve.setLevel(0);
+    steve.setTotalExperience(0);
+    steve.teleport(home.clone().add(100, 0, 0));
+    snapshot.restore();
+
+    expect(steve.getInventory().getItem(0).getAmount()).toBe(3);
+    expect(steve.getLevel()).toBe(5);
+    expect(steve.getTotalExperience()).toBe(160);
+    expect(steve.getLocation().getX()).toBe(home.getX());
+  });
+
+  it("restores max health before health", () => {
+    const steve = server.joinPlayer("Steve");
+    steve.setMaxHealth(40);
+    steve.setHealth(36);
+    const snapshot = snapshotPlayer(steve);
+
+    steve.setMaxHealth(20);
+    snapshot.restore();
+
+    expect(snapshot.maxHealth).toBe(40);
+    expect(steve.getMaxHealth()).toBe(40);
+    expect(steve.getHealth()).toBe(36);
+  });
+
+  it("dismounts the player before teleporting back", () => {
+    const steve = server.joinPlayer("Steve");
+    const alex = server.joinPlayer("Alex");
+    const snapshot = snapshotPlayer(steve);
+
+    alex.addPassenger(steve);
+    snapshot.restore();
+
+    expect(steve.isInsideVehicle()).toBe(false);
+    expect(alex.getPassengers().size()).toBe(0);
+  });
+
+  it("keeps total experience and max health through serialization", () => {
+    const steve = server.joinPlayer("Steve");
+    steve.setTotalExperience(42);
+    steve.setMaxHealth(30);
+
+    const copy = deserializeSnapshot(JSON.stringify(serializeSnapshot(snapshotPlayer(steve))));
+    expect(copy.totalExperience).toBe(42);
+    expect(copy.maxHealth).toBe(30);
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { Command, EventHandler, registerPlugin, unregisterPlugin } from "../src/decorators";
+import { PaperPlugin, startPlugin, stopPlugin } from "../src/plugin";
+import { PlayerJoinEvent } from "../src/events/types/player/playerJoinEvent";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.uninstall();
+});
+
+class Greeter {
+  greeted: string[] = [];
+
+  @EventHandler(PlayerJoinEvent)
+  onJoin(event: any) {
+    this.greeted.push(event.getPlayer().getName());
+  }
+
+  @Command({ name: "hello", aliases: ["hi"] })
+  hello(sender: any) {
+    sender.sendMessage("Hello!");
+  }
+}
+
+describe("registerPlugin", () => {
+  it("registers listeners and commands", () => {
+    const greeter = new Greeter();
+    registerPlugin(greeter);
+
+    const steve = server.joinPlayer("Steve");
+    expect(greeter.greeted).toEqual(["Steve"]);
+    expect(server.getCommandLabels()).toEqual(expect.arrayContaining(["hello", "hi"]));
+
+    steve.clearMessages();
+    server.dispatchCommand(steve, "hi");
+    expect(steve.nextMessage()).toBe("Hello!");
+  });
+
+  it("removes everything on dispose", () => {
+    const greeter = new Greeter();
+    const registration = registerPlugin(greeter);
+
+    registration.dispose();
+    expect(registration.disposed).toBe(true);
+    expect(server.listenerCount(PlayerJoinEvent)).toBe(0);
+    expect(server.getCommandLabels()).not.toContain("hello");
+
+    server.joinPlayer("Steve");
+    expect(greeter.greeted).toEqual([]);
+  });
+
+  it("replaces an earlier registration of the same instance", () => {
+    const greeter = new Greeter();
+    registerPlugin(greeter);
+    registerPlugin(greeter);
+
+    server.joinPlayer("Steve");
+    expect(greeter.greeted).toEqual(["Steve"]);
+    expect(unregisterPlugin(greeter)).toBe(true);
+    expect(unregisterPlugin(greeter)).toBe(false);
+  });
+});
+
+class LifecyclePlugin extends PaperPlugin {
+  calls: string[] = [];
+  ticks = 0;
+
+  protected onLoad() {
+    this.calls.push("load");
+  }
+
+  protected onEnable() {
+    this.calls.push("enable");
+    this.runTimer(0, 1, () => this.ticks++);
+    this.track(() => this.calls.push("released"));
+  }
+
+  protected onDisable() {
+    this.calls.push("disable");
+  }
+
+  @EventHandler(PlayerJoinEvent)
+  onJoin() {
+    this.calls.push("join");
+  }
+}
+
+describe("PaperPlugin", () => {
+  it("runs the hooks in order", () => {
+    const plugin = startPlugin(new LifecyclePlugin());
+    expect(plugin.isEnabled).toBe(true);
+
+    server.joinPlayer("Steve");
+    stopPlugin(plugin);
+    stopPlugin(plugin);
+
+    expect(plugin.calls).toEqual(["load", "enable", "join", "disable", "released"]);
+    expect(plugin.isEnabled).toBe(false);
+  });
+
+  it("releases listeners and tasks when the server disables it", () => {
+    const plugin = startPlugin(new LifecyclePlugin());
+    server.performTicks(3);
+    const ticks = plugin.ticks;
+
+    server.disablePlugin();
+    server.performTicks(3);
+    server.joinPlayer("Steve");
+
+    expect(plugin.ticks).toBe(ticks);
+    expect(plugin.calls).not.toContain("join");
+    expect(server.listenerCount(PlayerJoinEvent)).toBe(0);
+  });
+});
+
+class TaskPlugin extends PaperPlugin {
+  runs = 0;
+
+  schedule(count: number) {
+    for (let i = 0; i < count; i++) {
+      this.runLater(i, () => this.runs++);
+      this.runAsync(() => this.runs++);
+    }
+  }
+
+  scheduleTimer(times: number) {
+    let left = times;
+    this.runTimer(0, 1, task => {
+      this.runs++;
+      if (--left === 0) task.cancel();
+    });
+  }
+
+  scheduleCancelled() {
+    this.runLater(10, () => this.runs++).cancel();
+  }
+}
+
+describe("PaperPlugin tasks", () => {
+  it("stops tracking one-shot tasks once they have run", () => {
+    const plugin = startPlugin(new TaskPlugin());
+    const baseline = plugin.trackedCount;
+
+    plugin.schedule(50);
+    expect(plugin.trackedCount).toBe(baseline + 100);
+
+    server.performTicks(50);
+    expect(plugin.runs).toBe(100);
+    expect(plugin.trackedCount).toBe(baseline);
+  });
+
+  it("stops tracking cancelled tasks", () => {
+    const plugin = startPlugin(new TaskPlugin());
+    const baseline = plugin.trackedCount;
+
+    plugin.scheduleCancelled();
+    plugin.scheduleTimer(3);
+    expect(plugin.trackedCount).toBe(baseline + 1);
+
+    server.performTicks(5);
+    expect(plugin.runs).toBe(3);
+    expect(plugin.trackedCount).toBe(baseline);
+  });
+
+  it("still cancels pending tasks on disable", () => {
+    const plugin = startPlugin(new TaskPlugin());
+    plugin.schedule(5);
+
+    stopPlugin(plugin);
+    server.performTicks(10);
+
+    expect(plugin.runs).toBe(0);
+    expect(plugin.trackedCount).toBe(0);
+  });
+});
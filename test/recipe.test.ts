@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { getRegisteredRecipe, registerShapedRecipe } from "../src/recipes/types/recipe";
+import { Material } from "../src/items/enums/materialType";
+import { PlayerJoinEvent } from "../src/events/types/player/playerJoinEvent";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+describe("registerShapedRecipe", () => {
+  const options = {
+    result: Material.DIAMOND,
+    shape: ["CC", "CC"],
+    ingredients: { C: Material.COAL_BLOCK },
+    discover: true,
+  };
+
+  it("removes recipes and the join listener on disable", () => {
+    registerShapedRecipe("compressed", options);
+
+    server.disablePlugin();
+    expect(getRegisteredRecipe("compressed")).toBeNull();
+    expect(server.listenerCount(PlayerJoinEvent)).toBe(0);
+  });
+
+  it("lets joining players discover the recipe", () => {
+    const recipe = registerShapedRecipe("compressed", options);
+    const steve = server.joinPlayer("Steve");
+
+    expect(steve.hasDiscoveredRecipe(recipe.key)).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import {
+  cancelAllTasks,
+  countdown,
+  runAsync,
+  runLater,
+  runTimer,
+  secondsToTicks,
+  sleepTicks,
+  supplyAsync,
+  TaskCancelledError,
+} from "../src/scheduler/types/scheduler";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+describe("tasks", () => {
+  it("runs a delayed task once, after its delay", () => {
+    const runs: number[] = [];
+    const task = runLater(3, () => runs.push(1));
+
+    server.performTicks(2);
+    expect(runs).toEqual([]);
+    expect(task.isCancelled()).toBe(false);
+
+    server.performTicks(5);
+    expect(runs).toEqual([1]);
+    expect(task.isCancelled()).toBe(true);
+  });
+
+  it("doesn't run a task cancelled before its delay", () => {
+    let ran = false;
+    runLater(3, () => (ran = true)).cancel();
+
+    server.performTicks(5);
+    expect(ran).toBe(false);
+  });
+
+  it("lets a timer cancel itself through its own handle", () => {
+    let runs = 0;
+    runTimer(0, 2, task => {
+      if (++runs === 3) task.cancel();
+    });
+
+    server.performTicks(20);
+    expect(runs).toBe(3);
+  });
+
+  it("runs async tasks", () => {
+    let ran = false;
+    const task = runAsync(() => (ran = true));
+
+    server.performTicks(1);
+    expect(ran).toBe(true);
+    expect(task.sync).toBe(false);
+  });
+
+  it("converts seconds to whole ticks", () => {
+    expect(secondsToTicks(5)).toBe(100);
+    expect(secondsToTicks(0.33)).toBe(7);
+  });
+});
+
+describe("countdown", () => {
+  it("ticks once per second, then finishes a second after the last tick", () => {
+    const ticks: number[] = [];
+    let finished = false;
+    countdown(3, left => ticks.push(left), () => (finished = true));
+
+    server.performTicks(1);
+    expect(ticks).toEqual([3]);
+
+    server.performTicks(40);
+    expect(ticks).toEqual([3, 2, 1]);
+    expect(finished).toBe(false);
+
+    server.performTicks(20);
+    expect(finished).toBe(true);
+  });
+
+  it("doesn't finish when cancelled", () => {
+    let finished = false;
+    const task = countdown(2, () => {}, () => (finished = true));
+
+    server.performTicks(21);
+    task.cancel();
+    server.performTicks(60);
+    expect(finished).toBe(false);
+  });
+});
+
+describe("supplyAsync", () => {
+  it("resolves with the computed value", async () => {
+    const result = supplyAsync(() => 6 * 7);
+
+    await server.advance(2);
+    await expect(result).resolves.toBe(42);
+  });
+
+  it("rejects with the error thrown", async () => {
+    const result = supplyAsync(() => {
+      throw new Error("disk on fire");
+    });
+    result.catch(() => {});
+
+    await server.advance(2);
+    await expect(result).rejects.toThrow("disk on fire");
+  });
+});
+
+describe("sleepTicks", () => {
+  it("resolves after the given ticks", async () => {
+    let woke = false;
+    void sleepTicks(5).then(() => (woke = true));
+
+    await server.advance(4);
+    expect(woke).toBe(false);
+    await server.advance(1);
+    expect(woke).toBe(true);
+  });
+
+  it("rejects when cancelAllTasks() cuts it short", async () => {
+    const sleep = sleepTicks(20);
+    cancelAllTasks();
+
+    await expect(sleep).rejects.toBeInstanceOf(TaskCancelledError);
+  });
+
+  it("rejects when the plugin is disabled, running finally blocks", async () => {
+    const steps: string[] = [];
+    const round = (async () => {
+      try {
+        await sleepTicks(20);
+        steps.push("ended");
+      } finally {
+        steps.push("cleanup");
+      }
+    })();
+
+    await server.advance(5);
+    server.disablePlugin();
+
+    await expect(round).rejects.toBeInstanceOf(TaskCancelledError);
+    expect(steps).toEqual(["cleanup"]);
+  });
+
+  it("rejects sleeps started after an earlier disable", async () => {
+    server.disablePlugin();
+    server.uninstall();
+    server = installMockServer();
+
+    const sleep = sleepTicks(20);
+    server.disablePlugin();
+
+    await expect(sleep).rejects.toBeInstanceOf(TaskCancelledError);
+  });
+});
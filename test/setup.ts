@@ -0,0 +1,11 @@
+/**
+ * Runs before each test file is imported.
+ *
+ * Framework modules read Java constants at import time, so a mock server
+ * has to be installed before any of them load. Tests install their own
+ * server in beforeEach (which replaces this one).
+ */
+
+import { installMockServer } from "../src/testing/mockServer";
+
+installMockServer();
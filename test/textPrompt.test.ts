@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { installMockServer, MockServer } from "../src/testing/mockServer";
+import { cancelPrompt, hasPrompt, promptText } from "../src/prompts/types/textPrompt";
+import { AsyncPlayerChatEvent } from "../src/events/types/player/asyncPlayerChatEvent";
+
+let server: MockServer;
+
+beforeEach(() => {
+  server = installMockServer();
+});
+
+afterEach(() => {
+  server.disablePlugin();
+  server.uninstall();
+});
+
+/** Track a prompt's result without awaiting it */
+function watch(prompt: Promise<string | null>): { settled: boolean; result: string | null } {
+  const state = { settled: false, result: null as string | null };
+  void prompt.then(result => {
+    state.settled = true;
+    state.result = result;
+  });
+  return state;
+}
+
+describe("promptText via chat", () => {
+  it("resolves with the next chat message, hidden from other players", async () => {
+    const steve = server.joinPlayer("Steve");
+    const alex = server.joinPlayer("Alex");
+    steve.clearMessages();
+    alex.clearMessages();
+    const answer = watch(promptText(steve, { message: "Name your warp:" }));
+
+    expect(steve.nextMessage()).toBe("Name your warp:");
+    const event = server.chat(steve, "  spawn  ");
+    await server.advance(1);
+
+    expect(event.isCancelled()).toBe(true);
+    expect(alex.nextMessage()).toBeNull();
+    expect(answer).toEqual({ settled: true, result: "spawn" });
+    expect(hasPrompt(steve)).toBe(false);
+    expect(server.listenerCount(AsyncPlayerChatEvent)).toBe(0);
+  });
+
+  it("asks again until an answer passes validation", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve, {
+      message: "Price?",
+      validate: text => (Number(text) > 0 ? null : "§cEnter a positive number"),
+    }));
+    steve.clearMessages();
+
+    server.chat(steve, "free");
+    await server.advance(1);
+    expect(steve.nextMessage()).toBe("§cEnter a positive number");
+    expect(steve.nextMessage()).toBe("Price?");
+    expect(answer.settled).toBe(false);
+
+    server.chat(steve, "25");
+    await server.advance(1);
+    expect(answer.result).toBe("25");
+  });
+
+  it("gives up on a cancel word", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve));
+
+    server.chat(steve, "CANCEL");
+    await server.advance(1);
+    expect(answer).toEqual({ settled: true, result: null });
+  });
+});
+
+describe("promptText endings", () => {
+  it("resolves null after the timeout", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve, { timeout: 2 }));
+
+    await server.advance(39);
+    expect(answer.settled).toBe(false);
+    await server.advance(1);
+    expect(answer).toEqual({ settled: true, result: null });
+  });
+
+  it("resolves null when the player quits", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve));
+
+    server.quitPlayer(steve);
+    await server.advance(1);
+    expect(answer).toEqual({ settled: true, result: null });
+    expect(server.listenerCount()).toBe(0);
+  });
+
+  it("resolves null on cancelPrompt() or a newer prompt", async () => {
+    const steve = server.joinPlayer("Steve");
+    const first = watch(promptText(steve));
+    const second = watch(promptText(steve));
+    await server.advance(1);
+    expect(first).toEqual({ settled: true, result: null });
+    expect(hasPrompt(steve)).toBe(true);
+
+    cancelPrompt(steve);
+    await server.advance(1);
+    expect(second).toEqual({ settled: true, result: null });
+  });
+});
+
+describe("promptText via anvil and sign", () => {
+  it("submits the anvil's rename text when the result is clicked", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve, { via: "anvil", initial: "name" }));
+    const anvil = steve.getOpenInventory().getTopInventory();
+
+    anvil.setRenameText("Rex");
+    server.clickInventory(steve, 2);
+    await server.advance(1);
+
+    expect(answer.result).toBe("Rex");
+    expect(anvil.getItem(0)).toBeNull();
+  });
+
+  it("gives up when the anvil is closed", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve, { via: "anvil" }));
+
+    steve.closeInventory();
+    await server.advance(1);
+    expect(answer).toEqual({ settled: true, result: null });
+  });
+
+  it("takes the first line of the sign", async () => {
+    const steve = server.joinPlayer("Steve");
+    const answer = watch(promptText(steve, { via: "sign", message: "Price per item" }));
+
+    server.editSign(steve, ["  42 ", "Price per item"]);
+    await server.advance(1);
+    expect(answer.result).toBe("42");
+  });
+});
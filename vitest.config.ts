@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    /* Framework modules read Java constants on import: the globals must exist first */
+    setupFiles: ["test/setup.ts"],
+  },
+});